@@ -9,23 +9,6 @@
 
 import { toFP, type FP } from '../primitive-types/euclidean/euclidean-types.js';
 
-// -----------------------------------------------
-// Thrust Tuning
-// -----------------------------------------------
-
-/**
- * Multiplier for how much fuelMass is consumed per unit of thrust magnitude.
- * Default: 1.0 (1:1 ratio of magnitude to fuel consumed)
- */
-export const FUEL_BURN_RATE: FP = toFP(1);
-
-/**
- * Multiplier for how much total entity mass is lost per unit of thrust.
- * Represents propellant mass ejection.
- * Default: 1.0 (1:1 ratio of magnitude to mass lost)
- */
-export const MASS_PROPULSION_LOSS: FP = toFP(1);
-
 // -----------------------------------------------
 // Safety Clamps
 // -----------------------------------------------
@@ -82,3 +65,150 @@ export const REFINE_EFFICIENCY: FP = toFP(0.8);
  * Limits how much volatilesMass can be processed per action.
  */
 export const REFINE_MAX_BATCH: FP = toFP(5000);
+
+// -----------------------------------------------
+// Manufacturing Tuning
+// -----------------------------------------------
+
+/**
+ * Maximum mineral mass a manufacturer can reshape in a single tick (FP units).
+ * Default: 5000
+ */
+export const MANUFACTURE_MAX_MASS: FP = toFP(5000);
+
+// -----------------------------------------------
+// Skill Streaks
+// -----------------------------------------------
+
+/**
+ * Per-tick growth of EXTRACT output while the streak holds (FP).
+ * output = base × 1.1^consecutive_ticks
+ */
+export const EXTRACT_STREAK_GROWTH: FP = toFP(1.1);
+
+/**
+ * Per-tick growth of REFINE and MANUFACTURE throughput (FP).
+ * rate = base × 1.05^consecutive_ticks
+ */
+export const REFINE_STREAK_GROWTH: FP = toFP(1.05);
+export const MANUFACTURE_STREAK_GROWTH: FP = toFP(1.05);
+
+/**
+ * Streak length past which the multiplier stops growing.
+ * Default: 30 (1.1^30 ≈ 17.4, 1.05^30 ≈ 4.3)
+ */
+export const SKILL_STREAK_MAX_TICKS = 30;
+
+// -----------------------------------------------
+// Resource Wells
+// -----------------------------------------------
+
+/**
+ * Mineral density of a well that declares none (FP, mass per unit volume).
+ * Default: 1.0 (every unit of volume extracted weighs one unit of mass)
+ */
+export const DEFAULT_WELL_DENSITY: FP = toFP(1);
+
+/**
+ * Purity (mass / volume) at and above which a mineral counts as ore;
+ * anything lighter is slag.
+ */
+export const ORE_PURITY_THRESHOLD: FP = toFP(1);
+
+/**
+ * Share of the extracted mineral mass a MOON well yields as trace volatiles (FP).
+ * Drawn from the well's own volatiles, never created.
+ */
+export const MOON_TRACE_VOLATILES: FP = toFP(0.05);
+
+// -----------------------------------------------
+// Bodies
+// -----------------------------------------------
+
+/**
+ * Mass of a crew body (FP). Carried inside its ship like any cargo.
+ * Default: 80 units
+ */
+export const BODY_MASS: FP = toFP(80);
+
+/**
+ * Volume a crew body takes up in its container (FP).
+ * Default: 2 units
+ */
+export const BODY_VOLUME: FP = toFP(2);
+
+// -----------------------------------------------
+// Surface (Pocket Universe)
+// -----------------------------------------------
+
+/**
+ * Zone count for a surface that has no generated gravity map.
+ * Each zone owns an equal segment of the orbital rail.
+ */
+export const DEFAULT_SURFACE_ZONE_COUNT = 6;
+
+/**
+ * Z value of every orbital rail. Launch cost scales with the
+ * difference between the surface Z and this constant.
+ * Default: 50
+ */
+export const ORBIT_Z: FP = toFP(50);
+
+/**
+ * Fractional tolerance on the moon docking thrust check.
+ * Docking succeeds while m × Δv stays within available thrust × (1 + margin).
+ * Default: 0.1 (10% over available thrust still docks)
+ */
+export const DOCKING_MARGIN_OF_ERROR: FP = toFP(0.1);
+
+/**
+ * Range spent per unit of Z climbed toward high ground on a surface.
+ * Moving downhill costs distance only.
+ * Default: 1.0 (one unit of Z climbed costs one unit of range)
+ */
+export const SURFACE_CLIMB_COST: FP = toFP(1);
+
+/**
+ * Number of gravity-map samples taken along a surface path when
+ * pricing the climb.
+ * Default: 8
+ */
+export const SURFACE_PATH_SAMPLES = 8;
+
+// -----------------------------------------------
+// Vector Lock (Autopilot)
+// -----------------------------------------------
+
+/**
+ * Fraction of the remaining distance a PURSUIT lock tries to close per tick.
+ * The closing speed shrinks with the gap, so the pursuer converges on the
+ * target's vector as it arrives.
+ * Default: 0.5 (halve the gap each tick)
+ */
+export const PURSUIT_CLOSING_RATE: FP = toFP(0.5);
+
+// -----------------------------------------------
+// Spatial Index
+// -----------------------------------------------
+
+/**
+ * Edge length of an entity grid cell.
+ * A reach query (ship reach 500) touches at most a 2x2 block of cells.
+ * Default: 1000 units
+ */
+export const SPATIAL_ENTITY_CELL_SIZE: FP = toFP(1000);
+
+/**
+ * Edge length of a celestial capture grid cell.
+ * Sized to the largest generated capture radius (Sol, 100000), so a
+ * capture disk overlaps at most a 3x3 block of cells.
+ * Default: 100000 units
+ */
+export const SPATIAL_CELESTIAL_CELL_SIZE: FP = toFP(100000);
+
+/**
+ * Cells a single capture disk may occupy before it is kept in a
+ * short list checked on every capture query instead.
+ * Default: 64
+ */
+export const SPATIAL_MAX_CELLS_PER_DISK = 64;
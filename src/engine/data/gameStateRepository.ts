@@ -7,6 +7,7 @@
 
 import Database from 'better-sqlite3';
 import type { GameState } from '../state-types/state-types.js';
+import { migrateState } from './stateMigration.js';
 
 // -----------------------------------------------
 // Types for persistence
@@ -219,11 +220,12 @@ export class GameStateRepository {
     /**
      * Load the state snapshot for a specific tick
      * Returns null if tick doesn't exist
+     * Older snapshots are migrated to the current shape
      */
     loadState(tick: number): GameState | null {
         const row = this.stmtLoadSnapshot.get(tick) as StateSnapshotRow | undefined;
         if (!row) return null;
-        return JSON.parse(row.data) as GameState;
+        return migrateState(JSON.parse(row.data) as GameState);
     }
     
     /**
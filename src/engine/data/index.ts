@@ -8,3 +8,5 @@ export {
     resetRepository,
     type PlayerAction,
 } from './gameStateRepository.js';
+
+export { migrateState } from './stateMigration.js';
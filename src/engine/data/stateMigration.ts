@@ -0,0 +1,128 @@
+// ===============================================
+// STATE MIGRATION
+// ===============================================
+// Brings snapshots saved by older builds up to the current GameState
+// shape. Every loaded snapshot passes through here, so fields added since
+// it was saved get filled in rather than read as undefined.
+// - gravity: planets and moons get one from their own (seed, body id)
+//   stream, in the range genesis uses; it sets their rail gates
+// - surfaces: rebuilt from the (migrated) celestials; each map reproduces
+//   from (seed, body id) alone, so this gives the maps genesis would have made
+// - wellDensity: drawn from the well's own stream as genesis does; a well
+//   saved with no volume is given the volume of its deposit
+// - spaceForce: player ships get the genesis starting force
+// - dryMass: older snapshots only kept mass, which already counted the
+//   entity's fuel, volatiles, loaded contents and welded parts. dry mass is
+//   what is left without them, and the cached totals are then refreshed
+// Pure function: (GameState) -> GameState
+
+import type { Entity } from '../primitive-types/semantic/entity/entity-types.js';
+import type { CelestialBody, SurfaceBody } from '../primitive-types/semantic/celestial/celestial-types.js';
+import { isSurfaceBody } from '../primitive-types/semantic/celestial/celestial-types.js';
+import type { GameState } from '../state-types/state-types.js';
+import { fpAdd, fpMax, fpSub, type FP } from '../primitive-types/euclidean/euclidean-types.js';
+import {
+    DEFAULT_GENESIS_CONFIG,
+    generateMissingGravity,
+    generateSurfaces,
+    generateWellDensity,
+} from '../genesis/genesisService.js';
+import { getDepositVolume } from '../state-handlers/state-systems/extractionSystem.js';
+import { refreshTotalMass } from '../state-handlers/state-systems/massSystem.js';
+
+// -----------------------------------------------
+// Celestials
+// -----------------------------------------------
+
+function migrateGravity(seed: string, celestials: readonly CelestialBody[]): readonly CelestialBody[] {
+    // snapshots are untyped JSON: a saved planet may have no gravity
+    const lacksGravity = (body: CelestialBody): body is SurfaceBody =>
+        isSurfaceBody(body) && (body.gravity as FP | undefined) === undefined;
+    if (!celestials.some(lacksGravity)) return celestials;
+
+    return celestials.map(body => lacksGravity(body)
+        ? { ...body, gravity: generateMissingGravity(seed, body) }
+        : body);
+}
+
+// -----------------------------------------------
+// Properties
+// -----------------------------------------------
+
+function migrateProperties(seed: string, entities: readonly Entity[]): readonly Entity[] {
+    const lacksWellDensity = (e: Entity) =>
+        e.wellOriginType !== undefined && e.wellDensity === undefined;
+    const lacksSpaceForce = (e: Entity) =>
+        e.type === 'ENTITY' && e.playerId !== undefined && e.spaceForce === undefined;
+    if (!entities.some(e => lacksWellDensity(e) || lacksSpaceForce(e))) return entities;
+
+    return entities.map(entity => {
+        if (entity.wellOriginType && lacksWellDensity(entity)) {
+            return { ...entity, wellDensity: generateWellDensity(seed, entity.id, entity.wellOriginType) };
+        }
+        if (lacksSpaceForce(entity)) {
+            return { ...entity, spaceForce: DEFAULT_GENESIS_CONFIG.playerStartingSpaceForce };
+        }
+        return entity;
+    });
+}
+
+// -----------------------------------------------
+// Mass
+// -----------------------------------------------
+
+/**
+ * the mass an older snapshot counted into an entity on behalf of others:
+ * everything loaded into it or welded to it.
+ */
+function getCarriedMass(entity: Entity, entities: readonly Entity[]): FP {
+    let carried: FP = 0;
+    for (const other of entities) {
+        if (other.parentId === entity.id || other.weldParentId === entity.id) {
+            carried = fpAdd(carried, other.mass);
+        }
+    }
+    return carried;
+}
+
+function migrateDryMass(entities: readonly Entity[]): readonly Entity[] {
+    if (entities.every(e => e.dryMass !== undefined)) return entities;
+
+    const migrated = entities.map(entity => {
+        if (entity.dryMass !== undefined) return entity;
+
+        const withoutFuel = fpSub(fpSub(entity.mass, entity.fuelMass), entity.volatilesMass);
+        const dryMass = fpMax(fpSub(withoutFuel, getCarriedMass(entity, entities)), 0);
+        // a well saved with no volume gets its deposit's
+        const volume = entity.wellDensity !== undefined && entity.volume === 0
+            ? getDepositVolume(dryMass, entity.wellDensity)
+            : entity.volume;
+        return { ...entity, dryMass, volume };
+    });
+
+    return refreshTotalMass(migrated);
+}
+
+// -----------------------------------------------
+// Migration
+// -----------------------------------------------
+
+/**
+ * fills in whatever a saved snapshot predates. a current snapshot comes
+ * back unchanged.
+ */
+export function migrateState(state: GameState): GameState {
+    // snapshots are untyped JSON: fields added later may be missing
+    const saved = state as Partial<GameState> & Omit<GameState, 'surfaces'>;
+
+    const celestials = migrateGravity(state.seed, state.celestials);
+    const surfaces = saved.surfaces ?? generateSurfaces(state.seed, celestials);
+    const entities = migrateDryMass(migrateProperties(state.seed, state.entities));
+
+    if (
+        celestials === state.celestials &&
+        surfaces === saved.surfaces &&
+        entities === state.entities
+    ) return state;
+    return { ...state, celestials: [...celestials], surfaces, entities: [...entities] };
+}
@@ -15,12 +15,30 @@
 // - an action depends on a target that might move
 // - an action depends on state that another player might change
 // - physics settlement between waves could invalidate an action
+//
+// WORMHOLE PREDICTION:
+// the draft stops before translation, so it predicts which entities
+// will cross a wormhole endpoint when the tick settles and where they
+// will emerge.
+//
+// SKILL STREAKS:
+// for every queued EXTRACT, REFINE and MANUFACTURE the draft reports
+// the streak multiplier it will run at and the output the same action
+// would reach if it is repeated next tick.
 
 import type { GameState } from '../state-types/state-types.js';
 import type { Action } from '../primitive-types/semantic/action/action-types.js';
-import type { Entity } from '../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, WormholeTransit } from '../primitive-types/semantic/entity/entity-types.js';
 import { resolveWaves, type WaveResolutionResult } from '../state-handlers/tickResolver.js';
-import { fpDistanceSquared, fpMul, type FP } from '../primitive-types/euclidean/euclidean-types.js';
+import { fpAddVector, type FP } from '../primitive-types/euclidean/euclidean-types.js';
+import { REFINE_MAX_BATCH, MANUFACTURE_MAX_MASS } from '../config/engineConfig.js';
+import { isWithinSeparation } from '../state-handlers/state-systems/surfaceSystem.js';
+import { getWormholeTransit } from '../state-handlers/state-systems/wormholeSystem.js';
+import {
+    getSkillTargetId,
+    projectSkill,
+    type SkillProjection,
+} from '../state-handlers/state-systems/streakSystem.js';
 
 // -----------------------------------------------
 // Draft Types
@@ -51,10 +69,35 @@ export interface DraftResult {
     // potential conflicts detected
     conflicts: DraftConflict[];
     
+    // wormhole traversals the tick settlement is predicted to produce
+    transits: DraftTransit[];
+
+    // streak multipliers and projected output of the queued skilled actions
+    skills: DraftSkill[];
+    
     // whether the draft is considered "safe" (no critical conflicts)
     isSafe: boolean;
 }
 
+export interface DraftTransit {
+    // the entity predicted to traverse
+    entityId: string;
+    
+    // where it enters, where it emerges, and the systems on either side
+    transit: WormholeTransit;
+}
+
+export interface DraftSkill {
+    // the queued action's index and actor
+    actionIndex: number;
+    entityId: string;
+
+    // multiplier and output this tick, and next tick if repeated.
+    // output is the scaled rate (EXTRACT), batch capacity (REFINE) or
+    // mass capacity (MANUFACTURE), before what the targets can supply
+    projection: SkillProjection;
+}
+
 export interface EntityProjection {
     // the entity in its current state
     current: Entity;
@@ -99,6 +142,8 @@ export function projectDraft(
         waveCount: waveResult.waveCount,
         actionsPerWave: waveResult.actionsPerWave,
         conflicts,
+        transits: predictTransits(waveResult.finalState),
+        skills: projectSkills(currentState, indexedActions),
         isSafe: conflicts.length === 0,
     };
 }
@@ -130,6 +175,77 @@ export function projectEntity(
     };
 }
 
+// -----------------------------------------------
+// Wormhole Prediction
+// -----------------------------------------------
+
+/**
+ * predicts the wormhole traversals of the tick settlement:
+ * each entity's path this tick runs from its ghost position
+ * along its ghost velocity (translation is position += velocity).
+ */
+function predictTransits(ghostState: GameState): DraftTransit[] {
+    const transits: DraftTransit[] = [];
+    
+    for (const entity of ghostState.entities) {
+        if (entity.linkedCelestialId !== undefined) continue;
+        
+        const translated = { ...entity, position: fpAddVector(entity.position, entity.velocity) };
+        const transit = getWormholeTransit(translated, ghostState.celestials);
+        if (transit) {
+            transits.push({ entityId: entity.id, transit });
+        }
+    }
+    
+    return transits;
+}
+
+// -----------------------------------------------
+// Skill Projection
+// -----------------------------------------------
+
+/**
+ * the streak each queued skilled action runs at, from the actor's
+ * streak in the current state.
+ */
+function projectSkills(currentState: GameState, actions: Action[]): DraftSkill[] {
+    const skills: DraftSkill[] = [];
+
+    actions.forEach((action, actionIndex) => {
+        if (action.type !== 'EXTRACT' && action.type !== 'REFINE' && action.type !== 'MANUFACTURE') {
+            return;
+        }
+
+        const actor = currentState.entities.find(e => e.id === action.entityId);
+        if (!actor) return;
+
+        const inputs = action as unknown as Record<string, unknown>;
+        const targetId = getSkillTargetId(action.type, actor.id, inputs);
+
+        skills.push({
+            actionIndex,
+            entityId: actor.id,
+            projection: projectSkill(actor, action.type, targetId, getSkillBase(action), currentState.tick),
+        });
+    });
+
+    return skills;
+}
+
+/**
+ * the unscaled per-tick output of a skilled action.
+ */
+function getSkillBase(action: Action): FP {
+    switch (action.type) {
+        case 'EXTRACT':
+            return action.rate;
+        case 'REFINE':
+            return REFINE_MAX_BATCH;
+        default:
+            return MANUFACTURE_MAX_MASS;
+    }
+}
+
 // -----------------------------------------------
 // Conflict Detection
 // -----------------------------------------------
@@ -238,15 +354,13 @@ function checkReachInvalidated(
     if (!actor || actor.reach <= 0) return conflicts;
     
     const targetIds = getTargetIds(action);
-    const reachSquared = fpMul(actor.reach, actor.reach);
     
     for (const targetId of targetIds) {
         const target = currentState.entities.find(e => e.id === targetId);
         if (!target) continue;
         
-        const distSquared = fpDistanceSquared(actor.position, target.position);
-        
-        if (distSquared > reachSquared) {
+        // a target in another coordinate space is never in reach
+        if (!isWithinSeparation(actor, target, actor.reach)) {
             conflicts.push({
                 waveIndex,
                 actionIndex,
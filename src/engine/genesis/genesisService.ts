@@ -13,11 +13,44 @@ import type {
     Planet, 
     Moon, 
     Asteroid, 
-    Wormhole 
+    Wormhole,
+    SurfaceBody,
 } from '../primitive-types/semantic/celestial/celestial-types.js';
-import type { Entity } from '../primitive-types/semantic/entity/entity-types.js';
-import type { GameState, StarSystem, GenesisConfig } from '../state-types/state-types.js';
-import { toFP, fpAdd, fpMul, fpDistanceSquared } from '../primitive-types/euclidean/euclidean-types.js';
+import { isSurfaceBody } from '../primitive-types/semantic/celestial/celestial-types.js';
+import type { Entity, WellOriginType } from '../primitive-types/semantic/entity/entity-types.js';
+import type {
+    GameState,
+    StarSystem,
+    GenesisConfig,
+    SurfaceMap,
+    GravityWave,
+    Crater,
+    PointOfInterest,
+    PointOfInterestKind,
+} from '../state-types/state-types.js';
+import {
+    toFP,
+    fpAdd,
+    fpSub,
+    fpMul,
+    fpDiv,
+    fpMax,
+    fpAtan2,
+    fpAddVector,
+    fpPolarToVector,
+    fpIsWithinDistance,
+    fpHeadingToVector,
+} from '../primitive-types/euclidean/euclidean-types.js';
+import { getOrbitPosition } from '../state-handlers/state-systems/celestialSystem.js';
+import { getSurfaceZ } from '../state-handlers/state-systems/surfaceSystem.js';
+import { getDepositVolume, getWellDensity } from '../state-handlers/state-systems/extractionSystem.js';
+import { refreshTotalMass } from '../state-handlers/state-systems/massSystem.js';
+import {
+    buildSpatialIndex,
+    queryCapturingCelestials,
+    type SpatialIndex,
+} from '../state-handlers/state-systems/spatialIndex.js';
+import { BODY_MASS, BODY_VOLUME } from '../config/engineConfig.js';
 
 // -----------------------------------------------
 // Seeded Random Number Generator
@@ -105,6 +138,7 @@ export const DEFAULT_GENESIS_CONFIG: GenesisConfig = {
     systemSpacing: toFP(10000000),
     playerStartingFuel: toFP(500),
     playerStartingMass: toFP(1000),
+    playerStartingSpaceForce: toFP(100000),
 };
 
 // -----------------------------------------------
@@ -134,14 +168,30 @@ function resetIdCounter(): void {
 // -----------------------------------------------
 // Generates a complete star system with sol, planets, moons, and asteroids.
 
+// surface gravity in N/kg; moons sit far shallower than planets
+const PLANET_GRAVITY_RANGE: [FP, FP] = [toFP(0.1), toFP(0.5)];
+const MOON_GRAVITY_RANGE: [FP, FP] = [toFP(0.05), toFP(0.15)];
+
+/**
+ * a gravity for a planet or moon saved before bodies had one, in the
+ * range genesis draws from. genesis takes gravity from the system's shared
+ * stream, so this uses the body's own (seed, body id) stream instead: the
+ * value is stable across loads, though not the one genesis would pick now.
+ */
+export function generateMissingGravity(seed: string, body: SurfaceBody): FP {
+    const [min, max] = body.type === 'PLANET' ? PLANET_GRAVITY_RANGE : MOON_GRAVITY_RANGE;
+    return new SeededRNG(`${seed}:gravity:${body.id}`).nextFP(min, max);
+}
+
 export function createStarSystem(
     origin: Vector2FP,
     systemId: string,
     rng: SeededRNG,
     config: GenesisConfig
-): { system: StarSystem; celestials: CelestialBody[]; resourceWells: Entity[] } {
+): { system: StarSystem; celestials: CelestialBody[]; resourceWells: Entity[]; surfaces: SurfaceMap[] } {
     const celestials: CelestialBody[] = [];
     const resourceWells: Entity[] = [];
+    const surfaces: SurfaceMap[] = [];
 
     // create the sol (star)
     const sol: Sol = {
@@ -188,16 +238,23 @@ export function createStarSystem(
             captureRadius: rng.nextFP(toFP(30000), toFP(80000)),
             z: toFP(1),
             atmosphere: rng.nextFP(toFP(0), toFP(1000)),
+            gravity: rng.nextFP(...PLANET_GRAVITY_RANGE),
             orbitRadius: orbitDistance,
             orbitAngle: rng.nextAngle(),
             orbitSpeed: rng.nextFP(toFP(1), toFP(10)),
         };
+        // place the planet on its rail (same geometry the celestial system advances)
+        planet.position = getOrbitPosition(origin, planet.orbitAngle, planet.orbitRadius);
         celestials.push(planet);
 
-        // create resource well for terrestrial planets
+        // build the planet's gravity map from its own surface RNG
+        const planetSurfaceRng = createSurfaceRNG(config.seed, planet.id);
+        const planetSurface = generateSurfaceMap(planet, planetSurfaceRng);
+        surfaces.push(planetSurface);
+
+        // create surface resource wells for terrestrial planets
         if (planet.planetType === 'TERRESTRIAL') {
-            const well = createResourceWell(planet.position, planet.id, 'PLANET', rng);
-            resourceWells.push(well);
+            resourceWells.push(...createSurfaceResourceWells(planet, planetSurface, 'PLANET', planetSurfaceRng, config.seed));
         }
 
         // generate moons for this planet
@@ -221,15 +278,20 @@ export function createStarSystem(
                 captureRadius: rng.nextFP(toFP(5000), toFP(15000)),
                 z: toFP(2),
                 atmosphere: rng.nextFP(toFP(0), toFP(300)),
+                gravity: rng.nextFP(...MOON_GRAVITY_RANGE),
                 orbitRadius: moonOrbitDistance,
                 orbitAngle: rng.nextAngle(),
                 orbitSpeed: rng.nextFP(toFP(5), toFP(20)),
             };
+            // place the moon on its rail around the parent planet
+            moon.position = getOrbitPosition(planet.position, moon.orbitAngle, moon.orbitRadius);
             celestials.push(moon);
 
-            // create resource well for moon
-            const moonWell = createResourceWell(moon.position, moon.id, 'MOON', rng);
-            resourceWells.push(moonWell);
+            // build the moon's crater map and seed its surface resource wells
+            const moonSurfaceRng = createSurfaceRNG(config.seed, moon.id);
+            const moonSurface = generateSurfaceMap(moon, moonSurfaceRng);
+            surfaces.push(moonSurface);
+            resourceWells.push(...createSurfaceResourceWells(moon, moonSurface, 'MOON', moonSurfaceRng, config.seed));
         }
     }
 
@@ -242,9 +304,7 @@ export function createStarSystem(
         const distance = fpAdd(asteroidBeltRadius, rng.nextFP(toFP(-100000), toFP(100000)));
         
         // convert polar to cartesian
-        const radians = (angle / 1000) * (Math.PI / 180);
-        const x = fpAdd(origin.x, toFP(Math.cos(radians) * (distance / 1000)));
-        const y = fpAdd(origin.y, toFP(Math.sin(radians) * (distance / 1000)));
+        const { x, y } = fpAddVector(origin, fpPolarToVector(angle, distance));
 
         const asteroid: Asteroid = {
             id: generateId('asteroid'),
@@ -264,45 +324,373 @@ export function createStarSystem(
         celestials.push(asteroid);
 
         // asteroids are also resource wells
-        const asteroidWell = createResourceWell(asteroid.position, asteroid.id, 'ASTEROID', rng);
+        const asteroidWell = createResourceWell(asteroid.position, asteroid.id, 'ASTEROID', rng, config.seed);
         resourceWells.push(asteroidWell);
     }
 
-    return { system, celestials, resourceWells };
+    return { system, celestials, resourceWells, surfaces };
 }
 
 // -----------------------------------------------
 // Create Resource Well
 // -----------------------------------------------
+// Density (mineral mass per unit volume) sets the purity of everything
+// extracted from the well:
+// - ASTEROID: compact metal, high-purity ore
+// - PLANET: ore washed down into the valleys
+// - MOON: mixed regolith, anywhere from slag to ore (with trace volatiles)
+
+const WELL_DENSITY_RANGES: Record<WellOriginType, [FP, FP]> = {
+    ASTEROID: [toFP(3), toFP(5)],
+    PLANET: [toFP(1.5), toFP(3)],
+    MOON: [toFP(0.5), toFP(2)],
+};
+
+// each well draws its density from its own stream, so adding it left
+// every other genesis draw where it was
+function createDensityRNG(seed: string, wellId: string): SeededRNG {
+    return new SeededRNG(`${seed}:density:${wellId}`);
+}
+
+/**
+ * the density genesis gives a well: it reproduces from (seed, well id)
+ * alone, so states saved before wells had one can be given the same.
+ */
+export function generateWellDensity(seed: string, wellId: string, wellOriginType: WellOriginType): FP {
+    const [minDensity, maxDensity] = WELL_DENSITY_RANGES[wellOriginType];
+    return createDensityRNG(seed, wellId).nextFP(minDensity, maxDensity);
+}
 
 function createResourceWell(
     // TODO: Must be deterministic but different distribution for different wellOriginType, accounting for local factors
     // TODO: This is defined in the game design doc for 0.0.1
     position: Vector2FP,
     linkedCelestialId: string,
-    wellOriginType: 'ASTEROID' | 'PLANET' | 'MOON',
-    rng: SeededRNG
+    wellOriginType: WellOriginType,
+    rng: SeededRNG,
+    seed: string
 ): Entity {
+    const id = generateId('well');
+
+    // a well's dry mass is its mineral content
+    const minerals = rng.nextFP(toFP(50000), toFP(500000));
+    const volatilesMass = rng.nextFP(toFP(10000), toFP(100000));
+    const wellDensity = generateWellDensity(seed, id, wellOriginType);
+
     return {
-        id: generateId('well'),
+        id,
         type: 'RESOURCE_WELL',
         position,
         velocity: { x: 0, y: 0 },
         zoomState: 'SPACE',
-        mass: rng.nextFP(toFP(50000), toFP(500000)),
-        volume: toFP(0),
+        dryMass: minerals,
+        mass: fpAdd(minerals, volatilesMass),
+        volume: getDepositVolume(minerals, wellDensity),
         fuelMass: toFP(0),
-        volatilesMass: rng.nextFP(toFP(10000), toFP(100000)),
+        volatilesMass,
         reach: toFP(0),
         airlockSealed: false,
         opticLevel: 0,
         heading: toFP(0),
         thrust: toFP(0),
         wellOriginType,
+        wellDensity,
         linkedCelestialId,
     };
 }
 
+// -----------------------------------------------
+// Generate Surface Map
+// -----------------------------------------------
+// Builds a planet's or moon's pocket-universe gravity map.
+// Planets: rolling hills (a sum of sine waves averaging 1000 × gravity),
+// POIs at peaks, valleys and inflection points, 5-9 zones.
+// Moons: hard craters, one POI per crater, 2-5 zones.
+// Zones are the Voronoi cells of the POIs.
+
+// samples per axis when searching the hills for POIs
+const SURFACE_SAMPLE_GRID = 17;
+
+interface PointOfInterestCandidate {
+    kind: PointOfInterestKind;
+    position: Vector2FP;
+    z: FP;
+}
+
+// each surface draws from its own stream, so a body's surface
+// reproduces from (seed, body id) alone
+function createSurfaceRNG(seed: string, bodyId: string): SeededRNG {
+    return new SeededRNG(`${seed}:surface:${bodyId}`);
+}
+
+export function generateSurfaceMap(body: SurfaceBody, rng: SeededRNG): SurfaceMap {
+    const baseZ = fpMul(body.gravity, toFP(1000));
+
+    if (body.type === 'PLANET') {
+        return generateHillSurface(body, baseZ, rng);
+    }
+    return generateCraterSurface(body, baseZ, rng);
+}
+
+/**
+ * the gravity map of every planet and moon, in celestial order: the same
+ * maps genesis made, since each comes from its own (seed, body id) stream.
+ * used to rebuild surfaces for states saved before they existed.
+ */
+export function generateSurfaces(seed: string, celestials: readonly CelestialBody[]): SurfaceMap[] {
+    return celestials
+        .filter(isSurfaceBody)
+        .map(body => generateSurfaceMap(body, createSurfaceRNG(seed, body.id)));
+}
+
+function generateHillSurface(planet: Planet, baseZ: FP, rng: SeededRNG): SurfaceMap {
+    const zoneCount = rng.nextInt(5, 9);
+    const waveCount = rng.nextInt(2, 3);
+
+    const waves: GravityWave[] = [];
+    for (let w = 0; w < waveCount; w++) {
+        waves.push({
+            direction: fpHeadingToVector(rng.nextAngle(), toFP(1)),
+            wavelength: rng.nextFP(fpDiv(planet.radius, toFP(2)), fpMul(planet.radius, toFP(2))),
+            amplitude: fpMul(baseZ, rng.nextFP(toFP(0.1), toFP(0.3))),
+            phase: rng.nextAngle(),
+        });
+    }
+
+    const map: SurfaceMap = {
+        bodyId: planet.id,
+        topography: 'HILLS',
+        baseZ,
+        waves,
+        craters: [],
+        pointsOfInterest: [],
+        zones: [],
+    };
+
+    const candidates = findHillCandidates(map, planet.radius);
+    const minSpacing = fpDiv(planet.radius, toFP(2));
+
+    return withPointsOfInterest(map, selectPointsOfInterest(candidates, zoneCount, minSpacing));
+}
+
+function generateCraterSurface(moon: Moon, baseZ: FP, rng: SeededRNG): SurfaceMap {
+    const zoneCount = rng.nextInt(2, 5);
+
+    const craters: Crater[] = [];
+    for (let c = 0; c < zoneCount; c++) {
+        const radius = rng.nextFP(fpDiv(moon.radius, toFP(5)), fpDiv(moon.radius, toFP(2)));
+        const extent = fpSub(moon.radius, radius);
+
+        // keep crater centers apart so every crater is its own POI
+        let center: Vector2FP = { x: 0, y: 0 };
+        for (let attempt = 0; attempt < 20; attempt++) {
+            center = {
+                x: rng.nextFP(fpSub(0, extent), extent),
+                y: rng.nextFP(fpSub(0, extent), extent),
+            };
+            const isApart = craters.every(other =>
+                !fpIsWithinDistance(center, other.center, other.radius)
+            );
+            if (isApart) break;
+        }
+
+        craters.push({
+            center,
+            radius,
+            depth: fpMul(baseZ, rng.nextFP(toFP(0.2), toFP(0.6))),
+        });
+    }
+
+    const map: SurfaceMap = {
+        bodyId: moon.id,
+        topography: 'CRATERS',
+        baseZ,
+        waves: [],
+        craters,
+        pointsOfInterest: [],
+        zones: [],
+    };
+
+    const candidates = craters.map((crater): PointOfInterestCandidate => ({
+        kind: 'CRATER',
+        position: crater.center,
+        z: getSurfaceZ(map, crater.center),
+    }));
+
+    return withPointsOfInterest(map, selectPointsOfInterest([candidates], zoneCount, 0));
+}
+
+// samples the hills on a grid and classifies interior samples.
+// Z is depth in the gravity well, so high ground is low Z:
+// - PEAK: Z below all 8 neighbours
+// - VALLEY: Z above all 8 neighbours
+// - INFLECTION: the side of a baseZ crossing closest to baseZ
+// returns [valleys (deepest first), peaks (highest first), inflections (flattest first)]
+function findHillCandidates(map: SurfaceMap, radius: FP): PointOfInterestCandidate[][] {
+    const last = SURFACE_SAMPLE_GRID - 1;
+    const coordinates: FP[] = [];
+    for (let i = 0; i <= last; i++) {
+        coordinates.push(fpSub(Math.floor((i * fpMul(radius, toFP(2))) / last), radius));
+    }
+
+    const samples: FP[][] = coordinates.map(y => coordinates.map(x => getSurfaceZ(map, { x, y })));
+    const zAt = (i: number, j: number): FP => samples[j]![i]!;
+    const offMean = (z: FP): FP => Math.abs(fpSub(z, map.baseZ));
+
+    const valleys: PointOfInterestCandidate[] = [];
+    const peaks: PointOfInterestCandidate[] = [];
+    const inflections: PointOfInterestCandidate[] = [];
+
+    for (let j = 1; j < last; j++) {
+        for (let i = 1; i < last; i++) {
+            const z = zAt(i, j);
+            const position: Vector2FP = { x: coordinates[i]!, y: coordinates[j]! };
+
+            let isPeak = true;
+            let isValley = true;
+            for (let dj = -1; dj <= 1; dj++) {
+                for (let di = -1; di <= 1; di++) {
+                    if (di === 0 && dj === 0) continue;
+                    const neighbour = zAt(i + di, j + dj);
+                    if (neighbour <= z) isPeak = false;
+                    if (neighbour >= z) isValley = false;
+                }
+            }
+
+            if (isPeak) {
+                peaks.push({ kind: 'PEAK', position, z });
+                continue;
+            }
+            if (isValley) {
+                valleys.push({ kind: 'VALLEY', position, z });
+                continue;
+            }
+
+            const neighbours = [zAt(i + 1, j), zAt(i - 1, j), zAt(i, j + 1), zAt(i, j - 1)];
+            const isInflection = neighbours.some(neighbour =>
+                (neighbour >= map.baseZ) !== (z >= map.baseZ) && offMean(z) <= offMean(neighbour)
+            );
+            if (isInflection) {
+                inflections.push({ kind: 'INFLECTION', position, z });
+            }
+        }
+    }
+
+    valleys.sort((a, b) => b.z - a.z);
+    peaks.sort((a, b) => a.z - b.z);
+    inflections.sort((a, b) => offMean(a.z) - offMean(b.z));
+
+    return [valleys, peaks, inflections];
+}
+
+// picks POIs round-robin across the candidate lists, keeping them at
+// least minSpacing apart; a second pass drops the spacing if too few fit
+function selectPointsOfInterest(
+    candidateLists: PointOfInterestCandidate[][],
+    count: number,
+    minSpacing: FP
+): PointOfInterestCandidate[] {
+    const picked: PointOfInterestCandidate[] = [];
+
+    for (const spacing of [minSpacing, 0]) {
+        const cursors = candidateLists.map(() => 0);
+        let progressed = true;
+
+        while (picked.length < count && progressed) {
+            progressed = false;
+
+            for (let k = 0; k < candidateLists.length && picked.length < count; k++) {
+                const list = candidateLists[k]!;
+
+                while (cursors[k]! < list.length) {
+                    const candidate = list[cursors[k]!]!;
+                    cursors[k] = cursors[k]! + 1;
+
+                    const isApart = picked.every(other =>
+                        !fpIsWithinDistance(candidate.position, other.position, spacing)
+                    );
+                    if (isApart) {
+                        picked.push(candidate);
+                        progressed = true;
+                        break;
+                    }
+                }
+            }
+        }
+    }
+
+    return picked;
+}
+
+// orders POIs by angle around the core (so zone i sits under rail
+// segment i), then assigns ids and one Voronoi zone per POI
+function withPointsOfInterest(map: SurfaceMap, candidates: PointOfInterestCandidate[]): SurfaceMap {
+    const ordered = [...candidates].sort((a, b) =>
+        fpAtan2(a.position.y, a.position.x) - fpAtan2(b.position.y, b.position.x) ||
+        a.position.x - b.position.x ||
+        a.position.y - b.position.y
+    );
+
+    const pointsOfInterest: PointOfInterest[] = ordered.map((candidate, index) => ({
+        id: `${map.bodyId}-poi-${index + 1}`,
+        kind: candidate.kind,
+        position: candidate.position,
+        z: candidate.z,
+    }));
+
+    return {
+        ...map,
+        pointsOfInterest,
+        zones: pointsOfInterest.map((poi, index) => ({
+            index,
+            poiId: poi.id,
+            site: poi.position,
+        })),
+    };
+}
+
+// -----------------------------------------------
+// Create Surface Resource Wells
+// -----------------------------------------------
+// Wells sit on the low ground: every valley or crater POI
+// (or the deepest POI when there is none). Deeper = richer.
+
+function createSurfaceResourceWells(
+    body: SurfaceBody,
+    map: SurfaceMap,
+    wellOriginType: 'PLANET' | 'MOON',
+    rng: SeededRNG,
+    seed: string
+): Entity[] {
+    let sites = map.pointsOfInterest.filter(poi => poi.kind === 'VALLEY' || poi.kind === 'CRATER');
+    if (sites.length === 0) {
+        const deepest = [...map.pointsOfInterest].sort((a, b) => b.z - a.z)[0];
+        sites = deepest ? [deepest] : [];
+    }
+
+    return sites.map(poi => {
+        const well = createResourceWell(body.position, body.id, wellOriginType, rng, seed);
+
+        // richness = 1 + 2 × depth past baseZ / baseZ
+        const depth = fpMax(fpSub(poi.z, map.baseZ), 0);
+        const richness = fpAdd(toFP(1), fpDiv(fpMul(toFP(2), depth), map.baseZ));
+
+        const dryMass = fpMul(well.dryMass, richness);
+        const volatilesMass = fpMul(well.volatilesMass, richness);
+
+        return {
+            ...well,
+            zoomState: 'SURFACE',
+            surfaceBodyId: body.id,
+            surfacePosition: { ...poi.position },
+            dryMass,
+            mass: fpAdd(dryMass, volatilesMass),
+            volume: getDepositVolume(dryMass, getWellDensity(well)),
+            volatilesMass,
+        };
+    });
+}
+
 // -----------------------------------------------
 // Create Wormhole
 // -----------------------------------------------
@@ -321,18 +709,8 @@ function createWormhole(
     const angle1 = rng.nextAngle();
     const angle2 = rng.nextAngle();
 
-    const rad1 = (angle1 / 1000) * (Math.PI / 180);
-    const rad2 = (angle2 / 1000) * (Math.PI / 180);
-
-    const endpointA: Vector2FP = {
-        x: fpAdd(system1Origin.x, toFP(Math.cos(rad1) * (offset1 / 1000))),
-        y: fpAdd(system1Origin.y, toFP(Math.sin(rad1) * (offset1 / 1000))),
-    };
-
-    const endpointB: Vector2FP = {
-        x: fpAdd(system2Origin.x, toFP(Math.cos(rad2) * (offset2 / 1000))),
-        y: fpAdd(system2Origin.y, toFP(Math.sin(rad2) * (offset2 / 1000))),
-    };
+    const endpointA = fpAddVector(system1Origin, fpPolarToVector(angle1, offset1));
+    const endpointB = fpAddVector(system2Origin, fpPolarToVector(angle2, offset2));
 
     return {
         id: generateId('wormhole'),
@@ -350,9 +728,10 @@ function createWormhole(
 // Find Safe Spawn
 // -----------------------------------------------
 // Finds a coordinate that is NOT within any captureRadius of a celestial.
+// Candidates are checked against a capture index built once per universe.
 
 export function findSafeSpawn(
-    celestials: CelestialBody[],
+    spatial: SpatialIndex,
     systemOrigin: Vector2FP,
     rng: SeededRNG,
     maxAttempts: number = 100
@@ -361,31 +740,10 @@ export function findSafeSpawn(
         // generate random position within reasonable distance of system origin
         const distance = rng.nextFP(toFP(200000), toFP(800000));
         const angle = rng.nextAngle();
-        const radians = (angle / 1000) * (Math.PI / 180);
-
-        const candidate: Vector2FP = {
-            x: fpAdd(systemOrigin.x, toFP(Math.cos(radians) * (distance / 1000))),
-            y: fpAdd(systemOrigin.y, toFP(Math.sin(radians) * (distance / 1000))),
-        };
+        const candidate = fpAddVector(systemOrigin, fpPolarToVector(angle, distance));
 
         // check if candidate is safe (outside all capture radii)
-        let isSafe = true;
-        for (const celestial of celestials) {
-            const positions = getCelestialPositionsForCheck(celestial);
-            const captureRadius = getCaptureRadius(celestial);
-            const captureRadiusSq = fpMul(captureRadius, captureRadius);
-
-            for (const pos of positions) {
-                const distSq = fpDistanceSquared(candidate, pos);
-                if (distSq <= captureRadiusSq) {
-                    isSafe = false;
-                    break;
-                }
-            }
-            if (!isSafe) break;
-        }
-
-        if (isSafe) {
+        if (isPositionSafe(candidate, spatial)) {
             return candidate;
         }
     }
@@ -398,19 +756,6 @@ export function findSafeSpawn(
     };
 }
 
-// helper to get positions for collision check
-function getCelestialPositionsForCheck(celestial: CelestialBody): Vector2FP[] {
-    if (celestial.type === 'WORMHOLE') {
-        return celestial.endpoints;
-    }
-    return [celestial.position];
-}
-
-// helper to get capture radius
-function getCaptureRadius(celestial: CelestialBody): FP {
-    return celestial.captureRadius;
-}
-
 // -----------------------------------------------
 // Create Player Ship
 // -----------------------------------------------
@@ -429,6 +774,8 @@ function createFirstPlayerEntity(
         position,
         velocity: { x: 0, y: 0 },
         zoomState: 'SPACE',
+        // starting mass is the ship's own total, fuel included (crew comes on top)
+        dryMass: fpSub(config.playerStartingMass, config.playerStartingFuel),
         mass: config.playerStartingMass,
         volume: toFP(100),
         fuelMass: config.playerStartingFuel,
@@ -438,10 +785,51 @@ function createFirstPlayerEntity(
         opticLevel: 1,
         heading: toFP(0),
         thrust: toFP(0),
+        spaceForce: config.playerStartingSpaceForce,
         // container properties - all player ships can hold cargo
         isContainer: true,
         containerVolume: toFP(2000),
         inOpacity: toFP(500),
+        // every player starts able to build from minerals
+        canManufacture: true,
+        // and with a scanner to aim (MOVE_SCANNER, SCAN)
+        hasScanner: true,
+        realPosture: 'IDLE',
+        broadcastPosture: 'IDLE',
+    };
+}
+
+// -----------------------------------------------
+// Create Starting Body
+// -----------------------------------------------
+// Each player starts as a crew body aboard their first ship, behind its
+// sealed airlock. Bodies need atmosphere: outside the ship in vacuum they die.
+
+function createStartingBody(playerId: string, ship: Entity): Entity {
+    return {
+        id: generateId('body'),
+        type: 'BODY',
+        playerId,
+        name: `Captain ${playerId}`,
+        biography: `Commissioned aboard ${ship.id}.`,
+        parentId: ship.id,
+        position: { ...ship.position },
+        velocity: { ...ship.velocity },
+        zoomState: ship.zoomState,
+        dryMass: BODY_MASS,
+        mass: BODY_MASS,
+        volume: BODY_VOLUME,
+        fuelMass: toFP(0),
+        volatilesMass: toFP(0),
+        reach: toFP(0),
+        airlockSealed: false,
+        requiresAtmosphere: true,
+        canEncounter: true,
+        realPosture: 'IDLE',
+        broadcastPosture: 'IDLE',
+        opticLevel: 0,
+        heading: toFP(0),
+        thrust: toFP(0),
     };
 }
 
@@ -470,6 +858,7 @@ export function generateUniverse(
     const systems: StarSystem[] = [];
     const celestials: CelestialBody[] = [];
     const entities: Entity[] = [];
+    const surfaces: SurfaceMap[] = [];
 
     // generate star systems
     const systemOrigins: Vector2FP[] = [];
@@ -487,6 +876,7 @@ export function generateUniverse(
         systems.push(result.system);
         celestials.push(...result.celestials);
         entities.push(...result.resourceWells);
+        surfaces.push(...result.surfaces);
     }
 
     // create wormhole linking systems (if more than one system)
@@ -509,6 +899,7 @@ export function generateUniverse(
     }
 
     // spawn players in safe zones
+    const spatial = buildSpatialIndex([], celestials);
     for (let i = 0; i < playerIds.length; i++) {
         const playerId = playerIds[i];
         if (!playerId) continue;
@@ -519,11 +910,14 @@ export function generateUniverse(
         if (!systemOrigin) continue;
 
         // find safe spawn location
-        const spawnPosition = findSafeSpawn(celestials, systemOrigin, rng);
+        const spawnPosition = findSafeSpawn(spatial, systemOrigin, rng);
 
         // create player ship
         const playerShip = createFirstPlayerEntity(playerId, spawnPosition, config);
         entities.push(playerShip);
+
+        // and the player aboard it
+        entities.push(createStartingBody(playerId, playerShip));
     }
 
     return {
@@ -531,7 +925,9 @@ export function generateUniverse(
         seed,
         systems,
         celestials,
-        entities,
+        // ships carry their crew's mass
+        entities: [...refreshTotalMass(entities)],
+        surfaces,
     };
 }
 
@@ -540,22 +936,10 @@ export function generateUniverse(
 // -----------------------------------------------
 // Used by verification scripts.
 
-// TODO: This is not efficient; we should use a more efficient algorithm / spatial index
-export function isPositionSafe(
-    position: Vector2FP,
-    celestials: CelestialBody[]
-): boolean {
-    for (const celestial of celestials) {
-        const positions = getCelestialPositionsForCheck(celestial);
-        const captureRadius = getCaptureRadius(celestial);
-        const captureRadiusSq = fpMul(captureRadius, captureRadius);
-
-        for (const pos of positions) {
-            const distSq = fpDistanceSquared(position, pos);
-            if (distSq <= captureRadiusSq) {
-                return false;
-            }
-        }
-    }
-    return true;
+/**
+ * whether a position lies outside every capture radius in the index.
+ * callers checking many positions build the index once and share it.
+ */
+export function isPositionSafe(position: Vector2FP, spatial: SpatialIndex): boolean {
+    return queryCapturingCelestials(spatial, position).length === 0;
 }
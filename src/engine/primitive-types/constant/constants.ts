@@ -4,11 +4,12 @@
 
 // Implemented constants
 export const ORBITAL_CONVERSION_CONSTANT = 0.5;
+export const FALL_CONSTANT = 0.7;
+export const LAUNCH_EFFICIENCY_CONSTANT = 0.01;
+export const BASE_ORBITAL_VELOCITY = 10;
+export const FUEL_EFFICIENCY_CONSTANT = 0.01;
+export const MOD_RESONANCE_CONSTANT = 0.1;
 
 // TODO: Implement these constants
-export const FUEL_EFFICIENCY_CONSTANT = 0.01;
-export const LAUNCH_EFFICIENCY_CONSTANT = 0.01;
-export const FALL_CONSTANT = 0.7;
 export const DETECTION_CONSTANT = 100;
-export const CREW_SCALING_CONSTANT = 10;
-export const BASE_ORBITAL_VELOCITY = 10;
\ No newline at end of file
+export const CREW_SCALING_CONSTANT = 10;
\ No newline at end of file
@@ -51,7 +51,7 @@ export function fpSub(a: FP, b: FP): FP {
  * Note: Divides by scaling factor to account for double-scaling
  */
 export function fpMul(a: FP, b: FP): FP {
-    return Math.round((a * b) / FP_SCALING_FACTOR);
+    return Math.round(guardFPRange(a * b, 'fpMul') / FP_SCALING_FACTOR);
 }
 
 /**
@@ -59,7 +59,146 @@ export function fpMul(a: FP, b: FP): FP {
  * Note: Multiplies by scaling factor before division to maintain precision
  */
 export function fpDiv(a: FP, b: FP): FP {
-    return Math.round((a * FP_SCALING_FACTOR) / b);
+    return Math.round(guardFPRange(a * FP_SCALING_FACTOR, 'fpDiv') / b);
+}
+
+// ===============================================
+// RANGE GUARDS
+// ===============================================
+// Galaxy-scale positions reach ~1e10 FP units, so the product of two
+// coordinates passes 2^53 and a Number silently drops precision.
+// Debug builds (Vite dev, vitest) throw instead; use the wide helpers
+// below wherever such products can occur.
+
+/** Whether range guards throw (debug builds only) */
+const FP_RANGE_CHECKS = import.meta.env?.DEV === true;
+
+/**
+ * Check that an intermediate value is still an exact integer
+ * Throws a RangeError on overflow in debug builds
+ */
+export function guardFPRange(value: number, operation: string): number {
+    if (FP_RANGE_CHECKS && !(Math.abs(value) <= Number.MAX_SAFE_INTEGER)) {
+        throw new RangeError(`${operation}: ${value} exceeds the safe FP range`);
+    }
+    return value;
+}
+
+// ===============================================
+// WIDE ARITHMETIC (BigInt intermediates)
+// ===============================================
+// Exact at any scale: products are formed in BigInt and only the
+// (range-guarded) result returns to FP.
+
+/**
+ * Integer division of BigInts rounded to nearest (halves away from zero)
+ * Divisor must be positive
+ */
+function roundDivBig(n: bigint, d: bigint): bigint {
+    return n >= 0n ? (n + d / 2n) / d : -((-n + d / 2n) / d);
+}
+
+/**
+ * Convert a BigInt result back to FP, range-guarded
+ */
+function fromBig(value: bigint, operation: string): FP {
+    return guardFPRange(Number(value), operation);
+}
+
+/**
+ * Convert an FP value to BigInt
+ */
+function toBig(value: FP): bigint {
+    return BigInt(Math.round(value));
+}
+
+const FP_SCALING_FACTOR_BIG = BigInt(FP_SCALING_FACTOR);
+
+/**
+ * Multiply two fixed-point numbers with an exact intermediate product
+ */
+export function fpMulWide(a: FP, b: FP): FP {
+    return fromBig(roundDivBig(toBig(a) * toBig(b), FP_SCALING_FACTOR_BIG), 'fpMulWide');
+}
+
+/**
+ * Divide two fixed-point numbers with an exact intermediate product
+ */
+export function fpDivWide(a: FP, b: FP): FP {
+    let numerator = toBig(a) * FP_SCALING_FACTOR_BIG;
+    let divisor = toBig(b);
+    if (divisor < 0n) {
+        numerator = -numerator;
+        divisor = -divisor;
+    }
+    return fromBig(roundDivBig(numerator, divisor), 'fpDivWide');
+}
+
+/**
+ * Dot product of two FP vectors with exact intermediate products
+ */
+export function fpDotWide(a: Vector2FP, b: Vector2FP): FP {
+    const sum = toBig(a.x) * toBig(b.x) + toBig(a.y) * toBig(b.y);
+    return fromBig(roundDivBig(sum, FP_SCALING_FACTOR_BIG), 'fpDotWide');
+}
+
+/**
+ * Exact squared distance between two points, unscaled (FP² units)
+ */
+function distanceSquaredBig(a: Vector2FP, b: Vector2FP): bigint {
+    const dx = toBig(a.x) - toBig(b.x);
+    const dy = toBig(a.y) - toBig(b.y);
+    return dx * dx + dy * dy;
+}
+
+/**
+ * Squared distance between two points (FP), exact at any scale
+ */
+export function fpDistanceSquaredWide(a: Vector2FP, b: Vector2FP): FP {
+    return fromBig(roundDivBig(distanceSquaredBig(a, b), FP_SCALING_FACTOR_BIG), 'fpDistanceSquaredWide');
+}
+
+/**
+ * Distance between two points (FP), exact at any scale
+ */
+export function fpDistance(a: Vector2FP, b: Vector2FP): FP {
+    return fromBig(isqrtBig(distanceSquaredBig(a, b)), 'fpDistance');
+}
+
+/**
+ * Check whether two points lie within a range of each other
+ * Exact at any scale (compares squares in BigInt, no sqrt)
+ */
+export function fpIsWithinDistance(a: Vector2FP, b: Vector2FP, range: FP): boolean {
+    if (range < 0) return false;
+    const r = toBig(range);
+    return distanceSquaredBig(a, b) <= r * r;
+}
+
+/**
+ * Momentum-conserving velocity of bodies moving as one:
+ * v = Σ(m × v) / Σm, with exact momentum sums
+ */
+export function fpCombinedVelocity(bodies: readonly { mass: FP; velocity: Vector2FP }[]): Vector2FP {
+    let totalMass = 0n;
+    let momentumX = 0n;
+    let momentumY = 0n;
+
+    for (const body of bodies) {
+        const mass = toBig(body.mass);
+        totalMass += mass;
+        momentumX += mass * toBig(body.velocity.x);
+        momentumY += mass * toBig(body.velocity.y);
+    }
+
+    if (totalMass <= 0n) {
+        return VECTOR_ZERO;
+    }
+
+    return {
+        x: fromBig(roundDivBig(momentumX, totalMass), 'fpCombinedVelocity'),
+        y: fromBig(roundDivBig(momentumY, totalMass), 'fpCombinedVelocity'),
+    };
 }
 
 // ===============================================
@@ -110,11 +249,73 @@ export function fpDistanceSquared(a: Vector2FP, b: Vector2FP): FP {
  */
 export const VECTOR_ZERO: Vector2FP = { x: 0, y: 0 };
 
+/**
+ * Integer square root, rounded to nearest
+ * Newton's method on integers (BigInt beyond the safe integer range),
+ * so the result never depends on the engine's Math.sqrt
+ */
+export function isqrt(n: number): number {
+    if (n <= 0) return 0;
+
+    const value = Math.round(n);
+    if (!Number.isSafeInteger(value)) {
+        return Number(isqrtBig(BigInt(value)));
+    }
+
+    // start from a power of two at or above the root, then descend
+    let guess = 1;
+    while (guess * guess < value) {
+        guess *= 2;
+    }
+    let next = Math.floor((guess + Math.floor(value / guess)) / 2);
+    while (next < guess) {
+        guess = next;
+        next = Math.floor((guess + Math.floor(value / guess)) / 2);
+    }
+
+    // guess = floor(sqrt(value)); round up past the midpoint
+    return value - guess * guess > guess ? guess + 1 : guess;
+}
+
+/**
+ * Integer square root of a BigInt, rounded to nearest
+ */
+function isqrtBig(value: bigint): bigint {
+    if (value <= 0n) return 0n;
+
+    let guess = 1n;
+    while (guess * guess < value) {
+        guess *= 2n;
+    }
+    let next = (guess + value / guess) / 2n;
+    while (next < guess) {
+        guess = next;
+        next = (guess + value / guess) / 2n;
+    }
+    return value - guess * guess > guess ? guess + 1n : guess;
+}
+
+/**
+ * Square root of a fixed-point number
+ * sqrt(a / 1000) * 1000 = sqrt(a * 1000)
+ */
+export function fpSqrt(a: FP): FP {
+    if (a <= 0) return 0;
+    return isqrt(a * FP_SCALING_FACTOR);
+}
+
+/**
+ * Dot product of two FP vectors
+ */
+export function fpDot(a: Vector2FP, b: Vector2FP): FP {
+    return fpAdd(fpMul(a.x, b.x), fpMul(a.y, b.y));
+}
+
 /**
  * Pythagorean theorem to calculate speed from vector
  */
 export const SPEED_FROM_VECTOR = (vector: Vector2FP): FP => {
-    return Math.sqrt(fpAdd(fpMul(vector.x, vector.x), fpMul(vector.y, vector.y)));
+    return fpSqrt(fpDot(vector, vector));
 };
 
 // ===============================================
@@ -122,9 +323,122 @@ export const SPEED_FROM_VECTOR = (vector: Vector2FP): FP => {
 // ===============================================
 // FP-safe trig functions for heading calculations.
 // Heading is stored as FP degrees (0-360000 for 0-360°).
+//
+// No Float Leak: Math.sin/cos/atan2 are not bit-identical across JS
+// engines, so trig runs on integers only (BigInt):
+// - sin/cos: 1° lookup table, plus angle addition with a short series
+//   for the sub-degree remainder
+// - atan: lookup table at steps of 1/16, plus atan addition with a
+//   short series for the remainder
+// Internal values are scaled by TRIG_SCALE (1e9); results round to FP.
+
+const TRIG_SCALE = 1_000_000_000n;
+
+// FP (1e3) to TRIG_SCALE (1e9)
+const TRIG_TO_FP = 1_000_000n;
+
+// π and π/2 × TRIG_SCALE
+const PI_SCALED = 3_141_592_654n;
+const HALF_PI_SCALED = 1_570_796_327n;
+
+// FP degrees in a half turn and a full turn
+const FP_HALF_TURN = 180_000n;
+const FP_FULL_TURN = 360_000;
+
+// sin(d°) × TRIG_SCALE for d = 0..90
+const SIN_TABLE: readonly bigint[] = [
+    0n, 17_452_406n, 34_899_497n, 52_335_956n, 69_756_474n, 87_155_743n,
+    104_528_463n, 121_869_343n, 139_173_101n, 156_434_465n, 173_648_178n, 190_808_995n,
+    207_911_691n, 224_951_054n, 241_921_896n, 258_819_045n, 275_637_356n, 292_371_705n,
+    309_016_994n, 325_568_154n, 342_020_143n, 358_367_950n, 374_606_593n, 390_731_128n,
+    406_736_643n, 422_618_262n, 438_371_147n, 453_990_500n, 469_471_563n, 484_809_620n,
+    500_000_000n, 515_038_075n, 529_919_264n, 544_639_035n, 559_192_903n, 573_576_436n,
+    587_785_252n, 601_815_023n, 615_661_475n, 629_320_391n, 642_787_610n, 656_059_029n,
+    669_130_606n, 681_998_360n, 694_658_370n, 707_106_781n, 719_339_800n, 731_353_702n,
+    743_144_825n, 754_709_580n, 766_044_443n, 777_145_961n, 788_010_754n, 798_635_510n,
+    809_016_994n, 819_152_044n, 829_037_573n, 838_670_568n, 848_048_096n, 857_167_301n,
+    866_025_404n, 874_619_707n, 882_947_593n, 891_006_524n, 898_794_046n, 906_307_787n,
+    913_545_458n, 920_504_853n, 927_183_855n, 933_580_426n, 939_692_621n, 945_518_576n,
+    951_056_516n, 956_304_756n, 961_261_696n, 965_925_826n, 970_295_726n, 974_370_065n,
+    978_147_601n, 981_627_183n, 984_807_753n, 987_688_341n, 990_268_069n, 992_546_152n,
+    994_521_895n, 996_194_698n, 997_564_050n, 998_629_535n, 999_390_827n, 999_847_695n,
+    1_000_000_000n,
+];
+
+// atan(i / 16) × TRIG_SCALE (radians) for i = 0..16
+const ATAN_TABLE: readonly bigint[] = [
+    0n, 62_418_810n, 124_354_995n, 185_347_950n,
+    244_978_663n, 302_884_868n, 358_770_670n, 412_410_442n,
+    463_647_609n, 512_389_460n, 558_599_315n, 602_287_346n,
+    643_501_109n, 682_316_555n, 718_830_000n, 753_151_281n,
+    785_398_163n,
+];
+const ATAN_TABLE_STEPS = 16n;
+
+/**
+ * Convert a TRIG_SCALE value to FP
+ */
+function trigToFP(value: bigint): FP {
+    return Number(roundDivBig(value, TRIG_TO_FP));
+}
+
+/**
+ * sin of a whole number of degrees in [0, 360), from the table
+ */
+function sinWholeDegrees(degrees: number): bigint {
+    if (degrees <= 90) return SIN_TABLE[degrees]!;
+    if (degrees <= 180) return SIN_TABLE[180 - degrees]!;
+    if (degrees <= 270) return -SIN_TABLE[degrees - 180]!;
+    return -SIN_TABLE[360 - degrees]!;
+}
+
+/**
+ * sin and cos of an FP angle (degrees), scaled by TRIG_SCALE
+ * angle = whole degrees (table) + remainder b (series):
+ *   sin(a + b) = sin a × cos b + cos a × sin b
+ *   cos(a + b) = cos a × cos b - sin a × sin b
+ */
+function sinCosScaled(fpDegrees: FP): { sin: bigint; cos: bigint } {
+    const angle = ((Math.round(fpDegrees) % FP_FULL_TURN) + FP_FULL_TURN) % FP_FULL_TURN;
+    const whole = Math.floor(angle / FP_SCALING_FACTOR);
+    const remainder = angle % FP_SCALING_FACTOR;
+
+    const sinA = sinWholeDegrees(whole);
+    const cosA = sinWholeDegrees((whole + 90) % 360);
+
+    // b < 1° in radians: sin b = b - b³/6, cos b = 1 - b²/2 + b⁴/24
+    const b = roundDivBig(BigInt(remainder) * PI_SCALED, FP_HALF_TURN);
+    const b2 = roundDivBig(b * b, TRIG_SCALE);
+    const b3 = roundDivBig(b2 * b, TRIG_SCALE);
+    const sinB = b - roundDivBig(b3, 6n);
+    const cosB = TRIG_SCALE - roundDivBig(b2, 2n) + roundDivBig(b2 * b2, 24n * TRIG_SCALE);
+
+    return {
+        sin: roundDivBig(sinA * cosB + cosA * sinB, TRIG_SCALE),
+        cos: roundDivBig(cosA * cosB - sinA * sinB, TRIG_SCALE),
+    };
+}
 
 /**
- * Convert FP degrees to radians (floating-point for trig)
+ * atan(t) for t in [0, 1] (both scaled by TRIG_SCALE), in radians
+ * t = t0 (table) + remainder:
+ *   atan t = atan t0 + atan δ, δ = (t - t0) / (1 + t × t0), |δ| <= 1/32
+ *   atan δ = δ - δ³/3 + δ⁵/5
+ */
+function atanUnitScaled(t: bigint): bigint {
+    const index = roundDivBig(t * ATAN_TABLE_STEPS, TRIG_SCALE);
+    const t0 = (index * TRIG_SCALE) / ATAN_TABLE_STEPS;
+
+    const delta = roundDivBig((t - t0) * TRIG_SCALE, TRIG_SCALE + roundDivBig(t * t0, TRIG_SCALE));
+    const d2 = roundDivBig(delta * delta, TRIG_SCALE);
+    const d3 = roundDivBig(d2 * delta, TRIG_SCALE);
+    const d5 = roundDivBig(d3 * d2, TRIG_SCALE);
+
+    return ATAN_TABLE[Number(index)]! + delta - roundDivBig(d3, 3n) + roundDivBig(d5, 5n);
+}
+
+/**
+ * Convert FP degrees to radians (floating-point, for display only)
  */
 export function fpDegreesToRadians(fpDegrees: FP): number {
     return fromFP(fpDegrees) * (Math.PI / 180);
@@ -135,8 +449,7 @@ export function fpDegreesToRadians(fpDegrees: FP): number {
  * Returns an FP value
  */
 export function fpCos(fpDegrees: FP): FP {
-    const radians = fpDegreesToRadians(fpDegrees);
-    return toFP(Math.cos(radians));
+    return trigToFP(sinCosScaled(fpDegrees).cos);
 }
 
 /**
@@ -144,8 +457,66 @@ export function fpCos(fpDegrees: FP): FP {
  * Returns an FP value
  */
 export function fpSin(fpDegrees: FP): FP {
-    const radians = fpDegreesToRadians(fpDegrees);
-    return toFP(Math.sin(radians));
+    return trigToFP(sinCosScaled(fpDegrees).sin);
+}
+
+/**
+ * Compute the angle of the vector (x, y) in FP degrees
+ * Returns a value in [0, 360000)
+ */
+export function fpAtan2(y: FP, x: FP): FP {
+    if (x === 0 && y === 0) return 0;
+
+    const ax = BigInt(Math.round(Math.abs(x)));
+    const ay = BigInt(Math.round(Math.abs(y)));
+
+    // reduce to the first octant: atan(min / max), mirrored about 45° if needed
+    let radians = ay <= ax
+        ? atanUnitScaled(roundDivBig(ay * TRIG_SCALE, ax))
+        : HALF_PI_SCALED - atanUnitScaled(roundDivBig(ax * TRIG_SCALE, ay));
+
+    // restore the quadrant
+    if (x < 0) radians = PI_SCALED - radians;
+    if (y < 0) radians = -radians;
+
+    const degrees = Number(roundDivBig(radians * FP_HALF_TURN, PI_SCALED));
+    return degrees < 0 ? fpAdd(degrees, FP_FULL_TURN) : degrees;
+}
+
+/**
+ * Convert an angle (FP degrees) and radius (FP) to an offset vector,
+ * at full trig precision: (cos(angle), sin(angle)) × radius
+ * Use for large radii (orbits, placement), where an FP cos/sin would
+ * lose precision.
+ */
+export function fpPolarToVector(angle: FP, radius: FP): Vector2FP {
+    const { sin, cos } = sinCosScaled(angle);
+    const r = BigInt(Math.round(radius));
+    return {
+        x: Number(roundDivBig(r * cos, TRIG_SCALE)),
+        y: Number(roundDivBig(r * sin, TRIG_SCALE)),
+    };
+}
+
+/**
+ * Length of the arc an angle (FP degrees) sweeps at a radius (FP):
+ * radius × angle × π / 180
+ * Turns an angular speed on a circle into a linear one.
+ */
+export function fpArcLength(angle: FP, radius: FP): FP {
+    const product = BigInt(Math.round(radius)) * BigInt(Math.round(angle)) * PI_SCALED;
+    return Number(roundDivBig(product, FP_HALF_TURN * TRIG_SCALE));
+}
+
+/**
+ * Angle (FP degrees) an arc of the given length sweeps at a radius (FP):
+ * arc / radius × 180 / π; the inverse of fpArcLength
+ * A zero radius sweeps no angle.
+ */
+export function fpArcAngle(arc: FP, radius: FP): FP {
+    if (radius === 0) return 0;
+    const product = BigInt(Math.round(arc)) * FP_HALF_TURN * TRIG_SCALE;
+    return Number(roundDivBig(product, BigInt(Math.round(radius)) * PI_SCALED));
 }
 
 /**
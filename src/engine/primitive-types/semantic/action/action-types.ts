@@ -3,6 +3,8 @@
 // ===============================================
 
 import type { Vector2FP, FP } from '../../euclidean/euclidean-types.js';
+import type { ScalarPhysicsProperty } from '../property/property-types.js';
+import type { Posture } from '../entity/entity-types.js';
 
 // -----------------------------------------------
 // Action Type Union
@@ -14,6 +16,7 @@ export type ActionType =
     | 'MANEUVER'
     | 'THRUST'
     | 'LAUNCH'
+    | 'LAND'
     | 'EXTRACT'
     | 'REFINE'
     | 'MANUFACTURE'
@@ -29,7 +32,8 @@ export type ActionType =
     | 'MOVE_SCANNER'
     | 'SCAN'
     | 'TRANSFER_RESOURCE'
-    | 'ENCOUNTER';
+    | 'ENCOUNTER'
+    | 'POSTURE';
 
 // -----------------------------------------------
 // Base Action Interface
@@ -78,8 +82,9 @@ export interface TransportAction extends BaseAction {
 export interface ManeuverAction extends BaseAction {
     type: 'MANEUVER';
 
-    // target velocity vector
-    targetVelocity: Vector2FP;
+    // requested body-local destination on the surface
+    // the entity moves toward it as far as its surface range allows
+    targetPosition: Vector2FP;
 }
 
 export interface ThrustAction extends BaseAction {
@@ -88,7 +93,7 @@ export interface ThrustAction extends BaseAction {
     // normalized direction vector in FP
     direction: Vector2FP;  
 
-    // thrust magnitude
+    // requested delta-V; capped by spaceForce / total mass and the fuel on board
     magnitude: FP;         
 }
 
@@ -99,6 +104,14 @@ export interface LaunchAction extends BaseAction {
     launchVector: Vector2FP;
 }
 
+export interface LandAction extends BaseAction {
+    type: 'LAND';
+
+    // moon to dock with (must orbit the planet whose rail the entity rides)
+    // if undefined, lands on the planet itself
+    bodyId?: string;
+}
+
 // -----------------------------------------------
 // Resource Actions
 // -----------------------------------------------
@@ -142,9 +155,15 @@ export interface RefineAction extends BaseAction {
 export interface ManufactureAction extends BaseAction {
     type: 'MANUFACTURE';
 
-    // blueprint identifier for what to build
+    // blueprint identifier for what to build (see the blueprint catalogue)
     // TODO: rng blueprintId for variety based on rarity
     blueprintId: string;
+
+    // mineral stores to reshape
+    targetIds: string[];
+
+    // where the new entity is placed (defaults to the actor's position)
+    position?: Vector2FP;
 }
 
 // -----------------------------------------------
@@ -171,11 +190,12 @@ export interface ModAction extends BaseAction {
     // mineral stores
     mineralTargetIds: string[];
 
-    // entity to mod
+    // entity to mod (may be the actor itself)
     targetIds: string[];
 
-    // modification parameters
-    params: Record<string, FP>;
+    // optional preview knob: the property the player expects to resonate.
+    // the MOD is rejected if the target would resonate with another one.
+    expectedProperty?: ScalarPhysicsProperty;
 }
 
 export interface CommitAction extends BaseAction {
@@ -252,13 +272,14 @@ export interface VectorLockAction extends BaseAction {
     // an automated action that either tails or pursues a target entity
     type: 'VECTOR_LOCK';
 
-    // target to vector lock onto
+    // target to vector lock onto (ignored by RELEASE)
     targetIds: string[];
 
     // lock type: pursuit, intercept, or match
     // PURSUIT: get as close to the entity as possible and get closer and closer to matching its vector
     // TAIL: match the target's vector exactly if able
-    lockMode: 'PURSUIT' | 'TAIL';
+    // RELEASE: cancel the current lock
+    lockMode: 'PURSUIT' | 'TAIL' | 'RELEASE';
 }
 
 // -----------------------------------------------
@@ -287,6 +308,20 @@ export interface EncounterAction extends BaseAction {
     targetIds: string[];
 }
 
+// -----------------------------------------------
+// Posture Actions
+// -----------------------------------------------
+
+export interface PostureAction extends BaseAction {
+    type: 'POSTURE';
+
+    // real posture to step to, or to hold; either way it takes the whole tick
+    realPosture?: Posture;
+
+    // posture to show observers; free, and may bluff
+    broadcastPosture?: Posture;
+}
+
 // -----------------------------------------------
 // Action Union Type
 // -----------------------------------------------
@@ -297,6 +332,7 @@ export type Action =
     | ManeuverAction
     | ThrustAction
     | LaunchAction
+    | LandAction
     | ExtractAction
     | RefineAction
     | ManufactureAction
@@ -312,4 +348,5 @@ export type Action =
     | MoveScannerAction
     | ScanAction
     | TransferResourceAction
-    | EncounterAction;
\ No newline at end of file
+    | EncounterAction
+    | PostureAction;
\ No newline at end of file
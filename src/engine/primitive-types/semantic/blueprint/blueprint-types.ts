@@ -0,0 +1,132 @@
+// ===============================================
+// BLUEPRINT TYPES
+// ===============================================
+// The blueprint catalogue: entity templates MANUFACTURE can build.
+// Manufacturing reshapes, it does not create:
+// - output mass = input mass, output volume = input volume
+// - output properties = f(input mass, template)
+// Each physics property is a linear formula over the input mineral mass,
+// optionally unlocked only above a mass threshold (more mass, more features).
+
+import { toFP, type FP } from '../../euclidean/euclidean-types.js';
+import type { PermissionPropertyValues, ScalarPhysicsProperty } from '../property/property-types.js';
+
+// -----------------------------------------------
+// Template Types
+// -----------------------------------------------
+
+// mass and volume always come straight from the inputs
+export type BlueprintPhysicsProperty = Exclude<ScalarPhysicsProperty, 'mass' | 'volume'>;
+
+// value = base + perMass × input mass, absent below minMass
+export interface PropertyFormula {
+    base?: FP;
+    perMass: FP;
+    minMass?: FP;
+}
+
+export interface Blueprint {
+    id: string;
+    name: string;
+
+    // least mineral mass the template can be built from (FP)
+    minMass: FP;
+
+    physics: Partial<Record<BlueprintPhysicsProperty, PropertyFormula>>;
+
+    // declared permissions; anything absent falls back to the registry baseline
+    permissions: Partial<PermissionPropertyValues>;
+}
+
+// -----------------------------------------------
+// Catalogue
+// -----------------------------------------------
+// per-mass rates are chosen so a 1000-mass build lands near the
+// registry baseline of the property it specialises in.
+
+export const BLUEPRINTS: { readonly [id: string]: Blueprint } = {
+    'cargo-pod': {
+        id: 'cargo-pod',
+        name: 'Cargo Pod',
+        minMass: toFP(100),
+        physics: {
+            containerCapacity: { perMass: toFP(2) },
+            containerVolume: { perMass: toFP(2) },
+            inOpacity: { base: toFP(500), perMass: toFP(0) },
+        },
+        permissions: {
+            isContainer: true,
+            canThrust: false,
+            canTravel: false,
+        },
+    },
+    'thruster': {
+        id: 'thruster',
+        name: 'Thruster',
+        minMass: toFP(200),
+        physics: {
+            spaceForce: { perMass: toFP(100) },
+            fuelCapacity: { perMass: toFP(0.5) },
+            // heavy builds also push on a surface
+            planetForce: { perMass: toFP(0.5), minMass: toFP(1000) },
+        },
+        permissions: {
+            canThrust: true,
+        },
+    },
+    'rover': {
+        id: 'rover',
+        name: 'Rover',
+        minMass: toFP(200),
+        physics: {
+            planetForce: { perMass: toFP(1) },
+            reach: { base: toFP(100), perMass: toFP(0.2) },
+            maxLoad: { perMass: toFP(1) },
+            maxVolume: { perMass: toFP(1) },
+        },
+        permissions: {
+            canTravel: true,
+            canThrust: false,
+        },
+    },
+    'sensor-mast': {
+        id: 'sensor-mast',
+        name: 'Sensor Mast',
+        minMass: toFP(100),
+        physics: {
+            sightRange: { base: toFP(500), perMass: toFP(1) },
+            outOpacity: { base: toFP(200), perMass: toFP(0) },
+        },
+        permissions: {
+            hasSight: true,
+            canThrust: false,
+            canTravel: false,
+        },
+    },
+    'crane': {
+        id: 'crane',
+        name: 'Crane',
+        minMass: toFP(500),
+        physics: {
+            reach: { base: toFP(200), perMass: toFP(0.3) },
+            maxLoad: { perMass: toFP(3) },
+            maxVolume: { perMass: toFP(3) },
+        },
+        permissions: {
+            canManeuverTarget: true,
+            canThrust: false,
+        },
+    },
+};
+
+export const BLUEPRINT_IDS = Object.keys(BLUEPRINTS);
+
+/**
+ * looks a blueprint up by id (undefined for unknown or malformed ids).
+ */
+export function getBlueprint(id: unknown): Blueprint | undefined {
+    if (typeof id !== 'string' || !Object.prototype.hasOwnProperty.call(BLUEPRINTS, id)) {
+        return undefined;
+    }
+    return BLUEPRINTS[id];
+}
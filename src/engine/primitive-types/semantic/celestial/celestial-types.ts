@@ -66,6 +66,9 @@ export interface Planet extends BaseCelestialBody {
     // between 0 and 1000; 0 = no atmosphere, 1000 = full atmosphere
     atmosphere: FP;
 
+    // surface gravity in N/kg (FP); sets the rail's fall and escape thresholds
+    gravity: FP;
+
     // orbital distance from parent sol
     orbitRadius: FP;
 
@@ -92,10 +95,20 @@ export interface Moon extends BaseCelestialBody {
     // between 0 and 1000; 0 = no atmosphere, 1000 = full atmosphere
     atmosphere: FP;
 
+    // surface gravity in N/kg (FP); far shallower than a planet's
+    gravity: FP;
+
     // fixed rail orbit radius from parent planet center
     orbitRadius: FP;
 }
 
+// -----------------------------------------------
+// Surface Body
+// -----------------------------------------------
+// Celestials that contain a pocket universe (landable coordinate plane).
+
+export type SurfaceBody = Planet | Moon;
+
 // -----------------------------------------------
 // Asteroid
 // -----------------------------------------------
@@ -169,6 +182,10 @@ export function isWormhole(celestial: CelestialBody): celestial is Wormhole {
     return celestial.type === 'WORMHOLE';
 }
 
+export function isSurfaceBody(celestial: CelestialBody): celestial is SurfaceBody {
+    return celestial.type === 'PLANET' || celestial.type === 'MOON';
+}
+
 // -----------------------------------------------
 // Utility: Get Position(s)
 // -----------------------------------------------
@@ -6,6 +6,7 @@
 
 import type { Vector2FP, FP } from '../../euclidean/euclidean-types.js';
 import type { ZoomLevel } from '../../../state-types/state-types.js';
+import type { ScalarPhysicsProperty } from '../property/property-types.js';
 
 export type EntityZoomState = ZoomLevel;
 
@@ -19,7 +20,9 @@ export type EntityType =
     | 'CORPORATE'
     | 'PLATFORM'
     | 'RESOURCE_WELL'
-    | 'MINERAL_STORE';
+    | 'MINERAL_STORE'
+    | 'DEBRIS'
+    | 'BODY';
 
 // -----------------------------------------------
 // Resource Well Type
@@ -50,6 +53,44 @@ interface BaseEntity {
 
     // if in ORBIT state, the ID of the celestial being orbited
     orbitTargetId?: string;
+
+    // tick a MANUFACTURE built this entity on (absent for genesis entities)
+    creationTick?: number;
+
+    // blueprint a MANUFACTURE built this entity from
+    blueprintId?: string;
+}
+
+// -----------------------------------------------
+// Orbital Properties
+// -----------------------------------------------
+// rail state while in ORBIT. every rail is a circle at the orbited
+// planet's capture radius; entities ride it at angular velocity ω.
+
+interface OrbitalProperties {
+    // position on the rail, θ (0-360000 for 0-360 degrees)
+    orbitAngle?: FP;
+
+    // angular velocity along the rail, ω (degrees per tick in FP)
+    orbitSpeed?: FP;
+
+    // rail radius from the orbited celestial's center (FP)
+    orbitRadius?: FP;
+}
+
+// -----------------------------------------------
+// Surface Properties
+// -----------------------------------------------
+// placement inside a planet's or moon's pocket universe.
+// while on the SURFACE, position is the body's space origin and
+// surfacePosition is the entity's location on the body's own plane.
+
+interface SurfaceProperties {
+    // the planet or moon whose pocket universe this entity is in
+    surfaceBodyId?: string;
+
+    // body-local position, centered on the body's core (FP)
+    surfacePosition?: Vector2FP;
 }
 
 // -----------------------------------------------
@@ -58,13 +99,17 @@ interface BaseEntity {
 // Mass, volume, and fuel for physics calculations.
 
 interface PhysicalProperties {
-    // total dry mass of the entity (FP)
+    // the entity's own structure: hull, ore, stored minerals (FP)
+    dryMass: FP;
+
+    // total mass: dryMass + fuelMass + volatilesMass + loaded contents
+    // + welded parts, kept current by the mass system (FP)
     mass: FP;
 
     // spatial volume for cargo calculations (FP)
     volume: FP;
 
-    // current fuel mass, separate from dry mass (FP)
+    // current fuel mass, part of the total but not of dry mass (FP)
     fuelMass: FP;
 
     // reach in FP units; the maximum distance an entity can affect another entity
@@ -86,9 +131,15 @@ interface ContainerProperties {
     // maximum volume this entity can contain (FP)
     containerVolume?: FP;
 
+    // maximum total mass this entity can contain (FP)
+    containerCapacity?: FP;
+
     // opacity factor for visibility of contained entities (0-1000 FP scale)
     // 0 = transparent, 1000 = fully opaque
     inOpacity?: FP;
+
+    // opacity factor for contents looking out (0-1000 FP scale)
+    outOpacity?: FP;
 }
 
 // -----------------------------------------------
@@ -105,16 +156,205 @@ interface WeldProperties {
     // position offset relative to the weld parent
     // this entity's position = parent.position + relativeOffset
     relativeOffset?: Vector2FP;
+
+    // on a weld primary: one record per WELD, most recent last.
+    // UNWELD pops it to rebuild the components exactly; once the stack
+    // is empty the combined structure no longer exists.
+    weldHistory?: WeldRecord[];
+}
+
+// a component as it was just before it joined a structure. its mass is
+// not kept: fuel, cargo and welded parts can change it while welded, so
+// UNWELD splits the momentum by the component's mass at the time
+export interface WeldSnapshot {
+    id: string;
+
+    // velocity before the structure's velocity replaced it
+    velocity: Vector2FP;
+}
+
+// one WELD: the components it fused and the velocity the structure took
+// (momentum-weighted over them and the primary). a weld only overwrites
+// velocities, so that is all UNWELD needs to restore
+export interface WeldRecord {
+    tick: number;
+    velocity: Vector2FP;
+    components: WeldSnapshot[];
+}
+
+// -----------------------------------------------
+// Mod Properties
+// -----------------------------------------------
+// what the latest MOD fused into the entity, kept for the UI and narration.
+
+// one mineral store fused by a MOD
+export interface ModResonance {
+    mineralId: string;
+
+    // the dominant physics property the mineral resonated with
+    property: ScalarPhysicsProperty;
+
+    // value / baseline that made the property dominant (FP)
+    ratio: FP;
+
+    // mineral mass / mineral volume (FP)
+    purity: FP;
+
+    // effective value before and after the boost (FP)
+    before: FP;
+    after: FP;
+}
+
+export interface ModReport {
+    tick: number;
+
+    // in the order the minerals were fused
+    resonances: ModResonance[];
+}
+
+interface ModProperties {
+    lastMod?: ModReport;
+}
+
+// -----------------------------------------------
+// Skill Properties
+// -----------------------------------------------
+// repeating a skilled action (EXTRACT, REFINE, MANUFACTURE) on the same
+// target tick after tick scales its output exponentially. the streak
+// resets when a tick is skipped or the action or target changes.
+
+export type SkilledActionType = 'EXTRACT' | 'REFINE' | 'MANUFACTURE';
+
+export interface SkillStreak {
+    actionType: SkilledActionType;
+
+    // what the action is locked onto: the well(s) for EXTRACT, the
+    // refining entity for REFINE, the blueprint for MANUFACTURE
+    targetId: string;
+
+    // consecutive ticks the action has been performed, including lastTick
+    count: number;
+
+    // last tick the action was performed on
+    lastTick: number;
+}
+
+interface SkillProperties {
+    skillStreak?: SkillStreak;
+}
+
+// -----------------------------------------------
+// Posture Properties
+// -----------------------------------------------
+// the stance an entity shows versus the one it actually holds.
+// real posture moves one step at a time along
+// DORMANT ↔ IDLE ↔ ACTIVE ↔ ALERT ↔ HIDDEN | HOSTILE;
+// broadcast posture is a claim, free to change (and to bluff) every tick.
+
+export type Posture = 'DORMANT' | 'IDLE' | 'ACTIVE' | 'ALERT' | 'HIDDEN' | 'HOSTILE';
+
+interface PostureProperties {
+    // what observers see
+    broadcastPosture?: Posture;
+
+    // what the entity is really doing; hidden until commitment resolution
+    realPosture?: Posture;
+
+    // the postures this entity can really hold (absent: all of them)
+    postureCapability?: Posture[];
+}
+
+// -----------------------------------------------
+// Transport Properties
+// -----------------------------------------------
+// hauling limits and the tow link created by TRANSPORT.
+// a tow lasts one tick: the towed entity keeps its offset from the
+// tow parent (following its displacement) until the tick settles.
+
+interface TransportProperties {
+    // maximum total mass this entity can haul (FP)
+    maxLoad?: FP;
+
+    // maximum total volume this entity can haul (FP)
+    maxVolume?: FP;
+
+    // if this entity is being towed this tick, the tow actor's ID
+    towParentId?: string;
+
+    // position offset relative to the tow parent, fixed when the tow starts
+    towOffset?: Vector2FP;
+}
+
+// -----------------------------------------------
+// Navigation Properties
+// -----------------------------------------------
+// autopilot state set by VECTOR_LOCK. a lock persists across ticks
+// until released or until the target leaves sight and reach.
+
+interface NavigationProperties {
+    // entity the autopilot is locked onto
+    vectorLockTargetId?: string;
+
+    // PURSUIT closes distance while converging on the target's vector;
+    // TAIL matches the target's vector exactly
+    vectorLockMode?: 'PURSUIT' | 'TAIL';
+
+    // wormhole traversal this tick, readable by observers at either end;
+    // cleared when the next tick settles
+    wormholeTransit?: WormholeTransit;
+}
+
+// a single wormhole traversal: where the entity vanished and where it emerged
+export interface WormholeTransit {
+    wormholeId: string;
+
+    // star systems left and entered
+    fromSystemId: string;
+    toSystemId: string;
+
+    // position the entity reached at the entry endpoint, and where it emerged
+    entryPosition: Vector2FP;
+    exitPosition: Vector2FP;
+}
+
+// -----------------------------------------------
+// Propulsion Properties
+// -----------------------------------------------
+// Movement power per zoom level.
+
+interface PropulsionProperties {
+    // surface movement power in N (Fp); entities without it cannot maneuver
+    planetForce?: FP;
+
+    // space thrust power in N (Fs); entities without it cannot thrust
+    spaceForce?: FP;
 }
 
 // -----------------------------------------------
 // Atmospheric Properties
 // -----------------------------------------------
-// Airlock state.
+// Airlock state and atmosphere dependence.
 
 interface AtmosphericProperties {
     // whether the airlock is currently sealed
     airlockSealed: boolean;
+
+    // if true, this entity cannot survive (or travel through) vacuum
+    requiresAtmosphere?: boolean;
+}
+
+// -----------------------------------------------
+// Body Properties
+// -----------------------------------------------
+// a BODY is a person, not a vessel: the only entity that can ENCOUNTER,
+// it dies in vacuum unless airlocked, and it cannot be traded.
+
+interface BodyProperties {
+    // the character's name
+    name?: string;
+
+    // free-text backstory
+    biography?: string;
 }
 
 // -----------------------------------------------
@@ -126,8 +366,11 @@ interface ResourceStoreProperties {
     // volatile compounds (crude) in FP units
     volatilesMass: FP;
 
-    // refined fuel mass (separate from dry mass)
+    // refined fuel mass (part of the total, not of dry mass)
     fuelMass: FP;
+
+    // maximum fuel storage (FP)
+    fuelCapacity?: FP;
 }
 
 // -----------------------------------------------
@@ -138,6 +381,102 @@ interface ResourceStoreProperties {
 interface SensorProperties {
     // the base optic visibility of an observing entity
     opticLevel: VisibilityLevel;
+
+    // vision distance in FP units; entities without it see only as far as they reach
+    sightRange?: FP;
+}
+
+// -----------------------------------------------
+// Commitment Properties
+// -----------------------------------------------
+// How many targets PRESS/HOLD/SUPPORT may name, per category.
+
+export interface CommitTargets {
+    body: number;
+    entity: number;
+    zone: number;
+
+    // total across all categories
+    max: number;
+}
+
+interface CommitmentProperties {
+    commitTargets?: CommitTargets;
+}
+
+// -----------------------------------------------
+// Permission Properties
+// -----------------------------------------------
+// Which verbs an entity affords. Undeclared permissions fall back to
+// their baseline in the property registry; welded structures OR them.
+// (isContainer and requiresAtmosphere live with their property groups.)
+
+interface PermissionProperties {
+    // can change position at all (if false, the entity is fixed forever)
+    canTranslate?: boolean;
+
+    // can move itself (if false but canTranslate, only others can move it)
+    canTravel?: boolean;
+
+    // can thrust in space/orbit
+    canThrust?: boolean;
+
+    // can leave a surface for orbit
+    canLaunch?: boolean;
+
+    // can land from orbit onto a surface
+    canLand?: boolean;
+
+    // can ride an orbital rail
+    canOrbit?: boolean;
+
+    // can pull resources from wells
+    canExtract?: boolean;
+
+    // can convert volatiles into fuel
+    canRefine?: boolean;
+
+    // can convert minerals into entities
+    canManufacture?: boolean;
+
+    // can fuse entities together (and mod them)
+    canWeld?: boolean;
+
+    // can be the target of a weld
+    canBeWelded?: boolean;
+
+    // can take part in PRESS/HOLD/SUPPORT
+    canCommit?: boolean;
+
+    // can seal and unseal its airlock
+    canAirlock?: boolean;
+
+    // can transport, load and unload other entities
+    canManeuverTarget?: boolean;
+
+    // can lock onto moving targets (space/orbit)
+    canVectorLock?: boolean;
+
+    // can observe
+    hasSight?: boolean;
+
+    // has a repositionable sight origin (MOVE_SCANNER, SCAN)
+    hasScanner?: boolean;
+
+    // contents can act through this container
+    canPassThrough?: boolean;
+
+    // if false, immune to PRESS with objective: destroy
+    canDestroy?: boolean;
+
+    // can initiate encounters (bodies)
+    canEncounter?: boolean;
+
+    // can take up a real posture (see postureCapability for which)
+    canPosture?: boolean;
+
+    // can generate new bodies (platforms)
+    canReproduce?: boolean;
 }
 
 // -----------------------------------------------
@@ -147,12 +486,23 @@ interface SensorProperties {
 
 export interface Entity extends 
     BaseEntity, 
+    OrbitalProperties,
+    SurfaceProperties,
     PhysicalProperties, 
+    PropulsionProperties,
     ContainerProperties,
     WeldProperties,
+    ModProperties,
+    SkillProperties,
+    PostureProperties,
+    TransportProperties,
+    NavigationProperties,
     AtmosphericProperties, 
+    BodyProperties,
     ResourceStoreProperties, 
-    SensorProperties {
+    SensorProperties,
+    CommitmentProperties,
+    PermissionProperties {
     
     // discriminator for entity subtypes
     type: EntityType;
@@ -169,24 +519,67 @@ export interface Entity extends
     // resource well specific: what celestial backs this well (optional)
     wellOriginType?: WellOriginType;
 
+    // resource well specific: mineral mass per unit of deposit volume (FP)
+    wellDensity?: FP;
+
     // resource well specific: linked celestial ID (optional)
     linkedCelestialId?: string;
 }
 
 // -----------------------------------------------
-// Entity Update Type
+// Entity Effect Types
 // -----------------------------------------------
-// Partial update returned by action handlers.
+// What action handlers return, as a tagged union:
+// - update: a partial change to an existing entity
+// - spawn: a complete new entity, validated when it is applied
+// - destroy: removal of an entity, with a policy for what it carries
 
 export interface EntityUpdate {
+    kind: 'update';
     id: string;
     changes: Partial<Omit<Entity, 'id' | 'type'>>;
 }
 
+export interface EntitySpawn {
+    kind: 'spawn';
+    entity: Entity;
+}
+
+// what happens to the contents, welded parts and tows of a destroyed
+// entity: DESTROY removes them along with it, RELEASE detaches them
+export type DestroyCascade = 'DESTROY' | 'RELEASE';
+
+export interface EntityDestroy {
+    kind: 'destroy';
+    id: string;
+    cascade: DestroyCascade;
+}
+
+export type EntityEffect = EntityUpdate | EntitySpawn | EntityDestroy;
+
 // -----------------------------------------------
 // Type Guards
 // -----------------------------------------------
 
+export function isEntityUpdate(effect: EntityEffect): effect is EntityUpdate {
+    return effect.kind === 'update';
+}
+
+export function isEntitySpawn(effect: EntityEffect): effect is EntitySpawn {
+    return effect.kind === 'spawn';
+}
+
+export function isEntityDestroy(effect: EntityEffect): effect is EntityDestroy {
+    return effect.kind === 'destroy';
+}
+
+/**
+ * the id of the entity an effect is about.
+ */
+export function getEffectId(effect: EntityEffect): string {
+    return effect.kind === 'spawn' ? effect.entity.id : effect.id;
+}
+
 export function isEntity(entity: Entity): boolean {
     return entity.type === 'ENTITY';
 }
@@ -207,6 +600,14 @@ export function isMineralStore(entity: Entity): boolean {
     return entity.type === 'MINERAL_STORE';
 }
 
+export function isDebris(entity: Entity): boolean {
+    return entity.type === 'DEBRIS';
+}
+
+export function isBody(entity: Entity): boolean {
+    return entity.type === 'BODY';
+}
+
 export function isContainer(entity: Entity): boolean {
     return entity.isContainer === true;
 }
@@ -228,6 +629,10 @@ export function isWelded(entity: Entity): boolean {
     return entity.weldParentId !== undefined;
 }
 
+export function isTowed(entity: Entity): boolean {
+    return entity.towParentId !== undefined;
+}
+
 export function isWeldPrimary(entity: Entity, allEntities: readonly Entity[]): boolean {
     // an entity is a weld primary if other entities are welded to it
     return allEntities.some(e => e.weldParentId === entity.id);
@@ -241,6 +646,7 @@ export function isWeldPrimary(entity: Entity, allEntities: readonly Entity[]): b
 export const ENTITY_DEFAULTS: Omit<Entity, 'id' | 'type' | 'position'> = {
     zoomState: 'SPACE',
     velocity: { x: 0, y: 0 },
+    dryMass: 0,
     mass: 0,
     volume: 0,
     fuelMass: 0,
@@ -0,0 +1,178 @@
+// ===============================================
+// PROPERTY TYPES
+// ===============================================
+// The property registry: every physics and permission property an entity
+// can carry, how welded structures compose it, and its baseline.
+// - Physics properties feed formulas (Sum, or Max for range-like ones)
+// - Permission properties gate actions (OR: if any part can, the whole can)
+// State properties (zoom, vector, fuelMass, ...) never compose and are
+// not part of the registry.
+
+import { toFP, type FP } from '../../euclidean/euclidean-types.js';
+import type { ActionType } from '../action/action-types.js';
+import type { CommitTargets } from '../entity/entity-types.js';
+
+// -----------------------------------------------
+// Property Names
+// -----------------------------------------------
+
+export interface PhysicsPropertyValues {
+    mass: FP;
+    volume: FP;
+    planetForce: FP;
+    spaceForce: FP;
+    fuelCapacity: FP;
+    sightRange: FP;
+    reach: FP;
+    containerCapacity: FP;
+    containerVolume: FP;
+    maxLoad: FP;
+    maxVolume: FP;
+    inOpacity: FP;
+    outOpacity: FP;
+    commitTargets: CommitTargets;
+}
+
+export type PhysicsProperty = keyof PhysicsPropertyValues;
+
+// physics properties with a single FP magnitude
+export type ScalarPhysicsProperty = Exclude<PhysicsProperty, 'commitTargets'>;
+
+export type PermissionProperty =
+    | 'canTranslate'
+    | 'canTravel'
+    | 'canThrust'
+    | 'canLaunch'
+    | 'canLand'
+    | 'canOrbit'
+    | 'canExtract'
+    | 'canRefine'
+    | 'canManufacture'
+    | 'canWeld'
+    | 'canBeWelded'
+    | 'canCommit'
+    | 'canAirlock'
+    | 'isContainer'
+    | 'canManeuverTarget'
+    | 'canVectorLock'
+    | 'hasSight'
+    | 'hasScanner'
+    | 'canPassThrough'
+    | 'canDestroy'
+    | 'requiresAtmosphere'
+    | 'canEncounter'
+    | 'canPosture'
+    | 'canReproduce';
+
+export type PermissionPropertyValues = Record<PermissionProperty, boolean>;
+
+// the composed view of an entity (or a whole welded structure)
+export type EffectiveProperties = PhysicsPropertyValues & PermissionPropertyValues;
+
+// -----------------------------------------------
+// Property Definitions
+// -----------------------------------------------
+
+// SUM: add the parts (per category for commitTargets)
+// MAX: the best part wins (range-like properties)
+// OR: any part affording it is enough
+export type CompositionRule = 'SUM' | 'MAX' | 'OR';
+
+export interface PhysicsPropertyDefinition<T> {
+    kind: 'PHYSICS';
+    rule: Exclude<CompositionRule, 'OR'>;
+
+    // magnitude of an ordinary hull; resonance is measured against it.
+    // an entity that never declared the property has none of it.
+    baseline: T;
+}
+
+export interface PermissionPropertyDefinition {
+    kind: 'PERMISSION';
+    rule: Extract<CompositionRule, 'OR'>;
+
+    // value of an entity that never declared the permission
+    baseline: boolean;
+}
+
+export const PHYSICS_PROPERTIES: {
+    readonly [K in PhysicsProperty]: PhysicsPropertyDefinition<PhysicsPropertyValues[K]>;
+} = {
+    // already summed over contents and welded parts by the mass system
+    mass: { kind: 'PHYSICS', rule: 'SUM', baseline: toFP(1000) },
+    volume: { kind: 'PHYSICS', rule: 'SUM', baseline: toFP(100) },
+    planetForce: { kind: 'PHYSICS', rule: 'SUM', baseline: toFP(1000) },
+    spaceForce: { kind: 'PHYSICS', rule: 'SUM', baseline: toFP(100000) },
+    fuelCapacity: { kind: 'PHYSICS', rule: 'SUM', baseline: toFP(500) },
+    sightRange: { kind: 'PHYSICS', rule: 'MAX', baseline: toFP(1000) },
+    reach: { kind: 'PHYSICS', rule: 'MAX', baseline: toFP(500) },
+    containerCapacity: { kind: 'PHYSICS', rule: 'SUM', baseline: toFP(1000) },
+    containerVolume: { kind: 'PHYSICS', rule: 'SUM', baseline: toFP(2000) },
+    maxLoad: { kind: 'PHYSICS', rule: 'SUM', baseline: toFP(1000) },
+    maxVolume: { kind: 'PHYSICS', rule: 'SUM', baseline: toFP(1000) },
+    inOpacity: { kind: 'PHYSICS', rule: 'MAX', baseline: toFP(500) },
+    outOpacity: { kind: 'PHYSICS', rule: 'MAX', baseline: toFP(500) },
+    commitTargets: { kind: 'PHYSICS', rule: 'SUM', baseline: { body: 1, entity: 1, zone: 1, max: 1 } },
+};
+
+// ordinary verbs default to afforded; specialised ones must be declared
+export const PERMISSION_PROPERTIES: { readonly [K in PermissionProperty]: PermissionPropertyDefinition } = {
+    canTranslate: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canTravel: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canThrust: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canLaunch: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canLand: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canOrbit: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canExtract: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canRefine: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canManufacture: { kind: 'PERMISSION', rule: 'OR', baseline: false },
+    canWeld: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canBeWelded: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canCommit: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canAirlock: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    isContainer: { kind: 'PERMISSION', rule: 'OR', baseline: false },
+    canManeuverTarget: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canVectorLock: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    hasSight: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    hasScanner: { kind: 'PERMISSION', rule: 'OR', baseline: false },
+    canPassThrough: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canDestroy: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    requiresAtmosphere: { kind: 'PERMISSION', rule: 'OR', baseline: false },
+    canEncounter: { kind: 'PERMISSION', rule: 'OR', baseline: false },
+    canPosture: { kind: 'PERMISSION', rule: 'OR', baseline: true },
+    canReproduce: { kind: 'PERMISSION', rule: 'OR', baseline: false },
+};
+
+export const PHYSICS_PROPERTY_NAMES = Object.keys(PHYSICS_PROPERTIES) as PhysicsProperty[];
+export const PERMISSION_PROPERTY_NAMES = Object.keys(PERMISSION_PROPERTIES) as PermissionProperty[];
+
+// -----------------------------------------------
+// Action Capabilities
+// -----------------------------------------------
+// The permission an actor (or its welded structure) needs for each action.
+
+export const ACTION_CAPABILITIES: { readonly [K in ActionType]: PermissionProperty } = {
+    TRANSPORT: 'canManeuverTarget',
+    MANEUVER: 'canTravel',
+    THRUST: 'canThrust',
+    LAUNCH: 'canLaunch',
+    LAND: 'canLand',
+    EXTRACT: 'canExtract',
+    REFINE: 'canRefine',
+    MANUFACTURE: 'canManufacture',
+    WELD: 'canWeld',
+    UNWELD: 'canWeld',
+    // modding uses the same manipulation capability as welding
+    MOD: 'canWeld',
+    COMMIT: 'canCommit',
+    SEAL_AIRLOCK: 'canAirlock',
+    UNSEAL_AIRLOCK: 'canAirlock',
+    LOAD: 'canManeuverTarget',
+    UNLOAD: 'canManeuverTarget',
+    VECTOR_LOCK: 'canVectorLock',
+    MOVE_SCANNER: 'hasScanner',
+    SCAN: 'hasScanner',
+    TRANSFER_RESOURCE: 'canManeuverTarget',
+    ENCOUNTER: 'canEncounter',
+    POSTURE: 'canPosture',
+};
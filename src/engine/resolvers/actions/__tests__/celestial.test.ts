@@ -0,0 +1,187 @@
+// ===============================================
+// CELESTIAL MOTION TESTS
+// ===============================================
+// validates that celestials advance once per tick in the resolver,
+// that moons follow their moving parent, and that celestial-bound
+// entities ride their celestial without being translated twice.
+
+import { describe, it, expect } from 'vitest';
+import {
+    createSol,
+    createPlanet,
+    createAsteroid,
+    createResourceWell,
+    createShip,
+    createGameState,
+} from '../../../test/factories.js';
+import { runTick, runTicks } from '../../../test/SimRunner.js';
+import { resolveWaves } from '../../../state-handlers/tickResolver.js';
+import { projectCelestials, projectGameState } from '../../../state-handlers/state-systems/projectionSystem.js';
+import { getOrbitPosition } from '../../../state-handlers/state-systems/celestialSystem.js';
+import { toFP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Moon, Planet, Asteroid } from '../../../primitive-types/semantic/celestial/celestial-types.js';
+
+function createMoon(parentPlanetId: string, parentPosition: { x: number; y: number }): Moon {
+    return {
+        id: 'moon-001',
+        name: 'Test Moon',
+        type: 'MOON',
+        parentPlanetId,
+        position: { x: parentPosition.x + toFP(20000), y: parentPosition.y },
+        mass: toFP(1000),
+        radius: toFP(1000),
+        captureRadius: toFP(5000),
+        z: toFP(2),
+        atmosphere: toFP(0),
+        gravity: toFP(0.1),
+        orbitRadius: toFP(20000),
+        orbitAngle: toFP(0),
+        orbitSpeed: toFP(10),
+    };
+}
+
+describe('Celestial Motion', () => {
+    describe('Planets', () => {
+        it('should advance orbitAngle by orbitSpeed each tick', () => {
+            const planet = createPlanet({ orbitAngle: toFP(0), orbitSpeed: toFP(5) });
+            const state = createGameState({ celestials: [createSol(), planet] });
+
+            const next = runTicks(state, [], 3);
+            const advanced = next.celestials.find(c => c.id === planet.id) as Planet;
+
+            expect(advanced.orbitAngle).toBe(toFP(15));
+            expect(advanced.position).toEqual(
+                getOrbitPosition({ x: 0, y: 0 }, toFP(15), planet.orbitRadius)
+            );
+        });
+
+        it('should wrap orbitAngle past a full revolution', () => {
+            const planet = createPlanet({ orbitAngle: toFP(358), orbitSpeed: toFP(5) });
+            const state = createGameState({ celestials: [createSol(), planet] });
+
+            const { nextState } = runTick(state);
+            const advanced = nextState.celestials.find(c => c.id === planet.id) as Planet;
+
+            expect(advanced.orbitAngle).toBe(toFP(3));
+        });
+    });
+
+    describe('Moons', () => {
+        it('should orbit around the parent planet T+1 position', () => {
+            const planet = createPlanet({ orbitSpeed: toFP(5) });
+            const moon = createMoon(planet.id, planet.position);
+            const state = createGameState({ celestials: [createSol(), moon, planet] });
+
+            const { nextState } = runTick(state);
+            const nextPlanet = nextState.celestials.find(c => c.id === planet.id) as Planet;
+            const nextMoon = nextState.celestials.find(c => c.id === moon.id) as Moon;
+
+            expect(nextMoon.orbitAngle).toBe(toFP(10));
+            expect(nextMoon.position).toEqual(
+                getOrbitPosition(nextPlanet.position, toFP(10), moon.orbitRadius)
+            );
+        });
+    });
+
+    describe('Asteroids', () => {
+        it('should drift by velocity each tick', () => {
+            const asteroid = createAsteroid({
+                position: { x: toFP(1000), y: toFP(0) },
+                velocity: { x: toFP(10), y: toFP(-5) },
+            });
+            const state = createGameState({ celestials: [createSol(), asteroid] });
+
+            const next = runTicks(state, [], 4);
+            const advanced = next.celestials.find(c => c.id === asteroid.id) as Asteroid;
+
+            expect(advanced.position).toEqual({ x: toFP(1040), y: toFP(-20) });
+        });
+    });
+
+    describe('Celestial-bound entities', () => {
+        it('should carry a linked well with its asteroid exactly once', () => {
+            const asteroid = createAsteroid({
+                position: { x: toFP(1000), y: toFP(0) },
+                velocity: { x: toFP(10), y: toFP(0) },
+            });
+            const well = createResourceWell({
+                position: { x: toFP(1000), y: toFP(0) },
+                linkedCelestialId: asteroid.id,
+            });
+            const state = createGameState({
+                celestials: [createSol(), asteroid],
+                entities: [well],
+            });
+
+            const next = runTicks(state, [], 2);
+            const nextWell = next.entities.find(e => e.id === well.id)!;
+            const nextAsteroid = next.celestials.find(c => c.id === asteroid.id) as Asteroid;
+
+            expect(nextWell.position).toEqual(nextAsteroid.position);
+            expect(nextWell.velocity).toEqual({ x: toFP(10), y: toFP(0) });
+        });
+
+        it('should carry a linked well along a planet orbit', () => {
+            const planet = createPlanet({ orbitSpeed: toFP(10) });
+            const well = createResourceWell({
+                position: planet.position,
+                linkedCelestialId: planet.id,
+            });
+            const state = createGameState({
+                celestials: [createSol(), planet],
+                entities: [well],
+            });
+
+            const { nextState } = runTick(state);
+            const nextPlanet = nextState.celestials.find(c => c.id === planet.id) as Planet;
+            const nextWell = nextState.entities.find(e => e.id === well.id)!;
+
+            expect(nextWell.position).toEqual(nextPlanet.position);
+        });
+    });
+
+    describe('Draft parity', () => {
+        it('should project celestials to the same positions the resolver produces', () => {
+            const planet = createPlanet({ orbitSpeed: toFP(7) });
+            const moon = createMoon(planet.id, planet.position);
+            const asteroid = createAsteroid({ velocity: { x: toFP(3), y: toFP(4) } });
+            const state = createGameState({ celestials: [createSol(), planet, moon, asteroid] });
+
+            const { nextState } = runTick(state);
+
+            expect(projectCelestials(state.celestials)).toEqual(nextState.celestials);
+        });
+
+        it('should project a landed entity on a moving planet where the resolver puts it', () => {
+            const planet = createPlanet({ orbitSpeed: toFP(7) });
+            const landed = {
+                ...createShip(),
+                position: planet.position,
+                zoomState: 'SURFACE' as const,
+                surfaceBodyId: planet.id,
+                surfacePosition: { x: toFP(100), y: toFP(100) },
+            };
+            const state = createGameState({
+                celestials: [createSol(), planet],
+                entities: [landed],
+            });
+
+            const { nextState } = runTick(state);
+            const projected = projectGameState(state);
+            const nextPlanet = nextState.celestials.find(c => c.id === planet.id) as Planet;
+
+            // the ghost rides the planet once, not once more on its velocity
+            expect(projected.entities[0]!.position).toEqual(nextPlanet.position);
+            expect(projected.entities[0]!.position).toEqual(nextState.entities[0]!.position);
+        });
+
+        it('should not advance celestials when the final maneuver is skipped', () => {
+            const planet = createPlanet({ orbitSpeed: toFP(7) });
+            const state = createGameState({ celestials: [createSol(), planet] });
+
+            const { finalState: drafted } = resolveWaves(state, [], true);
+
+            expect(drafted.celestials).toEqual(state.celestials);
+        });
+    });
+});
@@ -0,0 +1,182 @@
+// ===============================================
+// DESTRUCTION TESTS
+// ===============================================
+// tests for entity destruction:
+// - contents are ejected at the destroyed entity's position and velocity
+// - welded parts detach with the structure's momentum
+// - the entity's own mass stays behind as DEBRIS (mass is conserved)
+// - in-flight actions naming a destroyed entity are voided (TARGET_DESTROYED)
+// - no orphaned parentId / weldParentId survives
+
+import { describe, it, expect } from 'vitest';
+import {
+    createShip,
+    createMineralStore,
+    createContainer,
+    createGameState,
+} from '../../../test/factories.js';
+import { findEntity } from '../../../test/SimRunner.js';
+import { assertMassConservation, assertNoOrphanedReferences } from '../../../test/invariants.js';
+import {
+    destroyEntities,
+    getDestructionEffects,
+} from '../../../state-handlers/state-systems/destructionSystem.js';
+import { resolveWaves } from '../../../state-handlers/tickResolver.js';
+import { toFP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type {
+    LoadAction,
+    ManufactureAction,
+} from '../../../primitive-types/semantic/action/action-types.js';
+
+const position = { x: toFP(100), y: 0 };
+const velocity = { x: toFP(5), y: toFP(-2) };
+
+// a carrier (900 dry + 100 fuel) holding 200 of cargo, with a 300 part welded on
+function createCarrierState() {
+    const carrier = createShip({ id: 'carrier', mass: toFP(1500), carriedMass: toFP(500), position, velocity });
+    const cargo = createMineralStore({ id: 'cargo', mass: toFP(200), parentId: 'carrier', position, velocity });
+    const part: Entity = {
+        ...createShip({
+            id: 'part',
+            mass: toFP(300),
+            fuelMass: 0,
+            position: { x: toFP(110), y: 0 },
+            velocity,
+        }),
+        weldParentId: 'carrier',
+        relativeOffset: { x: toFP(10), y: 0 },
+    };
+    return createGameState({ entities: [carrier, cargo, part] });
+}
+
+describe('Destruction', () => {
+    describe('Contents and Welded Parts', () => {
+        it('should eject contents at the destroyed entity\'s position and velocity', () => {
+            const state = createCarrierState();
+
+            const cargo = findEntity(destroyEntities(state, ['carrier']), 'cargo')!;
+
+            expect(cargo.parentId).toBeUndefined();
+            expect(cargo.position).toEqual(position);
+            expect(cargo.velocity).toEqual(velocity);
+        });
+
+        it('should detach welded parts where they are, with the structure\'s momentum', () => {
+            const state = createCarrierState();
+
+            const part = findEntity(destroyEntities(state, ['carrier']), 'part')!;
+
+            expect(part.weldParentId).toBeUndefined();
+            expect(part.relativeOffset).toBeUndefined();
+            expect(part.position).toEqual({ x: toFP(110), y: 0 });
+            expect(part.velocity).toEqual(velocity);
+            expect(part.mass).toBe(toFP(300));
+        });
+
+        it('should eject into whatever held the destroyed entity', () => {
+            const hauler = createContainer({ id: 'hauler', mass: toFP(2600), carriedMass: toFP(600) });
+            const crate = createContainer({ id: 'crate', mass: toFP(600), fuelMass: 0, carriedMass: toFP(100) });
+            const ore = createMineralStore({ id: 'ore', mass: toFP(100), parentId: 'crate' });
+            const state = createGameState({ entities: [hauler, { ...crate, parentId: 'hauler' }, ore] });
+
+            const nextState = destroyEntities(state, ['crate']);
+
+            expect(findEntity(nextState, 'ore')!.parentId).toBe('hauler');
+            expect(nextState.entities.find(e => e.type === 'DEBRIS')!.parentId).toBe('hauler');
+            expect(findEntity(nextState, 'hauler')!.mass).toBe(toFP(2600));
+        });
+
+        it('should drop a destroyed component from its structure\'s weld history', () => {
+            const state = createCarrierState();
+            const snapshot = { id: 'part', velocity };
+            const carrier: Entity = {
+                ...findEntity(state, 'carrier')!,
+                weldHistory: [{ tick: 0, velocity, components: [snapshot] }],
+            };
+
+            const nextState = destroyEntities({ ...state, entities: [carrier, ...state.entities.slice(1)] }, ['part']);
+
+            expect(findEntity(nextState, 'carrier')!.weldHistory).toEqual([]);
+            expect(findEntity(nextState, 'carrier')!.mass).toBe(toFP(1200));
+        });
+    });
+
+    describe('Debris', () => {
+        it('should leave the entity\'s own mass behind as debris', () => {
+            const state = createCarrierState();
+
+            const nextState = destroyEntities(state, ['carrier']);
+
+            const debris = nextState.entities.filter(e => e.type === 'DEBRIS');
+            expect(debris).toHaveLength(1);
+            expect(debris[0]).toMatchObject({
+                id: 'debris-0-0-carrier-0',
+                mass: toFP(1000),
+                dryMass: toFP(900),
+                fuelMass: toFP(100),
+                position,
+                velocity,
+            });
+            expect(findEntity(nextState, 'carrier')).toBeUndefined();
+            expect(assertMassConservation(state, nextState).passed).toBe(true);
+        });
+
+        it('should derive the same effects from the same state', () => {
+            const state = createCarrierState();
+            const carrier = findEntity(state, 'carrier')!;
+            const context = { tick: 4, wave: 1 };
+
+            expect(getDestructionEffects(carrier, state.entities, context))
+                .toEqual(getDestructionEffects(carrier, state.entities, context));
+        });
+    });
+
+    describe('Invariants', () => {
+        it('should leave no orphaned references', () => {
+            const nextState = destroyEntities(createCarrierState(), ['carrier']);
+
+            expect(assertNoOrphanedReferences(nextState).passed).toBe(true);
+        });
+
+        it('should flag references to missing entities', () => {
+            const state = createCarrierState();
+            const orphaned = { ...state, entities: state.entities.filter(e => e.id !== 'carrier') };
+
+            expect(assertNoOrphanedReferences(orphaned).violations).toEqual([
+                'cargo has orphaned parentId carrier',
+                'part has orphaned weldParentId carrier',
+            ]);
+        });
+    });
+
+    describe('In-Flight Actions', () => {
+        it('should void a later wave\'s action on a destroyed entity with TARGET_DESTROYED', () => {
+            const factory = { ...createShip({ id: 'factory' }), canManufacture: true };
+            const hauler = createContainer({ id: 'hauler' });
+            const ore = createMineralStore({ id: 'ore', mass: toFP(1000), volume: toFP(400), position: { x: toFP(100), y: 0 } });
+            const state = createGameState({ entities: [factory, hauler, ore] });
+
+            const manufacture: ManufactureAction = {
+                type: 'MANUFACTURE',
+                entityId: factory.id,
+                blueprintId: 'cargo-pod',
+                targetIds: [ore.id],
+                orderIndex: 0,
+            };
+            const load: LoadAction = {
+                type: 'LOAD',
+                entityId: hauler.id,
+                contentIds: [ore.id],
+                containerIds: [hauler.id],
+                orderIndex: 1,
+            };
+
+            const result = resolveWaves(state, [manufacture, load], true);
+
+            expect(result.destroyedTargetActions).toEqual([load]);
+            expect(result.clusterResults![1]![0]!.actionResults[0]!.voidReason).toBe('TARGET_DESTROYED');
+            expect(findEntity(result.finalState, ore.id)).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,186 @@
+// ===============================================
+// ENTITY EFFECT TESTS
+// ===============================================
+// tests for the tagged effect union (update / spawn / destroy):
+// - spawned IDs derive from tick, wave, actor and index
+// - a spawn carries a complete entity under a free ID, or is refused
+//   (and the action producing it voided) without crashing the tick
+// - a destroy applies its cascade policy (DESTROY or RELEASE)
+// - the tick resolution honours spawns and destroys end to end
+
+import { describe, it, expect } from 'vitest';
+import {
+    createShip,
+    createResourceWell,
+    createMineralStore,
+    createContainer,
+    createGameState,
+} from '../../../test/factories.js';
+import { runTick, findEntity, getUpdates } from '../../../test/SimRunner.js';
+import { resolveWaves } from '../../../state-handlers/tickResolver.js';
+import { assertMassConservation } from '../../../test/invariants.js';
+import {
+    getSpawnedId,
+    isValidSpawn,
+    canApplySpawns,
+    applySpawn,
+    applyDestroy,
+} from '../../../state-handlers/state-systems/effectSystem.js';
+import { withTotalMass } from '../../../state-handlers/state-systems/massSystem.js';
+import { toFP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type {
+    ExtractAction,
+    ManufactureAction,
+} from '../../../primitive-types/semantic/action/action-types.js';
+
+function extractMinerals(entityId: string): ExtractAction {
+    return {
+        type: 'EXTRACT',
+        entityId,
+        resourceType: 'MINERALS',
+        originIds: ['well-001'],
+        rate: toFP(100),
+        mineralTargetPosition: [{ x: toFP(50), y: 0 }],
+    };
+}
+
+function toMap(entities: Entity[]): Map<string, Entity> {
+    return new Map(entities.map(e => [e.id, e]));
+}
+
+describe('Entity Effects', () => {
+    describe('Spawned IDs', () => {
+        it('should derive the ID from tick, wave, actor and index', () => {
+            expect(getSpawnedId('mineral-store', { tick: 7, wave: 2 }, 'ship-001', 1))
+                .toBe('mineral-store-7-2-ship-001-1');
+        });
+
+        it('should give two actors extracting in the same tick distinct stores', () => {
+            const shipA = createShip({ id: 'ship-a' });
+            const shipB = createShip({ id: 'ship-b', playerId: 'player-002' });
+            const state = createGameState({ entities: [shipA, shipB, createResourceWell()] });
+
+            const nextState = runTick(state, [extractMinerals(shipA.id), extractMinerals(shipB.id)]).nextState;
+
+            const stores = nextState.entities.filter(e => e.type === 'MINERAL_STORE');
+            expect(stores.map(s => s.id).sort()).toEqual([
+                'mineral-store-0-0-ship-a-0',
+                'mineral-store-0-0-ship-b-0',
+            ]);
+            expect(stores.every(s => isValidSpawn(s))).toBe(true);
+            expect(assertMassConservation(state, nextState).passed).toBe(true);
+        });
+    });
+
+    describe('Spawn', () => {
+        it('should refuse an incomplete entity', () => {
+            const partial = { id: 'ghost', position: { x: 0, y: 0 } } as Entity;
+
+            const entityMap = new Map<string, Entity>();
+
+            expect(isValidSpawn(partial)).toBe(false);
+            expect(applySpawn(entityMap, { kind: 'spawn', entity: partial })).toBe(false);
+            expect(entityMap.size).toBe(0);
+        });
+
+        it('should refuse an entity whose mass disagrees with its parts', () => {
+            const store = { ...createMineralStore(), mass: toFP(1) };
+
+            expect(isValidSpawn(store)).toBe(false);
+        });
+
+        it('should refuse an ID that is already taken', () => {
+            const store = createMineralStore();
+            const entityMap = toMap([store]);
+
+            expect(canApplySpawns([store], [{ kind: 'spawn', entity: store }])).toBe(false);
+            expect(applySpawn(entityMap, { kind: 'spawn', entity: { ...store, volume: 0 } })).toBe(false);
+            expect(entityMap.get(store.id)).toBe(store);
+        });
+
+        it('should void a second extract by the same actor in the same wave', () => {
+            const ship = createShip({ id: 'ship-a' });
+            const state = createGameState({ entities: [ship, createResourceWell()] });
+            const first = extractMinerals(ship.id);
+            const second = extractMinerals(ship.id);
+
+            const result = resolveWaves(state, [first, second]);
+
+            const stores = result.finalState.entities.filter(e => e.type === 'MINERAL_STORE');
+            expect(stores.map(s => s.id)).toEqual(['mineral-store-0-0-ship-a-0']);
+            expect(result.clusterResults![0]![0]!.actionResults.map(r => r.voidReason))
+                .toEqual([undefined, 'SPAWN_CONFLICT']);
+            expect(assertMassConservation(state, result.finalState).passed).toBe(true);
+        });
+    });
+
+    describe('Destroy', () => {
+        const hauler = createContainer({ id: 'hauler', mass: toFP(2300), carriedMass: toFP(300) });
+        const ore = createMineralStore({ id: 'ore', mass: toFP(300), parentId: 'hauler' });
+        const crate = createContainer({ id: 'crate', mass: toFP(500) });
+        const nested = createMineralStore({ id: 'nested', mass: toFP(100), parentId: 'crate' });
+        const welded: Entity = {
+            ...createShip({ id: 'welded' }),
+            weldParentId: 'hauler',
+            relativeOffset: { x: toFP(10), y: 0 },
+        };
+
+        it('should destroy everything attached with the DESTROY cascade', () => {
+            const entityMap = toMap([hauler, ore, { ...crate, parentId: 'hauler' }, nested, welded]);
+
+            applyDestroy(entityMap, { kind: 'destroy', id: 'hauler', cascade: 'DESTROY' });
+
+            expect([...entityMap.keys()]).toEqual([]);
+        });
+
+        it('should detach everything attached with the RELEASE cascade', () => {
+            const entityMap = toMap([hauler, ore, welded]);
+
+            applyDestroy(entityMap, { kind: 'destroy', id: 'hauler', cascade: 'RELEASE' });
+
+            expect(entityMap.has('hauler')).toBe(false);
+            expect(entityMap.get('ore')!.parentId).toBeUndefined();
+            expect(entityMap.get('welded')!.weldParentId).toBeUndefined();
+            expect(entityMap.get('welded')!.relativeOffset).toBeUndefined();
+        });
+
+        it('should ignore an entity that is already gone', () => {
+            const entityMap = toMap([ore]);
+
+            applyDestroy(entityMap, { kind: 'destroy', id: 'hauler', cascade: 'DESTROY' });
+
+            expect([...entityMap.keys()]).toEqual(['ore']);
+        });
+
+        it('should drop a destroyed entity\'s mass from its container', () => {
+            const effects = withTotalMass(
+                [{ kind: 'destroy', id: ore.id, cascade: 'DESTROY' }],
+                [hauler, ore]
+            );
+
+            expect(getUpdates(effects).find(u => u.id === 'hauler')!.changes.mass).toBe(toFP(2000));
+        });
+    });
+
+    describe('Resolution', () => {
+        it('should add the manufactured entity and remove its minerals', () => {
+            const factory = { ...createShip({ id: 'factory' }), canManufacture: true };
+            const ore = createMineralStore({ id: 'ore', mass: toFP(1000), volume: toFP(400), position: { x: toFP(100), y: 0 } });
+            const state = createGameState({ entities: [factory, ore] });
+            const action: ManufactureAction = {
+                type: 'MANUFACTURE',
+                entityId: factory.id,
+                blueprintId: 'cargo-pod',
+                targetIds: [ore.id],
+            };
+
+            const nextState = runTick(state, [action]).nextState;
+
+            const pod = findEntity(nextState, 'cargo-pod-0-0-factory-0');
+            expect(pod).toMatchObject({ type: 'ENTITY', mass: toFP(1000), blueprintId: 'cargo-pod' });
+            expect(findEntity(nextState, ore.id)).toBeUndefined();
+            expect(assertMassConservation(state, nextState).passed).toBe(true);
+        });
+    });
+});
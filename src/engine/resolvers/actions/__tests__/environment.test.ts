@@ -0,0 +1,162 @@
+// ===============================================
+// ENVIRONMENT TESTS
+// ===============================================
+// tests for crew bodies and vacuum death:
+// - a body dies in SPACE unless a sealed airlock is up its container chain
+// - on a surface, the body's atmosphere decides
+// - only bodies can ENCOUNTER, and bodies cannot be traded
+// - genesis puts each player's body aboard their first ship
+
+import { describe, it, expect } from 'vitest';
+import {
+    createBody,
+    createContainer,
+    createPlanet,
+    createShip,
+    createGameState,
+} from '../../../test/factories.js';
+import { runTick, findEntity } from '../../../test/SimRunner.js';
+import { assertMassConservation } from '../../../test/invariants.js';
+import {
+    isAirlocked,
+    getVacuumDeaths,
+    applyVacuumDeath,
+} from '../../../state-handlers/state-systems/environmentSystem.js';
+import { encounterValidate } from '../encounterHandler.js';
+import { loadValidate } from '../loadHandler.js';
+import { canPerform } from '../../../state-handlers/state-systems/propertySystem.js';
+import { generateUniverse, DEFAULT_GENESIS_CONFIG } from '../../../genesis/genesisService.js';
+import { BODY_MASS } from '../../../config/engineConfig.js';
+import { fpAdd, toFP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+
+// clear of the test sol's capture radius
+const position = { x: toFP(300000), y: 0 };
+
+function createCabin(airlockSealed: boolean): Entity {
+    return {
+        ...createContainer({ id: 'cabin', mass: toFP(2080), carriedMass: toFP(80), position }),
+        airlockSealed,
+    };
+}
+
+function onSurface(entity: Entity, bodyId: string): Entity {
+    return {
+        ...entity,
+        zoomState: 'SURFACE',
+        surfaceBodyId: bodyId,
+        surfacePosition: { x: 0, y: 0 },
+    };
+}
+
+describe('Environment', () => {
+    describe('Vacuum Death', () => {
+        it('should destroy a body in an unsealed container in SPACE', () => {
+            const body = createBody({ parentId: 'cabin', position });
+            const state = createGameState({ entities: [createCabin(false), body] });
+
+            const nextState = runTick(state).nextState;
+
+            expect(findEntity(nextState, body.id)).toBeUndefined();
+            expect(nextState.entities.filter(e => e.type === 'DEBRIS')).toHaveLength(1);
+            expect(assertMassConservation(state, nextState).passed).toBe(true);
+        });
+
+        it('should keep a body alive behind a sealed airlock', () => {
+            const body = createBody({ parentId: 'cabin', position });
+            const state = createGameState({ entities: [createCabin(true), body] });
+
+            const nextState = runTick(state).nextState;
+
+            expect(findEntity(nextState, body.id)).toBeDefined();
+        });
+
+        it('should destroy a body floating free in SPACE', () => {
+            const state = createGameState({ entities: [createBody({ position })] });
+
+            expect(getVacuumDeaths(state)).toEqual(['body-001']);
+        });
+
+        it('should spare a body that does not require atmosphere', () => {
+            const state = createGameState({ entities: [createBody({ position, requiresAtmosphere: false })] });
+
+            expect(getVacuumDeaths(state)).toEqual([]);
+        });
+
+        it('should look past an open inner container to a sealed outer one', () => {
+            const hauler = createContainer({ id: 'hauler', mass: toFP(5000), carriedMass: toFP(2080), position });
+            const cabin = { ...createCabin(false), parentId: 'hauler' };
+            const body = createBody({ parentId: 'cabin', position });
+
+            expect(isAirlocked(body, [hauler, cabin, body])).toBe(true);
+        });
+    });
+
+    describe('Surfaces', () => {
+        it('should let a body breathe on a surface with atmosphere', () => {
+            const planet = createPlanet({ atmosphere: toFP(500) });
+            const rover = onSurface(createCabin(false), planet.id);
+            const body = onSurface(createBody({ parentId: 'cabin' }), planet.id);
+            const state = createGameState({ celestials: [planet], entities: [rover, body] });
+
+            expect(applyVacuumDeath(state)).toBe(state);
+        });
+
+        it('should destroy an exposed body on an airless surface', () => {
+            const planet = createPlanet({ atmosphere: 0 });
+            const rover = onSurface(createCabin(false), planet.id);
+            const body = onSurface(createBody({ parentId: 'cabin' }), planet.id);
+            const state = createGameState({ celestials: [planet], entities: [rover, body] });
+
+            expect(findEntity(applyVacuumDeath(state), body.id)).toBeUndefined();
+        });
+    });
+
+    describe('Encounter', () => {
+        it('should refuse ENCOUNTER from anything but a body', () => {
+            const ship = { ...createShip(), canEncounter: true };
+
+            expect(encounterValidate(ship, [], {}, [ship])).toBe(false);
+        });
+
+        it('should give bodies the ENCOUNTER capability', () => {
+            const body = createBody({ position });
+
+            expect(canPerform(body, 'ENCOUNTER', [body])).toBe(true);
+        });
+    });
+
+    describe('Trade', () => {
+        it('should refuse to LOAD a body', () => {
+            const hauler = createShip({ position });
+            const crate = createContainer({ id: 'crate', position });
+            const body = createBody({ position });
+            const load = (content: Entity) => loadValidate(
+                hauler,
+                [hauler, content],
+                { containerId: hauler.id, contentIds: [content.id] },
+                [hauler, content]
+            );
+
+            expect(load({ ...crate, volume: toFP(100) })).toBe(true);
+            expect(load(body)).toBe(false);
+        });
+    });
+
+    describe('Genesis', () => {
+        it('should start each player as a body aboard their first ship', () => {
+            const state = generateUniverse('genesis-crew', ['p1', 'p2']);
+
+            for (const playerId of ['p1', 'p2']) {
+                const body = state.entities.find(e => e.type === 'BODY' && e.playerId === playerId)!;
+                const ship = findEntity(state, body.parentId!)!;
+
+                expect(body).toMatchObject({ requiresAtmosphere: true, canEncounter: true, name: `Captain ${playerId}` });
+                expect(ship.playerId).toBe(playerId);
+                expect(ship.airlockSealed).toBe(true);
+                expect(ship.mass).toBe(fpAdd(DEFAULT_GENESIS_CONFIG.playerStartingMass, BODY_MASS));
+            }
+            expect(getVacuumDeaths(state)).toEqual([]);
+        });
+    });
+});
@@ -6,7 +6,14 @@
 
 import { describe, it, expect } from 'vitest';
 import { createShip, createResourceWell, createTickContext, createGameState } from '../../../test/factories.js';
-import { testAction, testValidation, applyEntityUpdate } from '../../../test/SimRunner.js';
+import {
+    testAction,
+    testValidation,
+    applyEntityUpdate,
+    getUpdates,
+    findUpdate,
+    getSpawned,
+} from '../../../test/SimRunner.js';
 import { 
     assertMassConservation, 
     assertInReach, 
@@ -15,6 +22,23 @@ import {
 } from '../../../test/invariants.js';
 import { extractHandler, extractValidate } from '../extractHandler.js';
 import { toFP, fromFP, fpAdd, type FP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import { getMineralGrade } from '../../../state-handlers/state-systems/extractionSystem.js';
+import { getMineralPurity } from '../../../state-handlers/state-systems/modSystem.js';
+import { generateUniverse } from '../../../genesis/genesisService.js';
+import { getEffectId, type Entity, type EntityEffect } from '../../../primitive-types/semantic/entity/entity-types.js';
+
+// extracts minerals from one well into a store at a fixed spot, returning the store
+function extractMineralStore(well: Entity, rate: FP): { effects: EntityEffect[]; store: Entity } {
+    const ship = createShip({ reach: toFP(500) });
+    const context = createTickContext(1, [ship, well]);
+    const effects = extractHandler(
+        ship,
+        [well],
+        { resourceType: 'MINERALS', rate, mineralTargetPosition: [{ x: toFP(50), y: 0 }] },
+        context
+    );
+    return { effects, store: getSpawned(effects)[0]! };
+}
 
 describe('EXTRACT Action', () => {
     describe('Validation', () => {
@@ -132,12 +156,12 @@ describe('EXTRACT Action', () => {
             });
             const context = createTickContext(1, [ship, well]);
 
-            const updates = extractHandler(
+            const updates = getUpdates(extractHandler(
                 ship, 
                 [well], 
                 { resourceType: 'VOLATILES', rate: extractionRate },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(2);
 
@@ -194,12 +218,12 @@ describe('EXTRACT Action', () => {
             });
             const context = createTickContext(1, [ship, well]);
 
-            const updates = extractHandler(
+            const updates = getUpdates(extractHandler(
                 ship, 
                 [well], 
                 { resourceType: 'VOLATILES', rate: requestedRate },
                 context
-            );
+            ));
 
             const shipUpdate = updates.find(u => u.id === ship.id);
             const wellUpdate = updates.find(u => u.id === well.id);
@@ -220,7 +244,7 @@ describe('EXTRACT Action', () => {
             const targetPosition = { x: toFP(200), y: toFP(100) };
             const context = createTickContext(1, [ship, well]);
 
-            const updates = extractHandler(
+            const effects = extractHandler(
                 ship, 
                 [well], 
                 { 
@@ -232,10 +256,11 @@ describe('EXTRACT Action', () => {
             );
 
             // find mineral store spawn
-            const mineralStore = updates.find(u => u.id.startsWith('mineral-store-'));
+            const mineralStore = getSpawned(effects)[0];
             expect(mineralStore).toBeDefined();
-            expect(mineralStore!.changes.position!.x).toBe(targetPosition.x);
-            expect(mineralStore!.changes.position!.y).toBe(targetPosition.y);
+            expect(mineralStore!.type).toBe('MINERAL_STORE');
+            expect(mineralStore!.position.x).toBe(targetPosition.x);
+            expect(mineralStore!.position.y).toBe(targetPosition.y);
         });
 
         it('should reduce well mass when extracting minerals', () => {
@@ -249,7 +274,7 @@ describe('EXTRACT Action', () => {
             });
             const context = createTickContext(1, [ship, well]);
 
-            const updates = extractHandler(
+            const updates = getUpdates(extractHandler(
                 ship, 
                 [well], 
                 { 
@@ -258,7 +283,7 @@ describe('EXTRACT Action', () => {
                     mineralTargetPosition: [{ x: toFP(200), y: toFP(100) }],
                 },
                 context
-            );
+            ));
 
             const wellUpdate = updates.find(u => u.id === well.id);
             expect(wellUpdate).toBeDefined();
@@ -275,7 +300,7 @@ describe('EXTRACT Action', () => {
             });
             const context = createTickContext(1, [ship, well]);
 
-            const updates = extractHandler(
+            const effects = extractHandler(
                 ship, 
                 [well], 
                 { 
@@ -287,19 +312,79 @@ describe('EXTRACT Action', () => {
             );
 
             // mass should be conserved: well loses mass, mineral store gains it
-            const wellUpdate = updates.find(u => u.id === well.id);
-            const mineralStore = updates.find(u => u.id.startsWith('mineral-store-'));
+            const wellUpdate = findUpdate(effects, well.id);
+            const mineralStore = getSpawned(effects)[0];
 
             expect(wellUpdate).toBeDefined();
             expect(mineralStore).toBeDefined();
 
             const wellMassLoss = well.mass - wellUpdate!.changes.mass!;
-            const mineralStoreMass = mineralStore!.changes.mass!;
+            const mineralStoreMass = mineralStore!.mass;
 
             expect(wellMassLoss).toBe(mineralStoreMass);
         });
     });
 
+    describe('Density and Purity', () => {
+        it('should extract the rate as volume and weigh it by the well density', () => {
+            const well = createResourceWell({ wellOriginType: 'ASTEROID', wellDensity: toFP(4) });
+
+            const { effects, store } = extractMineralStore(well, toFP(100));
+
+            const wellUpdate = findUpdate(effects, well.id)!.changes;
+            expect(store.volume).toBe(toFP(100));
+            expect(store.dryMass).toBe(toFP(400));
+            expect(getMineralPurity(store)).toBe(toFP(4));
+            expect(getMineralGrade(store)).toBe('ORE');
+            expect(wellUpdate.dryMass).toBe(well.dryMass - toFP(400));
+            expect(wellUpdate.volume).toBe(well.volume - toFP(100));
+        });
+
+        it('should take only the volume the remaining minerals occupy', () => {
+            // 10500 mass with 10000 volatiles leaves 500 of minerals
+            const well = createResourceWell({ mass: toFP(10500), wellDensity: toFP(4) });
+
+            const { store } = extractMineralStore(well, toFP(1000));
+
+            expect(store.dryMass).toBe(toFP(500));
+            expect(store.volume).toBe(toFP(125));
+        });
+
+        it('should yield slag with trace volatiles from a mixed moon well', () => {
+            const well = createResourceWell({ wellOriginType: 'MOON', wellDensity: toFP(0.5) });
+
+            const { effects, store } = extractMineralStore(well, toFP(1000));
+
+            expect(store.dryMass).toBe(toFP(500));
+            expect(store.volatilesMass).toBe(toFP(25));
+            expect(store.mass).toBe(toFP(525));
+            expect(getMineralGrade(store)).toBe('SLAG');
+            expect(assertUpdateMassConservation([well], effects.filter(e => getEffectId(e) !== 'ship-001')).passed).toBe(true);
+        });
+
+        it('should keep purity 1.0 for wells without a density', () => {
+            const { store } = extractMineralStore(createResourceWell(), toFP(300));
+
+            expect(store.dryMass).toBe(toFP(300));
+            expect(store.volume).toBe(toFP(300));
+        });
+
+        it('should seed genesis wells with a deposit volume and an origin-specific density', () => {
+            const wells = generateUniverse('genesis-density', ['p1']).entities.filter(e => e.type === 'RESOURCE_WELL');
+
+            expect(wells.length).toBeGreaterThan(0);
+            for (const well of wells) {
+                expect(well.volume).toBeGreaterThan(0);
+                expect(well.wellDensity).toBeGreaterThan(0);
+            }
+
+            const asteroidWells = wells.filter(w => w.wellOriginType === 'ASTEROID');
+            const moonWells = wells.filter(w => w.wellOriginType === 'MOON');
+            expect(Math.min(...asteroidWells.map(w => w.wellDensity!))).toBeGreaterThanOrEqual(toFP(3));
+            expect(Math.max(...moonWells.map(w => w.wellDensity!), 0)).toBeLessThanOrEqual(toFP(2));
+        });
+    });
+
     describe('Reach Invariant', () => {
         it('should validate reach before extraction', () => {
             // ship at origin with short reach
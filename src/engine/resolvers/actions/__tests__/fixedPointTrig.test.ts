@@ -0,0 +1,145 @@
+// ===============================================
+// FIXED-POINT TRIG TESTS
+// ===============================================
+// validates the integer-only trig and square root (No Float Leak):
+// bit-identical results against recorded vectors, agreement with the
+// float reference within one FP unit, and the engine modules that
+// switched over (orbit positions, genesis placement).
+
+import { describe, it, expect } from 'vitest';
+import {
+    toFP,
+    fpSin,
+    fpCos,
+    fpAtan2,
+    fpSqrt,
+    isqrt,
+    fpPolarToVector,
+    fpHeadingToVector,
+    SPEED_FROM_VECTOR,
+} from '../../../primitive-types/euclidean/euclidean-types.js';
+import { getOrbitPosition } from '../../../state-handlers/state-systems/celestialSystem.js';
+import { generateUniverse } from '../../../genesis/genesisService.js';
+
+// [FP degrees, sin, cos]
+const SIN_COS_VECTORS: [number, number, number][] = [
+    [0, 0, 1000],
+    [30000, 500, 866],
+    [45000, 707, 707],
+    [90000, 1000, 0],
+    [123456, 834, -551],
+    [180000, 0, -1000],
+    [270000, -1000, 0],
+    [359999, 0, 1000],
+    [-45000, -707, 707],
+    [405000, 707, 707],
+];
+
+// [y, x, FP degrees]
+const ATAN2_VECTORS: [number, number, number][] = [
+    [0, 1000, 0],
+    [1000, 1000, 45000],
+    [1000, 0, 90000],
+    [1000, -1000, 135000],
+    [0, -1000, 180000],
+    [-1000, -1000, 225000],
+    [-1000, 0, 270000],
+    [3000, 4000, 36870],
+    [-4000, 3000, 306870],
+    [123456789, 987654321, 7125],
+];
+
+// [FP, fpSqrt]
+const SQRT_VECTORS: [number, number][] = [
+    [0, 0],
+    [1, 32],
+    [2, 45],
+    [1000, 1000],
+    [2000, 1414],
+    [1000000, 31623],
+    [123456789, 351364],
+    [1e15, 1e9],
+];
+
+describe('Fixed-Point Trig', () => {
+    describe('Recorded vectors', () => {
+        it('should reproduce fpSin and fpCos bit for bit', () => {
+            for (const [angle, sin, cos] of SIN_COS_VECTORS) {
+                expect(fpSin(angle)).toBe(sin);
+                expect(fpCos(angle)).toBe(cos);
+            }
+        });
+
+        it('should reproduce fpAtan2 bit for bit', () => {
+            for (const [y, x, angle] of ATAN2_VECTORS) {
+                expect(fpAtan2(y, x)).toBe(angle);
+            }
+        });
+
+        it('should reproduce fpSqrt bit for bit', () => {
+            for (const [value, root] of SQRT_VECTORS) {
+                expect(fpSqrt(value)).toBe(root);
+            }
+        });
+
+        it('should reproduce full-precision polar offsets bit for bit', () => {
+            expect(fpPolarToVector(30000, toFP(500000))).toEqual({ x: 433012702, y: 250000000 });
+            expect(fpPolarToVector(123456, toFP(1500000))).toEqual({ x: -826944666, y: 1251464150 });
+            expect(fpHeadingToVector(30000, toFP(100))).toEqual({ x: 86600, y: 50000 });
+        });
+    });
+
+    describe('Accuracy', () => {
+        it('should match the float reference for sin and cos to the FP unit', () => {
+            for (let angle = -360000; angle <= 360000; angle += 997) {
+                const radians = (angle / 1000) * (Math.PI / 180);
+
+                expect(fpSin(angle)).toBe(Math.round(Math.sin(radians) * 1000));
+                expect(fpCos(angle)).toBe(Math.round(Math.cos(radians) * 1000));
+            }
+        });
+
+        it('should stay within one FP degree unit of the float atan2', () => {
+            for (let i = 0; i < 500; i++) {
+                const y = Math.round(Math.sin(i * 1.7) * 1e6);
+                const x = Math.round(Math.cos(i * 2.3) * 1e6);
+                const reference = Math.round(Math.atan2(y, x) * (180 / Math.PI) * 1000);
+                const expected = reference < 0 ? reference + 360000 : reference;
+                const diff = Math.abs(fpAtan2(y, x) - expected);
+
+                expect(Math.min(diff, 360000 - diff)).toBeLessThanOrEqual(1);
+            }
+        });
+
+        it('should round isqrt to the nearest integer', () => {
+            for (let n = 0; n < 20000; n += 7) {
+                expect(isqrt(n)).toBe(Math.round(Math.sqrt(n)));
+            }
+        });
+
+        it('should take isqrt beyond the safe integer range', () => {
+            expect(isqrt(1e18)).toBe(1e9);
+            expect(isqrt(Number.MAX_SAFE_INTEGER)).toBe(94906266);
+        });
+
+        it('should measure speed without float sqrt', () => {
+            expect(SPEED_FROM_VECTOR({ x: toFP(30), y: toFP(40) })).toBe(toFP(50));
+        });
+    });
+
+    describe('Engine modules', () => {
+        it('should place rail positions at full precision', () => {
+            const center = { x: toFP(100), y: toFP(-200) };
+
+            expect(getOrbitPosition(center, 217500, toFP(500000))).toEqual({ x: -396576670, y: -304580714 });
+        });
+
+        it('should generate identical universes from the same seed', () => {
+            const players = ['player-001', 'player-002'];
+            const first = generateUniverse('trig-seed', players, { systemCount: 2 });
+            const second = generateUniverse('trig-seed', players, { systemCount: 2 });
+
+            expect(second).toEqual(first);
+        });
+    });
+});
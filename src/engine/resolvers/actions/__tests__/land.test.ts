@@ -0,0 +1,270 @@
+// ===============================================
+// LAND ACTION TESTS
+// ===============================================
+// validates the other half of the launch loop (ORBIT -> SURFACE):
+// free aerobraking onto planets (zone under the rail, nearest platform),
+// gas giant refusal, and moon docking against available thrust.
+
+import { describe, it, expect } from 'vitest';
+import {
+    createShip,
+    createSol,
+    createPlanet,
+    createContainer,
+    createGameState,
+    createTickContext,
+} from '../../../test/factories.js';
+import { runTick, testValidation, getUpdates } from '../../../test/SimRunner.js';
+import { landHandler, landValidate } from '../landHandler.js';
+import {
+    getDockingDeltaV,
+    getDockingFuelCost,
+    getRailOrbitSpeed,
+    canDock,
+} from '../../../state-handlers/state-systems/orbitSystem.js';
+import {
+    getZoneFromAngle,
+    getZoneFromSurfacePosition,
+    getSurfacePointForZone,
+} from '../../../state-handlers/state-systems/surfaceSystem.js';
+import { getOrbitPosition } from '../../../state-handlers/state-systems/celestialSystem.js';
+import { toFP, type FP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type { Moon, Planet } from '../../../primitive-types/semantic/celestial/celestial-types.js';
+import type { LandAction } from '../../../primitive-types/semantic/action/action-types.js';
+
+function createStaticPlanet(overrides: Partial<Planet> = {}): Planet {
+    return { ...createPlanet({ orbitSpeed: toFP(0) }), ...overrides };
+}
+
+function createMoon(planet: Planet, orbitSpeed: FP): Moon {
+    return {
+        id: 'moon-001',
+        name: 'Test Moon',
+        type: 'MOON',
+        parentPlanetId: planet.id,
+        position: { x: planet.position.x + toFP(20000), y: planet.position.y },
+        mass: toFP(1000),
+        radius: toFP(1000),
+        captureRadius: toFP(5000),
+        z: toFP(2),
+        atmosphere: toFP(0),
+        gravity: toFP(0.06),
+        orbitRadius: toFP(20000),
+        orbitAngle: toFP(0),
+        orbitSpeed,
+    };
+}
+
+function createRailShip(planet: Planet, orbitAngle: FP, orbitSpeed: FP, overrides: Partial<Entity> = {}): Entity {
+    return {
+        ...createShip({
+            position: getOrbitPosition(planet.position, orbitAngle, planet.captureRadius),
+            mass: toFP(1000),
+            fuelMass: toFP(500),
+        }),
+        zoomState: 'ORBIT',
+        orbitTargetId: planet.id,
+        orbitAngle,
+        orbitSpeed,
+        orbitRadius: planet.captureRadius,
+        ...overrides,
+    };
+}
+
+function land(ship: Entity, celestials: (Planet | Moon)[], inputs: Record<string, unknown> = {}, others: Entity[] = []) {
+    const context = createTickContext(1, [ship, ...others], [createSol(), ...celestials]);
+    return getUpdates(landHandler(ship, [], inputs, context));
+}
+
+describe('LAND Action', () => {
+    describe('Validation', () => {
+        it('should pass for an entity on a rail', () => {
+            const ship = createRailShip(createStaticPlanet(), toFP(0), toFP(60));
+
+            expect(testValidation('LAND', ship, [], {})).toBe(true);
+        });
+
+        it('should fail in space', () => {
+            expect(testValidation('LAND', createShip(), [], {})).toBe(false);
+        });
+
+        it('should fail for a welded entity', () => {
+            const ship = createRailShip(createStaticPlanet(), toFP(0), toFP(60), { weldParentId: 'hull' });
+
+            expect(testValidation('LAND', ship, [], {})).toBe(false);
+        });
+
+        it('should fail with a malformed body id', () => {
+            const ship = createRailShip(createStaticPlanet(), toFP(0), toFP(60));
+
+            expect(testValidation('LAND', ship, [], { bodyId: 42 })).toBe(false);
+        });
+
+        it('should fail on a gas giant or an undockable moon once the world is known', () => {
+            const giant = createStaticPlanet({ planetType: 'GAS_GIANT' });
+            const overGiant = createRailShip(giant, toFP(0), toFP(60));
+            const planet = createStaticPlanet({ id: 'planet-002' });
+            const moon = createMoon(planet, toFP(10));
+            const tooFast = createRailShip(planet, toFP(0), toFP(15));
+            const world = { celestials: [createSol(), giant, planet, moon], surfaces: [] };
+
+            expect(landValidate(overGiant, [], {}, [overGiant], world)).toBe(false);
+            expect(landValidate(tooFast, [], { bodyId: moon.id }, [tooFast], world)).toBe(false);
+            expect(landValidate(tooFast, [], {}, [tooFast], world)).toBe(true);
+        });
+    });
+
+    describe('Planets (aerobraking)', () => {
+        it('should land for free in the zone under the rail angle', () => {
+            const planet = createStaticPlanet();
+            const ship = createRailShip(planet, toFP(130), toFP(60));
+
+            const changes = land(ship, [planet])[0]!.changes;
+
+            expect(changes.zoomState).toBe('SURFACE');
+            expect(changes.surfaceBodyId).toBe(planet.id);
+            expect(changes.position).toEqual(planet.position);
+            expect(changes.fuelMass).toBeUndefined();
+            expect(changes.orbitTargetId).toBeUndefined();
+            expect(getZoneFromSurfacePosition(changes.surfacePosition!, null)).toBe(getZoneFromAngle(toFP(130), 6));
+        });
+
+        it('should land on a deterministic point in the zone', () => {
+            const planet = createStaticPlanet();
+            const ship = createRailShip(planet, toFP(130), toFP(60));
+
+            const first = land(ship, [planet])[0]!.changes;
+            const second = land(ship, [planet])[0]!.changes;
+
+            expect(first.surfacePosition).toEqual(second.surfacePosition);
+            expect(first.surfacePosition).toEqual(getSurfacePointForZone(planet, 2, null));
+        });
+
+        it('should land on the nearest platform in the zone', () => {
+            const planet = createStaticPlanet();
+            const ship = createRailShip(planet, toFP(130), toFP(60));
+            const zonePoint = getSurfacePointForZone(planet, 2, null);
+            const onSurface = (id: string, offset: FP): Entity => ({
+                ...createContainer({ id }),
+                type: 'PLATFORM',
+                zoomState: 'SURFACE',
+                surfaceBodyId: planet.id,
+                surfacePosition: { x: zonePoint.x, y: zonePoint.y + offset },
+                position: { ...planet.position },
+            });
+            const near = onSurface('platform-near', toFP(10));
+            const far = onSurface('platform-far', toFP(200));
+
+            const changes = land(ship, [planet], {}, [far, near])[0]!.changes;
+
+            expect(changes.surfacePosition).toEqual(near.surfacePosition);
+        });
+
+        it('should refuse to land on a gas giant', () => {
+            const planet = createStaticPlanet({ planetType: 'GAS_GIANT' });
+            const ship = createRailShip(planet, toFP(0), toFP(60));
+
+            expect(land(ship, [planet])).toEqual([]);
+        });
+
+        it('should keep a retrograde burn on a gas giant rail', () => {
+            const planet = createStaticPlanet({ planetType: 'GAS_GIANT' });
+            // 60 along the rail, between the gates; the burn drops it below Vfall
+            const ship = createRailShip(planet, toFP(0), getRailOrbitSpeed(toFP(60), planet.captureRadius));
+            const state = createGameState({ celestials: [createSol(), planet], entities: [ship] });
+
+            const { nextState } = runTick(state, [{
+                type: 'THRUST',
+                entityId: ship.id,
+                direction: { x: toFP(0), y: toFP(-1) },
+                magnitude: toFP(50),
+            }]);
+
+            expect(nextState.entities[0]!.zoomState).toBe('ORBIT');
+        });
+    });
+
+    describe('Moons (docking)', () => {
+        it('should burn the ω gap as rail speed, costed like thrust', () => {
+            const planet = createStaticPlanet();
+            const moon = createMoon(planet, toFP(10));
+            // Δω = 0.1° on a 20000 rail: v = 0.1 × π / 180 × 20000
+            const ship = createRailShip(planet, toFP(0), toFP(10.1));
+
+            expect(getDockingDeltaV(ship, moon)).toBe(toFP(34.907));
+            // 34.907 × 1000 × 0.01
+            expect(getDockingFuelCost(ship, moon)).toBe(toFP(349.07));
+        });
+
+        it('should dock and burn the docking fuel when ω is matched', () => {
+            const planet = createStaticPlanet();
+            const moon = createMoon(planet, toFP(10));
+            const ship = createRailShip(planet, toFP(0), toFP(10.1));
+
+            const changes = land(ship, [planet, moon], { bodyId: moon.id })[0]!.changes;
+
+            expect(changes.zoomState).toBe('SURFACE');
+            expect(changes.surfaceBodyId).toBe(moon.id);
+            expect(changes.position).toEqual(moon.position);
+            expect(changes.fuelMass).toBe(toFP(150.93));
+            expect(changes.mass).toBe(toFP(650.93));
+        });
+
+        it('should accept a docking burn within the margin of error', () => {
+            const planet = createStaticPlanet();
+            const moon = createMoon(planet, toFP(10));
+            // Δv 104.72 vs 100 available thrust: inside the 10% margin
+            // (fuel to spare, so only the thrust cap decides)
+            const ship = createRailShip(planet, toFP(0), toFP(10.3), { fuelMass: toFP(5000) });
+
+            expect(getDockingDeltaV(ship, moon)).toBe(toFP(104.72));
+            expect(canDock(ship, moon)).toBe(true);
+        });
+
+        it('should refuse docking when the fuel cannot pay the full burn', () => {
+            const planet = createStaticPlanet();
+            const moon = createMoon(planet, toFP(10));
+            // cost 349.07, inside the thrust cap, but only 300 fuel on board
+            const ship = createRailShip(planet, toFP(0), toFP(10.1), { fuelMass: toFP(300) });
+
+            expect(canDock(ship, moon)).toBe(false);
+            expect(land(ship, [planet, moon], { bodyId: moon.id })).toEqual([]);
+        });
+
+        it('should refuse docking when the speed gap exceeds available thrust', () => {
+            const planet = createStaticPlanet();
+            const moon = createMoon(planet, toFP(10));
+            // Δv 113.446 vs 110 with the margin, however much fuel is aboard
+            const ship = createRailShip(planet, toFP(0), toFP(10.325), { fuelMass: toFP(5000) });
+
+            expect(canDock(ship, moon)).toBe(false);
+            expect(land(ship, [planet, moon], { bodyId: moon.id })).toEqual([]);
+        });
+
+        it('should refuse docking with a moon of another planet', () => {
+            const planet = createStaticPlanet();
+            const moon = { ...createMoon(planet, toFP(10)), parentPlanetId: 'planet-999' };
+            const ship = createRailShip(planet, toFP(0), toFP(10));
+
+            expect(land(ship, [planet, moon], { bodyId: moon.id })).toEqual([]);
+        });
+    });
+
+    describe('Tick Resolution', () => {
+        it('should be on the surface after the tick', () => {
+            const planet = createStaticPlanet();
+            const ship = createRailShip(planet, toFP(130), toFP(60));
+            const state = createGameState({ celestials: [createSol(), planet], entities: [ship] });
+            const action: LandAction = { type: 'LAND', entityId: ship.id };
+
+            const { nextState } = runTick(state, [action]);
+            const landed = nextState.entities[0]!;
+
+            expect(landed.zoomState).toBe('SURFACE');
+            expect(landed.surfaceBodyId).toBe(planet.id);
+            expect(landed.orbitAngle).toBeUndefined();
+            expect(landed.position).toEqual(planet.position);
+        });
+    });
+});
@@ -0,0 +1,255 @@
+// ===============================================
+// LAUNCH ACTION TESTS
+// ===============================================
+// validates the vertical launch gate (SURFACE -> ORBIT): Z-difference
+// fuel cost from the gravity map, rail entry at the launch zone's angle,
+// and the launch-ratio orbital speed selected by over-burning.
+
+import { describe, it, expect } from 'vitest';
+import {
+    createShip,
+    createSol,
+    createPlanet,
+    createGameState,
+    createTickContext,
+} from '../../../test/factories.js';
+import { runTick, testValidation, getUpdates } from '../../../test/SimRunner.js';
+import { launchHandler, launchValidate } from '../launchHandler.js';
+import { getLaunchFuelRequired } from '../../../state-handlers/state-systems/orbitSystem.js';
+import {
+    getRailAngleFromSurfacePosition,
+    getSurfaceZ,
+} from '../../../state-handlers/state-systems/surfaceSystem.js';
+import { getOrbitPosition } from '../../../state-handlers/state-systems/celestialSystem.js';
+import { generateSurfaceMap, SeededRNG } from '../../../genesis/genesisService.js';
+import { toFP, type FP, type Vector2FP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type { Moon, Planet } from '../../../primitive-types/semantic/celestial/celestial-types.js';
+import type { SurfaceMap } from '../../../state-types/state-types.js';
+import type { LaunchAction } from '../../../primitive-types/semantic/action/action-types.js';
+
+// flat planet (no gravity map): Zsurface = 1000 × 0.08 = 80
+// fuel_required = 1000 × (80 - 50) × 0.01 = 300
+function createStaticPlanet(): Planet {
+    return createPlanet({ orbitSpeed: toFP(0), gravity: toFP(0.08) });
+}
+
+function createGroundedShip(bodyId: string, overrides: Partial<Entity> = {}): Entity {
+    return {
+        ...createShip({ mass: toFP(1000), fuelMass: toFP(600) }),
+        zoomState: 'SURFACE',
+        surfaceBodyId: bodyId,
+        surfacePosition: { x: toFP(100), y: toFP(100) },
+        ...overrides,
+    };
+}
+
+function launch(
+    ship: Entity,
+    celestials: (Planet | Moon)[],
+    launchVector: Vector2FP = { x: 0, y: 0 },
+    surfaces: SurfaceMap[] = []
+) {
+    const context = createTickContext(1, [ship], [createSol(), ...celestials]);
+    const surfaceContext = { ...context, state: { ...context.state, surfaces } };
+    return getUpdates(launchHandler(ship, [], { launchVector }, surfaceContext));
+}
+
+describe('LAUNCH Action', () => {
+    describe('Validation', () => {
+        it('should pass for a fueled entity on a surface', () => {
+            const ship = createGroundedShip('planet-001');
+
+            expect(testValidation('LAUNCH', ship, [], { launchVector: { x: 0, y: 0 } })).toBe(true);
+        });
+
+        it('should fail when not on a surface', () => {
+            const ship = createShip({ fuelMass: toFP(600) });
+
+            expect(testValidation('LAUNCH', ship, [], { launchVector: { x: 0, y: 0 } })).toBe(false);
+        });
+
+        it('should fail without fuel', () => {
+            const ship = createGroundedShip('planet-001', { fuelMass: toFP(0) });
+
+            expect(testValidation('LAUNCH', ship, [], { launchVector: { x: 0, y: 0 } })).toBe(false);
+        });
+
+        it('should fail for a contained entity', () => {
+            const ship = createGroundedShip('planet-001', { parentId: 'carrier' });
+
+            expect(testValidation('LAUNCH', ship, [], { launchVector: { x: 0, y: 0 } })).toBe(false);
+        });
+
+        it('should fail with a malformed launch vector', () => {
+            const ship = createGroundedShip('planet-001');
+
+            expect(testValidation('LAUNCH', ship, [], { launchVector: 'up' })).toBe(false);
+        });
+
+        it('should fail without the fuel the ground under it demands', () => {
+            const planet = createStaticPlanet();
+            const world = { celestials: [createSol(), planet], surfaces: [] };
+            const validate = (fuelMass: FP) => {
+                const ship = createGroundedShip(planet.id, { fuelMass });
+                return launchValidate(ship, [], {}, [ship], world);
+            };
+
+            expect(validate(toFP(300))).toBe(true);
+            expect(validate(toFP(299))).toBe(false);
+        });
+
+        it('should fail from a body that is not in the world', () => {
+            const ship = createGroundedShip('planet-missing');
+
+            expect(launchValidate(ship, [], {}, [ship], { celestials: [createSol()], surfaces: [] })).toBe(false);
+        });
+    });
+
+    describe('Fuel Cost', () => {
+        it('should cost m × (Zsurface - Zorbit) × LAUNCH_EFFICIENCY_CONSTANT', () => {
+            expect(getLaunchFuelRequired(toFP(1000), toFP(200))).toBe(toFP(1500));
+        });
+
+        it('should be free from ground at or below the orbit Z', () => {
+            expect(getLaunchFuelRequired(toFP(1000), toFP(30))).toBe(0);
+        });
+
+        it('should burn exactly the required fuel and ejected mass', () => {
+            const planet = createStaticPlanet();
+            const ship = createGroundedShip(planet.id);
+
+            const changes = launch(ship, [planet])[0]!.changes;
+
+            expect(changes.fuelMass).toBe(toFP(300));
+            expect(changes.mass).toBe(toFP(700));
+        });
+
+        it('should refuse when fuel is below the requirement', () => {
+            const planet = createStaticPlanet();
+            const ship = createGroundedShip(planet.id, { fuelMass: toFP(299) });
+
+            expect(launch(ship, [planet])).toEqual([]);
+        });
+
+        it('should sample Zsurface from the gravity map (high ground is cheaper)', () => {
+            const planet = createStaticPlanet();
+            const map = generateSurfaceMap(planet, new SeededRNG('launch-seed'));
+            const byZ = [...map.pointsOfInterest].sort((a, b) => a.z - b.z);
+            const highGround = byZ[0]!;
+            const lowGround = byZ[byZ.length - 1]!;
+
+            const fromHigh = createGroundedShip(planet.id, { surfacePosition: highGround.position });
+            const fromLow = createGroundedShip(planet.id, { surfacePosition: lowGround.position });
+
+            const highFuelLeft = launch(fromHigh, [planet], undefined, [map])[0]!.changes.fuelMass!;
+            const lowFuelLeft = launch(fromLow, [planet], undefined, [map])[0]!.changes.fuelMass!;
+
+            expect(toFP(600) - lowFuelLeft).toBe(
+                getLaunchFuelRequired(toFP(1000), getSurfaceZ(map, lowGround.position))
+            );
+            expect(highFuelLeft).toBeGreaterThan(lowFuelLeft);
+        });
+    });
+
+    describe('Rail Entry', () => {
+        it('should enter the rail at the angle of the launch zone', () => {
+            const planet = createStaticPlanet();
+            const ship = createGroundedShip(planet.id, { surfacePosition: { x: toFP(-200), y: toFP(50) } });
+            const expectedAngle = getRailAngleFromSurfacePosition(ship.surfacePosition!, null);
+
+            const changes = launch(ship, [planet])[0]!.changes;
+
+            expect(changes.zoomState).toBe('ORBIT');
+            expect(changes.orbitTargetId).toBe(planet.id);
+            expect(changes.orbitAngle).toBe(expectedAngle);
+            expect(changes.orbitRadius).toBe(planet.captureRadius);
+            expect(changes.position).toEqual(getOrbitPosition(planet.position, expectedAngle, planet.captureRadius));
+            expect(changes.surfaceBodyId).toBeUndefined();
+            expect(changes.surfacePosition).toBeUndefined();
+        });
+
+        it('should enter at base orbital velocity on a minimum burn', () => {
+            const planet = createStaticPlanet();
+            const ship = createGroundedShip(planet.id);
+
+            const changes = launch(ship, [planet])[0]!.changes;
+
+            expect(changes.orbitSpeed).toBe(toFP(10));
+        });
+
+        it('should enter a faster orbit on an over-burn', () => {
+            const planet = createStaticPlanet();
+            const ship = createGroundedShip(planet.id);
+
+            // 150 extra on 300 required: launch_ratio = 1.5
+            const changes = launch(ship, [planet], { x: toFP(150), y: 0 })[0]!.changes;
+
+            expect(changes.orbitSpeed).toBe(toFP(15));
+            expect(changes.fuelMass).toBe(toFP(150));
+        });
+
+        it('should cap the over-burn at the fuel on board', () => {
+            const planet = createStaticPlanet();
+            const ship = createGroundedShip(planet.id);
+
+            const changes = launch(ship, [planet], { x: toFP(10000), y: 0 })[0]!.changes;
+
+            // 600 burned on 300 required: launch_ratio = 2
+            expect(changes.fuelMass).toBe(0);
+            expect(changes.orbitSpeed).toBe(toFP(20));
+        });
+
+        it('should enter the parent planet rail when launching from a moon', () => {
+            const planet = createStaticPlanet();
+            const moon: Moon = {
+                id: 'moon-001',
+                name: 'Test Moon',
+                type: 'MOON',
+                parentPlanetId: planet.id,
+                position: { x: planet.position.x + toFP(20000), y: planet.position.y },
+                mass: toFP(1000),
+                radius: toFP(1000),
+                captureRadius: toFP(5000),
+                z: toFP(2),
+                atmosphere: toFP(0),
+                gravity: toFP(0.06),
+                orbitRadius: toFP(20000),
+                orbitAngle: toFP(0),
+                orbitSpeed: toFP(10),
+            };
+            const ship = createGroundedShip(moon.id);
+
+            const changes = launch(ship, [planet, moon])[0]!.changes;
+
+            expect(changes.zoomState).toBe('ORBIT');
+            expect(changes.orbitTargetId).toBe(planet.id);
+            // Zsurface = 60: 1000 × 10 × 0.01 = 100 burned
+            expect(changes.fuelMass).toBe(toFP(500));
+        });
+    });
+
+    describe('Tick Resolution', () => {
+        it('should be riding the rail after the tick', () => {
+            const planet = createStaticPlanet();
+            const ship = createGroundedShip(planet.id);
+            const state = createGameState({ celestials: [createSol(), planet], entities: [ship] });
+            const action: LaunchAction = {
+                type: 'LAUNCH',
+                entityId: ship.id,
+                launchVector: { x: 0, y: 0 },
+            };
+
+            const { nextState } = runTick(state, [action]);
+            const launched = nextState.entities[0]!;
+            const entryAngle: FP = getRailAngleFromSurfacePosition(ship.surfacePosition!, null);
+
+            expect(launched.zoomState).toBe('ORBIT');
+            // the rail advances by ω in the same tick
+            expect(launched.orbitAngle).toBe(entryAngle + toFP(10));
+            expect(launched.position).toEqual(
+                getOrbitPosition(planet.position, entryAngle + toFP(10), planet.captureRadius)
+            );
+        });
+    });
+});
@@ -15,7 +15,7 @@ import {
     createTickContext, 
     createGameState 
 } from '../../../test/factories.js';
-import { testAction, testValidation, runTick, applyUpdatesToState } from '../../../test/SimRunner.js';
+import { testAction, testValidation, runTick, applyUpdatesToState, getUpdates } from '../../../test/SimRunner.js';
 import { 
     assertMassConservation, 
     assertInReach, 
@@ -280,12 +280,12 @@ describe('LOAD Action', () => {
 
             const context = createTickContext(1, [actorContainer, content]);
 
-            const updates = loadHandler(
+            const updates = getUpdates(loadHandler(
                 actorContainer,
                 [content, actorContainer],
                 { contentIds: ['content'], containerId: 'actor' },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(2);
 
@@ -320,12 +320,12 @@ describe('LOAD Action', () => {
 
             const context = createTickContext(1, [actor, content, hauler]);
 
-            const updates = loadHandler(
+            const updates = getUpdates(loadHandler(
                 actor,
                 [content, hauler],
                 { contentIds: ['content'], containerId: 'hauler' },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(2);
 
@@ -364,12 +364,12 @@ describe('LOAD Action', () => {
 
             const context = createTickContext(1, [actor, content1, content2]);
 
-            const updates = loadHandler(
+            const updates = getUpdates(loadHandler(
                 actor,
                 [content1, content2, actor],
                 { contentIds: ['content-1', 'content-2'], containerId: 'actor' },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(3);
 
@@ -433,12 +433,12 @@ describe('LOAD Action', () => {
 
             const context = createTickContext(1, [actor, content]);
 
-            const updates = loadHandler(
+            const updates = getUpdates(loadHandler(
                 actor,
                 [content, actor],
                 { contentIds: ['content'], containerId: 'actor' },
                 context
-            );
+            ));
 
             const contentUpdate = updates.find(u => u.id === 'content');
             expect(contentUpdate!.changes.position).toEqual(actor.position);
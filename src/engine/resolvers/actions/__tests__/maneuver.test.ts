@@ -0,0 +1,234 @@
+// ===============================================
+// MANEUVER ACTION TESTS
+// ===============================================
+// validates surface travel: range = (Fp / (m × g)) × A, climb cost across
+// the gravity map, the closest reachable point toward a cursor, and the
+// vacuum gate for atmosphere-bound entities.
+
+import { describe, it, expect } from 'vitest';
+import {
+    createShip,
+    createSol,
+    createPlanet,
+    createGameState,
+    createTickContext,
+} from '../../../test/factories.js';
+import { runTick, testValidation, getUpdates } from '../../../test/SimRunner.js';
+import { maneuverHandler, getClosestReachablePoint } from '../maneuverHandler.js';
+import {
+    getSurfaceRange,
+    getSurfacePathCost,
+} from '../../../state-handlers/state-systems/surfaceSystem.js';
+import { toFP, type Vector2FP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type { Planet } from '../../../primitive-types/semantic/celestial/celestial-types.js';
+import type { SurfaceMap } from '../../../state-types/state-types.js';
+import type { ManeuverAction } from '../../../primitive-types/semantic/action/action-types.js';
+
+// flat planet: g = 0.2, A = 500 / 1000 = 0.5
+// range = (100000 / (1000 × 0.2)) × 0.5 = 250
+function createStaticPlanet(overrides: Partial<Planet> = {}): Planet {
+    return { ...createPlanet({ orbitSpeed: toFP(0) }), ...overrides };
+}
+
+function createRover(bodyId: string, overrides: Partial<Entity> = {}): Entity {
+    return {
+        ...createShip({ mass: toFP(1000), fuelMass: toFP(100) }),
+        zoomState: 'SURFACE',
+        surfaceBodyId: bodyId,
+        surfacePosition: { x: 0, y: 0 },
+        planetForce: toFP(100000),
+        ...overrides,
+    };
+}
+
+// a single crater at the core: Z rises toward the center,
+// so walking outward climbs toward high ground
+function createCraterMap(bodyId: string): SurfaceMap {
+    return {
+        bodyId,
+        topography: 'CRATERS',
+        baseZ: toFP(200),
+        waves: [],
+        craters: [{ center: { x: 0, y: 0 }, radius: toFP(1000), depth: toFP(100) }],
+        pointsOfInterest: [],
+        zones: [],
+    };
+}
+
+function maneuver(rover: Entity, planet: Planet, targetPosition: Vector2FP) {
+    const context = createTickContext(1, [rover], [createSol(), planet]);
+    return getUpdates(maneuverHandler(rover, [], { targetPosition }, context));
+}
+
+describe('MANEUVER Action', () => {
+    describe('Validation', () => {
+        it('should pass for a powered entity on a surface', () => {
+            const rover = createRover('planet-001');
+
+            expect(testValidation('MANEUVER', rover, [], { targetPosition: { x: toFP(10), y: 0 } })).toBe(true);
+        });
+
+        it('should fail without planet force', () => {
+            const rover = createRover('planet-001', { planetForce: undefined });
+
+            expect(testValidation('MANEUVER', rover, [], { targetPosition: { x: toFP(10), y: 0 } })).toBe(false);
+        });
+
+        it('should fail in space', () => {
+            const ship = { ...createShip(), planetForce: toFP(100000) };
+
+            expect(testValidation('MANEUVER', ship, [], { targetPosition: { x: toFP(10), y: 0 } })).toBe(false);
+        });
+
+        it('should fail for a welded entity', () => {
+            const rover = createRover('planet-001', { weldParentId: 'hull' });
+
+            expect(testValidation('MANEUVER', rover, [], { targetPosition: { x: toFP(10), y: 0 } })).toBe(false);
+        });
+
+        it('should fail without a target position', () => {
+            expect(testValidation('MANEUVER', createRover('planet-001'), [], {})).toBe(false);
+        });
+    });
+
+    describe('Range', () => {
+        it('should be (Fp / (m × g)) × A', () => {
+            expect(getSurfaceRange(toFP(100000), toFP(1000), createStaticPlanet())).toBe(toFP(250));
+        });
+
+        it('should shrink with mass and gravity', () => {
+            const planet = createStaticPlanet();
+            const heavyWorld = createStaticPlanet({ gravity: toFP(0.4) });
+
+            expect(getSurfaceRange(toFP(100000), toFP(2000), planet)).toBe(toFP(125));
+            expect(getSurfaceRange(toFP(100000), toFP(1000), heavyWorld)).toBe(toFP(125));
+        });
+
+        it('should be zero in vacuum', () => {
+            expect(getSurfaceRange(toFP(100000), toFP(1000), createStaticPlanet({ atmosphere: 0 }))).toBe(0);
+        });
+    });
+
+    describe('Movement', () => {
+        it('should reach a target inside range', () => {
+            const planet = createStaticPlanet();
+            const rover = createRover(planet.id);
+            const target = { x: toFP(120), y: toFP(-90) };
+
+            const changes = maneuver(rover, planet, target)[0]!.changes;
+
+            expect(changes.surfacePosition).toEqual(target);
+        });
+
+        it('should stop at the edge of range toward a far target', () => {
+            const planet = createStaticPlanet();
+            const rover = createRover(planet.id);
+
+            const changes = maneuver(rover, planet, { x: toFP(1000), y: 0 })[0]!.changes;
+
+            expect(changes.surfacePosition).toEqual({ x: toFP(250), y: 0 });
+        });
+
+        it('should refuse a target off the surface', () => {
+            const planet = createStaticPlanet();
+            const rover = createRover(planet.id);
+
+            expect(maneuver(rover, planet, { x: planet.radius + toFP(1), y: 0 })).toEqual([]);
+        });
+
+        it('should not burn fuel', () => {
+            const planet = createStaticPlanet();
+            const rover = createRover(planet.id);
+
+            const changes = maneuver(rover, planet, { x: toFP(100), y: 0 })[0]!.changes;
+
+            expect(changes.fuelMass).toBeUndefined();
+            expect(changes.mass).toBeUndefined();
+        });
+    });
+
+    describe('Gravity Map', () => {
+        it('should charge the climb toward high ground', () => {
+            const planet = createStaticPlanet();
+            const map = createCraterMap(planet.id);
+            const outward = getSurfacePathCost(planet, map, { x: 0, y: 0 }, { x: toFP(200), y: 0 });
+            const inward = getSurfacePathCost(planet, map, { x: toFP(200), y: 0 }, { x: 0, y: 0 });
+
+            expect(outward).toBeGreaterThan(toFP(200));
+            expect(inward).toBe(toFP(200));
+        });
+
+        it('should reach less far uphill than downhill', () => {
+            const planet = createStaticPlanet();
+            const state = createGameState({ celestials: [createSol(), planet], surfaces: [createCraterMap(planet.id)] });
+            const atCore = createRover(planet.id);
+            const atRim = createRover(planet.id, { surfacePosition: { x: toFP(600), y: 0 } });
+
+            const uphill = getClosestReachablePoint(atCore, { x: toFP(600), y: 0 }, state)!;
+            const downhill = getClosestReachablePoint(atRim, { x: toFP(200), y: 0 }, state)!;
+
+            expect(uphill.x).toBeLessThan(toFP(250));
+            expect(downhill.x).toBe(toFP(350));
+        });
+    });
+
+    describe('Closest Reachable Point', () => {
+        it('should match the handler destination', () => {
+            const planet = createStaticPlanet();
+            const rover = createRover(planet.id);
+            const state = createGameState({ celestials: [createSol(), planet], entities: [rover] });
+            const cursor = { x: toFP(-700), y: toFP(700) };
+
+            const ghost = getClosestReachablePoint(rover, cursor, state);
+            const changes = maneuver(rover, planet, cursor)[0]!.changes;
+
+            expect(ghost).toEqual(changes.surfacePosition);
+        });
+
+        it('should be null for an entity that is not on a surface', () => {
+            const planet = createStaticPlanet();
+            const state = createGameState({ celestials: [createSol(), planet] });
+
+            expect(getClosestReachablePoint(createShip(), { x: 0, y: 0 }, state)).toBeNull();
+        });
+    });
+
+    describe('Atmosphere', () => {
+        it('should reject maneuvers into vacuum for atmosphere-bound entities', () => {
+            const planet = createStaticPlanet({ atmosphere: 0 });
+            const rover = createRover(planet.id, { requiresAtmosphere: true });
+
+            expect(maneuver(rover, planet, { x: toFP(10), y: 0 })).toEqual([]);
+        });
+
+        it('should let other entities stay put in vacuum', () => {
+            const planet = createStaticPlanet({ atmosphere: 0 });
+            const rover = createRover(planet.id);
+
+            const changes = maneuver(rover, planet, { x: toFP(10), y: 0 })[0]!.changes;
+
+            expect(changes.surfacePosition).toEqual({ x: 0, y: 0 });
+        });
+    });
+
+    describe('Tick Resolution', () => {
+        it('should be at the reachable point after the tick', () => {
+            const planet = createStaticPlanet();
+            const rover = createRover(planet.id, { position: { ...planet.position } });
+            const state = createGameState({ celestials: [createSol(), planet], entities: [rover] });
+            const action: ManeuverAction = {
+                type: 'MANEUVER',
+                entityId: rover.id,
+                targetPosition: { x: 0, y: toFP(1000) },
+            };
+
+            const { nextState } = runTick(state, [action]);
+            const moved = nextState.entities[0]!;
+
+            expect(moved.zoomState).toBe('SURFACE');
+            expect(moved.surfacePosition).toEqual({ x: 0, y: toFP(250) });
+            expect(moved.position).toEqual(planet.position);
+        });
+    });
+});
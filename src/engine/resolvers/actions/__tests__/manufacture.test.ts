@@ -0,0 +1,160 @@
+// ===============================================
+// MANUFACTURE ACTION TESTS
+// ===============================================
+// tests for the MANUFACTURE action implementation:
+// - mineral stores within reach are reshaped into a blueprint's entity
+// - output mass = input mass, output volume = input volume (exactly)
+// - properties = f(input mass, template)
+// - deterministic IDs and creationTick on the new entity
+// - the minerals are destroyed
+// - genesis player ships can manufacture
+
+import { describe, it, expect } from 'vitest';
+import { createShip, createMineralStore, createTickContext } from '../../../test/factories.js';
+import { testValidation, findUpdate, getSpawned, runTick, findEntity } from '../../../test/SimRunner.js';
+import { assertUpdateMassConservation } from '../../../test/invariants.js';
+import { manufactureHandler, getManufacturedId } from '../manufactureHandler.js';
+import { getBlueprintProperties } from '../../../state-handlers/state-systems/manufactureSystem.js';
+import { BLUEPRINTS, BLUEPRINT_IDS } from '../../../primitive-types/semantic/blueprint/blueprint-types.js';
+import { MANUFACTURE_MAX_MASS } from '../../../config/engineConfig.js';
+import { generateUniverse } from '../../../genesis/genesisService.js';
+import { fpAdd, toFP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type { ManufactureAction } from '../../../primitive-types/semantic/action/action-types.js';
+
+function createFactory(overrides: Partial<Entity> = {}): Entity {
+    return { ...createShip({ id: 'factory', reach: toFP(500) }), canManufacture: true, ...overrides };
+}
+
+function createOre(id: string, mass: number, volume: number): Entity {
+    return createMineralStore({ id, mass: toFP(mass), volume: toFP(volume), position: { x: toFP(100), y: 0 } });
+}
+
+describe('MANUFACTURE Action', () => {
+    describe('Validation', () => {
+        const ore = createOre('ore', 1000, 400);
+
+        it('should accept a known blueprint with minerals in reach', () => {
+            expect(testValidation('MANUFACTURE', createFactory(), [ore], { blueprintId: 'thruster' })).toBe(true);
+        });
+
+        it('should reject an actor without canManufacture', () => {
+            expect(testValidation('MANUFACTURE', createShip(), [ore], { blueprintId: 'thruster' })).toBe(false);
+        });
+
+        it('should reject unknown blueprints', () => {
+            expect(testValidation('MANUFACTURE', createFactory(), [ore], { blueprintId: 'warp-core' })).toBe(false);
+            expect(testValidation('MANUFACTURE', createFactory(), [ore], { blueprintId: 'toString' })).toBe(false);
+        });
+
+        it('should reject non-mineral and out-of-reach inputs', () => {
+            const hull = { ...createShip({ id: 'hull' }), position: { x: toFP(100), y: 0 } };
+            const far = { ...ore, id: 'far', position: { x: toFP(5000), y: 0 } };
+
+            expect(testValidation('MANUFACTURE', createFactory(), [hull], { blueprintId: 'thruster' })).toBe(false);
+            expect(testValidation('MANUFACTURE', createFactory(), [far], { blueprintId: 'thruster' })).toBe(false);
+        });
+
+        it('should hold the input mass between the blueprint minimum and the per-tick cap', () => {
+            const small = createOre('small', 100, 40);
+            const huge = createOre('huge', MANUFACTURE_MAX_MASS / 1000 + 1, 400);
+
+            expect(testValidation('MANUFACTURE', createFactory(), [small], { blueprintId: 'crane' })).toBe(false);
+            expect(testValidation('MANUFACTURE', createFactory(), [huge], { blueprintId: 'cargo-pod' })).toBe(false);
+        });
+    });
+
+    describe('Blueprints', () => {
+        it('should scale properties with the input mass', () => {
+            const light = getBlueprintProperties(BLUEPRINTS['thruster']!, toFP(500));
+            const heavy = getBlueprintProperties(BLUEPRINTS['thruster']!, toFP(1000));
+
+            expect(light.spaceForce).toBe(toFP(50000));
+            expect(heavy.spaceForce).toBe(toFP(100000));
+            expect(heavy.canThrust).toBe(true);
+        });
+
+        it('should unlock threshold properties only with enough mass', () => {
+            expect(getBlueprintProperties(BLUEPRINTS['thruster']!, toFP(500)).planetForce).toBeUndefined();
+            expect(getBlueprintProperties(BLUEPRINTS['thruster']!, toFP(1000)).planetForce).toBe(toFP(500));
+        });
+
+        for (const blueprintId of BLUEPRINT_IDS) {
+            it(`should conserve mass and volume exactly for ${blueprintId}`, () => {
+                const factory = createFactory();
+                const oreA = createOre('ore-a', 700, 250);
+                const oreB = createOre('ore-b', 333.333, 90.5);
+                const context = createTickContext(12, [factory, oreA, oreB]);
+
+                const effects = manufactureHandler(factory, [oreA, oreB], { blueprintId }, context);
+
+                const spawned = getSpawned(effects)[0]!;
+                expect(spawned.id).toBe(getManufacturedId(BLUEPRINTS[blueprintId]!, context, factory));
+                expect(spawned.mass).toBe(oreA.mass + oreB.mass);
+                expect(spawned.dryMass).toBe(oreA.mass + oreB.mass);
+                expect(spawned.volume).toBe(oreA.volume + oreB.volume);
+                expect(spawned.creationTick).toBe(12);
+                expect(spawned.blueprintId).toBe(blueprintId);
+                expect(effects).toContainEqual({ kind: 'destroy', id: oreA.id, cascade: 'DESTROY' });
+                expect(findUpdate(effects, oreA.id)).toBeUndefined();
+                expect(assertUpdateMassConservation([factory, oreA, oreB], effects).passed).toBe(true);
+            });
+        }
+    });
+
+    describe('Handler', () => {
+        it('should derive the same ID from the same inputs', () => {
+            const factory = createFactory();
+            const ore = createOre('ore', 1000, 400);
+            const context = createTickContext(3, [factory, ore]);
+
+            const first = manufactureHandler(factory, [ore], { blueprintId: 'rover' }, context);
+            const second = manufactureHandler(factory, [ore], { blueprintId: 'rover' }, context);
+
+            expect(first).toEqual(second);
+            expect(getSpawned(first)[0]!.id).toBe('rover-3-0-factory-0');
+        });
+
+        it('should place the entity at the requested position and give it to the actor\'s player', () => {
+            const factory = createFactory({ playerId: 'player-007' });
+            const ore = createOre('ore', 1000, 400);
+            const context = createTickContext(1, [factory, ore]);
+
+            const spawned = getSpawned(manufactureHandler(
+                factory,
+                [ore],
+                { blueprintId: 'sensor-mast', position: { x: toFP(200), y: toFP(50) } },
+                context
+            ))[0]!;
+
+            expect(spawned.type).toBe('ENTITY');
+            expect(spawned.position).toEqual({ x: toFP(200), y: toFP(50) });
+            expect(spawned.playerId).toBe('player-007');
+            expect(spawned.sightRange).toBe(toFP(1500));
+        });
+    });
+
+    describe('Genesis', () => {
+        it('should let a starting player ship build from minerals beside it', () => {
+            const universe = generateUniverse('genesis-manufacture', ['p1']);
+            const ship = universe.entities.find(e => e.playerId === 'p1' && e.type === 'ENTITY')!;
+            const ore = createMineralStore({
+                id: 'ore',
+                mass: toFP(1000),
+                volume: toFP(400),
+                position: { x: fpAdd(ship.position.x, toFP(100)), y: ship.position.y },
+            });
+            const action: ManufactureAction = {
+                type: 'MANUFACTURE',
+                entityId: ship.id,
+                blueprintId: 'thruster',
+                targetIds: [ore.id],
+            };
+
+            const nextState = runTick({ ...universe, entities: [...universe.entities, ore] }, [action]).nextState;
+
+            expect(findEntity(nextState, ore.id)).toBeUndefined();
+            expect(nextState.entities.some(e => e.id.startsWith('thruster-') && e.playerId === 'p1')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,216 @@
+// ===============================================
+// MASS MODEL TESTS
+// ===============================================
+// validates the unified mass model: total mass = dry + fuel + volatiles
+// + loaded contents + welded parts (recursive), the cached totals the
+// handlers keep current, and exact conservation for every action type.
+
+import { describe, it, expect } from 'vitest';
+import {
+    createShip,
+    createContainer,
+    createMineralStore,
+    createResourceWell,
+    createGameState,
+    createTickContext,
+} from '../../../test/factories.js';
+import { runTick, findEntity, getUpdates, findUpdate, getSpawned } from '../../../test/SimRunner.js';
+import {
+    assertMassConservation,
+    assertUpdateMassConservation,
+    findMassInconsistencies,
+} from '../../../test/invariants.js';
+import {
+    getTotalMass,
+    refreshTotalMass,
+    withTotalMass,
+} from '../../../state-handlers/state-systems/massSystem.js';
+import { extractHandler } from '../extractHandler.js';
+import { toFP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type {
+    LoadAction,
+    UnloadAction,
+    WeldAction,
+    UnweldAction,
+    ThrustAction,
+    RefineAction,
+} from '../../../primitive-types/semantic/action/action-types.js';
+
+function welded(entity: Entity, parentId: string): Entity {
+    return { ...entity, weldParentId: parentId, relativeOffset: { x: toFP(100), y: toFP(0) } };
+}
+
+describe('Mass Model', () => {
+    describe('Total Mass', () => {
+        it('should sum dry mass, fuel and volatiles', () => {
+            const ship = createShip({ mass: toFP(1000), fuelMass: toFP(100), volatilesMass: toFP(50) });
+
+            expect(ship.dryMass).toBe(toFP(850));
+            expect(getTotalMass(ship, [ship])).toBe(toFP(1000));
+        });
+
+        it('should include nested contents and welded parts', () => {
+            const hauler = createContainer({ id: 'hauler', mass: toFP(2000) });
+            const crate = { ...createContainer({ id: 'crate', mass: toFP(500) }), parentId: 'hauler' };
+            const ore = createMineralStore({ id: 'ore', mass: toFP(300), parentId: 'crate' });
+            const pod = welded(createShip({ id: 'pod', mass: toFP(400) }), 'hauler');
+
+            const entities = [hauler, crate, ore, pod];
+
+            expect(getTotalMass(crate, entities)).toBe(toFP(800));
+            expect(getTotalMass(hauler, entities)).toBe(toFP(3200));
+        });
+
+        it('should refresh stale cached totals', () => {
+            const hauler = createContainer({ id: 'hauler', mass: toFP(2000) });
+            const ore = createMineralStore({ id: 'ore', mass: toFP(300), parentId: 'hauler' });
+
+            const refreshed = refreshTotalMass([hauler, ore]);
+
+            expect(refreshed[0]!.mass).toBe(toFP(2300));
+            expect(refreshed[1]).toBe(ore);
+            expect(refreshTotalMass(refreshed)).toBe(refreshed);
+        });
+
+        it('should refresh every container above an updated entity', () => {
+            const entities = refreshTotalMass([
+                createContainer({ id: 'hauler', mass: toFP(2000) }),
+                { ...createContainer({ id: 'crate', mass: toFP(500) }), parentId: 'hauler' },
+                createShip({ id: 'tanker', mass: toFP(1000), fuelMass: toFP(200), volatilesMass: toFP(0) }),
+            ]);
+            const tanker = entities[2]!;
+            const nested = { ...tanker, parentId: 'crate' };
+
+            const updates = getUpdates(withTotalMass(
+                [{ kind: 'update', id: tanker.id, changes: { parentId: 'crate', fuelMass: toFP(100) } }],
+                [...entities.slice(0, 2), nested]
+            ));
+
+            expect(updates.find(u => u.id === 'tanker')!.changes.mass).toBe(toFP(900));
+            expect(updates.find(u => u.id === 'crate')!.changes.mass).toBe(toFP(1400));
+            expect(updates.find(u => u.id === 'hauler')!.changes.mass).toBe(toFP(3400));
+        });
+    });
+
+    describe('Exact Conservation', () => {
+        it('should conserve mass exactly through LOAD and UNLOAD', () => {
+            const ship = createShip({ id: 'ship', reach: toFP(500) });
+            const hauler = createContainer({ id: 'hauler', mass: toFP(2000), position: { x: toFP(100), y: 0 } });
+            const ore = createMineralStore({ id: 'ore', mass: toFP(300), position: { x: toFP(100), y: 0 } });
+            const state = createGameState({ entities: [ship, hauler, ore] });
+
+            const load: LoadAction = { type: 'LOAD', entityId: ship.id, contentIds: [ore.id], containerIds: [hauler.id] };
+            const loaded = runTick(state, [load]).nextState;
+
+            expect(findEntity(loaded, hauler.id)!.mass).toBe(toFP(2300));
+            expect(assertMassConservation(state, loaded).passed).toBe(true);
+
+            const unload: UnloadAction = {
+                type: 'UNLOAD',
+                entityId: hauler.id,
+                contentIds: [ore.id],
+                newPositions: [{ x: toFP(200), y: 0 }],
+            };
+            const unloaded = runTick(loaded, [unload]).nextState;
+
+            expect(findEntity(unloaded, hauler.id)!.mass).toBe(toFP(2000));
+            expect(assertMassConservation(loaded, unloaded).passed).toBe(true);
+        });
+
+        it('should conserve mass exactly through WELD and UNWELD', () => {
+            const shipA = createShip({ id: 'ship-a', mass: toFP(1000) });
+            const shipB = createShip({ id: 'ship-b', mass: toFP(500), position: { x: toFP(100), y: 0 } });
+            const state = createGameState({ entities: [shipA, shipB] });
+
+            const weld: WeldAction = { type: 'WELD', entityId: shipA.id, targetIds: [shipB.id] };
+            const weldedState = runTick(state, [weld]).nextState;
+
+            expect(findEntity(weldedState, shipA.id)!.mass).toBe(toFP(1500));
+            expect(assertMassConservation(state, weldedState).passed).toBe(true);
+
+            const unweld: UnweldAction = { type: 'UNWELD', entityId: shipA.id, targetIds: [shipB.id] };
+            const unweldedState = runTick(weldedState, [unweld]).nextState;
+
+            expect(findEntity(unweldedState, shipA.id)!.mass).toBe(toFP(1000));
+            expect(assertMassConservation(weldedState, unweldedState).passed).toBe(true);
+        });
+
+        it('should lose exactly the fuel burned on THRUST', () => {
+            const ship = createShip({ mass: toFP(1000), fuelMass: toFP(200) });
+            const state = createGameState({ entities: [ship] });
+
+            const thrust: ThrustAction = {
+                type: 'THRUST',
+                entityId: ship.id,
+                direction: { x: toFP(1), y: 0 },
+                magnitude: toFP(10),
+            };
+            const nextState = runTick(state, [thrust]).nextState;
+
+            // 10 delta-V × 1000 mass × 0.01
+            expect(assertMassConservation(state, nextState, toFP(100)).passed).toBe(true);
+            expect(assertMassConservation(state, nextState, toFP(99)).passed).toBe(false);
+        });
+
+        it('should lose exactly the waste on REFINE', () => {
+            const ship = createShip({ mass: toFP(2000), volatilesMass: toFP(1000), fuelMass: toFP(100) });
+            const state = createGameState({ entities: [ship] });
+
+            const refine: RefineAction = {
+                type: 'REFINE',
+                entityId: ship.id,
+                inputType: 'VOLATILES',
+                volatilesTargetIds: [ship.id],
+                fuelTargetIds: [ship.id],
+                volatilesAmount: toFP(500),
+            };
+            const nextState = runTick(state, [refine]).nextState;
+
+            // 20% of 500 is waste
+            expect(assertMassConservation(state, nextState, toFP(100)).passed).toBe(true);
+            expect(findEntity(nextState, ship.id)!.mass).toBe(toFP(1900));
+        });
+
+        it('should move extracted volatiles from every origin into one actor update', () => {
+            const ship = createShip({ reach: toFP(500) });
+            const wellA = createResourceWell({ id: 'well-a', volatilesMass: toFP(10000) });
+            const wellB = createResourceWell({ id: 'well-b', volatilesMass: toFP(10000) });
+            const context = createTickContext(1, [ship, wellA, wellB]);
+
+            const updates = getUpdates(extractHandler(ship, [wellA, wellB], { resourceType: 'VOLATILES', rate: toFP(100) }, context));
+
+            expect(updates.filter(u => u.id === ship.id)).toHaveLength(1);
+            expect(updates.find(u => u.id === ship.id)!.changes.volatilesMass).toBe(toFP(200));
+            expect(assertUpdateMassConservation([ship, wellA, wellB], updates).passed).toBe(true);
+        });
+
+        it('should move extracted minerals from the well\'s dry mass into a new store', () => {
+            const ship = createShip({ reach: toFP(500) });
+            const well = createResourceWell({ mass: toFP(50000), volatilesMass: toFP(10000) });
+            const context = createTickContext(1, [ship, well]);
+
+            const effects = extractHandler(
+                ship,
+                [well],
+                { resourceType: 'MINERALS', rate: toFP(100), mineralTargetPosition: [{ x: toFP(50), y: 0 }] },
+                context
+            );
+
+            expect(findUpdate(effects, well.id)!.changes.dryMass).toBe(toFP(39900));
+            expect(getSpawned(effects)[0]!.dryMass).toBe(toFP(100));
+            expect(assertUpdateMassConservation([ship, well], effects).passed).toBe(true);
+        });
+    });
+
+    describe('Invariant', () => {
+        it('should flag cached totals that disagree with the mass system', () => {
+            const hauler = createContainer({ id: 'hauler', mass: toFP(2000) });
+            const ore = createMineralStore({ id: 'ore', mass: toFP(300), parentId: 'hauler' });
+            const state = createGameState({ entities: [hauler, ore] });
+
+            expect(findMassInconsistencies(state.entities)).toHaveLength(1);
+            expect(assertMassConservation(state, state).passed).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,167 @@
+// ===============================================
+// MOD ACTION TESTS
+// ===============================================
+// tests for the MOD action implementation:
+// - the mineral resonates with the target's dominant physics property
+// - boost = value × purity × 0.1, purity = mineral mass / volume
+// - the mineral's mass and volume join the target, the store is destroyed
+// - slag, permissions and unreachable minerals are rejected
+
+import { describe, it, expect } from 'vitest';
+import { createShip, createMineralStore, createGameState, createTickContext } from '../../../test/factories.js';
+import { testValidation, runTick, findEntity, getUpdates } from '../../../test/SimRunner.js';
+import { assertMassConservation } from '../../../test/invariants.js';
+import { modHandler } from '../modHandler.js';
+import {
+    getDominantProperty,
+    getMineralPurity,
+    getModResonance,
+} from '../../../state-handlers/state-systems/modSystem.js';
+import { getEffectivePhysics } from '../../../state-handlers/state-systems/propertySystem.js';
+import { toFP, fpAdd } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type { ModAction } from '../../../primitive-types/semantic/action/action-types.js';
+
+// a scout: sightRange 5000 against a 1000 baseline (ratio 5), everything else at baseline
+function createScout(overrides: Partial<Entity> = {}): Entity {
+    return { ...createShip({ id: 'scout' }), sightRange: toFP(5000), ...overrides };
+}
+
+// purity 4: 400 mass in 100 volume
+function createOre(id = 'ore', overrides: Partial<Entity> = {}): Entity {
+    return { ...createMineralStore({ id, mass: toFP(400), volume: toFP(100), position: { x: toFP(50), y: 0 } }), ...overrides };
+}
+
+function mod(entityId: string, mineralTargetIds: string[], targetId = entityId): ModAction {
+    return { type: 'MOD', entityId, mineralTargetIds, targetIds: [targetId] };
+}
+
+describe('MOD Action', () => {
+    describe('Resonance', () => {
+        it('should pick the property furthest above its baseline', () => {
+            const dominant = getDominantProperty(createScout());
+
+            expect(dominant?.property).toBe('sightRange');
+            expect(dominant?.ratio).toBe(toFP(5));
+        });
+
+        it('should never resonate with mass or volume', () => {
+            const heavy = { ...createScout({ sightRange: undefined }), mass: toFP(50000), volume: toFP(90000) };
+
+            expect(getDominantProperty(heavy)?.property).not.toBe('mass');
+            expect(getDominantProperty(heavy)?.property).not.toBe('volume');
+        });
+
+        it('should measure purity as mass over volume', () => {
+            expect(getMineralPurity(createOre())).toBe(toFP(4));
+            expect(getMineralPurity(createOre('slag', { mass: 0, dryMass: 0 }))).toBe(0);
+        });
+
+        it('should boost by value × purity × 0.1', () => {
+            const resonance = getModResonance(createScout(), createOre());
+
+            // 5000 × (4 × 0.1) = 2000
+            expect(resonance).toMatchObject({
+                mineralId: 'ore',
+                property: 'sightRange',
+                purity: toFP(4),
+                before: toFP(5000),
+                after: toFP(7000),
+            });
+        });
+
+        it('should resonate with the welded structure\'s dominant property', () => {
+            const hull = createShip({ id: 'hull' });
+            const mast: Entity = {
+                ...createShip({ id: 'mast' }),
+                sightRange: toFP(8000),
+                weldParentId: 'hull',
+                relativeOffset: { x: toFP(100), y: 0 },
+            };
+            const ore = createOre();
+            const context = createTickContext(1, [hull, mast, ore]);
+
+            const updates = getUpdates(modHandler(hull, [ore], { mineralTargetIds: [ore.id], targetIds: [hull.id] }, context));
+            const hullAfter = { ...hull, ...updates.find(u => u.id === hull.id)!.changes };
+
+            // 8000 × 0.4 = 3200 on top of the structure's best sight
+            expect(getEffectivePhysics(hullAfter, 'sightRange', [hullAfter, mast])).toBe(toFP(11200));
+        });
+    });
+
+    describe('Validation', () => {
+        it('should reject zero-purity slag', () => {
+            const slag = createOre('slag', { mass: 0, dryMass: 0 });
+
+            expect(testValidation('MOD', createScout(), [slag], { mineralTargetIds: [slag.id] })).toBe(false);
+        });
+
+        it('should reject permissions as the expected property', () => {
+            const ore = createOre();
+
+            expect(testValidation('MOD', createScout(), [ore], { mineralTargetIds: [ore.id], expectedProperty: 'canThrust' })).toBe(false);
+            expect(testValidation('MOD', createScout(), [ore], { mineralTargetIds: [ore.id], expectedProperty: 'reach' })).toBe(false);
+            expect(testValidation('MOD', createScout(), [ore], { mineralTargetIds: [ore.id], expectedProperty: 'sightRange' })).toBe(true);
+        });
+
+        it('should reject minerals out of reach and non-mineral stores', () => {
+            const far = createOre('far', { position: { x: toFP(5000), y: 0 } });
+            const hull = createShip({ id: 'hull', position: { x: toFP(50), y: 0 } });
+
+            expect(testValidation('MOD', createScout(), [far], { mineralTargetIds: [far.id] })).toBe(false);
+            expect(testValidation('MOD', createScout(), [hull], { mineralTargetIds: [hull.id] })).toBe(false);
+        });
+
+        it('should reject an actor without the manipulation capability', () => {
+            const ore = createOre();
+
+            expect(testValidation('MOD', createScout({ canWeld: false }), [ore], { mineralTargetIds: [ore.id] })).toBe(false);
+        });
+    });
+
+    describe('Integration', () => {
+        it('should fuse the mineral into the actor and conserve mass exactly', () => {
+            const scout = createScout();
+            const ore = createOre();
+            const state = createGameState({ entities: [scout, ore] });
+
+            const nextState = runTick(state, [mod(scout.id, [ore.id])]).nextState;
+
+            const after = findEntity(nextState, scout.id)!;
+            expect(after.sightRange).toBe(toFP(7000));
+            expect(after.mass).toBe(toFP(1400));
+            expect(after.volume).toBe(fpAdd(scout.volume, ore.volume));
+            expect(findEntity(nextState, ore.id)).toBeUndefined();
+            expect(assertMassConservation(state, nextState).passed).toBe(true);
+        });
+
+        it('should report each resonance on the modded entity', () => {
+            const scout = createScout();
+            const oreA = createOre('ore-a');
+            const oreB = createOre('ore-b');
+            const state = createGameState({ entities: [scout, oreA, oreB] });
+
+            const nextState = runTick(state, [mod(scout.id, [oreA.id, oreB.id])]).nextState;
+
+            // the second mineral resonates with the already boosted value
+            const report = findEntity(nextState, scout.id)!.lastMod!;
+            expect(report.resonances.map(r => [r.mineralId, r.property, r.after])).toEqual([
+                ['ore-a', 'sightRange', toFP(7000)],
+                ['ore-b', 'sightRange', toFP(9800)],
+            ]);
+            expect(findEntity(nextState, scout.id)!.sightRange).toBe(toFP(9800));
+        });
+
+        it('should mod another entity within reach', () => {
+            const tech = createShip({ id: 'tech' });
+            const scout = createScout({ position: { x: toFP(100), y: 0 } });
+            const ore = createOre();
+            const state = createGameState({ entities: [tech, scout, ore] });
+
+            const nextState = runTick(state, [mod(tech.id, [ore.id], scout.id)]).nextState;
+
+            expect(findEntity(nextState, scout.id)!.sightRange).toBe(toFP(7000));
+            expect(findEntity(nextState, tech.id)!.lastMod).toBeUndefined();
+        });
+    });
+});
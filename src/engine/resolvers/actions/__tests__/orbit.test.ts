@@ -0,0 +1,249 @@
+// ===============================================
+// ORBITAL RAIL TESTS
+// ===============================================
+// validates the orbital rail state machine: capture onto the rail,
+// per-tick rail advance, and the land / stay / escape threshold gates
+// that thrust on the rail passes through.
+
+import { describe, it, expect } from 'vitest';
+import {
+    createShip,
+    createSol,
+    createPlanet,
+    createGameState,
+    createTickContext,
+} from '../../../test/factories.js';
+import { runTick, getUpdates } from '../../../test/SimRunner.js';
+import { thrustHandler } from '../thrustHandler.js';
+import {
+    getFallVelocity,
+    getEscapeVelocity,
+    getRailTransition,
+    getRailSpeed,
+    getRailOrbitSpeed,
+} from '../../../state-handlers/state-systems/orbitSystem.js';
+import { getOrbitPosition } from '../../../state-handlers/state-systems/celestialSystem.js';
+import { fpAdd, fpMul, toFP, fromFP, type FP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import { FALL_CONSTANT } from '../../../primitive-types/constant/constants.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type { Planet } from '../../../primitive-types/semantic/celestial/celestial-types.js';
+import type { ThrustAction } from '../../../primitive-types/semantic/action/action-types.js';
+
+// stationary planet: g = 0.2, Rorbit = 20000
+// Vfall ≈ 44.27, Vescape ≈ 89.44
+function createStaticPlanet(): Planet {
+    return createPlanet({ orbitSpeed: toFP(0), gravity: toFP(0.2), captureRadius: toFP(20000) });
+}
+
+function createRailShip(planet: Planet, orbitAngle: FP, orbitSpeed: FP): Entity {
+    return {
+        ...createShip({
+            position: getOrbitPosition(planet.position, orbitAngle, planet.captureRadius),
+            fuelMass: toFP(500),
+        }),
+        zoomState: 'ORBIT',
+        orbitTargetId: planet.id,
+        orbitAngle,
+        orbitSpeed,
+        orbitRadius: planet.captureRadius,
+    };
+}
+
+// a ship on the rail moving at a linear rail speed (ω = v / Rorbit)
+function createMovingRailShip(planet: Planet, orbitAngle: FP, railSpeed: FP): Entity {
+    return createRailShip(planet, orbitAngle, getRailOrbitSpeed(railSpeed, planet.captureRadius));
+}
+
+// E = v(ω) + Δv along the tangent
+function getRailEnergy(ship: Entity, tangentialDeltaV: FP): FP {
+    return fpAdd(getRailSpeed(ship.orbitSpeed!, ship.orbitRadius!), tangentialDeltaV);
+}
+
+function railThrust(ship: Entity, planet: Planet, direction: { x: FP; y: FP }, magnitude: FP) {
+    const context = createTickContext(1, [ship], [createSol(), planet]);
+    const updates = getUpdates(thrustHandler(ship, [], { direction, magnitude }, context));
+    return updates[0]!.changes;
+}
+
+describe('Orbital Rail', () => {
+    describe('Threshold Gates', () => {
+        it('should derive Vfall from gravity, rail radius and FALL_CONSTANT', () => {
+            const planet = createStaticPlanet();
+            const expected = Math.sqrt(0.2 * 20000) * FALL_CONSTANT;
+
+            expect(fromFP(getFallVelocity(planet))).toBeCloseTo(expected, 1);
+        });
+
+        it('should derive Vescape from gravity and rail radius', () => {
+            const planet = createStaticPlanet();
+            const expected = Math.sqrt(2 * 0.2 * 20000);
+
+            expect(fromFP(getEscapeVelocity(planet))).toBeCloseTo(expected, 1);
+        });
+
+        it('should classify energies into land / stay / escape', () => {
+            const planet = createStaticPlanet();
+
+            expect(getRailTransition(toFP(-5), planet)).toBe('LAND');
+            expect(getRailTransition(toFP(44), planet)).toBe('LAND');
+            expect(getRailTransition(toFP(60), planet)).toBe('STAY');
+            expect(getRailTransition(toFP(90), planet)).toBe('ESCAPE');
+        });
+    });
+
+    describe('Capture', () => {
+        it('should snap a ship crossing the capture radius onto the rail', () => {
+            const planet = createStaticPlanet();
+            const ship = createShip({
+                position: { x: toFP(500000 - 20100), y: toFP(0) },
+                velocity: { x: toFP(200), y: toFP(0) },
+            });
+            const state = createGameState({ celestials: [createSol(), planet], entities: [ship] });
+
+            const { nextState } = runTick(state);
+            const captured = nextState.entities.find(e => e.id === ship.id)!;
+
+            expect(captured.zoomState).toBe('ORBIT');
+            expect(captured.orbitTargetId).toBe(planet.id);
+            expect(captured.orbitAngle).toBe(toFP(180));
+            // ωentry = |V| × ORBITAL_CONVERSION_CONSTANT / Rorbit
+            expect(captured.orbitSpeed).toBe(getRailOrbitSpeed(toFP(100), planet.captureRadius));
+            expect(captured.orbitRadius).toBe(planet.captureRadius);
+            expect(captured.velocity).toEqual({ x: 0, y: 0 });
+            expect(captured.position).toEqual(
+                getOrbitPosition(planet.position, toFP(180), planet.captureRadius)
+            );
+        });
+
+        it('should not capture an entity outside the capture radius', () => {
+            const planet = createStaticPlanet();
+            const ship = createShip({
+                position: { x: toFP(400000), y: toFP(0) },
+                velocity: { x: toFP(100), y: toFP(0) },
+            });
+            const state = createGameState({ celestials: [createSol(), planet], entities: [ship] });
+
+            const { nextState } = runTick(state);
+
+            expect(nextState.entities[0]!.zoomState).toBe('SPACE');
+        });
+    });
+
+    describe('Rail Advance', () => {
+        it('should advance θ by ω each tick', () => {
+            const planet = createStaticPlanet();
+            const ship = createRailShip(planet, toFP(0), toFP(10));
+            const state = createGameState({ celestials: [createSol(), planet], entities: [ship] });
+
+            const { nextState } = runTick(state);
+            const next = nextState.entities[0]!;
+
+            expect(next.zoomState).toBe('ORBIT');
+            expect(next.orbitAngle).toBe(toFP(10));
+            expect(next.position).toEqual(
+                getOrbitPosition(planet.position, toFP(10), planet.captureRadius)
+            );
+        });
+
+        it('should wrap θ past a full revolution', () => {
+            const planet = createStaticPlanet();
+            const ship = createRailShip(planet, toFP(355), toFP(10));
+            const state = createGameState({ celestials: [createSol(), planet], entities: [ship] });
+
+            const { nextState } = runTick(state);
+
+            expect(nextState.entities[0]!.orbitAngle).toBe(toFP(5));
+        });
+
+        it('should keep the rail centered on a moving planet', () => {
+            const planet = createPlanet({ orbitSpeed: toFP(2), captureRadius: toFP(20000) });
+            const ship = createRailShip(planet, toFP(90), toFP(10));
+            const state = createGameState({ celestials: [createSol(), planet], entities: [ship] });
+
+            const { nextState } = runTick(state);
+            const nextPlanet = nextState.celestials.find(c => c.id === planet.id) as Planet;
+
+            expect(nextState.entities[0]!.position).toEqual(
+                getOrbitPosition(nextPlanet.position, toFP(100), planet.captureRadius)
+            );
+        });
+    });
+
+    describe('Thrust on the Rail', () => {
+        it('should stay on the rail with ωnew = E / Rorbit between the gates', () => {
+            const planet = createStaticPlanet();
+            const ship = createMovingRailShip(planet, toFP(0), toFP(60));
+
+            // at θ = 0 the rail tangent is +Y
+            const changes = railThrust(ship, planet, { x: toFP(0), y: toFP(1) }, toFP(10));
+
+            expect(changes.zoomState).toBeUndefined();
+            expect(changes.orbitSpeed).toBe(getRailOrbitSpeed(getRailEnergy(ship, toFP(10)), planet.captureRadius));
+            expect(fromFP(changes.orbitSpeed!)).toBeCloseTo(fromFP(getRailOrbitSpeed(toFP(70), planet.captureRadius)), 2);
+            // 10 × 1000 × FUEL_EFFICIENCY_CONSTANT
+            expect(changes.fuelMass).toBe(toFP(400));
+        });
+
+        it('should ignore the radial component of delta-V', () => {
+            const planet = createStaticPlanet();
+            const ship = createMovingRailShip(planet, toFP(0), toFP(60));
+
+            const changes = railThrust(ship, planet, { x: toFP(1), y: toFP(0) }, toFP(50));
+
+            expect(changes.orbitSpeed).toBe(ship.orbitSpeed);
+        });
+
+        it('should land when retrograde thrust drops E to Vfall or below', () => {
+            const planet = createStaticPlanet();
+            const ship = createMovingRailShip(planet, toFP(0), toFP(60));
+
+            const changes = railThrust(ship, planet, { x: toFP(0), y: toFP(-1) }, toFP(20));
+
+            expect(changes.zoomState).toBe('SURFACE');
+            expect(changes.surfaceBodyId).toBe(planet.id);
+            expect(changes.surfacePosition).toBeDefined();
+            // the pocket universe sits at the planet's space origin
+            expect(changes.position).toEqual(planet.position);
+            expect(changes.orbitTargetId).toBeUndefined();
+            expect(changes.orbitSpeed).toBeUndefined();
+        });
+
+        it('should escape tangent to the rail when prograde thrust reaches Vescape', () => {
+            const planet = createStaticPlanet();
+            const ship = createMovingRailShip(planet, toFP(0), toFP(60));
+
+            const changes = railThrust(ship, planet, { x: toFP(0), y: toFP(1) }, toFP(40));
+
+            expect(changes.zoomState).toBe('SPACE');
+            expect(changes.orbitTargetId).toBeUndefined();
+            expect(changes.position).toEqual(
+                getOrbitPosition(planet.position, toFP(0), planet.captureRadius)
+            );
+            // Vspace = tangent(θ) × E
+            expect(changes.velocity).toEqual({ x: 0, y: getRailEnergy(ship, toFP(40)) });
+        });
+
+        it('should not recapture an entity that just escaped', () => {
+            const planet = createStaticPlanet();
+            const ship = createMovingRailShip(planet, toFP(0), toFP(60));
+            const state = createGameState({ celestials: [createSol(), planet], entities: [ship] });
+
+            const action: ThrustAction = {
+                type: 'THRUST',
+                entityId: ship.id,
+                direction: { x: toFP(0), y: toFP(1) },
+                magnitude: toFP(40),
+            };
+
+            const first = runTick(state, [action]).nextState;
+            const second = runTick(first).nextState;
+
+            expect(first.entities[0]!.zoomState).toBe('SPACE');
+            expect(second.entities[0]!.zoomState).toBe('SPACE');
+            expect(second.entities[0]!.position).toEqual({
+                x: toFP(520000),
+                y: fpMul(toFP(2), getRailEnergy(ship, toFP(40))),
+            });
+        });
+    });
+});
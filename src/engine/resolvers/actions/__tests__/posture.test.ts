@@ -0,0 +1,174 @@
+// ===============================================
+// POSTURE TESTS
+// ===============================================
+// tests for broadcast and real posture:
+// - real posture moves one step, within the entity's postureCapability
+// - broadcast posture is free and may bluff, and is all other players see
+// - changing or holding real posture takes the whole tick
+// - acting rises to at most ACTIVE; doing nothing decays one step
+
+import { describe, it, expect } from 'vitest';
+import { createShip, createGameState } from '../../../test/factories.js';
+import { runTick, findEntity } from '../../../test/SimRunner.js';
+import { postureValidate } from '../postureHandler.js';
+import { getObservedPosture, redactPostures } from '../../../state-handlers/state-systems/postureSystem.js';
+import { resolveWaves } from '../../../state-handlers/tickResolver.js';
+import { toFP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity, Posture } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type { PostureAction, ThrustAction } from '../../../primitive-types/semantic/action/action-types.js';
+
+// clear of the test sol's capture radius
+const position = { x: toFP(300000), y: 0 };
+
+function createPosturedShip(realPosture: Posture, overrides: Partial<Entity> = {}): Entity {
+    return { ...createShip({ position }), realPosture, broadcastPosture: realPosture, ...overrides };
+}
+
+function thrust(entityId: string): ThrustAction {
+    return { type: 'THRUST', entityId, direction: { x: toFP(1), y: 0 }, magnitude: toFP(10) };
+}
+
+function posture(entityId: string, postures: Pick<PostureAction, 'realPosture' | 'broadcastPosture'>): PostureAction {
+    return { type: 'POSTURE', entityId, ...postures };
+}
+
+function getRealPostureAfterTick(ship: Entity, actions: (PostureAction | ThrustAction)[]): Posture | undefined {
+    const nextState = runTick(createGameState({ entities: [ship] }), actions).nextState;
+    return findEntity(nextState, ship.id)!.realPosture;
+}
+
+describe('Posture', () => {
+    describe('Real Posture Steps', () => {
+        it('should allow a single step along the ladder', () => {
+            expect(postureValidate(createPosturedShip('IDLE'), [], { realPosture: 'ACTIVE' })).toBe(true);
+            expect(postureValidate(createPosturedShip('ALERT'), [], { realPosture: 'HIDDEN' })).toBe(true);
+            expect(postureValidate(createPosturedShip('ALERT'), [], { realPosture: 'HOSTILE' })).toBe(true);
+        });
+
+        it('should refuse skipping a step', () => {
+            expect(postureValidate(createPosturedShip('IDLE'), [], { realPosture: 'ALERT' })).toBe(false);
+            expect(postureValidate(createPosturedShip('DORMANT'), [], { realPosture: 'ACTIVE' })).toBe(false);
+        });
+
+        it('should refuse going straight between HIDDEN and HOSTILE', () => {
+            expect(postureValidate(createPosturedShip('HIDDEN'), [], { realPosture: 'HOSTILE' })).toBe(false);
+        });
+
+        it('should refuse a posture outside the entity\'s capability', () => {
+            const ship = createPosturedShip('ALERT', { postureCapability: ['IDLE', 'ACTIVE', 'ALERT', 'HIDDEN'] });
+
+            expect(postureValidate(ship, [], { realPosture: 'HOSTILE' })).toBe(false);
+            expect(postureValidate(ship, [], { realPosture: 'HIDDEN' })).toBe(true);
+        });
+
+        it('should refuse an unknown posture', () => {
+            expect(postureValidate(createPosturedShip('IDLE'), [], { realPosture: 'ASLEEP' })).toBe(false);
+            expect(postureValidate(createPosturedShip('IDLE'), [], {})).toBe(false);
+        });
+    });
+
+    describe('Broadcast Posture', () => {
+        it('should let an entity broadcast any posture, whatever it really holds', () => {
+            const ship = createPosturedShip('DORMANT');
+
+            const nextState = runTick(createGameState({ entities: [ship] }), [
+                posture(ship.id, { broadcastPosture: 'HOSTILE' }),
+            ]).nextState;
+
+            expect(findEntity(nextState, ship.id)!.broadcastPosture).toBe('HOSTILE');
+        });
+
+        it('should not take the tick', () => {
+            const ship = createPosturedShip('ACTIVE');
+
+            const result = runTick(createGameState({ entities: [ship] }), [
+                posture(ship.id, { broadcastPosture: 'HIDDEN' }),
+                thrust(ship.id),
+            ]);
+
+            expect(findEntity(result.nextState, ship.id)!.velocity.x).toBe(toFP(10));
+        });
+
+        it('should show observers the broadcast and the owner the real posture', () => {
+            const ship = createPosturedShip('HOSTILE', { broadcastPosture: 'IDLE' });
+
+            expect(getObservedPosture(ship, 'player-002')).toBe('IDLE');
+            expect(getObservedPosture(ship, ship.playerId)).toBe('HOSTILE');
+        });
+
+        it('should redact other players\' real posture from the state they are sent', () => {
+            const ship = createPosturedShip('HOSTILE', { broadcastPosture: 'IDLE' });
+            const state = createGameState({ entities: [ship] });
+
+            const observed = findEntity(redactPostures(state, 'player-002'), ship.id)!;
+
+            expect(observed).not.toHaveProperty('realPosture');
+            expect(observed.broadcastPosture).toBe('IDLE');
+            expect(redactPostures(state, ship.playerId)).toBe(state);
+            expect(findEntity(redactPostures(state), ship.id)).not.toHaveProperty('realPosture');
+        });
+    });
+
+    describe('Whole-Tick Commitment', () => {
+        it('should void the entity\'s other actions when it changes posture', () => {
+            const ship = createPosturedShip('ACTIVE');
+            const state = createGameState({ entities: [ship] });
+            const burn = thrust(ship.id);
+
+            const result = resolveWaves(state, [posture(ship.id, { realPosture: 'ALERT' }), burn]);
+
+            expect(result.postureLockedActions).toEqual([burn]);
+            expect(findEntity(result.finalState, ship.id)).toMatchObject({
+                realPosture: 'ALERT',
+                velocity: { x: 0, y: 0 },
+            });
+        });
+
+        it('should not let a refused posture void the entity\'s other actions', () => {
+            const ship = createPosturedShip('IDLE');
+            const state = createGameState({ entities: [ship] });
+
+            const result = resolveWaves(state, [posture(ship.id, { realPosture: 'HOSTILE' }), thrust(ship.id)]);
+
+            expect(result.postureLockedActions).toBeUndefined();
+            expect(findEntity(result.finalState, ship.id)!.velocity.x).toBe(toFP(10));
+        });
+
+        it('should not let a refused posture stop decay', () => {
+            const ship = createPosturedShip('ALERT', { postureCapability: ['IDLE', 'ACTIVE', 'ALERT'] });
+
+            expect(getRealPostureAfterTick(ship, [posture(ship.id, { realPosture: 'HIDDEN' })])).toBe('ACTIVE');
+            expect(getRealPostureAfterTick({ ...ship, canPosture: false }, [
+                posture(ship.id, { realPosture: 'ALERT' }),
+            ])).toBe('ACTIVE');
+        });
+
+        it('should hold a posture against decay', () => {
+            expect(getRealPostureAfterTick(createPosturedShip('ALERT'), [
+                posture('ship-001', { realPosture: 'ALERT' }),
+            ])).toBe('ALERT');
+        });
+    });
+
+    describe('Drift', () => {
+        it('should raise an acting entity one step', () => {
+            expect(getRealPostureAfterTick(createPosturedShip('DORMANT'), [thrust('ship-001')])).toBe('IDLE');
+            expect(getRealPostureAfterTick(createPosturedShip('IDLE'), [thrust('ship-001')])).toBe('ACTIVE');
+        });
+
+        it('should not raise an acting entity past ACTIVE', () => {
+            expect(getRealPostureAfterTick(createPosturedShip('ACTIVE'), [thrust('ship-001')])).toBe('ACTIVE');
+            expect(getRealPostureAfterTick(createPosturedShip('ALERT'), [thrust('ship-001')])).toBe('ALERT');
+        });
+
+        it('should decay an idle entity one step per tick', () => {
+            expect(getRealPostureAfterTick(createPosturedShip('HOSTILE'), [])).toBe('ALERT');
+            expect(getRealPostureAfterTick(createPosturedShip('ACTIVE'), [])).toBe('IDLE');
+            expect(getRealPostureAfterTick(createPosturedShip('DORMANT'), [])).toBe('DORMANT');
+        });
+
+        it('should leave entities without a posture alone', () => {
+            expect(getRealPostureAfterTick(createShip({ position }), [])).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,160 @@
+// ===============================================
+// PROPERTY REGISTRY TESTS
+// ===============================================
+// validates the property registry: baselines, the Sum / Max / OR
+// composition of welded structures, and the capability check every
+// ActionValidator runs before its state checks.
+
+import { describe, it, expect } from 'vitest';
+import { createShip, createMineralStore, createTickContext } from '../../../test/factories.js';
+import {
+    getWeldStructure,
+    getEffectivePhysics,
+    getEffectiveProperties,
+    hasCapability,
+    canPerform,
+} from '../../../state-handlers/state-systems/propertySystem.js';
+import { getSpaceForce } from '../../../state-handlers/state-systems/propulsionSystem.js';
+import {
+    PERMISSION_PROPERTIES,
+    PHYSICS_PROPERTIES,
+} from '../../../primitive-types/semantic/property/property-types.js';
+import { thrustValidate, thrustHandler } from '../thrustHandler.js';
+import { weldValidate } from '../weldHandler.js';
+import { manufactureValidate } from '../manufactureHandler.js';
+import { generateUniverse } from '../../../genesis/genesisService.js';
+import { toFP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+
+function welded(entity: Entity, parentId: string): Entity {
+    return { ...entity, weldParentId: parentId, relativeOffset: { x: toFP(100), y: toFP(0) } };
+}
+
+const thrustInputs = { direction: { x: toFP(1), y: 0 }, magnitude: toFP(10) };
+
+describe('Property Registry', () => {
+    describe('Baselines', () => {
+        it('should fall back to the registry baseline for undeclared permissions', () => {
+            const ship = createShip();
+
+            expect(hasCapability(ship, 'canThrust')).toBe(PERMISSION_PROPERTIES.canThrust.baseline);
+            expect(hasCapability(ship, 'canManufacture')).toBe(false);
+            expect(hasCapability(ship, 'hasScanner')).toBe(false);
+        });
+
+        it('should prefer a declared permission over the baseline', () => {
+            const ship = { ...createShip(), canThrust: false, canManufacture: true };
+
+            expect(hasCapability(ship, 'canThrust')).toBe(false);
+            expect(hasCapability(ship, 'canManufacture')).toBe(true);
+        });
+
+        it('should read undeclared physics properties as zero', () => {
+            const ship = createShip();
+
+            expect(PHYSICS_PROPERTIES.planetForce.baseline).toBeGreaterThan(0);
+            expect(getEffectivePhysics(ship, 'planetForce')).toBe(0);
+        });
+    });
+
+    describe('Composition', () => {
+        const root: Entity = { ...createShip({ id: 'root', spaceForce: toFP(1000) }), sightRange: toFP(800), maxLoad: toFP(100) };
+        const wing: Entity = welded(
+            { ...createShip({ id: 'wing', spaceForce: toFP(2000) }), sightRange: toFP(3000), maxLoad: toFP(50) },
+            'root'
+        );
+        const tip: Entity = welded(
+            { ...createShip({ id: 'tip', spaceForce: toFP(500) }), sightRange: toFP(1200), canManufacture: true },
+            'wing'
+        );
+        const loose = createShip({ id: 'loose', spaceForce: toFP(9000) });
+        const entities = [root, wing, tip, loose];
+
+        it('should collect every part welded below an entity', () => {
+            expect(getWeldStructure(root, entities).map(e => e.id)).toEqual(['root', 'wing', 'tip']);
+            expect(getWeldStructure(wing, entities).map(e => e.id)).toEqual(['wing', 'tip']);
+        });
+
+        it('should sum SUM properties over the structure', () => {
+            expect(getEffectivePhysics(root, 'spaceForce', entities)).toBe(toFP(3500));
+            expect(getEffectivePhysics(root, 'maxLoad', entities)).toBe(toFP(150));
+            expect(getSpaceForce(root, entities)).toBe(toFP(3500));
+        });
+
+        it('should take the best part for MAX properties', () => {
+            expect(getEffectivePhysics(root, 'sightRange', entities)).toBe(toFP(3000));
+            expect(getEffectivePhysics(tip, 'sightRange', entities)).toBe(toFP(1200));
+        });
+
+        it('should OR permissions over the structure', () => {
+            expect(hasCapability(root, 'canManufacture', entities)).toBe(true);
+            expect(hasCapability(root, 'canManufacture')).toBe(false);
+            expect(hasCapability(loose, 'canManufacture', entities)).toBe(false);
+        });
+
+        it('should sum commit targets per category', () => {
+            const a = { ...root, commitTargets: { body: 1, entity: 2, zone: 0, max: 2 } };
+            const b = { ...wing, commitTargets: { body: 0, entity: 1, zone: 1, max: 1 } };
+
+            const properties = getEffectiveProperties(a, [a, b]);
+
+            expect(properties.commitTargets).toEqual({ body: 1, entity: 3, zone: 1, max: 3 });
+            expect(properties.spaceForce).toBe(toFP(3000));
+            expect(properties.canManufacture).toBe(false);
+        });
+
+        it('should keep mass as the cached total of the root', () => {
+            expect(getEffectivePhysics(root, 'mass', entities)).toBe(root.mass);
+        });
+    });
+
+    describe('Capability Checks', () => {
+        it('should map every action to the permission it needs', () => {
+            const ship = { ...createShip(), canThrust: false };
+
+            expect(canPerform(ship, 'THRUST')).toBe(false);
+            expect(canPerform(ship, 'WELD')).toBe(true);
+            expect(canPerform(ship, 'SCAN')).toBe(false);
+        });
+
+        it('should let a genesis player ship pass the scanner checks', () => {
+            const universe = generateUniverse('genesis-scanner', ['p1']);
+            const ship = universe.entities.find(e => e.playerId === 'p1' && e.type === 'ENTITY')!;
+
+            expect(canPerform(ship, 'SCAN', universe.entities)).toBe(true);
+            expect(canPerform(ship, 'MOVE_SCANNER', universe.entities)).toBe(true);
+        });
+
+        it('should reject THRUST from an entity without the capability', () => {
+            const ship = { ...createShip({ fuelMass: toFP(200) }), canThrust: false };
+            const context = createTickContext(1, [ship]);
+
+            expect(thrustValidate(ship, [], thrustInputs, [ship])).toBe(false);
+            expect(thrustHandler(ship, [], thrustInputs, context)).toEqual([]);
+        });
+
+        it('should accept THRUST when a welded part affords it', () => {
+            const ship = { ...createShip({ id: 'hull', fuelMass: toFP(200) }), canThrust: false };
+            const engine = welded({ ...createShip({ id: 'engine' }), canThrust: true }, 'hull');
+
+            expect(thrustValidate(ship, [], thrustInputs, [ship])).toBe(false);
+            expect(thrustValidate(ship, [], thrustInputs, [ship, engine])).toBe(true);
+        });
+
+        it('should reject WELD onto a target that cannot be welded', () => {
+            const ship = createShip({ id: 'ship' });
+            const ore = createMineralStore({ id: 'ore', position: { x: toFP(100), y: 0 } });
+            const sealed = { ...ore, canBeWelded: false };
+
+            expect(weldValidate(ship, [ore], {}, [ship, ore])).toBe(true);
+            expect(weldValidate(ship, [sealed], {}, [ship, sealed])).toBe(false);
+        });
+
+        it('should gate specialised actions behind declared capabilities', () => {
+            const ship = createShip();
+
+            expect(manufactureValidate(ship, [], {}, [ship])).toBe(false);
+            expect(canPerform({ ...ship, canManufacture: true }, 'MANUFACTURE')).toBe(true);
+        });
+    });
+});
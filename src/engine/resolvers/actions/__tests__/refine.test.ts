@@ -6,7 +6,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { createShip, createTickContext, createGameState } from '../../../test/factories.js';
-import { testAction, testValidation, runTick } from '../../../test/SimRunner.js';
+import { testAction, testValidation, runTick, getUpdates } from '../../../test/SimRunner.js';
 import { 
     assertMassConservation, 
     assertUpdateMassConservation,
@@ -57,12 +57,12 @@ describe('REFINE Action', () => {
 
             // verify handler caps correctly
             const context = createTickContext(1, [ship]);
-            const updates = refineHandler(
+            const updates = getUpdates(refineHandler(
                 ship,
                 [],
                 { volatilesAmount: toFP(500) },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(1);
             const update = updates[0]!;
@@ -124,12 +124,12 @@ describe('REFINE Action', () => {
             });
             const context = createTickContext(1, [ship]);
 
-            const updates = refineHandler(
+            const updates = getUpdates(refineHandler(
                 ship, 
                 [], 
                 { volatilesAmount: refineAmount },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(1);
             const update = updates[0]!;
@@ -155,12 +155,12 @@ describe('REFINE Action', () => {
             });
             const context = createTickContext(1, [ship]);
 
-            const updates = refineHandler(
+            const updates = getUpdates(refineHandler(
                 ship, 
                 [], 
                 { volatilesAmount: refineAmount },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(1);
             const update = updates[0]!;
@@ -182,12 +182,12 @@ describe('REFINE Action', () => {
             });
             const context = createTickContext(1, [ship]);
 
-            const updates = refineHandler(
+            const updates = getUpdates(refineHandler(
                 ship, 
                 [], 
                 { volatilesAmount: refineAmount },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(1);
             const update = updates[0]!;
@@ -243,12 +243,12 @@ describe('REFINE Action', () => {
             const context = createTickContext(1, [ship]);
             const refineAmount = toFP(500);
 
-            const updates = refineHandler(
+            const updates = getUpdates(refineHandler(
                 ship, 
                 [], 
                 { volatilesAmount: refineAmount },
                 context
-            );
+            ));
 
             const update = updates[0]!;
             const massLoss = ship.mass - update.changes.mass!;
@@ -269,12 +269,12 @@ describe('REFINE Action', () => {
             const context = createTickContext(1, [ship]);
 
             // try to refine more than max batch
-            const updates = refineHandler(
+            const updates = getUpdates(refineHandler(
                 ship, 
                 [], 
                 { volatilesAmount: toFP(50000) },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(1);
             const update = updates[0]!;
@@ -364,12 +364,12 @@ describe('REFINE Action', () => {
             const context = createTickContext(1, [ship]);
 
             // refine exactly what we have
-            const updates = refineHandler(
+            const updates = getUpdates(refineHandler(
                 ship, 
                 [], 
                 { volatilesAmount: exactVolatiles },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(1);
             const update = updates[0]!;
@@ -386,12 +386,12 @@ describe('REFINE Action', () => {
             });
             const context = createTickContext(1, [ship]);
 
-            const updates = refineHandler(
+            const updates = getUpdates(refineHandler(
                 ship, 
                 [], 
                 { volatilesAmount: toFP(1) },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(1);
         });
@@ -409,12 +409,12 @@ describe('REFINE Action', () => {
             // refine 1000 volatiles, three times
             for (let i = 0; i < 3; i++) {
                 const context = createTickContext(i + 1, [ship]);
-                const updates = refineHandler(
+                const updates = getUpdates(refineHandler(
                     ship, 
                     [], 
                     { volatilesAmount: toFP(1000) },
                     context
-                );
+                ));
 
                 expect(updates.length).toBe(1);
                 
@@ -0,0 +1,175 @@
+// ===============================================
+// SPATIAL INDEX TESTS
+// ===============================================
+// validates the per-wave spatial index: radius queries agree with a
+// linear scan entity for entity and in state order, coordinate spaces
+// stay apart, capture lookups find every celestial (either wormhole
+// endpoint, disks spanning cells, oversized disks), and the index is
+// handed to handlers through TickContext.
+
+import { describe, it, expect } from 'vitest';
+import {
+    createShip,
+    createMineralStore,
+    createPlanet,
+    createSol,
+    createWormhole,
+    createGameState,
+    createContextFromState,
+} from '../../../test/factories.js';
+import { SeededRNG } from '../../../genesis/genesisService.js';
+import {
+    buildSpatialIndex,
+    queryEntitiesWithin,
+    queryEntitiesInReach,
+    queryCapturingCelestials,
+    canReach,
+} from '../../../state-handlers/state-systems/spatialIndex.js';
+import { isWithinSeparation } from '../../../state-handlers/state-systems/surfaceSystem.js';
+import { fpIsWithinDistance, toFP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+
+function createField(count: number, seed: string): Entity[] {
+    const rng = new SeededRNG(seed);
+    const entities: Entity[] = [];
+    for (let i = 0; i < count; i++) {
+        entities.push(createShip({
+            id: `ship-${i}`,
+            position: { x: rng.nextFP(toFP(-20000), toFP(20000)), y: rng.nextFP(toFP(-20000), toFP(20000)) },
+            reach: rng.nextFP(toFP(100), toFP(3000)),
+        }));
+    }
+    return entities;
+}
+
+function ids(entities: readonly { id: string }[]): string[] {
+    return entities.map(e => e.id);
+}
+
+describe('Spatial Index', () => {
+    describe('Radius queries', () => {
+        it('should match a linear scan, in state order', () => {
+            const entities = createField(300, 'spatial-field');
+            const spatial = buildSpatialIndex(entities, []);
+
+            for (const radius of [0, toFP(1), toFP(500), toFP(2500), toFP(50000)]) {
+                for (const center of [{ x: 0, y: 0 }, entities[7]!.position, { x: toFP(-12345), y: toFP(6789) }]) {
+                    const scanned = entities.filter(e => fpIsWithinDistance(e.position, center, radius));
+
+                    expect(ids(queryEntitiesWithin(spatial, center, radius))).toEqual(ids(scanned));
+                }
+            }
+        });
+
+        it('should return state order rather than grid order', () => {
+            const entities = [
+                createShip({ id: 'east', position: { x: toFP(900), y: 0 } }),
+                createShip({ id: 'west', position: { x: toFP(-900), y: 0 } }),
+                createShip({ id: 'south', position: { x: 0, y: toFP(-900) } }),
+            ];
+            const spatial = buildSpatialIndex(entities, []);
+
+            expect(ids(queryEntitiesWithin(spatial, { x: 0, y: 0 }, toFP(1000)))).toEqual(['east', 'west', 'south']);
+        });
+
+        it('should include the exact boundary', () => {
+            const entities = [createShip({ id: 'edge', position: { x: toFP(3000), y: toFP(4000) } })];
+            const spatial = buildSpatialIndex(entities, []);
+
+            expect(ids(queryEntitiesWithin(spatial, { x: 0, y: 0 }, toFP(5000)))).toEqual(['edge']);
+            expect(queryEntitiesWithin(spatial, { x: 0, y: 0 }, toFP(5000) - 1)).toEqual([]);
+        });
+
+        it('should keep surface entities out of SPACE queries', () => {
+            const orbiter = createShip({ id: 'orbiter', position: { x: toFP(100), y: 0 } });
+            const lander: Entity = {
+                ...createShip({ id: 'lander', position: { x: toFP(100), y: 0 } }),
+                zoomState: 'SURFACE',
+                surfaceBodyId: 'planet-001',
+                surfacePosition: { x: toFP(50), y: 0 },
+            };
+            const spatial = buildSpatialIndex([orbiter, lander], []);
+
+            expect(ids(queryEntitiesWithin(spatial, { x: 0, y: 0 }, toFP(200)))).toEqual(['orbiter']);
+            expect(ids(queryEntitiesWithin(spatial, { x: 0, y: 0 }, toFP(200), 'SURFACE:planet-001'))).toEqual(['lander']);
+        });
+    });
+
+    describe('Reach queries', () => {
+        it('should agree with canReach for every pair', () => {
+            const entities = createField(150, 'spatial-reach');
+            const spatial = buildSpatialIndex(entities, []);
+
+            for (const actor of entities) {
+                const scanned = entities.filter(other => other.id !== actor.id && canReach(actor, other));
+
+                expect(ids(queryEntitiesInReach(spatial, actor))).toEqual(ids(scanned));
+            }
+        });
+
+        it('should exclude the actor and return nothing without reach', () => {
+            const actor = createShip({ id: 'actor', reach: toFP(500) });
+            const store = createMineralStore({ id: 'store', position: { x: toFP(300), y: 0 } });
+            const spatial = buildSpatialIndex([actor, store], []);
+
+            expect(ids(queryEntitiesInReach(spatial, actor))).toEqual(['store']);
+            expect(queryEntitiesInReach(spatial, { ...actor, reach: 0 })).toEqual([]);
+        });
+
+        it('should share the reach rule with the handlers', () => {
+            const actor = createShip({ reach: toFP(500) });
+            const target = createMineralStore({ position: { x: toFP(500), y: 0 } });
+
+            expect(canReach(actor, target)).toBe(isWithinSeparation(actor, target, actor.reach));
+            expect(canReach({ ...actor, reach: 0 }, { ...target, position: actor.position })).toBe(false);
+        });
+    });
+
+    describe('Capture queries', () => {
+        it('should find celestials whose capture radius contains the point, in state order', () => {
+            const sol = createSol();
+            const planet = createPlanet({ position: { x: toFP(90000), y: 0 }, captureRadius: toFP(20000) });
+            const spatial = buildSpatialIndex([], [sol, planet]);
+
+            expect(ids(queryCapturingCelestials(spatial, { x: toFP(95000), y: 0 }))).toEqual([sol.id, planet.id]);
+            expect(ids(queryCapturingCelestials(spatial, { x: toFP(105000), y: 0 }))).toEqual([planet.id]);
+            expect(queryCapturingCelestials(spatial, { x: toFP(115000), y: 0 })).toEqual([]);
+        });
+
+        it('should find disks from neighboring cells', () => {
+            // the disk's center lies in one cell, the query point in the next
+            const planet = createPlanet({ position: { x: toFP(99000), y: toFP(99000) }, captureRadius: toFP(20000) });
+            const spatial = buildSpatialIndex([], [planet]);
+
+            expect(ids(queryCapturingCelestials(spatial, { x: toFP(110000), y: toFP(105000) }))).toEqual([planet.id]);
+        });
+
+        it('should find the wormhole from either endpoint', () => {
+            const wormhole = createWormhole();
+            const spatial = buildSpatialIndex([], [wormhole]);
+
+            expect(ids(queryCapturingCelestials(spatial, { x: toFP(100500), y: 0 }))).toEqual([wormhole.id]);
+            expect(ids(queryCapturingCelestials(spatial, { x: toFP(2000000), y: toFP(-900) }))).toEqual([wormhole.id]);
+        });
+
+        it('should still find disks too large to bucket', () => {
+            const planet = createPlanet({ position: { x: 0, y: 0 }, captureRadius: toFP(50000) });
+            const spatial = buildSpatialIndex([], [planet], toFP(1000), toFP(1000));
+
+            expect(spatial.oversizedDisks).toHaveLength(1);
+            expect(ids(queryCapturingCelestials(spatial, { x: toFP(-30000), y: toFP(40000) }))).toEqual([planet.id]);
+            expect(queryCapturingCelestials(spatial, { x: toFP(-30000), y: toFP(40001) })).toEqual([]);
+        });
+    });
+
+    describe('Tick context', () => {
+        it('should expose an index over the context state', () => {
+            const ship = createShip({ reach: toFP(500) });
+            const store = createMineralStore({ position: { x: toFP(200), y: 0 } });
+            const context = createContextFromState(createGameState({ entities: [ship, store] }));
+
+            expect(context.spatial.entities).toBe(context.entities);
+            expect(ids(queryEntitiesInReach(context.spatial, ship))).toEqual([store.id]);
+        });
+    });
+});
@@ -0,0 +1,120 @@
+// ===============================================
+// STATE MIGRATION TESTS
+// ===============================================
+// tests for loading snapshots saved before later GameState fields:
+// - missing surfaces are rebuilt from the celestials, as genesis made them
+// - missing dryMass is what the old mass held beyond fuel and cargo
+// - the tick-0 snapshot shipped in mesh.db loads into a playable state
+// - current snapshots come back unchanged
+
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { createContainer, createShip, createGameState } from '../../../test/factories.js';
+import { findEntity, findEntitiesByType, runTick } from '../../../test/SimRunner.js';
+import { migrateState } from '../../../data/stateMigration.js';
+import { generateUniverse } from '../../../genesis/genesisService.js';
+import { toFP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import { isSurfaceBody } from '../../../primitive-types/semantic/celestial/celestial-types.js';
+import { getEscapeVelocity, getFallVelocity } from '../../../state-handlers/state-systems/orbitSystem.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type { ThrustAction } from '../../../primitive-types/semantic/action/action-types.js';
+import type { GameState } from '../../../state-types/state-types.js';
+
+// the tick-0 snapshot mesh.db ships with, saved before surfaces, gravity,
+// well density, spaceForce and dryMass existed
+function loadShippedSnapshot(): GameState {
+    const path = new URL('../../../test/fixtures/mesh-tick-0.json', import.meta.url);
+    return JSON.parse(readFileSync(path, 'utf-8')) as GameState;
+}
+
+function withoutDryMass(entity: Entity): Entity {
+    const { dryMass: _dryMass, ...saved } = entity;
+    return saved as Entity;
+}
+
+describe('State Migration', () => {
+    it('should rebuild missing surfaces the way genesis made them', () => {
+        const state = generateUniverse('migration-surfaces', ['p1']);
+        const { surfaces: _surfaces, ...saved } = state;
+
+        expect(migrateState(saved as GameState).surfaces).toEqual(state.surfaces);
+    });
+
+    it('should take fuel and carried mass out of an old mass for dry mass', () => {
+        // old snapshot: the ship's mass counts its fuel and the crate it carries
+        const ship = createShip({ mass: toFP(1300), fuelMass: toFP(100), carriedMass: toFP(300) });
+        const crate = { ...createContainer({ id: 'crate', mass: toFP(300), fuelMass: 0 }), parentId: ship.id };
+        const saved = createGameState({ entities: [withoutDryMass(ship), withoutDryMass(crate)] });
+
+        const migrated = migrateState(saved);
+
+        expect(findEntity(migrated, ship.id)).toMatchObject({ dryMass: toFP(900), mass: toFP(1300) });
+        expect(findEntity(migrated, 'crate')).toMatchObject({ dryMass: toFP(300), mass: toFP(300) });
+    });
+
+    it('should take volatiles out of an old mass for dry mass', () => {
+        const ship = createShip({ mass: toFP(1300), fuelMass: toFP(100), volatilesMass: toFP(200) });
+        const saved = createGameState({ entities: [withoutDryMass(ship)] });
+
+        expect(findEntity(migrateState(saved), ship.id)).toMatchObject({ dryMass: toFP(1000), mass: toFP(1300) });
+    });
+
+    describe('Shipped Snapshot', () => {
+        it('should give every planet and moon a gravity and finite rail gates', () => {
+            const migrated = migrateState(loadShippedSnapshot());
+            const bodies = migrated.celestials.filter(isSurfaceBody);
+
+            expect(bodies.length).toBeGreaterThan(0);
+            for (const body of bodies) {
+                expect(body.gravity).toBeGreaterThan(0);
+                if (body.type !== 'PLANET') continue;
+                expect(Number.isFinite(getFallVelocity(body))).toBe(true);
+                expect(getEscapeVelocity(body)).toBeGreaterThan(getFallVelocity(body));
+            }
+        });
+
+        it('should build a surface for every planet and moon', () => {
+            const migrated = migrateState(loadShippedSnapshot());
+
+            expect(migrated.surfaces).toHaveLength(migrated.celestials.filter(isSurfaceBody).length);
+            for (const surface of migrated.surfaces) {
+                expect(Number.isFinite(surface.baseZ)).toBe(true);
+            }
+        });
+
+        it('should give wells a density and volume, keeping their total mass', () => {
+            const saved = loadShippedSnapshot();
+            const migrated = migrateState(saved);
+
+            for (const well of findEntitiesByType(migrated, 'RESOURCE_WELL')) {
+                const before = saved.entities.find(e => e.id === well.id)!;
+                expect(well.wellDensity).toBeGreaterThan(0);
+                expect(well.volume).toBeGreaterThan(0);
+                expect(well.mass).toBe(before.mass);
+            }
+        });
+
+        it('should let a player ship thrust after loading', () => {
+            const migrated = migrateState(loadShippedSnapshot());
+            const ship = migrated.entities.find(e => e.playerId === 'player-1')!;
+            expect(ship).toMatchObject({ dryMass: toFP(500), mass: toFP(1000) });
+
+            const action: ThrustAction = {
+                type: 'THRUST',
+                entityId: ship.id,
+                direction: { x: toFP(1), y: toFP(0) },
+                magnitude: toFP(10),
+            };
+            const result = runTick(migrated, [action]);
+
+            expect(result.success).toBe(true);
+            expect(findEntity(result.nextState, ship.id)!.velocity.x).toBeGreaterThan(0);
+        });
+    });
+
+    it('should leave a current snapshot alone', () => {
+        const state = generateUniverse('migration-current', ['p1']);
+
+        expect(migrateState(state)).toBe(state);
+    });
+});
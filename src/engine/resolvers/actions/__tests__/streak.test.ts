@@ -0,0 +1,204 @@
+// ===============================================
+// SKILL STREAK TESTS
+// ===============================================
+// tests for skilled-action streaks:
+// - EXTRACT scales by 1.1^n, REFINE and MANUFACTURE by 1.05^n
+// - the streak resets on a skipped tick or a change of action or target
+// - the multiplier is deterministic fixed point and capped
+// - the draft reports the current multiplier and next-tick output
+
+import { describe, it, expect } from 'vitest';
+import {
+    createShip,
+    createResourceWell,
+    createMineralStore,
+    createGameState,
+    createTickContext,
+} from '../../../test/factories.js';
+import { runTicksWithActions, findEntity, testValidation, getUpdates } from '../../../test/SimRunner.js';
+import { assertMassConservation } from '../../../test/invariants.js';
+import { refineHandler } from '../refineHandler.js';
+import { manufactureHandler } from '../manufactureHandler.js';
+import {
+    getSkillMultiplier,
+    getStreakCount,
+} from '../../../state-handlers/state-systems/streakSystem.js';
+import { projectDraft } from '../../../draft/draftService.js';
+import { SKILL_STREAK_MAX_TICKS, MANUFACTURE_MAX_MASS } from '../../../config/engineConfig.js';
+import { toFP, fpMulWide } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type { ExtractAction } from '../../../primitive-types/semantic/action/action-types.js';
+
+function extract(originIds: string[], rate = toFP(100)): ExtractAction {
+    return { type: 'EXTRACT', entityId: 'ship-001', resourceType: 'VOLATILES', originIds, rate };
+}
+
+function createMiner(overrides: Partial<Entity> = {}): Entity {
+    return { ...createShip({ reach: toFP(500) }), ...overrides };
+}
+
+describe('Skill Streaks', () => {
+    describe('Multiplier', () => {
+        it('should grow extraction by 1.1 per consecutive tick', () => {
+            expect(getSkillMultiplier('EXTRACT', 0)).toBe(toFP(1));
+            expect(getSkillMultiplier('EXTRACT', 1)).toBe(toFP(1.1));
+            expect(getSkillMultiplier('EXTRACT', 2)).toBe(toFP(1.21));
+            expect(getSkillMultiplier('EXTRACT', 3)).toBe(toFP(1.331));
+        });
+
+        it('should grow refining and manufacturing by 1.05 per consecutive tick', () => {
+            expect(getSkillMultiplier('REFINE', 1)).toBe(toFP(1.05));
+            expect(getSkillMultiplier('MANUFACTURE', 1)).toBe(toFP(1.05));
+            expect(getSkillMultiplier('REFINE', 2)).toBe(fpMulWide(toFP(1.05), toFP(1.05)));
+        });
+
+        it('should stop growing past the streak cap', () => {
+            const capped = getSkillMultiplier('EXTRACT', SKILL_STREAK_MAX_TICKS);
+
+            expect(getSkillMultiplier('EXTRACT', SKILL_STREAK_MAX_TICKS + 10)).toBe(capped);
+            expect(capped).toBeGreaterThan(getSkillMultiplier('EXTRACT', SKILL_STREAK_MAX_TICKS - 1));
+        });
+    });
+
+    describe('Streak Tracking', () => {
+        it('should count consecutive ticks on the same action and target', () => {
+            const miner = createMiner({
+                skillStreak: { actionType: 'EXTRACT', targetId: 'well-001', count: 3, lastTick: 9 },
+            });
+
+            expect(getStreakCount(miner, 'EXTRACT', 'well-001', 10)).toBe(3);
+            expect(getStreakCount(miner, 'EXTRACT', 'well-001', 11)).toBe(0);
+            expect(getStreakCount(miner, 'EXTRACT', 'well-002', 10)).toBe(0);
+            expect(getStreakCount(miner, 'REFINE', 'well-001', 10)).toBe(0);
+        });
+    });
+
+    describe('EXTRACT', () => {
+        it('should scale the extracted volatiles tick after tick', () => {
+            const state = createGameState({ entities: [createMiner(), createResourceWell()] });
+
+            const results = runTicksWithActions(state, [
+                [extract(['well-001'])],
+                [extract(['well-001'])],
+                [extract(['well-001'])],
+            ]);
+
+            const volatiles = results.map(r => findEntity(r.nextState, 'ship-001')!.volatilesMass);
+            expect(volatiles).toEqual([toFP(100), toFP(210), toFP(331)]);
+            expect(findEntity(results[2]!.nextState, 'ship-001')!.skillStreak?.count).toBe(3);
+            expect(assertMassConservation(state, results[2]!.nextState).passed).toBe(true);
+        });
+
+        it('should reset after a skipped tick', () => {
+            const state = createGameState({ entities: [createMiner(), createResourceWell()] });
+
+            const results = runTicksWithActions(state, [
+                [extract(['well-001'])],
+                [extract(['well-001'])],
+                [],
+                [extract(['well-001'])],
+            ]);
+
+            // 100 + 110, then a fresh streak at 100
+            expect(findEntity(results[3]!.nextState, 'ship-001')!.volatilesMass).toBe(toFP(310));
+            expect(findEntity(results[3]!.nextState, 'ship-001')!.skillStreak?.count).toBe(1);
+        });
+
+        it('should reset when the well changes', () => {
+            const wellB = createResourceWell({ id: 'well-002', position: { x: toFP(0), y: toFP(100) } });
+            const state = createGameState({ entities: [createMiner(), createResourceWell(), wellB] });
+
+            const results = runTicksWithActions(state, [
+                [extract(['well-001'])],
+                [extract(['well-001'])],
+                [extract(['well-002'])],
+            ]);
+
+            expect(findEntity(results[2]!.nextState, 'ship-001')!.volatilesMass).toBe(toFP(310));
+            expect(findEntity(results[2]!.nextState, 'ship-001')!.skillStreak).toMatchObject({
+                targetId: 'well-002',
+                count: 1,
+            });
+        });
+    });
+
+    describe('REFINE', () => {
+        it('should grow the batch cap with the streak, not the requested amount', () => {
+            const refinery = createMiner({
+                volatilesMass: toFP(10000),
+                skillStreak: { actionType: 'REFINE', targetId: 'ship-001', count: 2, lastTick: 4 },
+            });
+            const context = createTickContext(5, [refinery]);
+            const refine = (volatilesAmount: number) =>
+                getUpdates(refineHandler(refinery, [], { volatilesAmount }, context))[0]!;
+
+            // 5000 × 1.05² (1.103 in fixed point) = 5515
+            expect(refine(toFP(50000)).changes.volatilesMass).toBe(toFP(10000) - toFP(5515));
+            expect(refine(toFP(100)).changes.volatilesMass).toBe(toFP(10000) - toFP(100));
+            expect(refine(toFP(100)).changes.skillStreak).toEqual({
+                actionType: 'REFINE',
+                targetId: 'ship-001',
+                count: 3,
+                lastTick: 5,
+            });
+        });
+    });
+
+    describe('MANUFACTURE', () => {
+        const heavyOre = createMineralStore({
+            id: 'ore',
+            mass: fpMulWide(MANUFACTURE_MAX_MASS, toFP(1.04)),
+            volume: toFP(400),
+            position: { x: toFP(100), y: 0 },
+        });
+
+        it('should raise the per-tick capacity with a streak on the same blueprint', () => {
+            const fresh = createMiner({ canManufacture: true });
+            const skilled = createMiner({
+                canManufacture: true,
+                skillStreak: { actionType: 'MANUFACTURE', targetId: 'cargo-pod', count: 1, lastTick: 6 },
+            });
+
+            expect(testValidation('MANUFACTURE', fresh, [heavyOre], { blueprintId: 'cargo-pod' })).toBe(false);
+            expect(testValidation('MANUFACTURE', skilled, [heavyOre], { blueprintId: 'cargo-pod' })).toBe(true);
+            expect(testValidation('MANUFACTURE', skilled, [heavyOre], { blueprintId: 'crane' })).toBe(false);
+        });
+
+        it('should refuse a mass only a broken streak would cover', () => {
+            const lapsed = createMiner({
+                canManufacture: true,
+                skillStreak: { actionType: 'MANUFACTURE', targetId: 'cargo-pod', count: 1, lastTick: 2 },
+            });
+
+            const live = getUpdates(manufactureHandler(lapsed, [heavyOre], { blueprintId: 'cargo-pod' }, createTickContext(3, [lapsed, heavyOre])));
+            const broken = manufactureHandler(lapsed, [heavyOre], { blueprintId: 'cargo-pod' }, createTickContext(7, [lapsed, heavyOre]));
+
+            expect(live.find(u => u.id === lapsed.id)!.changes.skillStreak?.count).toBe(2);
+            expect(broken).toEqual([]);
+        });
+    });
+
+    describe('Draft', () => {
+        it('should report the current multiplier and the projected next-tick output', () => {
+            const miner = createMiner({
+                skillStreak: { actionType: 'EXTRACT', targetId: 'well-001', count: 2, lastTick: 0 },
+            });
+            const state = createGameState({ tick: 1, entities: [miner, createResourceWell()] });
+
+            const draft = projectDraft(state, [extract(['well-001'])]);
+
+            expect(draft.skills).toHaveLength(1);
+            expect(draft.skills[0]).toMatchObject({
+                actionIndex: 0,
+                entityId: 'ship-001',
+                projection: {
+                    count: 2,
+                    multiplier: toFP(1.21),
+                    output: toFP(121),
+                    nextMultiplier: toFP(1.331),
+                    nextOutput: toFP(133.1),
+                },
+            });
+        });
+    });
+});
@@ -0,0 +1,323 @@
+// ===============================================
+// SURFACE COORDINATE TESTS
+// ===============================================
+// validates pocket-universe coordinates: zone <-> rail angle mapping,
+// gravity map generation (Z, POIs, Voronoi zones, surface wells),
+// coordinate-space aware reach, and translation / binding for entities
+// that live on a planet's surface.
+
+import { describe, it, expect } from 'vitest';
+import {
+    createShip,
+    createContainer,
+    createSol,
+    createPlanet,
+    createGameState,
+} from '../../../test/factories.js';
+import { runTick, testValidation } from '../../../test/SimRunner.js';
+import {
+    getZoneFromAngle,
+    getAngleFromZone,
+    getZoneFromSurfacePosition,
+    getRailAngleFromSurfacePosition,
+    getSeparationSquared,
+    getSurfaceLanding,
+    getSurfaceZ,
+    getZoneAtPoint,
+} from '../../../state-handlers/state-systems/surfaceSystem.js';
+import { generateSurfaceMap, generateUniverse, SeededRNG } from '../../../genesis/genesisService.js';
+import { toFP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type { Moon, Planet } from '../../../primitive-types/semantic/celestial/celestial-types.js';
+
+function createMoon(): Moon {
+    return {
+        id: 'moon-001',
+        name: 'Test Moon',
+        type: 'MOON',
+        parentPlanetId: 'planet-001',
+        position: { x: toFP(520000), y: toFP(0) },
+        mass: toFP(1000),
+        radius: toFP(3000),
+        captureRadius: toFP(5000),
+        z: toFP(2),
+        atmosphere: toFP(0),
+        gravity: toFP(0.1),
+        orbitRadius: toFP(20000),
+        orbitAngle: toFP(0),
+        orbitSpeed: toFP(10),
+    };
+}
+
+function createSurfaceShip(planet: Planet, overrides: Partial<Entity> = {}): Entity {
+    return {
+        ...createShip({ id: overrides.id ?? 'surface-ship' }),
+        zoomState: 'SURFACE',
+        surfaceBodyId: planet.id,
+        surfacePosition: { x: toFP(100), y: toFP(100) },
+        position: { ...planet.position },
+        ...overrides,
+    };
+}
+
+describe('Surface Coordinates', () => {
+    describe('Zones and Rail Angles', () => {
+        it('should slice the rail into equal zone segments', () => {
+            expect(getZoneFromAngle(toFP(0), 6)).toBe(0);
+            expect(getZoneFromAngle(toFP(59.999), 6)).toBe(0);
+            expect(getZoneFromAngle(toFP(60), 6)).toBe(1);
+            expect(getZoneFromAngle(toFP(359), 6)).toBe(5);
+            // angles wrap
+            expect(getZoneFromAngle(toFP(420), 6)).toBe(1);
+            expect(getZoneFromAngle(toFP(-30), 6)).toBe(5);
+        });
+
+        it('should map a zone to the first point of its segment', () => {
+            expect(getAngleFromZone(0, 6)).toBe(toFP(0));
+            expect(getAngleFromZone(2, 6)).toBe(toFP(120));
+            expect(getAngleFromZone(3, 4)).toBe(toFP(270));
+        });
+
+        it('should round-trip zone -> angle -> zone', () => {
+            for (let zone = 0; zone < 7; zone++) {
+                expect(getZoneFromAngle(getAngleFromZone(zone, 7), 7)).toBe(zone);
+            }
+        });
+
+        it('should map every point in a zone to the same rail angle', () => {
+            const a = { x: toFP(1000), y: toFP(100) };
+            const b = { x: toFP(50), y: toFP(20) };
+
+            expect(getZoneFromSurfacePosition(a, null)).toBe(0);
+            expect(getRailAngleFromSurfacePosition(a, null)).toBe(getRailAngleFromSurfacePosition(b, null));
+        });
+    });
+
+    describe('Landing', () => {
+        it('should land in the zone under the rail angle at the planet origin', () => {
+            const planet = createPlanet();
+            const changes = getSurfaceLanding(planet, toFP(130), null);
+
+            expect(changes.zoomState).toBe('SURFACE');
+            expect(changes.surfaceBodyId).toBe(planet.id);
+            expect(changes.position).toEqual(planet.position);
+            expect(getZoneFromSurfacePosition(changes.surfacePosition!, null)).toBe(getZoneFromAngle(toFP(130), 6));
+        });
+
+        it('should land on the POI of the zone under the rail angle', () => {
+            const planet = createPlanet();
+            const map = generateSurfaceMap(planet, new SeededRNG('landing-seed'));
+            const zoneCount = map.zones.length;
+            const railAngle = getAngleFromZone(2, zoneCount);
+
+            const changes = getSurfaceLanding(planet, railAngle, map);
+
+            expect(changes.surfacePosition).toEqual(map.zones[2]!.site);
+            expect(getZoneFromSurfacePosition(changes.surfacePosition!, map)).toBe(2);
+        });
+    });
+
+    describe('Gravity Map', () => {
+        it('should reproduce identically from the same seed', () => {
+            const planet = createPlanet();
+
+            const first = generateSurfaceMap(planet, new SeededRNG('surface-seed'));
+            const second = generateSurfaceMap(planet, new SeededRNG('surface-seed'));
+
+            expect(JSON.stringify(first)).toBe(JSON.stringify(second));
+        });
+
+        it('should give planets 5-9 zones on rolling hills', () => {
+            for (const seed of ['a', 'b', 'c', 'd', 'e']) {
+                const map = generateSurfaceMap(createPlanet(), new SeededRNG(seed));
+
+                expect(map.topography).toBe('HILLS');
+                expect(map.zones.length).toBeGreaterThanOrEqual(5);
+                expect(map.zones.length).toBeLessThanOrEqual(9);
+                expect(map.pointsOfInterest.length).toBe(map.zones.length);
+            }
+        });
+
+        it('should give moons 2-5 zones on craters', () => {
+            for (const seed of ['a', 'b', 'c', 'd', 'e']) {
+                const map = generateSurfaceMap(createMoon(), new SeededRNG(seed));
+
+                expect(map.topography).toBe('CRATERS');
+                expect(map.zones.length).toBeGreaterThanOrEqual(2);
+                expect(map.zones.length).toBeLessThanOrEqual(5);
+                expect(map.pointsOfInterest.every(poi => poi.kind === 'CRATER')).toBe(true);
+            }
+        });
+
+        it('should center Z on 1000 × gravity', () => {
+            const planet = createPlanet({ gravity: toFP(0.3) });
+            const map = generateSurfaceMap(planet, new SeededRNG('z-seed'));
+
+            expect(map.baseZ).toBe(toFP(300));
+            expect(map.pointsOfInterest.every(poi => poi.z === getSurfaceZ(map, poi.position))).toBe(true);
+        });
+
+        it('should put valleys deeper in the well than baseZ and peaks shallower', () => {
+            const map = generateSurfaceMap(createPlanet(), new SeededRNG('poi-seed'));
+
+            for (const poi of map.pointsOfInterest) {
+                if (poi.kind === 'VALLEY') expect(poi.z).toBeGreaterThan(map.baseZ);
+                if (poi.kind === 'PEAK') expect(poi.z).toBeLessThan(map.baseZ);
+            }
+        });
+
+        it('should sink craters deeper into the well than baseZ', () => {
+            const map = generateSurfaceMap(createMoon(), new SeededRNG('crater-seed'));
+            const crater = map.craters[0]!;
+
+            expect(getSurfaceZ(map, crater.center)).toBeGreaterThan(map.baseZ);
+        });
+
+        it('should assign every point to its nearest POI zone', () => {
+            const map = generateSurfaceMap(createPlanet(), new SeededRNG('voronoi-seed'));
+
+            for (const zone of map.zones) {
+                expect(getZoneAtPoint(map, zone.site)).toBe(zone.index);
+            }
+        });
+    });
+
+    describe('Genesis', () => {
+        it('should store a gravity map for every planet and moon', () => {
+            const state = generateUniverse('genesis-surface-seed', ['p1']);
+            const bodies = state.celestials.filter(c => c.type === 'PLANET' || c.type === 'MOON');
+
+            expect(state.surfaces.map(map => map.bodyId).sort()).toEqual(bodies.map(b => b.id).sort());
+        });
+
+        it('should reproduce the universe byte-identically from the seed', () => {
+            const first = generateUniverse('genesis-determinism', ['p1', 'p2']);
+            const second = generateUniverse('genesis-determinism', ['p1', 'p2']);
+
+            expect(JSON.stringify(first)).toBe(JSON.stringify(second));
+        });
+
+        it('should seed surface wells on the low ground, richer when deeper', () => {
+            const state = generateUniverse('genesis-wells', ['p1']);
+            const surfaceWells = state.entities.filter(
+                e => e.type === 'RESOURCE_WELL' && e.zoomState === 'SURFACE'
+            );
+
+            expect(surfaceWells.length).toBeGreaterThan(0);
+            for (const well of surfaceWells) {
+                const map = state.surfaces.find(m => m.bodyId === well.surfaceBodyId)!;
+                const poi = map.pointsOfInterest.find(p =>
+                    p.position.x === well.surfacePosition!.x && p.position.y === well.surfacePosition!.y
+                )!;
+
+                expect(poi).toBeDefined();
+                expect(well.linkedCelestialId).toBe(map.bodyId);
+                // the base draw tops out at 500000; only depth lifts it beyond
+                if (poi.z <= map.baseZ) expect(well.mass).toBeLessThanOrEqual(toFP(500000));
+            }
+        });
+    });
+
+    describe('Coordinate Spaces', () => {
+        it('should have no separation between space and surface entities', () => {
+            const planet = createPlanet();
+            const surfaceShip = createSurfaceShip(planet);
+            // same shared-plane position, different coordinate space
+            const spaceShip = createShip({ id: 'space-ship', position: { ...planet.position } });
+
+            expect(getSeparationSquared(surfaceShip, spaceShip)).toBeNull();
+        });
+
+        it('should measure surface separation in body-local coordinates', () => {
+            const planet = createPlanet();
+            const a = createSurfaceShip(planet, { id: 'a', surfacePosition: { x: toFP(0), y: toFP(0) } });
+            const b = createSurfaceShip(planet, { id: 'b', surfacePosition: { x: toFP(3), y: toFP(4) } });
+
+            expect(getSeparationSquared(a, b)).toBe(toFP(25));
+        });
+
+        it('should reject LOAD across coordinate spaces', () => {
+            const planet = createPlanet();
+            const actor = createSurfaceShip(planet, { reach: toFP(1000000) });
+            const cargo = createShip({ id: 'cargo', position: { ...planet.position } });
+            const container = createContainer({ id: 'container', position: { ...planet.position } });
+
+            const isValid = testValidation('LOAD', actor, [cargo, container], {
+                contentIds: [cargo.id],
+                containerId: container.id,
+            });
+
+            expect(isValid).toBe(false);
+        });
+    });
+
+    describe('Thrust', () => {
+        it('should reject THRUST on the surface', () => {
+            const planet = createPlanet();
+            const ship = createSurfaceShip(planet);
+
+            const isValid = testValidation('THRUST', ship, [], { magnitude: toFP(10) });
+
+            expect(isValid).toBe(false);
+        });
+    });
+
+    describe('Translation and Binding', () => {
+        it('should not translate surface entities by velocity', () => {
+            const planet = createPlanet({ orbitSpeed: toFP(0) });
+            const ship = createSurfaceShip(planet, { velocity: { x: toFP(50), y: toFP(0) } });
+            const state = createGameState({ celestials: [createSol(), planet], entities: [ship] });
+
+            const { nextState } = runTick(state);
+            const next = nextState.entities[0]!;
+
+            expect(next.position).toEqual(planet.position);
+            expect(next.surfacePosition).toEqual(ship.surfacePosition);
+        });
+
+        it('should carry surface entities with their moving planet', () => {
+            const planet = createPlanet({ orbitSpeed: toFP(3) });
+            const ship = createSurfaceShip(planet);
+            const state = createGameState({ celestials: [createSol(), planet], entities: [ship] });
+
+            const { nextState } = runTick(state);
+            const nextPlanet = nextState.celestials.find(c => c.id === planet.id) as Planet;
+
+            expect(nextState.entities[0]!.position).toEqual(nextPlanet.position);
+            expect(nextState.entities[0]!.surfacePosition).toEqual(ship.surfacePosition);
+        });
+
+        it('should bind contained entities into the container surface space', () => {
+            const planet = createPlanet({ orbitSpeed: toFP(0) });
+            const container = createSurfaceShip(planet, { id: 'container' });
+            const cargo = createShip({ id: 'cargo', parentId: container.id });
+            const state = createGameState({ celestials: [createSol(), planet], entities: [container, cargo] });
+
+            const { nextState } = runTick(state);
+            const boundCargo = nextState.entities.find(e => e.id === cargo.id)!;
+
+            expect(boundCargo.zoomState).toBe('SURFACE');
+            expect(boundCargo.surfaceBodyId).toBe(planet.id);
+            expect(boundCargo.surfacePosition).toEqual(container.surfacePosition);
+            expect(boundCargo.position).toEqual(planet.position);
+        });
+
+        it('should apply weld offsets on the surface plane', () => {
+            const planet = createPlanet({ orbitSpeed: toFP(0) });
+            const primary = createSurfaceShip(planet, { id: 'primary' });
+            const part: Entity = {
+                ...createShip({ id: 'part' }),
+                weldParentId: primary.id,
+                relativeOffset: { x: toFP(10), y: toFP(-5) },
+            };
+            const state = createGameState({ celestials: [createSol(), planet], entities: [primary, part] });
+
+            const { nextState } = runTick(state);
+            const boundPart = nextState.entities.find(e => e.id === part.id)!;
+
+            expect(boundPart.zoomState).toBe('SURFACE');
+            expect(boundPart.surfacePosition).toEqual({ x: toFP(110), y: toFP(95) });
+            expect(boundPart.position).toEqual(planet.position);
+        });
+    });
+});
@@ -2,19 +2,17 @@
 // THRUST ACTION TESTS
 // ===============================================
 // validates Newtonian thrust mechanics: delta-V application,
-// fuel consumption, and mass loss from propellant ejection.
+// force / mass limits, fuel consumption, and mass loss from
+// propellant ejection.
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { createShip, createTickContext, createGameState } from '../../../test/factories.js';
-import { testAction, testValidation, runTick } from '../../../test/SimRunner.js';
+import { createShip, createMineralStore, createTickContext, createGameState } from '../../../test/factories.js';
+import { testAction, testValidation, runTick, getUpdates } from '../../../test/SimRunner.js';
 import { assertMassConservation, assertSufficientFuel } from '../../../test/invariants.js';
 import { thrustHandler, thrustValidate } from '../thrustHandler.js';
 import { toFP, fromFP, type FP } from '../../../primitive-types/euclidean/euclidean-types.js';
-import {
-    FUEL_BURN_RATE,
-    MASS_PROPULSION_LOSS,
-    MAX_THRUST_PER_TICK,
-} from '../../../config/engineConfig.js';
+import { MAX_THRUST_PER_TICK } from '../../../config/engineConfig.js';
+import { getMaxThrustDeltaV } from '../../../state-handlers/state-systems/propulsionSystem.js';
 import type { ThrustAction } from '../../../primitive-types/semantic/action/action-types.js';
 
 describe('THRUST Action', () => {
@@ -56,7 +54,7 @@ describe('THRUST Action', () => {
             });
             const context = createTickContext(1, [ship]);
             
-            const updates = thrustHandler(ship, [], { magnitude: toFP(10) }, context);
+            const updates = getUpdates(thrustHandler(ship, [], { magnitude: toFP(10) }, context));
             
             expect(updates.length).toBe(1);
             const velocity = updates[0]!.changes.velocity!;
@@ -73,7 +71,7 @@ describe('THRUST Action', () => {
             });
             const context = createTickContext(1, [ship]);
             
-            const updates = thrustHandler(ship, [], { magnitude: toFP(10) }, context);
+            const updates = getUpdates(thrustHandler(ship, [], { magnitude: toFP(10) }, context));
             
             expect(updates.length).toBe(1);
             const velocity = updates[0]!.changes.velocity!;
@@ -90,7 +88,7 @@ describe('THRUST Action', () => {
             });
             const context = createTickContext(1, [ship]);
             
-            const updates = thrustHandler(ship, [], { magnitude: toFP(10) }, context);
+            const updates = getUpdates(thrustHandler(ship, [], { magnitude: toFP(10) }, context));
             
             expect(updates.length).toBe(1);
             const velocity = updates[0]!.changes.velocity!;
@@ -107,7 +105,7 @@ describe('THRUST Action', () => {
             });
             const context = createTickContext(1, [ship]);
             
-            const updates = thrustHandler(ship, [], { magnitude: toFP(10) }, context);
+            const updates = getUpdates(thrustHandler(ship, [], { magnitude: toFP(10) }, context));
             
             expect(updates.length).toBe(1);
             const velocity = updates[0]!.changes.velocity!;
@@ -119,21 +117,86 @@ describe('THRUST Action', () => {
         });
     });
 
+    describe('Force and Mass Limits', () => {
+        it('should cap delta-V at spaceForce / mass', () => {
+            // 100000 / 2000 = 50
+            const ship = createShip({ mass: toFP(2000), fuelMass: toFP(1500), spaceForce: toFP(100000) });
+            const context = createTickContext(1, [ship]);
+
+            const updates = getUpdates(thrustHandler(ship, [], { magnitude: toFP(80) }, context));
+
+            expect(updates[0]!.changes.thrust).toBe(toFP(50));
+            expect(updates[0]!.changes.velocity!.x).toBe(toFP(50));
+        });
+
+        it('should accelerate a heavy freighter less than a light ship', () => {
+            const light = createShip({ id: 'light', mass: toFP(1000), fuelMass: toFP(900) });
+            const freighter = createShip({ id: 'freighter', mass: toFP(10000), fuelMass: toFP(900) });
+            const context = createTickContext(1, [light, freighter]);
+
+            const lightUpdate = getUpdates(thrustHandler(light, [], { magnitude: toFP(100) }, context))[0]!;
+            const freighterUpdate = getUpdates(thrustHandler(freighter, [], { magnitude: toFP(100) }, context))[0]!;
+
+            expect(lightUpdate.changes.thrust).toBe(toFP(90));
+            expect(freighterUpdate.changes.thrust).toBe(toFP(9));
+        });
+
+        it('should count loaded cargo in the mass', () => {
+            const ship = createShip({ mass: toFP(1000), fuelMass: toFP(500) });
+            const store = createMineralStore({ mass: toFP(1000), parentId: ship.id });
+            const laden = { ...ship, mass: toFP(2000) };
+            const context = createTickContext(1, [laden, store]);
+
+            expect(getMaxThrustDeltaV(ship, [ship])).toBe(toFP(50));
+            expect(getMaxThrustDeltaV(laden, context.entities)).toBe(toFP(25));
+        });
+
+        it('should sum the force of welded parts', () => {
+            const hull = createShip({ id: 'hull', mass: toFP(4000), fuelMass: toFP(3000) });
+            const engine = { ...createShip({ id: 'engine', mass: toFP(1000) }), weldParentId: 'hull' };
+            const booster = { ...createShip({ id: 'booster', mass: toFP(1000) }), weldParentId: 'engine' };
+
+            // own 100000 + welded 200000 over the welded total of 4000
+            expect(getMaxThrustDeltaV(hull, [hull, engine, booster])).toBe(toFP(75));
+            expect(getMaxThrustDeltaV(hull, [hull])).toBe(toFP(25));
+        });
+
+        it('should not thrust without an engine on the structure', () => {
+            const hulk = createShip({ spaceForce: 0 });
+            const context = createTickContext(1, [hulk]);
+
+            expect(thrustHandler(hulk, [], { magnitude: toFP(10) }, context)).toEqual([]);
+        });
+
+        it('should thrust on a welded engine alone', () => {
+            const hull = createShip({ id: 'hull', spaceForce: 0, fuelMass: toFP(500) });
+            const engine = { ...createShip({ id: 'engine' }), weldParentId: 'hull' };
+            const context = createTickContext(1, [hull, engine]);
+
+            const updates = getUpdates(thrustHandler(hull, [], { magnitude: toFP(10) }, context));
+
+            expect(updates[0]!.changes.thrust).toBe(toFP(10));
+        });
+    });
+
     describe('Fuel Consumption', () => {
-        it('should consume fuel proportional to magnitude', () => {
-            const initialFuel = toFP(100);
-            const magnitude = toFP(10);
-            const ship = createShip({ fuelMass: initialFuel });
+        it('should consume delta-V × mass × fuel efficiency', () => {
+            const ship = createShip({ mass: toFP(1000), fuelMass: toFP(100) });
             const context = createTickContext(1, [ship]);
-            
-            const updates = thrustHandler(ship, [], { magnitude }, context);
-            
-            expect(updates.length).toBe(1);
-            const newFuel = updates[0]!.changes.fuelMass!;
-            
-            // fuel consumed = magnitude * FUEL_BURN_RATE
-            const expectedFuel = initialFuel - (magnitude * fromFP(FUEL_BURN_RATE));
-            expect(fromFP(newFuel)).toBeCloseTo(expectedFuel / 1000, 1);
+
+            const updates = getUpdates(thrustHandler(ship, [], { magnitude: toFP(4) }, context));
+
+            // 4 × 1000 × 0.01 = 40
+            expect(updates[0]!.changes.fuelMass).toBe(toFP(60));
+        });
+
+        it('should cost a heavier ship more fuel for the same delta-V', () => {
+            const ship = createShip({ mass: toFP(3000), fuelMass: toFP(500) });
+            const context = createTickContext(1, [ship]);
+
+            const updates = getUpdates(thrustHandler(ship, [], { magnitude: toFP(4) }, context));
+
+            expect(updates[0]!.changes.fuelMass).toBe(toFP(380));
         });
 
         it('should limit thrust when fuel is insufficient', () => {
@@ -142,45 +205,43 @@ describe('THRUST Action', () => {
             const context = createTickContext(1, [ship]);
             
             // request more thrust than fuel allows
-            const updates = thrustHandler(ship, [], { magnitude: toFP(100) }, context);
+            const updates = getUpdates(thrustHandler(ship, [], { magnitude: toFP(100) }, context));
             
             expect(updates.length).toBe(1);
-            const newFuel = updates[0]!.changes.fuelMass!;
-            
-            // should burn all available fuel
-            expect(fromFP(newFuel)).toBeLessThanOrEqual(0.1);
+
+            // 5 fuel / (1000 × 0.01) = 0.5 delta-V, burning all available fuel
+            expect(updates[0]!.changes.thrust).toBe(toFP(0.5));
+            expect(updates[0]!.changes.fuelMass).toBe(0);
         });
 
         it('should clamp thrust to MAX_THRUST_PER_TICK', () => {
-            const ship = createShip({ fuelMass: toFP(10000) });
+            // a bare fuel tank: the fuel alone would allow 100 / (100 × 0.01) = 100
+            const ship = createShip({ mass: toFP(100), fuelMass: toFP(100), spaceForce: toFP(1000000) });
             const context = createTickContext(1, [ship]);
             
             // request ridiculous thrust
-            const updates = thrustHandler(ship, [], { magnitude: toFP(99999) }, context);
+            const updates = getUpdates(thrustHandler(ship, [], { magnitude: toFP(99999) }, context));
             
             expect(updates.length).toBe(1);
             
             // effective thrust should be clamped
             const thrust = updates[0]!.changes.thrust!;
-            expect(thrust).toBeLessThanOrEqual(MAX_THRUST_PER_TICK);
+            expect(thrust).toBe(MAX_THRUST_PER_TICK);
         });
     });
 
     describe('Mass Loss (Propellant Ejection)', () => {
-        it('should reduce entity mass when thrusting', () => {
-            const initialMass = toFP(1000);
-            const magnitude = toFP(10);
-            const ship = createShip({ mass: initialMass, fuelMass: toFP(100) });
+        it('should lose exactly the fuel burned', () => {
+            const ship = createShip({ mass: toFP(1000), fuelMass: toFP(100) });
             const context = createTickContext(1, [ship]);
             
-            const updates = thrustHandler(ship, [], { magnitude }, context);
+            const updates = getUpdates(thrustHandler(ship, [], { magnitude: toFP(4) }, context));
             
             expect(updates.length).toBe(1);
-            const newMass = updates[0]!.changes.mass!;
-            
-            // mass lost = magnitude * MASS_PROPULSION_LOSS
-            const expectedMass = initialMass - (magnitude * fromFP(MASS_PROPULSION_LOSS));
-            expect(fromFP(newMass)).toBeCloseTo(expectedMass / 1000, 1);
+            const { mass, fuelMass } = updates[0]!.changes;
+
+            expect(ship.mass - mass!).toBe(ship.fuelMass - fuelMass!);
+            expect(mass).toBe(toFP(960));
         });
     });
 
@@ -209,7 +270,7 @@ describe('THRUST Action', () => {
             const massResult = assertMassConservation(
                 state, 
                 result.nextState, 
-                toFP(20) // allow for fuel burn + mass loss
+                toFP(100) // 10 delta-V × 1000 mass × 0.01
             );
             
             // mass should decrease but not go negative
@@ -252,7 +313,7 @@ describe('THRUST Action', () => {
             const context = createTickContext(1, [ship]);
             
             // minimum positive thrust
-            const updates = thrustHandler(ship, [], { magnitude: toFP(0.001) }, context);
+            const updates = getUpdates(thrustHandler(ship, [], { magnitude: toFP(0.001) }, context));
             
             expect(updates.length).toBe(1);
         });
@@ -0,0 +1,259 @@
+// ===============================================
+// TRANSPORT ACTION TESTS
+// ===============================================
+// validates towing: maxLoad/maxVolume limits (contents included), the
+// towed entity following the actor's displacement on the SURFACE and in
+// SPACE, tow release at the end of the tick, and tow entanglement in
+// the conflict-cluster resolver.
+
+import { describe, it, expect } from 'vitest';
+import {
+    createShip,
+    createContainer,
+    createSol,
+    createPlanet,
+    createGameState,
+    createTickContext,
+} from '../../../test/factories.js';
+import {
+    runTick,
+    runTickWithWaves,
+    testValidation,
+    actionsWouldCluster,
+    findEntity,
+} from '../../../test/SimRunner.js';
+import { transportHandler } from '../transportHandler.js';
+import { getClosestReachablePoint } from '../maneuverHandler.js';
+import { toFP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type {
+    Action,
+    LoadAction,
+    ManeuverAction,
+    SealAirlockAction,
+    TransportAction,
+} from '../../../primitive-types/semantic/action/action-types.js';
+
+function createTug(overrides: Partial<Entity> = {}): Entity {
+    return {
+        ...createShip({ id: 'tug-001', mass: toFP(1000), reach: toFP(50) }),
+        maxLoad: toFP(3000),
+        maxVolume: toFP(2000),
+        ...overrides,
+    };
+}
+
+function createCrate(id: string, overrides: Partial<Entity> = {}): Entity {
+    return {
+        ...createContainer({ id, mass: overrides.mass ?? toFP(500), volume: toFP(400), position: { x: toFP(20), y: 0 } }),
+        ...overrides,
+    };
+}
+
+function transport(actor: Entity, targetIds: string[]): TransportAction {
+    return { type: 'TRANSPORT', entityId: actor.id, targetIds };
+}
+
+// on a flat planet: g = 0.2, A = 0.5
+function onSurface(entity: Entity, x: number): Entity {
+    return {
+        ...entity,
+        zoomState: 'SURFACE',
+        surfaceBodyId: 'planet-001',
+        surfacePosition: { x: toFP(x), y: 0 },
+        position: { x: toFP(500000), y: 0 },
+    };
+}
+
+describe('TRANSPORT Action', () => {
+    describe('Validation', () => {
+        it('should pass for a target within reach and limits', () => {
+            expect(testValidation('TRANSPORT', createTug(), [createCrate('crate-001')], {})).toBe(true);
+        });
+
+        it('should fail without hauling capability', () => {
+            const tug = createTug({ maxLoad: undefined });
+
+            expect(testValidation('TRANSPORT', tug, [createCrate('crate-001')], {})).toBe(false);
+        });
+
+        it('should fail for a target out of reach', () => {
+            const crate = createCrate('crate-001', { position: { x: toFP(200), y: 0 } });
+
+            expect(testValidation('TRANSPORT', createTug(), [crate], {})).toBe(false);
+        });
+
+        it('should fail for a target in another coordinate space', () => {
+            const crate = onSurface(createCrate('crate-001'), 0);
+
+            expect(testValidation('TRANSPORT', createTug(), [crate], {})).toBe(false);
+        });
+
+        it('should fail for a contained or welded target', () => {
+            const contained = createCrate('crate-001', { parentId: 'hold' });
+            const welded = createCrate('crate-002', { weldParentId: 'hull' });
+
+            expect(testValidation('TRANSPORT', createTug(), [contained], {})).toBe(false);
+            expect(testValidation('TRANSPORT', createTug(), [welded], {})).toBe(false);
+        });
+
+        it('should fail on a rail', () => {
+            const tug = createTug({ zoomState: 'ORBIT', orbitTargetId: 'planet-001' });
+
+            expect(testValidation('TRANSPORT', tug, [createCrate('crate-001')], {})).toBe(false);
+        });
+
+        it('should fail when the combined mass exceeds maxLoad', () => {
+            const crates = [
+                createCrate('crate-001', { mass: toFP(2000) }),
+                createCrate('crate-002', { mass: toFP(1500) }),
+            ];
+
+            expect(testValidation('TRANSPORT', createTug(), crates, {})).toBe(false);
+        });
+
+        it('should fail when the combined volume exceeds maxVolume', () => {
+            const crates = [
+                createCrate('crate-001', { volume: toFP(1200) }),
+                createCrate('crate-002', { volume: toFP(1200) }),
+            ];
+
+            expect(testValidation('TRANSPORT', createTug(), crates, {})).toBe(false);
+        });
+    });
+
+    describe('Tow Link', () => {
+        it('should link each target at its offset from the actor', () => {
+            const tug = createTug();
+            const crate = createCrate('crate-001', { position: { x: toFP(20), y: toFP(-10) } });
+            const context = createTickContext(1, [tug, crate]);
+
+            const updates = transportHandler(tug, [crate], {}, context);
+
+            expect(updates).toEqual([{
+                kind: 'update',
+                id: crate.id,
+                changes: { towParentId: tug.id, towOffset: { x: toFP(20), y: toFP(-10) } },
+            }]);
+        });
+
+        it('should count loads already in tow toward maxLoad', () => {
+            const tug = createTug();
+            const inTow = createCrate('crate-001', { mass: toFP(2800), towParentId: tug.id, towOffset: { x: toFP(20), y: 0 } });
+            const crate = createCrate('crate-002');
+            const context = createTickContext(1, [tug, inTow, crate]);
+
+            expect(transportHandler(tug, [crate], {}, context)).toEqual([]);
+        });
+    });
+
+    describe('Contents', () => {
+        it('should count a container\'s loaded contents against maxLoad', () => {
+            const tug = createTug({ velocity: { x: toFP(30), y: 0 } });
+            const crate = createCrate('crate-001', { mass: toFP(2000) });
+            const cargo = createShip({ id: 'cargo-001', mass: toFP(1500), volume: toFP(100), position: { x: toFP(20), y: 0 } });
+            const state = createGameState({ entities: [tug, crate, cargo] });
+            const load: LoadAction = { type: 'LOAD', entityId: tug.id, contentIds: [cargo.id], containerIds: [crate.id] };
+
+            // wave 0 loads 1500 into the 2000 crate; wave 1 tries to tow 3500 on a 3000 maxLoad
+            const { nextState } = runTickWithWaves(state, [[load], [transport(tug, [crate.id])]]);
+
+            expect(findEntity(nextState, crate.id)!.mass).toBe(toFP(3500));
+            expect(findEntity(nextState, crate.id)!.towParentId).toBeUndefined();
+            expect(findEntity(nextState, crate.id)!.position).toEqual(crate.position);
+        });
+    });
+
+    describe('Space', () => {
+        it('should carry the towed entity along the actor\'s translation', () => {
+            const tug = createTug({ velocity: { x: toFP(30), y: toFP(5) } });
+            const crate = createCrate('crate-001');
+            const state = createGameState({ entities: [tug, crate] });
+
+            const { nextState } = runTick(state, [transport(tug, [crate.id])]);
+
+            expect(findEntity(nextState, tug.id)!.position).toEqual({ x: toFP(30), y: toFP(5) });
+            expect(findEntity(nextState, crate.id)!.position).toEqual({ x: toFP(50), y: toFP(5) });
+        });
+
+        it('should release the tow when the tick settles', () => {
+            const tug = createTug({ velocity: { x: toFP(30), y: 0 } });
+            const crate = createCrate('crate-001');
+            const state = createGameState({ entities: [tug, crate] });
+
+            const { nextState } = runTick(state, [transport(tug, [crate.id])]);
+            const towed = findEntity(nextState, crate.id)!;
+
+            expect(towed.towParentId).toBeUndefined();
+            expect(towed.towOffset).toBeUndefined();
+            expect(towed.velocity).toEqual(crate.velocity);
+        });
+
+        it('should drag a towed container\'s contents', () => {
+            const tug = createTug({ velocity: { x: toFP(30), y: 0 } });
+            const crate = createCrate('crate-001');
+            const cargo = createShip({ id: 'cargo-001', parentId: crate.id, position: { ...crate.position } });
+            const state = createGameState({ entities: [tug, crate, cargo] });
+
+            const { nextState } = runTick(state, [transport(tug, [crate.id])]);
+
+            expect(findEntity(nextState, cargo.id)!.position).toEqual({ x: toFP(50), y: 0 });
+        });
+    });
+
+    describe('Surface', () => {
+        it('should follow the actor\'s maneuver', () => {
+            const planet = createPlanet({ orbitSpeed: toFP(0) });
+            const tug = onSurface(createTug({ planetForce: toFP(300000) }), 0);
+            const crate = onSurface(createCrate('crate-001'), 20);
+            const state = createGameState({ celestials: [createSol(), planet], entities: [tug, crate] });
+            const maneuver: ManeuverAction = {
+                type: 'MANEUVER',
+                entityId: tug.id,
+                targetPosition: { x: 0, y: toFP(100) },
+            };
+
+            const { nextState } = runTickWithWaves(state, [[transport(tug, [crate.id])], [maneuver]]);
+
+            expect(findEntity(nextState, tug.id)!.surfacePosition).toEqual({ x: 0, y: toFP(100) });
+            expect(findEntity(nextState, crate.id)!.surfacePosition).toEqual({ x: toFP(20), y: toFP(100) });
+            expect(findEntity(nextState, crate.id)!.zoomState).toBe('SURFACE');
+            expect(findEntity(nextState, crate.id)!.towParentId).toBeUndefined();
+        });
+
+        it('should shorten the actor\'s maneuver range by the towed mass', () => {
+            const planet = createPlanet({ orbitSpeed: toFP(0) });
+            const tug = onSurface(createTug({ planetForce: toFP(100000) }), 0);
+            const crate = onSurface(createCrate('crate-001', { mass: toFP(1000), towParentId: tug.id }), 20);
+            const alone = createGameState({ celestials: [createSol(), planet], entities: [tug] });
+            const towing = createGameState({ celestials: [createSol(), planet], entities: [tug, crate] });
+            const cursor = { x: 0, y: toFP(1000) };
+
+            // range 250 alone, 125 with 1000 in tow
+            expect(getClosestReachablePoint(tug, cursor, alone)).toEqual({ x: 0, y: toFP(250) });
+            expect(getClosestReachablePoint(tug, cursor, towing)).toEqual({ x: 0, y: toFP(125) });
+        });
+    });
+
+    describe('Conflict Clusters', () => {
+        it('should entangle a towed entity with its tow actor', () => {
+            const tug = createTug();
+            const crate = createCrate('crate-001', { towParentId: tug.id, towOffset: { x: toFP(20), y: 0 } });
+            const state = createGameState({ entities: [tug, crate] });
+            const tugAction: Action = { type: 'THRUST', entityId: tug.id, direction: { x: toFP(1), y: 0 }, magnitude: toFP(10) };
+            const crateAction: SealAirlockAction = { type: 'SEAL_AIRLOCK', entityId: crate.id };
+
+            expect(actionsWouldCluster(tugAction, crateAction, state)).toBe(true);
+        });
+
+        it('should not entangle untowed neighbours', () => {
+            const tug = createTug();
+            const crate = createCrate('crate-001');
+            const state = createGameState({ entities: [tug, crate] });
+            const tugAction: Action = { type: 'THRUST', entityId: tug.id, direction: { x: toFP(1), y: 0 }, magnitude: toFP(10) };
+            const crateAction: SealAirlockAction = { type: 'SEAL_AIRLOCK', entityId: crate.id };
+
+            expect(actionsWouldCluster(tugAction, crateAction, state)).toBe(false);
+        });
+    });
+});
@@ -13,7 +13,7 @@ import {
     createTickContext, 
     createGameState 
 } from '../../../test/factories.js';
-import { testAction, testValidation, applyUpdatesToState } from '../../../test/SimRunner.js';
+import { testAction, testValidation, applyUpdatesToState, getUpdates } from '../../../test/SimRunner.js';
 import { 
     assertMassConservation, 
     assertInReach, 
@@ -170,6 +170,7 @@ describe('UNLOAD Action', () => {
             const actorContainer = createContainer({
                 id: 'actor',
                 mass: toFP(3000),
+                carriedMass: toFP(500),
                 position: { x: toFP(0), y: toFP(0) },
                 velocity: { x: toFP(10), y: toFP(5) },
             });
@@ -183,12 +184,12 @@ describe('UNLOAD Action', () => {
 
             const context = createTickContext(1, [actorContainer, containedContent]);
 
-            const updates = unloadHandler(
+            const updates = getUpdates(unloadHandler(
                 actorContainer,
                 [containedContent],
                 { contentIds: ['content'], newPositions: [newPosition] },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(2);
 
@@ -217,6 +218,7 @@ describe('UNLOAD Action', () => {
             const container = createContainer({
                 id: 'container',
                 mass: toFP(5000),
+                carriedMass: toFP(500),
                 position: { x: toFP(200), y: toFP(0) },
                 velocity: { x: toFP(5), y: toFP(0) },
             });
@@ -230,12 +232,12 @@ describe('UNLOAD Action', () => {
 
             const context = createTickContext(1, [actor, container, containedContent]);
 
-            const updates = unloadHandler(
+            const updates = getUpdates(unloadHandler(
                 actor,
                 [containedContent, container],
                 { contentIds: ['content'], newPositions: [newPosition] },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(2);
 
@@ -257,6 +259,7 @@ describe('UNLOAD Action', () => {
             const actorContainer = createContainer({
                 id: 'actor',
                 mass: toFP(5000),
+                carriedMass: toFP(700),
                 position: { x: toFP(0), y: toFP(0) },
             });
             const content1 = createMineralStore({
@@ -274,7 +277,7 @@ describe('UNLOAD Action', () => {
 
             const context = createTickContext(1, [actorContainer, content1, content2]);
 
-            const updates = unloadHandler(
+            const updates = getUpdates(unloadHandler(
                 actorContainer,
                 [content1, content2],
                 { 
@@ -285,7 +288,7 @@ describe('UNLOAD Action', () => {
                     ],
                 },
                 context
-            );
+            ));
 
             expect(updates.length).toBe(3);
 
@@ -312,6 +315,7 @@ describe('UNLOAD Action', () => {
             const actorContainer = createContainer({
                 id: 'actor',
                 mass: containerMass,
+                carriedMass: contentMass,
                 position: { x: toFP(0), y: toFP(0) },
             });
             const containedContent = createMineralStore({
@@ -356,12 +360,12 @@ describe('UNLOAD Action', () => {
 
             const context = createTickContext(1, [actorContainer, containedContent]);
 
-            const updates = unloadHandler(
+            const updates = getUpdates(unloadHandler(
                 actorContainer,
                 [containedContent],
                 { contentIds: ['content'], newPositions: [{ x: toFP(100), y: toFP(100) }] },
                 context
-            );
+            ));
 
             const contentUpdate = updates.find(u => u.id === 'content');
             expect(contentUpdate!.changes.velocity).toEqual(containerVelocity);
@@ -0,0 +1,219 @@
+// ===============================================
+// VECTOR LOCK ACTION TESTS
+// ===============================================
+// validates the autopilot: TAIL matching the target's vector exactly,
+// PURSUIT closing distance while converging on it, the force / mass and
+// fuel caps shared with THRUST, persistence across ticks, and release on
+// RELEASE or when the target leaves sight and reach.
+
+import { describe, it, expect } from 'vitest';
+import { createShip, createGameState } from '../../../test/factories.js';
+import {
+    runTick,
+    runTicksWithActions,
+    testValidation,
+    findEntity,
+} from '../../../test/SimRunner.js';
+import { getLockDeltaV } from '../../../state-handlers/state-systems/vectorLockSystem.js';
+import {
+    toFP,
+    fpSqrt,
+    fpDistanceSquared,
+    type Vector2FP,
+} from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { Entity } from '../../../primitive-types/semantic/entity/entity-types.js';
+import type {
+    Action,
+    ThrustAction,
+    VectorLockAction,
+} from '../../../primitive-types/semantic/action/action-types.js';
+
+function createChaser(overrides: Partial<Entity> = {}): Entity {
+    return {
+        ...createShip({ id: 'chaser-001', mass: toFP(1000), fuelMass: toFP(800), reach: toFP(500) }),
+        ...overrides,
+    };
+}
+
+function createQuarry(position: Vector2FP, velocity: Vector2FP): Entity {
+    return createShip({ id: 'quarry-001', playerId: 'player-002', position, velocity, fuelMass: toFP(500) });
+}
+
+function lock(actor: Entity, target: Entity, lockMode: VectorLockAction['lockMode']): VectorLockAction {
+    return { type: 'VECTOR_LOCK', entityId: actor.id, targetIds: [target.id], lockMode };
+}
+
+function distance(a: Entity, b: Entity) {
+    return fpSqrt(fpDistanceSquared(a.position, b.position));
+}
+
+describe('VECTOR_LOCK Action', () => {
+    describe('Validation', () => {
+        it('should pass for a target within reach', () => {
+            const quarry = createQuarry({ x: toFP(100), y: 0 }, { x: toFP(30), y: toFP(40) });
+
+            expect(testValidation('VECTOR_LOCK', createChaser(), [quarry], { lockMode: 'TAIL' })).toBe(true);
+        });
+
+        it('should fail without a target', () => {
+            expect(testValidation('VECTOR_LOCK', createChaser(), [], { lockMode: 'TAIL' })).toBe(false);
+        });
+
+        it('should fail with an unknown mode', () => {
+            const quarry = createQuarry({ x: toFP(100), y: 0 }, { x: 0, y: 0 });
+
+            expect(testValidation('VECTOR_LOCK', createChaser(), [quarry], { lockMode: 'INTERCEPT' })).toBe(false);
+        });
+
+        it('should fail for a target beyond sight and reach', () => {
+            const quarry = createQuarry({ x: toFP(800), y: 0 }, { x: 0, y: 0 });
+
+            expect(testValidation('VECTOR_LOCK', createChaser(), [quarry], { lockMode: 'TAIL' })).toBe(false);
+        });
+
+        it('should pass for a target in sight but beyond reach', () => {
+            const quarry = createQuarry({ x: toFP(800), y: 0 }, { x: 0, y: 0 });
+            const chaser = createChaser({ sightRange: toFP(1000) });
+
+            expect(testValidation('VECTOR_LOCK', chaser, [quarry], { lockMode: 'PURSUIT' })).toBe(true);
+        });
+
+        it('should fail without fuel', () => {
+            const quarry = createQuarry({ x: toFP(100), y: 0 }, { x: 0, y: 0 });
+            const chaser = createChaser({ fuelMass: 0 });
+
+            expect(testValidation('VECTOR_LOCK', chaser, [quarry], { lockMode: 'TAIL' })).toBe(false);
+        });
+
+        it('should fail on a rail', () => {
+            const quarry = createQuarry({ x: toFP(100), y: 0 }, { x: 0, y: 0 });
+            const chaser = createChaser({ zoomState: 'ORBIT', orbitTargetId: 'planet-001' });
+
+            expect(testValidation('VECTOR_LOCK', chaser, [quarry], { lockMode: 'TAIL' })).toBe(false);
+        });
+
+        it('should only release an engaged lock', () => {
+            const engaged = createChaser({ vectorLockTargetId: 'quarry-001', vectorLockMode: 'TAIL' });
+
+            expect(testValidation('VECTOR_LOCK', createChaser(), [], { lockMode: 'RELEASE' })).toBe(false);
+            expect(testValidation('VECTOR_LOCK', engaged, [], { lockMode: 'RELEASE' })).toBe(true);
+        });
+    });
+
+    describe('TAIL', () => {
+        it('should match the target\'s vector exactly and burn fuel like THRUST', () => {
+            const chaser = createChaser();
+            const quarry = createQuarry({ x: toFP(100), y: 0 }, { x: toFP(30), y: toFP(40) });
+            const state = createGameState({ entities: [chaser, quarry] });
+
+            const { nextState } = runTick(state, [lock(chaser, quarry, 'TAIL')]);
+            const tailed = findEntity(nextState, chaser.id)!;
+
+            // |Δv| = 50: 50 × 1000 × 0.01 = 500 fuel, and the same mass
+            expect(tailed.velocity).toEqual(quarry.velocity);
+            expect(tailed.fuelMass).toBe(toFP(300));
+            expect(tailed.mass).toBe(toFP(500));
+            expect(tailed.position).toEqual({ x: toFP(30), y: toFP(40) });
+            expect(tailed.vectorLockTargetId).toBe(quarry.id);
+        });
+
+        it('should cap the burn at spaceForce / mass', () => {
+            const chaser = createChaser({ spaceForce: toFP(50000) });
+            const quarry = createQuarry({ x: toFP(100), y: 0 }, { x: toFP(300), y: toFP(400) });
+
+            // |Δv| = 500, capped to 50000 / 1000 = 50 along the same direction
+            expect(getLockDeltaV(chaser, quarry, 'TAIL')).toEqual({ x: toFP(30), y: toFP(40) });
+        });
+
+        it('should cap the burn at the fuel on board', () => {
+            // 250 / (1000 × 0.01) = 25
+            const chaser = createChaser({ fuelMass: toFP(250) });
+            const quarry = createQuarry({ x: toFP(100), y: 0 }, { x: toFP(30), y: toFP(40) });
+            const state = createGameState({ entities: [chaser, quarry] });
+
+            const { nextState } = runTick(state, [lock(chaser, quarry, 'TAIL')]);
+            const tailed = findEntity(nextState, chaser.id)!;
+
+            expect(tailed.velocity).toEqual({ x: toFP(15), y: toFP(20) });
+            expect(tailed.fuelMass).toBe(0);
+        });
+    });
+
+    describe('PURSUIT', () => {
+        it('should close the distance while converging on the target\'s vector', () => {
+            const chaser = createChaser();
+            const quarry = createQuarry({ x: toFP(100), y: 0 }, { x: toFP(10), y: 0 });
+            const state = createGameState({ entities: [chaser, quarry] });
+
+            const ticks: Action[][] = [[lock(chaser, quarry, 'PURSUIT')], [], [], [], [], [], [], [], [], []];
+            const results = runTicksWithActions(state, ticks);
+            const gaps = results.map(r => distance(findEntity(r.nextState, chaser.id)!, findEntity(r.nextState, quarry.id)!));
+            const final = findEntity(results[results.length - 1]!.nextState, chaser.id)!;
+
+            for (let i = 1; i < gaps.length; i++) {
+                expect(gaps[i]).toBeLessThan(gaps[i - 1]!);
+            }
+            expect(gaps[gaps.length - 1]).toBeLessThan(toFP(5));
+            expect(Math.abs(final.velocity.x - toFP(10))).toBeLessThan(toFP(5));
+            expect(final.velocity.y).toBe(0);
+        });
+
+        it('should respect the thrust limits on the first burn', () => {
+            const chaser = createChaser();
+            const quarry = createQuarry({ x: toFP(400), y: 0 }, { x: toFP(10), y: 0 });
+
+            // desired closing: 10 + 400 × 0.5 = 210, capped to 800 / (1000 × 0.01) = 80
+            expect(getLockDeltaV(chaser, quarry, 'PURSUIT')).toEqual({ x: toFP(80), y: 0 });
+        });
+    });
+
+    describe('Persistence', () => {
+        it('should keep matching a target that changes its vector', () => {
+            const chaser = createChaser();
+            const quarry = createQuarry({ x: toFP(100), y: 0 }, { x: toFP(30), y: toFP(40) });
+            const state = createGameState({ entities: [chaser, quarry] });
+            const burn: ThrustAction = {
+                type: 'THRUST',
+                entityId: quarry.id,
+                direction: { x: 0, y: toFP(1) },
+                magnitude: toFP(20),
+            };
+
+            const results = runTicksWithActions(state, [[lock(chaser, quarry, 'TAIL')], [burn]]);
+            const tailed = findEntity(results[1]!.nextState, chaser.id)!;
+
+            expect(tailed.velocity).toEqual({ x: toFP(30), y: toFP(60) });
+            expect(tailed.vectorLockMode).toBe('TAIL');
+        });
+
+        it('should release when the target leaves sight and reach', () => {
+            const chaser = createChaser();
+            const quarry = createQuarry({ x: toFP(100), y: 0 }, { x: toFP(600), y: 0 });
+            const state = createGameState({ entities: [chaser, quarry] });
+
+            const results = runTicksWithActions(state, [[lock(chaser, quarry, 'TAIL')], [], []]);
+            const afterFirst = findEntity(results[0]!.nextState, chaser.id)!;
+            const afterLost = findEntity(results[1]!.nextState, chaser.id)!;
+            const afterDrift = findEntity(results[2]!.nextState, chaser.id)!;
+
+            expect(afterFirst.velocity).toEqual({ x: toFP(80), y: 0 });
+            expect(afterLost.vectorLockTargetId).toBeUndefined();
+            expect(afterLost.velocity).toEqual({ x: toFP(80), y: 0 });
+            expect(afterDrift.fuelMass).toBe(afterFirst.fuelMass);
+        });
+
+        it('should release on RELEASE', () => {
+            const chaser = createChaser();
+            const quarry = createQuarry({ x: toFP(100), y: 0 }, { x: toFP(30), y: toFP(40) });
+            const state = createGameState({ entities: [chaser, quarry] });
+            const release: VectorLockAction = { type: 'VECTOR_LOCK', entityId: chaser.id, targetIds: [], lockMode: 'RELEASE' };
+
+            const results = runTicksWithActions(state, [[lock(chaser, quarry, 'TAIL')], [release]]);
+            const released = findEntity(results[1]!.nextState, chaser.id)!;
+
+            expect(released.vectorLockTargetId).toBeUndefined();
+            expect(released.vectorLockMode).toBeUndefined();
+            expect(released.fuelMass).toBe(toFP(300));
+        });
+    });
+});
@@ -123,7 +123,7 @@ describe('Wave Interleaving', () => {
                     type: 'THRUST',
                     entityId: 'ship-a',
                     direction: { x: toFP(1000), y: toFP(0) },
-                    magnitude: toFP(100),
+                    magnitude: toFP(10),
                 } as ThrustAction],
             ]);
 
@@ -373,12 +373,11 @@ describe('Wave Interleaving', () => {
             const result = runTick(state, actions);
             expect(result.success).toBe(true);
 
-            // thrust causes mass loss (propellant ejection)
-            // allow for the propellant mass that was expelled
-            // MASS_PROPULSION_LOSS = 100 FP (0.1 per unit thrust)
-            // with magnitude 50, loss = 50 * 100 / 1000 = 5 mass units
-            const allowedLoss = toFP(10000); // generous allowance for propellant ejection
-            const massResult = assertMassConservation(state, result.nextState, allowedLoss);
+            // thrust ejects exactly the propellant it burns
+            const fuelBurned = shipA.fuelMass - findEntity(result.nextState, 'ship-a')!.fuelMass;
+            expect(fuelBurned).toBeGreaterThan(0);
+
+            const massResult = assertMassConservation(state, result.nextState, fuelBurned);
             expect(massResult.passed).toBe(true);
         });
 
@@ -6,15 +6,24 @@
 // - entities maintain relative offset (not shared position)
 // - combined mass equals sum of individual masses
 // - momentum is conserved
+// - weld history: UNWELD rebuilds components from the latest weld
 
 import { describe, it, expect } from 'vitest';
-import { createShip, createTickContext, createGameState, createResourceWell } from '../../../test/factories.js';
-import { testAction, testValidation, runTick, findEntity } from '../../../test/SimRunner.js';
+import {
+    createShip,
+    createContainer,
+    createMineralStore,
+    createTickContext,
+    createGameState,
+    createResourceWell,
+} from '../../../test/factories.js';
+import { testAction, testValidation, runTick, findEntity, getUpdates } from '../../../test/SimRunner.js';
 import { assertMassConservation, assertInReach, assertWeldBinding } from '../../../test/invariants.js';
 import { weldHandler, weldValidate } from '../weldHandler.js';
 import { unweldHandler, unweldValidate } from '../unweldHandler.js';
 import { toFP, fromFP, fpAdd, fpSub } from '../../../primitive-types/euclidean/euclidean-types.js';
 import type { WeldAction, UnweldAction } from '../../../primitive-types/semantic/action/action-types.js';
+import type { GameState } from '../../../state-types/state-types.js';
 
 describe('WELD Action', () => {
     // ===============================================
@@ -178,7 +187,7 @@ describe('WELD Action', () => {
             });
             const context = createTickContext(1, [shipA, shipB]);
 
-            const updates = weldHandler(shipA, [shipB], {}, context);
+            const updates = getUpdates(weldHandler(shipA, [shipB], {}, context));
 
             const updateB = updates.find(u => u.id === shipB.id);
             expect(updateB).toBeDefined();
@@ -199,7 +208,7 @@ describe('WELD Action', () => {
             });
             const context = createTickContext(1, [shipA, shipB]);
 
-            const updates = weldHandler(shipA, [shipB], {}, context);
+            const updates = getUpdates(weldHandler(shipA, [shipB], {}, context));
 
             const updateB = updates.find(u => u.id === shipB.id);
             expect(updateB).toBeDefined();
@@ -227,7 +236,7 @@ describe('WELD Action', () => {
             });
             const context = createTickContext(1, [shipA, shipB]);
 
-            const updates = weldHandler(shipA, [shipB], {}, context);
+            const updates = getUpdates(weldHandler(shipA, [shipB], {}, context));
 
             const updateA = updates.find(u => u.id === shipA.id);
             expect(updateA).toBeDefined();
@@ -255,7 +264,7 @@ describe('WELD Action', () => {
             });
             const context = createTickContext(1, [shipA, shipB]);
 
-            const updates = weldHandler(shipA, [shipB], {}, context);
+            const updates = getUpdates(weldHandler(shipA, [shipB], {}, context));
 
             // combined velocity = (m1*v1 + m2*v2) / (m1 + m2)
             const totalMass = fpAdd(massA, massB);
@@ -297,7 +306,7 @@ describe('WELD Action', () => {
             });
             const context = createTickContext(1, [shipA, shipB, shipC]);
 
-            const updates = weldHandler(shipA, [shipB, shipC], {}, context);
+            const updates = getUpdates(weldHandler(shipA, [shipB, shipC], {}, context));
 
             // should have updates for all three entities
             expect(updates.length).toBe(3);
@@ -456,7 +465,7 @@ describe('UNWELD Action', () => {
             };
             const context = createTickContext(1, [shipA, shipB]);
 
-            const updates = unweldHandler(shipA, [shipB], {}, context);
+            const updates = getUpdates(unweldHandler(shipA, [shipB], {}, context));
 
             const updateB = updates.find(u => u.id === shipB.id);
             expect(updateB).toBeDefined();
@@ -483,7 +492,7 @@ describe('UNWELD Action', () => {
             };
             const context = createTickContext(1, [shipA, shipB]);
 
-            const updates = unweldHandler(shipA, [shipB], {}, context);
+            const updates = getUpdates(unweldHandler(shipA, [shipB], {}, context));
 
             const updateB = updates.find(u => u.id === shipB.id);
             expect(updateB).toBeDefined();
@@ -494,6 +503,7 @@ describe('UNWELD Action', () => {
             const shipA = createShip({
                 id: 'ship-a',
                 mass: toFP(1500),
+                carriedMass: toFP(500),
             });
             const shipB = {
                 ...createShip({
@@ -506,7 +516,7 @@ describe('UNWELD Action', () => {
             };
             const context = createTickContext(1, [shipA, shipB]);
 
-            const updates = unweldHandler(shipA, [shipB], {}, context);
+            const updates = getUpdates(unweldHandler(shipA, [shipB], {}, context));
 
             const updateA = updates.find(u => u.id === shipA.id);
             expect(updateA).toBeDefined();
@@ -527,6 +537,7 @@ describe('UNWELD Action', () => {
             const shipC = createShip({
                 id: 'ship-c',
                 mass: toFP(3000), // C_orig + B_orig + A_orig = 1000 + 1200 + 800
+                carriedMass: toFP(2000),
                 velocity: { x: toFP(5), y: toFP(0) },
                 position: { x: toFP(0), y: toFP(0) },
             });
@@ -536,6 +547,7 @@ describe('UNWELD Action', () => {
                 ...createShip({
                     id: 'ship-b',
                     mass: toFP(2000), // B_orig + A_orig = 1200 + 800
+                    carriedMass: toFP(800),
                     position: { x: toFP(100), y: toFP(0) },
                     velocity: { x: toFP(5), y: toFP(0) },
                 }),
@@ -558,7 +570,7 @@ describe('UNWELD Action', () => {
             const context = createTickContext(1, [shipA, shipB, shipC]);
 
             // unweld B from C
-            const updates = unweldHandler(shipC, [shipB], {}, context);
+            const updates = getUpdates(unweldHandler(shipC, [shipB], {}, context));
 
             // B should be freed
             const updateB = updates.find(u => u.id === shipB.id);
@@ -580,6 +592,7 @@ describe('UNWELD Action', () => {
             const shipC = createShip({
                 id: 'ship-c',
                 mass: toFP(3000),
+                carriedMass: toFP(2000),
                 velocity: { x: toFP(10), y: toFP(0) },
                 position: { x: toFP(0), y: toFP(0) },
             });
@@ -588,6 +601,7 @@ describe('UNWELD Action', () => {
                 ...createShip({
                     id: 'ship-b',
                     mass: toFP(2000),
+                    carriedMass: toFP(800),
                     position: { x: toFP(100), y: toFP(0) },
                     velocity: { x: toFP(10), y: toFP(0) },
                 }),
@@ -647,3 +661,168 @@ describe('UNWELD Action', () => {
         });
     });
 });
+
+describe('Weld History', () => {
+    function weld(state: GameState, entityId: string, targetIds: string[]): GameState {
+        const action: WeldAction = { type: 'WELD', entityId, targetIds };
+        return runTick(state, [action]).nextState;
+    }
+
+    function unweld(state: GameState, entityId: string, targetIds: string[]): GameState {
+        const action: UnweldAction = { type: 'UNWELD', entityId, targetIds };
+        return runTick(state, [action]).nextState;
+    }
+
+    // momentum of the free (unwelded) entities along x
+    function momentumX(state: GameState): number {
+        return state.entities
+            .filter(e => e.weldParentId === undefined && e.parentId === undefined)
+            .reduce((sum, e) => sum + e.mass * e.velocity.x, 0);
+    }
+
+    it('should record the components before the weld', () => {
+        const shipA = createShip({ id: 'ship-a', mass: toFP(1000), velocity: { x: toFP(10), y: 0 } });
+        const shipB = createShip({
+            id: 'ship-b',
+            mass: toFP(500),
+            position: { x: toFP(100), y: 0 },
+            velocity: { x: toFP(-20), y: 0 },
+        });
+        const context = createTickContext(7, [shipA, shipB]);
+
+        const updates = getUpdates(weldHandler(shipA, [shipB], {}, context));
+        const history = updates.find(u => u.id === shipA.id)!.changes.weldHistory;
+
+        expect(history).toEqual([{
+            tick: 7,
+            velocity: { x: 0, y: 0 },
+            components: [{ id: 'ship-b', velocity: { x: toFP(-20), y: 0 } }],
+        }]);
+    });
+
+    it('should restore component velocities exactly on UNWELD', () => {
+        const shipA = createShip({ id: 'ship-a', mass: toFP(1000), velocity: { x: toFP(10), y: 0 } });
+        const shipB = createShip({
+            id: 'ship-b',
+            mass: toFP(500),
+            position: { x: toFP(100), y: 0 },
+            velocity: { x: toFP(-20), y: 0 },
+        });
+        const welded = weld(createGameState({ entities: [shipA, shipB] }), 'ship-a', ['ship-b']);
+        expect(findEntity(welded, 'ship-a')!.velocity.x).toBe(0);
+
+        const separated = unweld(welded, 'ship-a', ['ship-b']);
+
+        const newA = findEntity(separated, 'ship-a')!;
+        const newB = findEntity(separated, 'ship-b')!;
+        expect(newA.velocity).toEqual({ x: toFP(10), y: 0 });
+        expect(newB.velocity).toEqual({ x: toFP(-20), y: 0 });
+        expect(newA.mass).toBe(toFP(1000));
+        expect(newA.weldHistory).toBeUndefined();
+        expect(momentumX(separated)).toBe(momentumX(welded));
+    });
+
+    it('should unweld only the last-added part (A+B+C -> A+B)', () => {
+        const shipA = createShip({ id: 'ship-a', mass: toFP(1000) });
+        const shipB = createShip({ id: 'ship-b', mass: toFP(500), position: { x: toFP(100), y: 0 } });
+        const shipC = createShip({
+            id: 'ship-c',
+            mass: toFP(300),
+            position: { x: toFP(-100), y: 0 },
+            velocity: { x: 0, y: toFP(8) },
+        });
+
+        let state = weld(createGameState({ entities: [shipA, shipB, shipC] }), 'ship-a', ['ship-b']);
+        state = weld(state, 'ship-a', ['ship-c']);
+        expect(findEntity(state, 'ship-a')!.weldHistory).toHaveLength(2);
+
+        // B came first: it cannot leave before C
+        expect(unweldValidate(findEntity(state, 'ship-a')!, [findEntity(state, 'ship-b')!], {}, state.entities)).toBe(false);
+        expect(findEntity(unweld(state, 'ship-a', ['ship-b']), 'ship-b')!.weldParentId).toBe('ship-a');
+
+        const withoutC = unweld(state, 'ship-a', ['ship-c']);
+        const newA = findEntity(withoutC, 'ship-a')!;
+        expect(findEntity(withoutC, 'ship-c')!.velocity).toEqual({ x: 0, y: toFP(8) });
+        expect(findEntity(withoutC, 'ship-b')!.weldParentId).toBe('ship-a');
+        expect(newA.weldHistory).toHaveLength(1);
+        expect(newA.weldHistory![0]!.components.map(c => c.id)).toEqual(['ship-b']);
+        expect(newA.mass).toBe(toFP(1500));
+
+        const withoutB = unweld(withoutC, 'ship-a', ['ship-b']);
+        expect(findEntity(withoutB, 'ship-a')!.weldHistory).toBeUndefined();
+        expect(findEntity(withoutB, 'ship-a')!.mass).toBe(toFP(1000));
+    });
+
+    it('should separate a welded sub-assembly whole from a multi-level tree', () => {
+        const shipA = createShip({ id: 'ship-a', mass: toFP(2000), velocity: { x: toFP(4), y: 0 } });
+        const shipB = createShip({
+            id: 'ship-b',
+            mass: toFP(1000),
+            position: { x: toFP(100), y: 0 },
+            velocity: { x: toFP(-6), y: 0 },
+        });
+        const shipC = createShip({
+            id: 'ship-c',
+            mass: toFP(500),
+            position: { x: toFP(200), y: 0 },
+            velocity: { x: toFP(12), y: 0 },
+        });
+
+        // B+C first, then A takes the B+C sub-assembly
+        let state = weld(createGameState({ entities: [shipA, shipB, shipC] }), 'ship-b', ['ship-c']);
+        state = weld(state, 'ship-a', ['ship-b']);
+        expect(findEntity(state, 'ship-a')!.mass).toBe(toFP(3500));
+
+        // a part of the sub-assembly cannot leave along with it
+        expect(unweldValidate(
+            findEntity(state, 'ship-a')!,
+            [findEntity(state, 'ship-b')!, findEntity(state, 'ship-c')!],
+            {},
+            state.entities
+        )).toBe(false);
+
+        const separated = unweld(state, 'ship-a', ['ship-b']);
+
+        const newB = findEntity(separated, 'ship-b')!;
+        expect(newB.weldParentId).toBeUndefined();
+        expect(newB.mass).toBe(toFP(1500));
+        expect(newB.weldHistory).toHaveLength(1);
+        expect(findEntity(separated, 'ship-c')!.weldParentId).toBe('ship-b');
+        expect(findEntity(separated, 'ship-a')!.weldHistory).toBeUndefined();
+
+        // 8000 / 3500 does not divide: the root absorbs the rounding (one unit)
+        const newA = findEntity(separated, 'ship-a')!;
+        expect(Math.abs(momentumX(separated) - momentumX(state))).toBeLessThanOrEqual(newA.mass);
+
+        // the sub-assembly then comes apart into the original components
+        const apart = unweld(separated, 'ship-b', ['ship-c']);
+        expect(findEntity(apart, 'ship-b')!.velocity.x).toBe(toFP(-6));
+        expect(findEntity(apart, 'ship-c')!.velocity.x).toBe(toFP(12));
+        expect(Math.abs(findEntity(apart, 'ship-a')!.velocity.x - toFP(4))).toBeLessThanOrEqual(1);
+    });
+
+    it('should weld and unweld containers with their contents', () => {
+        const hauler = createContainer({ id: 'hauler', mass: toFP(2300), carriedMass: toFP(300) });
+        const crate = createContainer({
+            id: 'crate',
+            mass: toFP(700),
+            carriedMass: toFP(200),
+            position: { x: toFP(100), y: 0 },
+        });
+        const ore = createMineralStore({ id: 'ore', mass: toFP(300), parentId: 'hauler' });
+        const ice = createMineralStore({ id: 'ice', mass: toFP(200), parentId: 'crate' });
+        const state = createGameState({ entities: [hauler, crate, ore, ice] });
+
+        const welded = weld(state, 'hauler', ['crate']);
+        expect(findEntity(welded, 'hauler')!.mass).toBe(toFP(3000));
+        expect(assertMassConservation(state, welded).passed).toBe(true);
+
+        const separated = unweld(welded, 'hauler', ['crate']);
+
+        expect(findEntity(separated, 'hauler')!.mass).toBe(toFP(2300));
+        expect(findEntity(separated, 'crate')!.mass).toBe(toFP(700));
+        expect(findEntity(separated, 'ore')!.parentId).toBe('hauler');
+        expect(findEntity(separated, 'ice')!.parentId).toBe('crate');
+        expect(assertMassConservation(welded, separated).passed).toBe(true);
+    });
+});
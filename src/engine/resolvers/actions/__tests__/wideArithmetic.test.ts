@@ -0,0 +1,124 @@
+// ===============================================
+// WIDE ARITHMETIC TESTS
+// ===============================================
+// validates the overflow-safe FP layer for galaxy-scale coordinates:
+// exact products, distances and capture checks past 2^53, momentum sums
+// for heavy welds, and the range guards throwing in debug builds.
+
+import { describe, it, expect } from 'vitest';
+import { createShip, createPlanet, createTickContext } from '../../../test/factories.js';
+import { getUpdates } from '../../../test/SimRunner.js';
+import { weldHandler, weldValidate } from '../weldHandler.js';
+import { isPositionSafe } from '../../../genesis/genesisService.js';
+import { buildSpatialIndex } from '../../../state-handlers/state-systems/spatialIndex.js';
+import {
+    toFP,
+    fpMul,
+    fpDiv,
+    fpDistanceSquared,
+    fpMulWide,
+    fpDivWide,
+    fpDotWide,
+    fpDistance,
+    fpDistanceSquaredWide,
+    fpIsWithinDistance,
+    fpCombinedVelocity,
+} from '../../../primitive-types/euclidean/euclidean-types.js';
+
+// 1e10 FP: one default systemSpacing out
+const FAR = toFP(10000000);
+
+describe('Wide Arithmetic', () => {
+    describe('Range guards', () => {
+        it('should throw when an FP product leaves the safe integer range', () => {
+            expect(() => fpMul(FAR, FAR)).toThrow(RangeError);
+            expect(() => fpDiv(FAR * 1000, 3)).toThrow(RangeError);
+            expect(() => fpDistanceSquared({ x: 0, y: 0 }, { x: FAR, y: FAR })).toThrow(RangeError);
+        });
+
+        it('should throw when a wide result cannot return to FP', () => {
+            expect(() => fpMulWide(FAR * 1000, FAR)).toThrow(RangeError);
+        });
+
+        it('should leave in-range arithmetic untouched', () => {
+            expect(fpMul(toFP(3), toFP(4))).toBe(toFP(12));
+            expect(fpDiv(toFP(12), toFP(4))).toBe(toFP(3));
+        });
+    });
+
+    describe('Exact helpers', () => {
+        it('should multiply and divide past 2^53 without precision loss', () => {
+            // (1e10 + 1) × 3e8 passes 2^53 before the division by 1000
+            expect(fpMulWide(FAR + 1, 300000000)).toBe(3000000000300000);
+            expect(fpDivWide(3000000000300000, 300000000)).toBe(FAR + 1);
+            expect(fpDivWide(toFP(-12), toFP(4))).toBe(toFP(-3));
+            expect(fpDotWide({ x: FAR, y: 1 }, { x: 7, y: FAR })).toBe(80000000);
+        });
+
+        it('should measure galaxy-scale distances exactly', () => {
+            const origin = { x: 0, y: 0 };
+            const far = { x: FAR * 3, y: FAR * 4 };
+
+            expect(fpDistance(origin, far)).toBe(FAR * 5);
+            expect(fpDistanceSquaredWide({ x: FAR, y: 0 }, { x: FAR + 30000, y: 40000 })).toBe(toFP(2500));
+        });
+
+        it('should decide capture on the exact boundary at galaxy scale', () => {
+            const center = { x: FAR, y: FAR };
+            const radius = 100000005;
+
+            // 60000003² + 80000004² = 100000005² exactly
+            expect(fpIsWithinDistance({ x: FAR + 60000003, y: FAR + 80000004 }, center, radius)).toBe(true);
+            expect(fpIsWithinDistance({ x: FAR + 60000003, y: FAR + 80000005 }, center, radius)).toBe(false);
+        });
+
+        it('should judge spawn safety against distant celestials', () => {
+            const planet = createPlanet({ position: { x: FAR, y: 0 }, captureRadius: toFP(30000) });
+
+            const spatial = buildSpatialIndex([], [planet]);
+
+            expect(isPositionSafe({ x: 0, y: 0 }, spatial)).toBe(true);
+            expect(isPositionSafe({ x: FAR - toFP(20000), y: 0 }, spatial)).toBe(false);
+        });
+    });
+
+    describe('Momentum', () => {
+        it('should conserve momentum exactly for heavy, fast bodies', () => {
+            const velocity = fpCombinedVelocity([
+                { mass: toFP(3000000000), velocity: { x: toFP(1000001), y: 0 } },
+                { mass: toFP(1000000000), velocity: { x: toFP(-1000000), y: toFP(4) } },
+            ]);
+
+            // (3 × 1000001 - 1 × 1000000) / 4 = 500000.75; (1 × 4) / 4 = 1
+            expect(velocity).toEqual({ x: toFP(500000.75), y: toFP(1) });
+        });
+
+        it('should return zero velocity for massless bodies', () => {
+            expect(fpCombinedVelocity([{ mass: 0, velocity: { x: toFP(10), y: 0 } }])).toEqual({ x: 0, y: 0 });
+        });
+
+        it('should weld heavy structures without overflow', () => {
+            const hull = createShip({
+                id: 'hull-001',
+                mass: toFP(3000000000),
+                velocity: { x: toFP(1000001), y: 0 },
+                reach: toFP(100),
+                position: { x: FAR, y: FAR },
+            });
+            const module = createShip({
+                id: 'module-001',
+                mass: toFP(1000000000),
+                velocity: { x: toFP(-1000000), y: toFP(4) },
+                position: { x: FAR + toFP(30), y: FAR + toFP(40) },
+            });
+
+            expect(weldValidate(hull, [module], {})).toBe(true);
+
+            const updates = getUpdates(weldHandler(hull, [module], {}, createTickContext(1, [hull, module])));
+            const hullUpdate = updates.find(u => u.id === hull.id)!;
+
+            expect(hullUpdate.changes.velocity).toEqual({ x: toFP(500000.75), y: toFP(1) });
+            expect(hullUpdate.changes.mass).toBe(toFP(4000000000));
+        });
+    });
+});
@@ -0,0 +1,169 @@
+// ===============================================
+// WORMHOLE TRAVERSAL TESTS
+// ===============================================
+// validates traversal: a path crossing an endpoint's capture radius
+// emerges at the paired endpoint with its velocity preserved, fast
+// pass-throughs and no re-traversal on the way out, the transit record
+// seen at both ends, passengers carried through by binding, and the
+// ghost projection and draft predicting the traversal.
+
+import { describe, it, expect } from 'vitest';
+import { createShip, createSol, createWormhole, createGameState } from '../../../test/factories.js';
+import { runTick, runTicks, findEntity } from '../../../test/SimRunner.js';
+import { projectEntity } from '../../../state-handlers/state-systems/projectionSystem.js';
+import { projectDraft } from '../../../draft/draftService.js';
+import { toFP, type Vector2FP } from '../../../primitive-types/euclidean/euclidean-types.js';
+import type { ThrustAction } from '../../../primitive-types/semantic/action/action-types.js';
+
+// endpoints at (100000, 0) and (2000000, 0), capture radius 1000
+const wormhole = createWormhole();
+
+function createTraveler(position: Vector2FP, velocity: Vector2FP) {
+    return createShip({ id: 'traveler-001', position, velocity });
+}
+
+function createState(...entities: ReturnType<typeof createShip>[]) {
+    return createGameState({ celestials: [createSol(), wormhole], entities });
+}
+
+describe('Wormhole Traversal', () => {
+    describe('Crossing', () => {
+        it('should emerge at the paired endpoint with velocity preserved', () => {
+            const traveler = createTraveler({ x: toFP(98500), y: 0 }, { x: toFP(1000), y: 0 });
+
+            const { nextState } = runTick(createState(traveler), []);
+            const emerged = findEntity(nextState, traveler.id)!;
+
+            // ended 500 short of the entry center, so 500 short of the exit center
+            expect(emerged.position).toEqual({ x: toFP(1999500), y: 0 });
+            expect(emerged.velocity).toEqual(traveler.velocity);
+            expect(emerged.zoomState).toBe('SPACE');
+        });
+
+        it('should traverse from the second endpoint back to the first', () => {
+            const traveler = createTraveler({ x: toFP(2001500), y: toFP(200) }, { x: toFP(-1000), y: 0 });
+
+            const { nextState } = runTick(createState(traveler), []);
+            const emerged = findEntity(nextState, traveler.id)!;
+
+            expect(emerged.position).toEqual({ x: toFP(100500), y: toFP(200) });
+            expect(emerged.wormholeTransit?.fromSystemId).toBe('system-002');
+            expect(emerged.wormholeTransit?.toSystemId).toBe('system-001');
+        });
+
+        it('should catch a path that passes straight through the capture radius', () => {
+            const traveler = createTraveler({ x: toFP(98000), y: 0 }, { x: toFP(5000), y: 0 });
+
+            const { nextState } = runTick(createState(traveler), []);
+
+            expect(findEntity(nextState, traveler.id)!.position).toEqual({ x: toFP(2003000), y: 0 });
+        });
+
+        it('should not traverse on a near miss', () => {
+            const traveler = createTraveler({ x: toFP(98000), y: toFP(1500) }, { x: toFP(5000), y: 0 });
+
+            const { nextState } = runTick(createState(traveler), []);
+            const missed = findEntity(nextState, traveler.id)!;
+
+            expect(missed.position).toEqual({ x: toFP(103000), y: toFP(1500) });
+            expect(missed.wormholeTransit).toBeUndefined();
+        });
+
+        it('should not traverse for an entity already inside the capture radius', () => {
+            const traveler = createTraveler({ x: toFP(99800), y: 0 }, { x: toFP(100), y: 0 });
+
+            const { nextState } = runTick(createState(traveler), []);
+
+            expect(findEntity(nextState, traveler.id)!.position).toEqual({ x: toFP(99900), y: 0 });
+        });
+
+        it('should not traverse back on the way out of the exit', () => {
+            const traveler = createTraveler({ x: toFP(98000), y: 0 }, { x: toFP(5000), y: 0 });
+
+            const final = runTicks(createState(traveler), [], 3);
+            const exited = findEntity(final, traveler.id)!;
+
+            expect(exited.position).toEqual({ x: toFP(2013000), y: 0 });
+            expect(exited.wormholeTransit).toBeUndefined();
+        });
+    });
+
+    describe('Observation', () => {
+        it('should record the transit at both ends for one tick', () => {
+            const traveler = createTraveler({ x: toFP(98500), y: 0 }, { x: toFP(1000), y: 0 });
+
+            const { nextState } = runTick(createState(traveler), []);
+            const emerged = findEntity(nextState, traveler.id)!;
+
+            expect(emerged.wormholeTransit).toEqual({
+                wormholeId: wormhole.id,
+                fromSystemId: 'system-001',
+                toSystemId: 'system-002',
+                entryPosition: { x: toFP(99500), y: 0 },
+                exitPosition: { x: toFP(1999500), y: 0 },
+            });
+
+            const { nextState: later } = runTick(nextState, []);
+            expect(findEntity(later, traveler.id)!.wormholeTransit).toBeUndefined();
+        });
+    });
+
+    describe('Passengers', () => {
+        it('should carry contained entities through with their container', () => {
+            const traveler = createTraveler({ x: toFP(98500), y: 0 }, { x: toFP(1000), y: 0 });
+            const passenger = createShip({ id: 'passenger-001', parentId: traveler.id, position: { ...traveler.position } });
+
+            const { nextState } = runTick(createState(traveler, passenger), []);
+            const carried = findEntity(nextState, passenger.id)!;
+
+            expect(carried.position).toEqual({ x: toFP(1999500), y: 0 });
+            expect(carried.wormholeTransit).toBeUndefined();
+        });
+    });
+
+    describe('Projection', () => {
+        it('should land the ghost where the tick puts the entity', () => {
+            // 900 fuel at mass 1000 allows a 90 Δv burn
+            const traveler = { ...createTraveler({ x: toFP(98050), y: 0 }, { x: toFP(890), y: 0 }), fuelMass: toFP(900) };
+            const state = createState(traveler);
+            const burn: ThrustAction = {
+                type: 'THRUST',
+                entityId: traveler.id,
+                direction: { x: toFP(1), y: 0 },
+                magnitude: toFP(90),
+            };
+
+            const ghost = projectEntity(traveler, [burn], state.celestials);
+            const { nextState } = runTick(state, [burn]);
+
+            expect(ghost.position).toEqual({ x: toFP(1999030), y: 0 });
+            expect(ghost.position).toEqual(findEntity(nextState, traveler.id)!.position);
+        });
+
+        it('should predict the transit in the draft', () => {
+            // 900 fuel at mass 1000 allows a 90 Δv burn
+            const traveler = { ...createTraveler({ x: toFP(98050), y: 0 }, { x: toFP(890), y: 0 }), fuelMass: toFP(900) };
+            const burn: ThrustAction = {
+                type: 'THRUST',
+                entityId: traveler.id,
+                direction: { x: toFP(1), y: 0 },
+                magnitude: toFP(90),
+            };
+
+            const coasting = projectDraft(createState(traveler), []);
+            const burning = projectDraft(createState(traveler), [burn]);
+
+            expect(coasting.transits).toEqual([]);
+            expect(burning.transits).toEqual([{
+                entityId: traveler.id,
+                transit: {
+                    wormholeId: wormhole.id,
+                    fromSystemId: 'system-001',
+                    toSystemId: 'system-002',
+                    entryPosition: { x: toFP(99030), y: 0 },
+                    exitPosition: { x: toFP(1999030), y: 0 },
+                },
+            }]);
+        });
+    });
+});
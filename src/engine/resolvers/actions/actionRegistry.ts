@@ -18,6 +18,7 @@ import { transportHandler, transportValidate } from './transportHandler.js';
 import { maneuverHandler, maneuverValidate } from './maneuverHandler.js';
 import { thrustHandler, thrustValidate } from './thrustHandler.js';
 import { launchHandler, launchValidate } from './launchHandler.js';
+import { landHandler, landValidate } from './landHandler.js';
 import { extractHandler, extractValidate } from './extractHandler.js';
 import { refineHandler, refineValidate } from './refineHandler.js';
 import { manufactureHandler, manufactureValidate } from './manufactureHandler.js';
@@ -34,6 +35,7 @@ import { moveScannerHandler, moveScannerValidate } from './moveScannerHandler.js
 import { scanHandler, scanValidate } from './scanHandler.js';
 import { transferResourceHandler, transferResourceValidate } from './transferResourceHandler.js';
 import { encounterHandler, encounterValidate } from './encounterHandler.js';
+import { postureHandler, postureValidate } from './postureHandler.js';
 
 // -----------------------------------------------
 // Action Registry Map
@@ -45,6 +47,7 @@ export const actionRegistry: Record<ActionType, ActionRegistration> = {
     MANEUVER: { handler: maneuverHandler, validate: maneuverValidate },
     THRUST: { handler: thrustHandler, validate: thrustValidate },
     LAUNCH: { handler: launchHandler, validate: launchValidate },
+    LAND: { handler: landHandler, validate: landValidate },
     EXTRACT: { handler: extractHandler, validate: extractValidate },
     REFINE: { handler: refineHandler, validate: refineValidate },
     MANUFACTURE: { handler: manufactureHandler, validate: manufactureValidate },
@@ -61,6 +64,7 @@ export const actionRegistry: Record<ActionType, ActionRegistration> = {
     SCAN: { handler: scanHandler, validate: scanValidate },
     TRANSFER_RESOURCE: { handler: transferResourceHandler, validate: transferResourceValidate },
     ENCOUNTER: { handler: encounterHandler, validate: encounterValidate },
+    POSTURE: { handler: postureHandler, validate: postureValidate },
 };
 
 // -----------------------------------------------
@@ -10,15 +10,17 @@
 //   1. Capability: "This entity doesn't have an engine."
 //   2. State: "This entity has an engine, but it has no fuel."
 //
-// The validate function must check BOTH conditions.
+// The validate function must check BOTH conditions. Capability comes
+// from the property registry (canPerform / hasCapability).
 // The handler MUST call validate first. If it returns false,
-// the handler returns an empty EntityUpdate[].
+// the handler returns an empty EntityEffect[].
 //
 // This prevents "Illegal Action" desync between client (UI greying)
 // and server (execution). Same logic gates both paths.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { GameState } from '../../state-types/state-types.js';
+import type { SpatialIndex } from '../../state-handlers/state-systems/spatialIndex.js';
 
 // -----------------------------------------------
 // Tick Context
@@ -29,34 +31,51 @@ export interface TickContext {
     // current tick number
     readonly tick: number;
 
+    // wave the action resolves in (its orderIndex); spawned IDs derive from it
+    readonly wave: number;
+
     // read-only access to all entities
     readonly entities: readonly Entity[];
 
     // read-only access to game state for lookups
     readonly state: Readonly<GameState>;
+
+    // radius and capture queries, built once per wave from its starting state
+    readonly spatial: SpatialIndex;
 }
 
 // -----------------------------------------------
 // Action Handler Signature
 // -----------------------------------------------
-// Pure function that computes updates based on action inputs
+// Pure function that computes effects (updates, spawns, destroys)
+// based on action inputs
 
 export type ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
     context: TickContext
-) => EntityUpdate[];
+) => EntityEffect[];
 
 // -----------------------------------------------
 // Action Validator Signature
 // -----------------------------------------------
-// Pure function that checks if an action is valid
+// Pure function that checks if an action is valid.
+// entities is the state the action resolves against: capability checks
+// use it to see the parts welded to the actor (without it, the actor
+// alone is checked).
+// world is the celestial side of that state: checks that depend on the
+// bodies and their gravity maps use it (without it, they are skipped;
+// handlers always pass it).
+
+export type ValidationWorld = Pick<GameState, 'celestials' | 'surfaces'>;
 
 export type ActionValidator = (
     actor: Entity,
     targets: Entity[],
-    inputs: Record<string, unknown>
+    inputs: Record<string, unknown>,
+    entities?: readonly Entity[],
+    world?: ValidationWorld
 ) => boolean;
 
 // -----------------------------------------------
@@ -3,18 +3,24 @@
 // ===============================================
 // Handles finalizing pending structural changes.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
 
 /**
  * Validates whether the commit action can be performed.
  * Checks both Capability (has required systems) and State (resources available).
  */
 export const commitValidate: ActionValidator = (
-    _actor: Entity,
+    actor: Entity,
     _targets: Entity[],
-    _inputs: Record<string, unknown>
+    _inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    if (!canPerform(actor, 'COMMIT', entities)) {
+        return false;
+    }
+
     // capability: does the entity have pending changes to commit?
     // state: are all preconditions for the commit met?
     // stub: always returns false until implemented
@@ -29,10 +35,10 @@ export const commitHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!commitValidate(actor, targets, inputs)) {
+    if (!commitValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
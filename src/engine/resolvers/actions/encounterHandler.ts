@@ -2,19 +2,33 @@
 // ENCOUNTER ACTION HANDLER
 // ===============================================
 // Handles initiating an encounter with another entity.
+// Only a BODY (a crew member) can ENCOUNTER; ships and other entities
+// meet through their crew.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
+import { isBody } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
 
 /**
  * Validates whether the encounter action can be performed.
  * Checks both Capability (has required systems) and State (resources available).
  */
 export const encounterValidate: ActionValidator = (
-    _actor: Entity,
+    actor: Entity,
     _targets: Entity[],
-    _inputs: Record<string, unknown>
+    _inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    // only bodies encounter
+    if (!isBody(actor)) {
+        return false;
+    }
+
+    if (!canPerform(actor, 'ENCOUNTER', entities)) {
+        return false;
+    }
+
     // capability: does the entity have docking/boarding capability?
     // state: is the entity in proximity and matching velocity?
     // stub: always returns false until implemented
@@ -29,10 +43,10 @@ export const encounterHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!encounterValidate(actor, targets, inputs)) {
+    if (!encounterValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
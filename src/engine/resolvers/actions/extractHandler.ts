@@ -3,20 +3,41 @@
 // ===============================================
 // Handles resource extraction from resource wells (celestials/debris).
 // Volatiles flow into actor or target entity.
-// Minerals spawn a new MINERAL_STORE entity at the specified position.
+// Minerals spawn a new MINERAL_STORE entity at the specified position
+// (one per origin, IDs derived from tick, wave, actor and origin index):
+// the rate is the volume extracted, the mass is volume × well density.
+//
+// SKILL: extracting from the same well(s) tick after tick scales the
+// rate by 1.1^consecutive_ticks (see streakSystem).
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
 import type { FP, Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
 import {
     fpSub,
     fpAdd,
     fpMin,
-    fpDistanceSquared,
-    fpMul,
+    fpMax,
+    fpMulWide,
+    fpIsWithinDistance,
     VECTOR_ZERO,
     toFP,
 } from '../../primitive-types/euclidean/euclidean-types.js';
+import {
+    isWithinSeparation,
+    getLocalPosition,
+    getPlacementInSpaceOf,
+} from '../../state-handlers/state-systems/surfaceSystem.js';
+import { withTotalMass } from '../../state-handlers/state-systems/massSystem.js';
+import { getSpawnedId } from '../../state-handlers/state-systems/effectSystem.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
+import { getMineralYield } from '../../state-handlers/state-systems/extractionSystem.js';
+import {
+    getSkillTargetId,
+    getStreakCount,
+    getNextSkillStreak,
+    getSkillMultiplier,
+} from '../../state-handlers/state-systems/streakSystem.js';
 
 // -----------------------------------------------
 // Input Extraction Helpers
@@ -54,14 +75,19 @@ function getMineralTargetPositions(inputs: Record<string, unknown>): Vector2FP[]
  * Validates whether the extract action can be performed.
  * Checks:
  * - Actor reach covers distance to all origins
- * - Origins have extractable mass (volatilesMass or mass properties)
+ * - Origins have extractable mass (volatilesMass or dryMass minerals)
  * - For MINERALS: mineralTargetPosition is provided and within reach
  */
 export const extractValidate: ActionValidator = (
     actor: Entity,
     targets: Entity[],
-    inputs: Record<string, unknown>
+    inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    if (!canPerform(actor, 'EXTRACT', entities)) {
+        return false;
+    }
+
     const resourceType = getResourceType(inputs);
     const rate = getRate(inputs);
 
@@ -75,13 +101,10 @@ export const extractValidate: ActionValidator = (
         return false;
     }
 
-    // reach check: actor.reach squared for comparison (avoids sqrt)
-    const reachSquared = fpMul(actor.reach, actor.reach);
-
     // verify all origins are within reach and have resources
     for (const origin of targets) {
-        const distSq = fpDistanceSquared(actor.position, origin.position);
-        if (distSq > reachSquared) {
+        // origins in another coordinate space are never in reach
+        if (!isWithinSeparation(actor, origin, actor.reach)) {
             return false;
         }
 
@@ -89,9 +112,8 @@ export const extractValidate: ActionValidator = (
         if (resourceType === 'VOLATILES' && origin.volatilesMass <= 0) {
             return false;
         }
-        // minerals: we check mass > 0 as a proxy for mineral availability
-        // (entities that are resource wells have mass representing mineral content)
-        if (resourceType === 'MINERALS' && origin.mass <= 0) {
+        // minerals: a resource well's dry mass is its mineral content
+        if (resourceType === 'MINERALS' && origin.dryMass <= 0) {
             return false;
         }
     }
@@ -102,9 +124,10 @@ export const extractValidate: ActionValidator = (
         if (positions.length === 0) {
             return false;
         }
+        // target positions are in the actor's own coordinate space
+        const actorPosition = getLocalPosition(actor);
         for (const pos of positions) {
-            const distSq = fpDistanceSquared(actor.position, pos);
-            if (distSq > reachSquared) {
+            if (!fpIsWithinDistance(actorPosition, pos, actor.reach)) {
                 return false;
             }
         }
@@ -121,45 +144,59 @@ export const extractValidate: ActionValidator = (
  * Executes the extract action.
  * 
  * VOLATILES: Transfers volatilesMass from origin to actor (or target if specified).
- * MINERALS: Reduces origin mass, spawns new MINERAL_STORE entity at target position.
+ * MINERALS: Reduces origin dry mass and deposit volume, spawns new MINERAL_STORE
+ * entity at target position with the extracted volume and its mass (see extractionSystem).
+ * Total masses on both sides are refreshed: extraction moves mass, never makes it.
  */
 export const extractHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
     context: TickContext
-): EntityUpdate[] => {
+): EntityEffect[] => {
     // gate: validation must pass
-    if (!extractValidate(actor, targets, inputs)) {
+    if (!extractValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
     const resourceType = getResourceType(inputs)!;
-    const rate = getRate(inputs);
-    const updates: EntityUpdate[] = [];
+    const updates: EntityEffect[] = [];
+
+    // skill: the streak on these wells scales the requested rate
+    const wellId = getSkillTargetId('EXTRACT', actor.id, inputs, targets);
+    const streakCount = getStreakCount(actor, 'EXTRACT', wellId, context.tick);
+    const rate = fpMulWide(getRate(inputs), getSkillMultiplier('EXTRACT', streakCount));
+    const skillStreak = getNextSkillStreak(actor, 'EXTRACT', wellId, context.tick);
 
     if (resourceType === 'VOLATILES') {
+        let extracted: FP = 0;
+
         // process each origin for volatiles extraction
         for (const origin of targets) {
             // extract up to rate, capped by available mass
             const extractAmount = fpMin(rate, origin.volatilesMass);
+            extracted = fpAdd(extracted, extractAmount);
 
             // reduce origin volatiles
             updates.push({
+                kind: 'update',
                 id: origin.id,
                 changes: {
                     volatilesMass: fpSub(origin.volatilesMass, extractAmount),
                 },
             });
-
-            // increase actor volatiles (or target if specified via additional logic)
-            updates.push({
-                id: actor.id,
-                changes: {
-                    volatilesMass: fpAdd(actor.volatilesMass, extractAmount),
-                },
-            });
         }
+
+        // increase actor volatiles by everything drawn this action
+        // (or target if specified via additional logic)
+        updates.push({
+            kind: 'update',
+            id: actor.id,
+            changes: {
+                volatilesMass: fpAdd(actor.volatilesMass, extracted),
+                skillStreak,
+            },
+        });
     } else if (resourceType === 'MINERALS') {
         // minerals spawn new entities at target positions
         const positions = getMineralTargetPositions(inputs);
@@ -168,40 +205,53 @@ export const extractHandler: ActionHandler = (
             const origin = targets[i];
             const targetPos = positions[i];
 
-            // extract up to rate, capped by available mass
-            const extractAmount = fpMin(rate, origin?.mass ?? 0);
+            if (!origin) continue;
+
+            // the rate is a volume; the well's density makes it mass
+            const mineralYield = getMineralYield(origin, rate);
 
-            // reduce origin mass
+            // reduce origin minerals (and any volatiles drawn with them)
             updates.push({
-                id: origin?.id ?? '',
+                kind: 'update',
+                id: origin.id,
                 changes: {
-                    mass: fpSub(origin?.mass ?? 0, extractAmount),
+                    dryMass: fpSub(origin.dryMass, mineralYield.mass),
+                    volatilesMass: fpSub(origin.volatilesMass, mineralYield.volatilesMass),
+                    volume: fpMax(fpSub(origin.volume, mineralYield.volume), 0),
                 },
             });
 
-            // spawn new MINERAL_STORE entity
-            // TODO: the engine must support entity creation via special update
-            // for now, we create an update with a generated ID
-            const mineralStoreId = `mineral-store-${context.tick}-${i}`;
+            // spawn new MINERAL_STORE entity; its purity is the well's density
             updates.push({
-                id: mineralStoreId,
-                changes: {
-                    position: targetPos,
+                kind: 'spawn',
+                entity: {
+                    id: getSpawnedId('mineral-store', context, actor.id, i),
+                    type: 'MINERAL_STORE',
+                    // placed in the actor's coordinate space (space or surface)
+                    ...getPlacementInSpaceOf(actor, targetPos ?? getLocalPosition(actor)),
                     velocity: VECTOR_ZERO,
-                    mass: extractAmount,
-                    volume: extractAmount,
+                    dryMass: mineralYield.mass,
+                    mass: fpAdd(mineralYield.mass, mineralYield.volatilesMass),
+                    volume: mineralYield.volume,
                     fuelMass: toFP(0),
-                    volatilesMass: toFP(0),
+                    volatilesMass: mineralYield.volatilesMass,
                     reach: toFP(0),
                     airlockSealed: false,
                     opticLevel: 0,
-                    zoomState: actor.zoomState,
                     heading: toFP(0),
                     thrust: toFP(0),
+                    isContainer: false,
+                    containerVolume: toFP(0),
                 },
             });
         }
+
+        updates.push({
+            kind: 'update',
+            id: actor.id,
+            changes: { skillStreak },
+        });
     }
 
-    return updates;
+    return withTotalMass(updates, [...context.entities, actor, ...targets]);
 };
@@ -0,0 +1,183 @@
+// ===============================================
+// LAND ACTION HANDLER
+// ===============================================
+// Handles landing from the orbital rail onto a surface.
+// ORBIT -> SURFACE.
+//
+// Planets (aerobraking):
+//   fuel_cost = 0 (falling is free)
+//   landing_zone = GetZoneFromAngle(θcurrent)
+//   landing_position = nearest platform in the zone OR the zone's point
+//   Gas giants have no surface and refuse landing.
+//
+// Moons (docking):
+//   Δv_required = v(|ω_entity - ω_moon|) (the ω gap as rail speed)
+//   fuel_cost = Δv_required × m × fuel_efficiency_constant
+//   can_land = Δv_required <= available thrust this tick (within margin of error)
+//   The full fuel_cost is burned, so the fuel must cover it.
+//   The moon must orbit the planet whose rail the entity rides.
+
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { ActionHandler, ActionValidator, TickContext, ValidationWorld } from './actionTypes.js';
+import type {
+    CelestialBody,
+    Moon,
+    Planet,
+} from '../../primitive-types/semantic/celestial/celestial-types.js';
+import type { FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import { fpSub } from '../../primitive-types/euclidean/euclidean-types.js';
+import {
+    canDock,
+    getDockingFuelCost,
+    isLandable,
+} from '../../state-handlers/state-systems/orbitSystem.js';
+import {
+    findSurfaceMap,
+    getSurfaceLanding,
+} from '../../state-handlers/state-systems/surfaceSystem.js';
+import { withTotalMass } from '../../state-handlers/state-systems/massSystem.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
+
+/**
+ * Extract the docking body id from inputs, with type safety.
+ * Returns undefined when landing on the orbited planet, null if malformed.
+ */
+function getBodyId(inputs: Record<string, unknown>): string | undefined | null {
+    const bodyId = inputs['bodyId'];
+    if (bodyId === undefined) {
+        return undefined;
+    }
+    return typeof bodyId === 'string' ? bodyId : null;
+}
+
+/**
+ * Find the planet whose rail the actor is riding
+ */
+function getOrbitedPlanet(actor: Entity, celestials: readonly CelestialBody[]): Planet | null {
+    const celestial = celestials.find(c => c.id === actor.orbitTargetId);
+    return celestial?.type === 'PLANET' ? celestial : null;
+}
+
+/**
+ * Find a moon orbiting the given planet
+ */
+function getDockingMoon(bodyId: string, planet: Planet, celestials: readonly CelestialBody[]): Moon | null {
+    const celestial = celestials.find(c => c.id === bodyId);
+    return celestial?.type === 'MOON' && celestial.parentPlanetId === planet.id ? celestial : null;
+}
+
+interface LandingSite {
+    body: Planet | Moon;
+    fuelBurned: FP;
+}
+
+/**
+ * Where a landing from the rail comes down and the fuel it burns:
+ * the orbited planet for free, or a docking moon for the full docking
+ * cost. Null if that body refuses the landing (gas giant, unreachable
+ * moon, not enough thrust or fuel).
+ */
+function getLandingSite(actor: Entity, bodyId: string | undefined, world: ValidationWorld): LandingSite | null {
+    const planet = getOrbitedPlanet(actor, world.celestials);
+    if (!planet) {
+        return null;
+    }
+
+    // planet: free fall into the zone under the rail
+    if (bodyId === undefined || bodyId === planet.id) {
+        return isLandable(planet) ? { body: planet, fuelBurned: 0 } : null;
+    }
+
+    // moon: dock by matching the moon's rail speed
+    const moon = getDockingMoon(bodyId, planet, world.celestials);
+    if (!moon || !canDock(actor, moon)) {
+        return null;
+    }
+    return { body: moon, fuelBurned: getDockingFuelCost(actor, moon) };
+}
+
+/**
+ * Validates whether the land action can be performed.
+ * Checks both Capability (has required systems) and State (resources available).
+ *
+ * Whether the body under the rail can be landed on (gas giants, docking
+ * thrust and fuel) depends on the celestials, so it is checked only when
+ * the world is given.
+ */
+export const landValidate: ActionValidator = (
+    actor: Entity,
+    _targets: Entity[],
+    inputs: Record<string, unknown>,
+    entities: readonly Entity[] = [],
+    world?: ValidationWorld
+): boolean => {
+    if (!canPerform(actor, 'LAND', entities)) {
+        return false;
+    }
+
+    // state check 1: must be riding a rail
+    if (actor.zoomState !== 'ORBIT' || actor.orbitTargetId === undefined) {
+        return false;
+    }
+
+    // state check 2: contained or welded entities ride their parent
+    if (actor.parentId !== undefined || actor.weldParentId !== undefined) {
+        return false;
+    }
+
+    // state check 3: docking body (if given) must be an id
+    const bodyId = getBodyId(inputs);
+    if (bodyId === null) {
+        return false;
+    }
+
+    // state check 4: the body must take the landing
+    if (world && !getLandingSite(actor, bodyId, world)) {
+        return false;
+    }
+
+    return true;
+};
+
+/**
+ * Executes the land action.
+ * Rule: handler must call validate first to prevent illegal action desync.
+ */
+export const landHandler: ActionHandler = (
+    actor: Entity,
+    targets: Entity[],
+    inputs: Record<string, unknown>,
+    context: TickContext
+): EntityEffect[] => {
+    // gate: validation must pass before any state mutation
+    if (!landValidate(actor, targets, inputs, context.entities, context.state)) {
+        return [];
+    }
+
+    const site = getLandingSite(actor, getBodyId(inputs) ?? undefined, context.state);
+    if (!site) {
+        return [];
+    }
+
+    const { body, fuelBurned } = site;
+    const orbitAngle = actor.orbitAngle ?? 0;
+    const surfaceMap = findSurfaceMap(context.state.surfaces, body.id);
+
+    // nothing to burn: a planet fall, or a moon already matched
+    if (fuelBurned === 0) {
+        return [{
+            kind: 'update',
+            id: actor.id,
+            changes: getSurfaceLanding(body, orbitAngle, surfaceMap, context.entities),
+        }];
+    }
+
+    return withTotalMass([{
+        kind: 'update',
+        id: actor.id,
+        changes: {
+            ...getSurfaceLanding(body, orbitAngle, surfaceMap, context.entities),
+            fuelMass: fpSub(actor.fuelMass, fuelBurned),
+        },
+    }], [...context.entities, actor]);
+};
@@ -1,24 +1,169 @@
 // ===============================================
 // LAUNCH ACTION HANDLER
 // ===============================================
-// Handles launching an entity with a specified vector.
+// Handles launching an entity from a surface onto the orbital rail.
+// SURFACE -> ORBIT: the vertical launch gate.
+//
+// Fuel cost:
+//   fuel_required = m × (Zsurface - Zorbit) × launch_efficiency_constant
+//   Zsurface is sampled from the body's gravity map at the launch point
+//   (peaks are cheaper to launch from than valleys).
+//
+// Output:
+//   θinitial = GetAngleFromZone(launch_zone)
+//   ωinitial = (fuel_burned / fuel_required) × base_orbital_velocity
+//
+// The launch vector's magnitude is extra fuel to burn beyond the minimum;
+// an over-burn enters a faster orbit. The rail fixes the direction.
+//
+// Moons have no rail of their own: launching from a moon enters the
+// parent planet's rail.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
-import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { ActionHandler, ActionValidator, TickContext, ValidationWorld } from './actionTypes.js';
+import type {
+    CelestialBody,
+    Planet,
+    SurfaceBody,
+} from '../../primitive-types/semantic/celestial/celestial-types.js';
+import type { FP, Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import type { SurfaceMap } from '../../state-types/state-types.js';
+import {
+    fpAdd,
+    fpSub,
+    fpMin,
+    SPEED_FROM_VECTOR,
+    VECTOR_ZERO,
+} from '../../primitive-types/euclidean/euclidean-types.js';
+import { MINIMUM_FUEL_THRESHOLD } from '../../config/engineConfig.js';
+import {
+    getLaunchFuelRequired,
+    getLaunchOrbitSpeed,
+    getRailLaunch,
+} from '../../state-handlers/state-systems/orbitSystem.js';
+import {
+    findSurfaceBody,
+    findSurfaceMap,
+    getBodySurfaceZ,
+    getRailAngleFromSurfacePosition,
+} from '../../state-handlers/state-systems/surfaceSystem.js';
+import { withTotalMass } from '../../state-handlers/state-systems/massSystem.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
+
+/**
+ * Extract launch vector from inputs, with type safety.
+ * Returns null if the input is present but malformed.
+ */
+function getLaunchVector(inputs: Record<string, unknown>): Vector2FP | null {
+    const vec = inputs['launchVector'];
+    if (vec === undefined) {
+        return VECTOR_ZERO;
+    }
+    if (vec && typeof vec === 'object' && 'x' in vec && 'y' in vec) {
+        const v = vec as { x: unknown; y: unknown };
+        if (typeof v.x === 'number' && typeof v.y === 'number') {
+            return { x: v.x, y: v.y };
+        }
+    }
+    return null;
+}
+
+/**
+ * Find the planet whose rail a launch from this body enters
+ */
+function getLaunchPlanet(body: SurfaceBody, celestials: readonly CelestialBody[]): Planet | null {
+    if (body.type === 'PLANET') {
+        return body;
+    }
+    const parent = celestials.find(c => c.id === body.parentPlanetId);
+    return parent?.type === 'PLANET' ? parent : null;
+}
+
+interface LaunchSite {
+    planet: Planet;
+    surfaceMap: SurfaceMap | null;
+    launchPoint: Vector2FP;
+    fuelRequired: FP;
+}
+
+/**
+ * Where a grounded actor launches from: the rail it enters and the fuel
+ * the gravity map under it demands. Null if the body or rail is missing.
+ */
+function getLaunchSite(actor: Entity, world: ValidationWorld): LaunchSite | null {
+    if (actor.surfaceBodyId === undefined || actor.surfacePosition === undefined) {
+        return null;
+    }
+
+    const body = findSurfaceBody(world.celestials, actor.surfaceBodyId);
+    if (!body) {
+        return null;
+    }
+
+    const planet = getLaunchPlanet(body, world.celestials);
+    if (!planet) {
+        return null;
+    }
+
+    const surfaceMap = findSurfaceMap(world.surfaces, body.id);
+    const launchPoint = actor.surfacePosition;
+    const surfaceZ = getBodySurfaceZ(body, surfaceMap, launchPoint);
+
+    return {
+        planet,
+        surfaceMap,
+        launchPoint,
+        fuelRequired: getLaunchFuelRequired(actor.mass, surfaceZ),
+    };
+}
 
 /**
  * Validates whether the launch action can be performed.
  * Checks both Capability (has required systems) and State (resources available).
+ *
+ * The fuel requirement depends on the gravity map under the actor, so it
+ * is checked only when the world is given.
  */
 export const launchValidate: ActionValidator = (
-    _actor: Entity,
+    actor: Entity,
     _targets: Entity[],
-    _inputs: Record<string, unknown>
+    inputs: Record<string, unknown>,
+    entities: readonly Entity[] = [],
+    world?: ValidationWorld
 ): boolean => {
-    // capability: does the entity have a launch mechanism?
-    // state: is the entity in a launchable state (docked/grounded)?
-    // stub: always returns false until implemented
-    return false;
+    if (!canPerform(actor, 'LAUNCH', entities)) {
+        return false;
+    }
+
+    // state check 1: must be grounded on a surface
+    if (actor.zoomState !== 'SURFACE' || actor.surfaceBodyId === undefined || actor.surfacePosition === undefined) {
+        return false;
+    }
+
+    // state check 2: contained or welded entities ride their parent
+    if (actor.parentId !== undefined || actor.weldParentId !== undefined) {
+        return false;
+    }
+
+    // state check 3: must have fuel above minimum threshold
+    if (actor.fuelMass <= MINIMUM_FUEL_THRESHOLD) {
+        return false;
+    }
+
+    // state check 4: launch vector (if given) must be a vector
+    if (getLaunchVector(inputs) === null) {
+        return false;
+    }
+
+    // state check 5: can_launch = fuelMass >= fuel_required
+    if (world) {
+        const site = getLaunchSite(actor, world);
+        if (!site || actor.fuelMass < site.fuelRequired) {
+            return false;
+        }
+    }
+
+    return true;
 };
 
 /**
@@ -29,13 +174,36 @@ export const launchHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!launchValidate(actor, targets, inputs)) {
+    if (!launchValidate(actor, targets, inputs, context.entities, context.state)) {
         return [];
     }
 
-    // implementation goes here
-    return [];
+    const site = getLaunchSite(actor, context.state);
+    if (!site) {
+        return [];
+    }
+    const { planet, surfaceMap, launchPoint, fuelRequired } = site;
+
+    // over-burn: the launch vector selects extra fuel, capped by what's left.
+    // a free launch has no ratio to raise, so nothing extra is burned.
+    const launchVector = getLaunchVector(inputs) ?? VECTOR_ZERO;
+    const extraFuel = fuelRequired > 0
+        ? fpMin(SPEED_FROM_VECTOR(launchVector), fpSub(actor.fuelMass, fuelRequired))
+        : 0;
+    const fuelBurned = fpAdd(fuelRequired, extraFuel);
+
+    const orbitAngle = getRailAngleFromSurfacePosition(launchPoint, surfaceMap);
+    const orbitSpeed = getLaunchOrbitSpeed(fuelBurned, fuelRequired);
+
+    return withTotalMass([{
+        kind: 'update',
+        id: actor.id,
+        changes: {
+            ...getRailLaunch(planet, orbitAngle, orbitSpeed),
+            fuelMass: fpSub(actor.fuelMass, fuelBurned),
+        },
+    }], [...context.entities, actor]);
 };
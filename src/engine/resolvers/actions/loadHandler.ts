@@ -9,11 +9,17 @@
 // 1. Actor Reach - can actor reach both content and container?
 // 2. Container Capability - does container have isContainer permission?
 // 3. Volume Check - does container have remaining capacity?
+//
+// bodies (people) cannot be traded: no body can be loaded or load into.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
+import { isBody } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
 import type { FP, Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
-import { fpDistanceSquared, fpMul, fpAdd, fpSub } from '../../primitive-types/euclidean/euclidean-types.js';
+import { fpAdd, fpSub } from '../../primitive-types/euclidean/euclidean-types.js';
+import { canReach } from '../../state-handlers/state-systems/spatialIndex.js';
+import { withTotalMass } from '../../state-handlers/state-systems/massSystem.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
 
 // -----------------------------------------------
 // Input Extraction
@@ -45,18 +51,6 @@ function getLoadInputs(inputs: Record<string, unknown>): LoadInputs | null {
 // Helper Functions
 // -----------------------------------------------
 
-/**
- * checks if entity A can reach entity B (distance <= A.reach)
- */
-function canReach(actor: Entity, target: Entity): boolean {
-    if (actor.reach <= 0) return false;
-    
-    const distSquared = fpDistanceSquared(actor.position, target.position);
-    const reachSquared = fpMul(actor.reach, actor.reach);
-    
-    return distSquared <= reachSquared;
-}
-
 /**
  * calculates the total volume currently used in a container.
  * sums the volume of all entities with parentId === container.id
@@ -73,22 +67,6 @@ function calculateUsedVolume(containerId: string, entities: readonly Entity[]):
     return used;
 }
 
-/**
- * calculates the total mass of contained entities.
- */
-function calculateContainedMass(containerId: string, entities: readonly Entity[]): FP {
-    let total: FP = 0;
-    
-    for (const entity of entities) {
-        if (entity.parentId === containerId) {
-            // include entity's total mass (mass + fuelMass + volatilesMass conceptually in mass)
-            total = fpAdd(total, entity.mass);
-        }
-    }
-    
-    return total;
-}
-
 // -----------------------------------------------
 // Validation
 // -----------------------------------------------
@@ -102,11 +80,19 @@ function calculateContainedMass(containerId: string, entities: readonly Entity[]
 export const loadValidate: ActionValidator = (
     actor: Entity,
     targets: Entity[],
-    inputs: Record<string, unknown>
+    inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    if (!canPerform(actor, 'LOAD', entities)) {
+        return false;
+    }
+
     const loadInputs = getLoadInputs(inputs);
     if (!loadInputs) return false;
 
+    // bodies cannot be traded
+    if (targets.some(isBody)) return false;
+
     // find container from targets
     const container = targets.find(t => t.id === loadInputs.containerId);
     if (!container) return false;
@@ -177,7 +163,7 @@ function validateWithContext(
     context: TickContext
 ): boolean {
     // first pass basic validation
-    if (!loadValidate(actor, targets, inputs)) {
+    if (!loadValidate(actor, targets, inputs, context.entities)) {
         return false;
     }
 
@@ -216,14 +202,15 @@ function validateWithContext(
  * executes the LOAD action:
  * - sets content.parentId = container.id
  * - sets content.position = container.position (position binding)
- * - updates container.mass to include content mass (for Newtonian physics)
+ * - refreshes container.mass (and any structure above it) to include the
+ *   content's total mass (for Newtonian physics)
  */
 export const loadHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
     context: TickContext
-): EntityUpdate[] => {
+): EntityEffect[] => {
     // gate: full validation with context
     if (!validateWithContext(actor, targets, inputs, context)) {
         return [];
@@ -235,21 +222,16 @@ export const loadHandler: ActionHandler = (
     const container = targets.find(t => t.id === loadInputs.containerId);
     if (!container) return [];
 
-    const updates: EntityUpdate[] = [];
-
-    // calculate total mass being loaded
-    let loadedMass: FP = 0;
+    const updates: EntityEffect[] = [];
 
     // process each content entity
     for (const contentId of loadInputs.contentIds) {
         const content = targets.find(t => t.id === contentId);
         if (!content) continue;
 
-        // add content's mass to total
-        loadedMass = fpAdd(loadedMass, content.mass);
-
         // create update for content entity
         updates.push({
+            kind: 'update',
             id: content.id,
             changes: {
                 parentId: container.id,
@@ -258,14 +240,7 @@ export const loadHandler: ActionHandler = (
         });
     }
 
-    // update container's mass to include loaded content mass
+    // the container now carries the content's mass
     // this ensures correct Newtonian delta-V calculations
-    updates.push({
-        id: container.id,
-        changes: {
-            mass: fpAdd(container.mass, loadedMass),
-        },
-    });
-
-    return updates;
+    return withTotalMass(updates, [...context.entities, actor, ...targets]);
 };
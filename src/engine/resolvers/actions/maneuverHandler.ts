@@ -1,24 +1,128 @@
 // ===============================================
 // MANEUVER ACTION HANDLER
 // ===============================================
-// Handles entity maneuver toward a target velocity.
+// Handles surface travel toward a requested point on a planet or moon.
+// SURFACE only: space travel is THRUST.
+//
+// Range:
+//   range = (Fp / (m × g)) × A
+//   Fp = planetForce (summed over welded parts), g = body gravity, A = atmosphere (0-1)
+//   m includes any loads the entity is towing this tick (TRANSPORT)
+//   Range spent = distance + Z climbed toward high ground × climb cost,
+//   sampled along the path across the gravity map.
+//
+// The entity moves to the closest reachable point toward the target.
+// Entities that require atmosphere cannot maneuver into vacuum.
+// Surface travel costs time, not fuel.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import type { GameState } from '../../state-types/state-types.js';
+import type { FP, Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import { fpAdd } from '../../primitive-types/euclidean/euclidean-types.js';
+import {
+    findSurfaceBody,
+    findSurfaceMap,
+    getReachablePointOnPath,
+    getSurfaceRange,
+    isWithinSurface,
+} from '../../state-handlers/state-systems/surfaceSystem.js';
+import { canPerform, getEffectivePhysics } from '../../state-handlers/state-systems/propertySystem.js';
+
+/**
+ * Extract target position from inputs, with type safety.
+ * Returns null if the input is missing or malformed.
+ */
+function getTargetPosition(inputs: Record<string, unknown>): Vector2FP | null {
+    const pos = inputs['targetPosition'];
+    if (pos && typeof pos === 'object' && 'x' in pos && 'y' in pos) {
+        const p = pos as { x: unknown; y: unknown };
+        if (typeof p.x === 'number' && typeof p.y === 'number') {
+            return { x: p.x, y: p.y };
+        }
+    }
+    return null;
+}
+
+/**
+ * Mass the actor moves: its own plus everything it tows this tick.
+ */
+function getHauledMass(actor: Entity, entities: readonly Entity[]): FP {
+    let mass = actor.mass;
+    for (const entity of entities) {
+        if (entity.towParentId === actor.id) {
+            mass = fpAdd(mass, entity.mass);
+        }
+    }
+    return mass;
+}
+
+/**
+ * Closest point toward a cursor (body-local) that the entity can reach
+ * this tick. Used by the draft ghost and by the handler.
+ * Returns null when the entity cannot maneuver there at all
+ * (not on a surface, cursor off the surface, vacuum for atmosphere-bound entities).
+ */
+export function getClosestReachablePoint(
+    actor: Entity,
+    cursor: Vector2FP,
+    state: Readonly<GameState>
+): Vector2FP | null {
+    if (actor.zoomState !== 'SURFACE' || actor.surfaceBodyId === undefined || actor.surfacePosition === undefined) {
+        return null;
+    }
+
+    const body = findSurfaceBody(state.celestials, actor.surfaceBodyId);
+    if (!body || !isWithinSurface(cursor, body)) {
+        return null;
+    }
+
+    // vacuum: atmosphere-bound entities may not travel through it
+    if (actor.requiresAtmosphere && body.atmosphere <= 0) {
+        return null;
+    }
+
+    const surfaceMap = findSurfaceMap(state.surfaces, body.id);
+    const range = getSurfaceRange(getEffectivePhysics(actor, 'planetForce', state.entities), getHauledMass(actor, state.entities), body);
+
+    return getReachablePointOnPath(body, surfaceMap, actor.surfacePosition, cursor, range);
+}
 
 /**
  * Validates whether the maneuver action can be performed.
  * Checks both Capability (has required systems) and State (resources available).
+ *
+ * Whether the target lies on the body and whether the body has atmosphere
+ * depend on the celestials, so the handler checks them against the tick
+ * context after validation.
  */
 export const maneuverValidate: ActionValidator = (
-    _actor: Entity,
+    actor: Entity,
     _targets: Entity[],
-    _inputs: Record<string, unknown>
+    inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
-    // capability: does the entity have maneuvering thrusters?
-    // state: does the entity have sufficient fuel?
-    // stub: always returns false until implemented
-    return false;
+    if (!canPerform(actor, 'MANEUVER', entities)) {
+        return false;
+    }
+
+    // capability: must have surface propulsion (welded parts count)
+    if (getEffectivePhysics(actor, 'planetForce', entities) <= 0) {
+        return false;
+    }
+
+    // state check 1: must be on a surface
+    if (actor.zoomState !== 'SURFACE' || actor.surfaceBodyId === undefined || actor.surfacePosition === undefined) {
+        return false;
+    }
+
+    // state check 2: contained, welded or towed entities ride their parent
+    if (actor.parentId !== undefined || actor.weldParentId !== undefined || actor.towParentId !== undefined) {
+        return false;
+    }
+
+    // state check 3: must have a target position
+    return getTargetPosition(inputs) !== null;
 };
 
 /**
@@ -29,13 +133,23 @@ export const maneuverHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!maneuverValidate(actor, targets, inputs)) {
+    if (!maneuverValidate(actor, targets, inputs, context.entities)) {
+        return [];
+    }
+
+    const destination = getClosestReachablePoint(actor, getTargetPosition(inputs)!, context.state);
+    if (!destination) {
         return [];
     }
 
-    // implementation goes here
-    return [];
+    return [{
+        kind: 'update',
+        id: actor.id,
+        changes: {
+            surfacePosition: destination,
+        },
+    }];
 };
@@ -1,41 +1,187 @@
 // ===============================================
 // MANUFACTURE ACTION HANDLER
 // ===============================================
-// Handles building components from blueprints.
+// Handles building entities from blueprints.
+// Mineral stores within reach are reshaped into a new entity:
+// output mass = input mass, output volume = input volume, and the
+// blueprint derives the properties from the input mass.
+//
+// VALIDATION:
+// - actor needs canManufacture (on itself or a welded part)
+// - blueprintId must name a blueprint in the catalogue
+// - every target is a free MINERAL_STORE within the actor's reach
+// - input mass between the blueprint's minimum and the per-tick capacity
+//   (MANUFACTURE_MAX_MASS × the skill multiplier, 1.05^consecutive_ticks
+//   of building the same blueprint)
+//
+// The minerals are consumed: destroyed once the new entity holds them.
+// The new entity's ID is derived from the blueprint, the tick, the wave
+// and the actor (see getSpawnedId).
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect, EntitySpawn } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import type { FP, Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import { fpMulWide } from '../../primitive-types/euclidean/euclidean-types.js';
+import type { Blueprint } from '../../primitive-types/semantic/blueprint/blueprint-types.js';
+import { isMineralStore } from '../../primitive-types/semantic/entity/entity-types.js';
+import { getBlueprint } from '../../primitive-types/semantic/blueprint/blueprint-types.js';
+import { MANUFACTURE_MAX_MASS } from '../../config/engineConfig.js';
+import { canReach } from '../../state-handlers/state-systems/spatialIndex.js';
+import {
+    getLocalPosition,
+    getPlacementInSpaceOf,
+} from '../../state-handlers/state-systems/surfaceSystem.js';
+import { withTotalMass } from '../../state-handlers/state-systems/massSystem.js';
+import { getSpawnedId } from '../../state-handlers/state-systems/effectSystem.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
+import {
+    getManufactureInputs,
+    getManufacturedBody,
+} from '../../state-handlers/state-systems/manufactureSystem.js';
+import {
+    getStreakCount,
+    getNextSkillStreak,
+    getSkillMultiplier,
+} from '../../state-handlers/state-systems/streakSystem.js';
+
+// -----------------------------------------------
+// Input Extraction
+// -----------------------------------------------
+
+function getPosition(inputs: Record<string, unknown>): Vector2FP | null {
+    const position = inputs['position'];
+    if (typeof position !== 'object' || position === null) return null;
+
+    const { x, y } = position as Vector2FP;
+    if (typeof x !== 'number' || typeof y !== 'number') return null;
+    return { x, y };
+}
+
+/**
+ * the deterministic ID of the entity a MANUFACTURE spawns.
+ */
+export function getManufacturedId(
+    blueprint: Blueprint,
+    context: Pick<TickContext, 'tick' | 'wave'>,
+    actor: Entity
+): string {
+    return getSpawnedId(blueprint.id, context, actor.id, 0);
+}
+
+/**
+ * mineral mass the actor can reshape this tick after `streakCount`
+ * consecutive ticks on the same blueprint.
+ */
+function getCapacity(streakCount: number): FP {
+    return fpMulWide(MANUFACTURE_MAX_MASS, getSkillMultiplier('MANUFACTURE', streakCount));
+}
+
+// -----------------------------------------------
+// Validation
+// -----------------------------------------------
 
 /**
- * Validates whether the manufacture action can be performed.
- * Checks both Capability (has required systems) and State (resources available).
+ * validates the MANUFACTURE action (see header).
  */
 export const manufactureValidate: ActionValidator = (
-    _actor: Entity,
-    _targets: Entity[],
-    _inputs: Record<string, unknown>
+    actor: Entity,
+    targets: Entity[],
+    inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
-    // capability: does the entity have a fabrication bay?
-    // state: does the entity have required refined materials?
-    // stub: always returns false until implemented
-    return false;
+    if (!canPerform(actor, 'MANUFACTURE', entities)) {
+        return false;
+    }
+
+    const blueprint = getBlueprint(inputs['blueprintId']);
+    if (!blueprint) return false;
+
+    // must have at least one mineral, each listed once
+    if (targets.length === 0) return false;
+    if (new Set(targets.map(t => t.id)).size !== targets.length) return false;
+
+    for (const mineral of targets) {
+        // only free mineral stores can be reshaped
+        if (!isMineralStore(mineral)) return false;
+        if (mineral.weldParentId !== undefined || mineral.towParentId !== undefined) return false;
+
+        // a spent store has nothing left
+        if (mineral.mass <= 0 && mineral.volume <= 0) return false;
+
+        if (!canReach(actor, mineral)) return false;
+    }
+
+    // limits: the template's minimum and the per-tick capacity.
+    // there is no tick here, so a streak on this blueprint is taken as
+    // live; the handler re-checks it against the tick
+    const streak = actor.skillStreak;
+    const streakCount = streak?.actionType === 'MANUFACTURE' && streak.targetId === blueprint.id
+        ? streak.count
+        : 0;
+    const { mass } = getManufactureInputs(targets);
+    return mass >= blueprint.minMass && mass <= getCapacity(streakCount);
 };
 
+// -----------------------------------------------
+// Handler
+// -----------------------------------------------
+
 /**
- * Executes the manufacture action.
- * Rule: handler must call validate first to prevent illegal action desync.
+ * executes the MANUFACTURE action:
+ * - spawns the blueprint's entity with the minerals' exact mass and volume
+ * - places it at the requested position (or the actor's), in the actor's space
+ * - destroys every mineral store
+ * - extends the actor's skill streak on the blueprint
  */
 export const manufactureHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!manufactureValidate(actor, targets, inputs)) {
+    if (!manufactureValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
-    // implementation goes here
-    return [];
+    const blueprint = getBlueprint(inputs['blueprintId']);
+    if (!blueprint) return [];
+
+    // gate: a broken streak no longer covers a mass its multiplier allowed
+    const streakCount = getStreakCount(actor, 'MANUFACTURE', blueprint.id, context.tick);
+    if (getManufactureInputs(targets).mass > getCapacity(streakCount)) {
+        return [];
+    }
+
+    const updates: EntityEffect[] = [];
+
+    // spawn the manufactured entity
+    const spawn: EntitySpawn = {
+        kind: 'spawn',
+        entity: {
+            id: getManufacturedId(blueprint, context, actor),
+            type: 'ENTITY',
+            ...getPlacementInSpaceOf(actor, getPosition(inputs) ?? getLocalPosition(actor)),
+            ...getManufacturedBody(blueprint, targets),
+            playerId: actor.playerId,
+            creationTick: context.tick,
+        },
+    };
+    updates.push(spawn);
+
+    // skill: building the same blueprint again extends the streak
+    updates.push({
+        kind: 'update',
+        id: actor.id,
+        changes: {
+            skillStreak: getNextSkillStreak(actor, 'MANUFACTURE', blueprint.id, context.tick),
+        },
+    });
+
+    // the minerals now live in the new entity
+    for (const mineral of targets) {
+        updates.push({ kind: 'destroy', id: mineral.id, cascade: 'DESTROY' });
+    }
+
+    return withTotalMass(updates, [...context.entities, actor, ...targets]);
 };
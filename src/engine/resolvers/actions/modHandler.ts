@@ -1,41 +1,199 @@
 // ===============================================
 // MOD ACTION HANDLER
 // ===============================================
-// Handles applying modifications to entity properties.
+// Handles permanently fusing mineral stores into an entity.
+// Each mineral resonates with the target's dominant physics property
+// (see modSystem): boost = value × purity × 0.1, and the mineral's mass
+// and volume join the target. Unlike WELD, a MOD cannot be undone.
+//
+// VALIDATION:
+// - actor needs canWeld (modding is the same manipulation capability)
+// - the target is the actor itself or within the actor's reach
+// - every mineral is a free MINERAL_STORE within the actor's reach
+// - zero-purity slag is rejected, as is a target with nothing to resonate
+// - expectedProperty, if given, must be the property that resonates
+//
+// The mineral store is consumed: destroyed once its mass and volume
+// have joined the target.
+// The target records what resonated in lastMod for the UI and narration.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect, EntityUpdate, ModResonance } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import { isMineralStore } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { ScalarPhysicsProperty } from '../../primitive-types/semantic/property/property-types.js';
+import { canReach } from '../../state-handlers/state-systems/spatialIndex.js';
+import { withTotalMass } from '../../state-handlers/state-systems/massSystem.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
+import {
+    applyModResonance,
+    getModResonance,
+    isResonantProperty,
+} from '../../state-handlers/state-systems/modSystem.js';
+
+// -----------------------------------------------
+// Input Extraction
+// -----------------------------------------------
+
+interface ModInputs {
+    mineralIds: string[];
+    targetId?: string;
+    expectedProperty?: ScalarPhysicsProperty;
+}
+
+function getModInputs(inputs: Record<string, unknown>): ModInputs | null {
+    const mineralIds = inputs['mineralTargetIds'];
+    const targetIds = inputs['targetIds'];
+    const expectedProperty = inputs['expectedProperty'];
+
+    if (!Array.isArray(mineralIds) || mineralIds.length === 0) {
+        return null;
+    }
+    if (!mineralIds.every(id => typeof id === 'string') || new Set(mineralIds).size !== mineralIds.length) {
+        return null;
+    }
+
+    // one entity is modded per action
+    if (targetIds !== undefined && (!Array.isArray(targetIds) || targetIds.length !== 1)) {
+        return null;
+    }
+    const targetId: unknown = targetIds?.[0];
+    if (targetId !== undefined && typeof targetId !== 'string') {
+        return null;
+    }
+
+    // permissions (and anything else that is not a resonant property) cannot be boosted
+    if (expectedProperty !== undefined && !isResonantProperty(expectedProperty)) {
+        return null;
+    }
+
+    return { mineralIds: mineralIds as string[], targetId, expectedProperty };
+}
+
+// -----------------------------------------------
+// Planning
+// -----------------------------------------------
+
+interface ModPlan {
+    // the target after every mineral is fused (mass not yet refreshed)
+    target: Entity;
+    minerals: Entity[];
+    resonances: ModResonance[];
+}
 
 /**
- * Validates whether the mod action can be performed.
- * Checks both Capability (has required systems) and State (resources available).
+ * resolves the target and fuses each mineral in order; each fusion can
+ * shift the dominant property for the next. null if any step is invalid.
+ */
+function planMod(
+    actor: Entity,
+    targets: Entity[],
+    modInputs: ModInputs,
+    entities: readonly Entity[]
+): ModPlan | null {
+    // the target may be the actor itself (the resolver keeps the actor out of targets)
+    const targetId = modInputs.targetId ?? actor.id;
+    const original = targetId === actor.id ? actor : targets.find(t => t.id === targetId);
+    if (!original) return null;
+    if (original.id !== actor.id && !canReach(actor, original)) return null;
+
+    let target = original;
+    const minerals: Entity[] = [];
+    const resonances: ModResonance[] = [];
+
+    for (const mineralId of modInputs.mineralIds) {
+        const mineral = targets.find(t => t.id === mineralId);
+        if (!mineral || mineral.id === target.id) return null;
+
+        // only a free mineral store can be fused
+        if (!isMineralStore(mineral) || mineral.weldParentId !== undefined || mineral.towParentId !== undefined) {
+            return null;
+        }
+        if (!canReach(actor, mineral)) return null;
+
+        // zero-purity slag and targets without a physics magnitude fail here
+        const resonance = getModResonance(target, mineral, entities);
+        if (!resonance) return null;
+
+        target = applyModResonance(target, mineral, resonance);
+        minerals.push(mineral);
+        resonances.push(resonance);
+    }
+
+    // preview knob: the first mineral must land where the player expected
+    if (modInputs.expectedProperty !== undefined && resonances[0]?.property !== modInputs.expectedProperty) {
+        return null;
+    }
+
+    return { target, minerals, resonances };
+}
+
+// -----------------------------------------------
+// Validation
+// -----------------------------------------------
+
+/**
+ * validates the MOD action (see header).
  */
 export const modValidate: ActionValidator = (
-    _actor: Entity,
-    _targets: Entity[],
-    _inputs: Record<string, unknown>
+    actor: Entity,
+    targets: Entity[],
+    inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
-    // capability: does the entity have modification tools?
-    // state: is the modification type valid for the target?
-    // stub: always returns false until implemented
-    return false;
+    if (!canPerform(actor, 'MOD', entities)) {
+        return false;
+    }
+
+    const modInputs = getModInputs(inputs);
+    if (!modInputs) return false;
+
+    return planMod(actor, targets, modInputs, entities) !== null;
 };
 
+// -----------------------------------------------
+// Handler
+// -----------------------------------------------
+
 /**
- * Executes the mod action.
- * Rule: handler must call validate first to prevent illegal action desync.
+ * executes the MOD action:
+ * - boosts the target's dominant property once per mineral
+ * - adds each mineral's mass and volume to the target
+ * - destroys each mineral store
+ * - records the resonances on the target (lastMod)
  */
 export const modHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!modValidate(actor, targets, inputs)) {
+    if (!modValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
-    // implementation goes here
-    return [];
+    const modInputs = getModInputs(inputs);
+    if (!modInputs) return [];
+
+    const plan = planMod(actor, targets, modInputs, context.entities);
+    if (!plan) return [];
+
+    const boosted = plan.resonances.map(r => r.property);
+    const targetChanges: EntityUpdate['changes'] = {
+        dryMass: plan.target.dryMass,
+        volume: plan.target.volume,
+        lastMod: { tick: context.tick, resonances: plan.resonances },
+    };
+    for (const property of boosted) {
+        targetChanges[property] = plan.target[property];
+    }
+
+    const updates: EntityEffect[] = [{ kind: 'update', id: plan.target.id, changes: targetChanges }];
+
+    // the mineral now lives in the target's structure
+    for (const mineral of plan.minerals) {
+        updates.push({ kind: 'destroy', id: mineral.id, cascade: 'DESTROY' });
+    }
+
+    return withTotalMass(updates, [...context.entities, actor, ...targets]);
 };
@@ -3,18 +3,24 @@
 // ===============================================
 // Handles orienting the scanner in a direction.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
 
 /**
  * Validates whether the move scanner action can be performed.
  * Checks both Capability (has required systems) and State (resources available).
  */
 export const moveScannerValidate: ActionValidator = (
-    _actor: Entity,
+    actor: Entity,
     _targets: Entity[],
-    _inputs: Record<string, unknown>
+    _inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    if (!canPerform(actor, 'MOVE_SCANNER', entities)) {
+        return false;
+    }
+
     // capability: does the entity have a directional scanner?
     // state: is the scanner not currently locked or damaged?
     // stub: always returns false until implemented
@@ -29,10 +35,10 @@ export const moveScannerHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!moveScannerValidate(actor, targets, inputs)) {
+    if (!moveScannerValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
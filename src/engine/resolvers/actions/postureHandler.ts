@@ -0,0 +1,58 @@
+// ===============================================
+// POSTURE ACTION HANDLER
+// ===============================================
+// Handles setting an entity's broadcast and real posture.
+//
+// VALIDATION:
+// - actor needs canPosture (on itself or a welded part)
+// - at least one of realPosture / broadcastPosture is given
+// - realPosture is one the actor can hold, at most one step from its
+//   current real posture (naming the current one holds it)
+// - broadcastPosture can be any posture: it is a claim, not a stance
+//
+// A realPosture takes the actor's whole tick: the tick resolver voids
+// its other actions (see postureSystem).
+
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import { isPosture, canTakePostures } from '../../state-handlers/state-systems/postureSystem.js';
+
+/**
+ * validates the POSTURE action (see header).
+ */
+export const postureValidate: ActionValidator = (
+    actor: Entity,
+    _targets: Entity[],
+    inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
+): boolean => {
+    return canTakePostures(actor, inputs['realPosture'], inputs['broadcastPosture'], entities);
+};
+
+/**
+ * executes the POSTURE action: sets whichever postures were given.
+ * rule: handler must call validate first to prevent illegal action desync.
+ */
+export const postureHandler: ActionHandler = (
+    actor: Entity,
+    targets: Entity[],
+    inputs: Record<string, unknown>,
+    context: TickContext
+): EntityEffect[] => {
+    // gate: validation must pass before any state mutation
+    if (!postureValidate(actor, targets, inputs, context.entities)) {
+        return [];
+    }
+
+    const realPosture = inputs['realPosture'];
+    const broadcastPosture = inputs['broadcastPosture'];
+
+    return [{
+        kind: 'update',
+        id: actor.id,
+        changes: {
+            ...(isPosture(realPosture) ? { realPosture } : {}),
+            ...(isPosture(broadcastPosture) ? { broadcastPosture } : {}),
+        },
+    }];
+};
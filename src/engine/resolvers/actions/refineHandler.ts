@@ -3,20 +3,30 @@
 // ===============================================
 // Processes volatilesMass into fuelMass with efficiency loss.
 // waste = input - output; total mass decreases by waste amount.
+// Refining tick after tick scales the batch cap by 1.05^consecutive_ticks.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
 import type { FP } from '../../primitive-types/euclidean/euclidean-types.js';
 import {
     fpSub,
     fpAdd,
     fpMul,
+    fpMulWide,
     fpMin,
 } from '../../primitive-types/euclidean/euclidean-types.js';
 import {
     REFINE_EFFICIENCY,
     REFINE_MAX_BATCH,
 } from '../../config/engineConfig.js';
+import { withTotalMass } from '../../state-handlers/state-systems/massSystem.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
+import {
+    getSkillTargetId,
+    getStreakCount,
+    getNextSkillStreak,
+    getSkillMultiplier,
+} from '../../state-handlers/state-systems/streakSystem.js';
 
 // -----------------------------------------------
 // Input Extraction Helpers
@@ -30,6 +40,14 @@ function getVolatilesAmount(inputs: Record<string, unknown>): FP {
     return 0;
 }
 
+/**
+ * volatiles the actor can refine this tick after `streakCount`
+ * consecutive ticks on the same refinery.
+ */
+function getBatchCapacity(streakCount: number): FP {
+    return fpMulWide(REFINE_MAX_BATCH, getSkillMultiplier('REFINE', streakCount));
+}
+
 // -----------------------------------------------
 // Validation
 // -----------------------------------------------
@@ -43,8 +61,13 @@ function getVolatilesAmount(inputs: Record<string, unknown>): FP {
 export const refineValidate: ActionValidator = (
     actor: Entity,
     _targets: Entity[],
-    inputs: Record<string, unknown>
+    inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    if (!canPerform(actor, 'REFINE', entities)) {
+        return false;
+    }
+
     // state: must have volatiles to refine
     if (actor.volatilesMass <= 0) {
         return false;
@@ -67,48 +90,49 @@ export const refineValidate: ActionValidator = (
  * Executes the refine action.
  * 
  * Process:
- * 1. Cap input by REFINE_MAX_BATCH and available volatilesMass
+ * 1. Cap input by REFINE_MAX_BATCH scaled by the skill multiplier,
+ *    then by available volatilesMass
  * 2. fuelGenerated = amount * REFINE_EFFICIENCY
  * 3. waste = amount - fuelGenerated
- * 4. Update: volatilesMass -= amount, fuelMass += fuelGenerated, mass -= waste
+ * 4. Update: volatilesMass -= amount, fuelMass += fuelGenerated
+ *    (total mass drops by exactly the waste)
  */
 export const refineHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass
-    if (!refineValidate(actor, targets, inputs)) {
+    if (!refineValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
     // determine actual amount to process
     let amount = getVolatilesAmount(inputs);
-    
-    // cap by max batch size
-    amount = fpMin(amount, REFINE_MAX_BATCH);
-    
+
+    // cap by batch size; skill: a refining streak grows the cap
+    const refineryId = getSkillTargetId('REFINE', actor.id, inputs);
+    const streakCount = getStreakCount(actor, 'REFINE', refineryId, context.tick);
+    amount = fpMin(amount, getBatchCapacity(streakCount));
+
     // cap by available volatiles
     amount = fpMin(amount, actor.volatilesMass);
 
     // calculate output fuel (efficiency applied)
     const fuelGenerated = fpMul(amount, REFINE_EFFICIENCY);
 
-    // calculate waste (lost during refining)
-    const waste = fpSub(amount, fuelGenerated);
-
-    // compute new values
+    // compute new values; the waste (amount - fuelGenerated) leaves the ship
     const newVolatilesMass = fpSub(actor.volatilesMass, amount);
     const newFuelMass = fpAdd(actor.fuelMass, fuelGenerated);
-    const newMass = fpSub(actor.mass, waste);
 
-    return [{
+    return withTotalMass([{
+        kind: 'update',
         id: actor.id,
         changes: {
             volatilesMass: newVolatilesMass,
             fuelMass: newFuelMass,
-            mass: newMass,
+            skillStreak: getNextSkillStreak(actor, 'REFINE', refineryId, context.tick),
         },
-    }];
+    }], [...context.entities, actor]);
 };
@@ -3,18 +3,24 @@
 // ===============================================
 // Handles active scanning at a specified intensity.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
 
 /**
  * Validates whether the scan action can be performed.
  * Checks both Capability (has required systems) and State (resources available).
  */
 export const scanValidate: ActionValidator = (
-    _actor: Entity,
+    actor: Entity,
     _targets: Entity[],
-    _inputs: Record<string, unknown>
+    _inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    if (!canPerform(actor, 'SCAN', entities)) {
+        return false;
+    }
+
     // capability: does the entity have active scanner array?
     // state: does the entity have power for the scan intensity?
     // stub: always returns false until implemented
@@ -29,10 +35,10 @@ export const scanHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!scanValidate(actor, targets, inputs)) {
+    if (!scanValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
@@ -4,8 +4,9 @@
 // handles sealing an entity's airlock.
 // a sealed airlock is required for structural operations (WELD).
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
 
 /**
  * validates whether the seal airlock action can be performed.
@@ -14,8 +15,13 @@ import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.
 export const sealAirlockValidate: ActionValidator = (
     actor: Entity,
     _targets: Entity[],
-    _inputs: Record<string, unknown>
+    _inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    if (!canPerform(actor, 'SEAL_AIRLOCK', entities)) {
+        return false;
+    }
+
     // state check: airlock must currently be unsealed
     if (actor.airlockSealed) {
         return false;
@@ -32,14 +38,15 @@ export const sealAirlockHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!sealAirlockValidate(actor, targets, inputs)) {
+    if (!sealAirlockValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
     return [{
+        kind: 'update',
         id: actor.id,
         changes: {
             airlockSealed: true,
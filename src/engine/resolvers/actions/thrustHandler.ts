@@ -4,29 +4,32 @@
 // Handles direct thrust application to an entity.
 // Newtonian thrust: converts direction + magnitude into delta-V,
 // consumes fuel, and reduces mass accordingly.
+// Limits and fuel cost come from the propulsion system:
+// Δv_max = spaceForce / m, fuel_cost = Δv × m × fuel_efficiency_constant
 //
 // Direction can come from:
 // 1. Action's direction vector (if provided and non-zero)
 // 2. Fallback: actor's heading (for backward compatibility)
+//
+// In ORBIT, delta-V does not change velocity directly; it goes through
+// the rail's threshold gates (land / stay / escape), see orbitSystem.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import type { Planet } from '../../primitive-types/semantic/celestial/celestial-types.js';
 import type { FP, Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
 import {
-    fpSub,
-    fpMul,
     fpMin,
-    fpClamp,
     fpScaleVector,
     fpAddVector,
     fpHeadingToVector,
 } from '../../primitive-types/euclidean/euclidean-types.js';
-import {
-    FUEL_BURN_RATE,
-    MASS_PROPULSION_LOSS,
-    MINIMUM_FUEL_THRESHOLD,
-    MAX_THRUST_PER_TICK,
-} from '../../config/engineConfig.js';
+import { MINIMUM_FUEL_THRESHOLD } from '../../config/engineConfig.js';
+import { getMaxThrustDeltaV, getPropellantBurn } from '../../state-handlers/state-systems/propulsionSystem.js';
+import { withTotalMass } from '../../state-handlers/state-systems/massSystem.js';
+import { resolveRailThrust } from '../../state-handlers/state-systems/orbitSystem.js';
+import { findSurfaceMap } from '../../state-handlers/state-systems/surfaceSystem.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
 
 /**
  * Extract magnitude from inputs, with type safety
@@ -58,6 +61,17 @@ function getDirection(inputs: Record<string, unknown>): Vector2FP | null {
     return null;
 }
 
+/**
+ * Find the planet whose rail the actor is riding (if in ORBIT)
+ */
+function getOrbitedPlanet(actor: Entity, context: TickContext): Planet | null {
+    if (actor.zoomState !== 'ORBIT' || actor.orbitTargetId === undefined) {
+        return null;
+    }
+    const celestial = context.state.celestials.find(c => c.id === actor.orbitTargetId);
+    return celestial?.type === 'PLANET' ? celestial : null;
+}
+
 /**
  * Validates whether the thrust action can be performed.
  * Checks both Capability (has required systems) and State (resources available).
@@ -65,10 +79,20 @@ function getDirection(inputs: Record<string, unknown>): Vector2FP | null {
 export const thrustValidate: ActionValidator = (
     actor: Entity,
     _targets: Entity[],
-    inputs: Record<string, unknown>
+    inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
-    // capability: for now, all entities can thrust (no component system yet)
-    // future: check if actor has ENGINE component
+    if (!canPerform(actor, 'THRUST', entities)) {
+        return false;
+    }
+
+    // capability: the engine may sit on a welded part, so the force check
+    // happens in the handler, where the whole structure is visible
+
+    // context: thrust only exists in space/orbit (surface movement is MANEUVER)
+    if (actor.zoomState === 'SURFACE') {
+        return false;
+    }
 
     // state check 1: must have fuel above minimum threshold
     if (actor.fuelMass <= MINIMUM_FUEL_THRESHOLD) {
@@ -91,29 +115,28 @@ export const thrustValidate: ActionValidator = (
  *
  * Physics:
  * - Delta-V is derived from direction vector (or heading fallback) and magnitude
- * - Fuel consumed = magnitude * FUEL_BURN_RATE
- * - Mass lost = magnitude * MASS_PROPULSION_LOSS
- * - If requested magnitude exceeds available fuel, burn only what's available
+ * - Magnitude is capped by spaceForce / total mass, MAX_THRUST_PER_TICK and fuel
+ * - Fuel consumed = delta-V * total mass * FUEL_EFFICIENCY_CONSTANT
+ * - Mass lost = fuel consumed
+ * - In ORBIT: E = v(ω) + Δv·tangent (rail speed plus delta-V along the rail) selects land / stay / escape
  */
 export const thrustHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!thrustValidate(actor, targets, inputs)) {
+    if (!thrustValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
-    // extract magnitude
-    let magnitude = getMagnitude(inputs);
-    magnitude = fpClamp(magnitude, 0, MAX_THRUST_PER_TICK);
-
-    // if requested magnitude exceeds available fuel, only burn what we have
-    // effective magnitude is limited by fuel / burn rate
-    const maxMagnitudeFromFuel = fpMul(actor.fuelMass, FUEL_BURN_RATE);
-    const effectiveMagnitude = fpMin(magnitude, maxMagnitudeFromFuel);
+    // limit the request to what the engines and the fuel on board allow
+    const maxDeltaV = getMaxThrustDeltaV(actor, context.entities);
+    if (maxDeltaV <= 0) {
+        return [];
+    }
+    const effectiveMagnitude = fpMin(getMagnitude(inputs), maxDeltaV);
 
     // compute delta-V
     // priority: use action's direction if provided, otherwise use actor's heading
@@ -128,25 +151,40 @@ export const thrustHandler: ActionHandler = (
         deltaV = fpHeadingToVector(actor.heading, effectiveMagnitude);
     }
 
-    // compute new velocity
-    const newVelocity = fpAddVector(actor.velocity, deltaV);
+    // propellant leaves the ship: fuel and mass drop by the same amount
+    const burn = getPropellantBurn(actor, effectiveMagnitude);
 
-    // compute fuel consumption
-    const fuelConsumed = fpMul(effectiveMagnitude, FUEL_BURN_RATE);
-    const newFuelMass = fpSub(actor.fuelMass, fuelConsumed);
+    // on the rail: delta-V is the key to one of three doors
+    const orbitedPlanet = getOrbitedPlanet(actor, context);
+    if (orbitedPlanet) {
+        return withTotalMass([{
+            kind: 'update',
+            id: actor.id,
+            changes: {
+                ...resolveRailThrust(
+                    actor,
+                    orbitedPlanet,
+                    deltaV,
+                    findSurfaceMap(context.state.surfaces, orbitedPlanet.id),
+                    context.entities
+                ),
+                ...burn,
+                thrust: effectiveMagnitude,
+            },
+        }], [...context.entities, actor]);
+    }
 
-    // compute mass loss (propellant ejection)
-    const massLost = fpMul(effectiveMagnitude, MASS_PROPULSION_LOSS);
-    const newMass = fpSub(actor.mass, massLost);
+    // in space: vacuum table, delta-V adds to the existing vector
+    const newVelocity = fpAddVector(actor.velocity, deltaV);
 
     // return the entity update
-    return [{
+    return withTotalMass([{
+        kind: 'update',
         id: actor.id,
         changes: {
             velocity: newVelocity,
-            fuelMass: newFuelMass,
-            mass: newMass,
+            ...burn,
             thrust: effectiveMagnitude,
         },
-    }];
+    }], [...context.entities, actor]);
 };
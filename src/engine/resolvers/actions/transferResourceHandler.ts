@@ -2,20 +2,32 @@
 // TRANSFER RESOURCE ACTION HANDLER
 // ===============================================
 // Handles resource transfer (crude volatiles or refined fuel) between two entities
+// Bodies (people) cannot be traded: no body can be a party to a transfer.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
+import { isBody } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
 
 /**
  * Validates whether the transfer action can be performed.
  * Checks both capability (has required systems) and state (resources available).
  */
 export const transferResourceValidate: ActionValidator = (
-    _actor: Entity,
-    _targets: Entity[],
-    _inputs: Record<string, unknown>
-
+    actor: Entity,
+    targets: Entity[],
+    _inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    if (!canPerform(actor, 'TRANSFER_RESOURCE', entities)) {
+        return false;
+    }
+
+    // bodies cannot be traded
+    if (targets.some(isBody)) {
+        return false;
+    }
+
     // capability: does the entity have fuelStore or volatilesStore capability?
     // state: are the origin and target entities in a valid state for transfer?
     // stub: always returns false until implemented
@@ -30,10 +42,10 @@ export const transferResourceHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!transferResourceValidate(actor, targets, inputs)) {
+    if (!transferResourceValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
@@ -1,41 +1,161 @@
 // ===============================================
 // TRANSPORT ACTION HANDLER
 // ===============================================
-// Handles entity transport to a destination coordinate.
+// handles towing/hauling entities within reach while the actor maneuvers.
+// unlike LOAD (containment) or WELD (fusion), a tow lasts one tick:
+// the towed entity keeps its offset from the actor and follows every
+// displacement of the actor until the tick settles.
+//
+// LIMITS:
+// - total towed mass <= actor.maxLoad (mass includes loaded contents and welded parts)
+// - total towed volume <= actor.maxVolume
+// - loads already towed by the actor this tick count toward both limits
+//
+// ZOOM:
+// - SURFACE: the towed entity follows the actor's surfacePosition
+// - SPACE: the towed entity follows the actor's position (translation included)
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import type { FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import { fpAdd, fpSubVector } from '../../primitive-types/euclidean/euclidean-types.js';
+import { getLocalPosition } from '../../state-handlers/state-systems/surfaceSystem.js';
+import { canReach } from '../../state-handlers/state-systems/spatialIndex.js';
+import { canPerform, getEffectivePhysics, hasCapability } from '../../state-handlers/state-systems/propertySystem.js';
+
+// -----------------------------------------------
+// Helper Functions
+// -----------------------------------------------
 
 /**
- * Validates whether the transport action can be performed.
- * Checks both Capability (has required systems) and State (resources available).
+ * checks if an entity lives in a zoom where towing exists
+ */
+function isTowZoom(entity: Entity): boolean {
+    return entity.zoomState === 'SURFACE' || entity.zoomState === 'SPACE';
+}
+
+/**
+ * sums the mass and volume of a set of loads.
+ * an entity's mass already includes its loaded contents and welded parts
+ * (LOAD and WELD fold them in), so hauling a full container costs its full mass.
+ */
+function sumLoads(loads: readonly Entity[]): { mass: FP; volume: FP } {
+    let mass: FP = 0;
+    let volume: FP = 0;
+
+    for (const load of loads) {
+        mass = fpAdd(mass, load.mass);
+        volume = fpAdd(volume, load.volume);
+    }
+
+    return { mass, volume };
+}
+
+/**
+ * checks a haul against the actor's maxLoad and maxVolume
+ * (summed over the actor's welded parts)
+ */
+function isWithinLimits(actor: Entity, loads: readonly Entity[], entities: readonly Entity[]): boolean {
+    const { mass, volume } = sumLoads(loads);
+    return mass <= getEffectivePhysics(actor, 'maxLoad', entities)
+        && volume <= getEffectivePhysics(actor, 'maxVolume', entities);
+}
+
+// -----------------------------------------------
+// Validation
+// -----------------------------------------------
+
+/**
+ * validates the TRANSPORT action:
+ * - actor must have hauling capability (maxLoad) and reach
+ * - actor must be a free root entity in SURFACE or SPACE
+ * - each target must be within reach, not self, not a resource well
+ * - each target must be a free root entity (contents and welded parts ride their parent)
+ * - combined targets must fit within maxLoad and maxVolume
  */
 export const transportValidate: ActionValidator = (
-    _actor: Entity,
-    _targets: Entity[],
-    _inputs: Record<string, unknown>
+    actor: Entity,
+    targets: Entity[],
+    _inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
-    // capability: does the entity have transport capability?
-    // state: is the entity in a valid state for transport?
-    // stub: always returns false until implemented
-    return false;
+    if (!canPerform(actor, 'TRANSPORT', entities)) {
+        return false;
+    }
+
+    // must have at least one target
+    if (targets.length === 0) return false;
+
+    // capability: actor must be able to haul and reach
+    if (getEffectivePhysics(actor, 'maxLoad', entities) <= 0) return false;
+    if (actor.reach <= 0) return false;
+
+    // state: towing only exists on a surface or in open space
+    if (!isTowZoom(actor)) return false;
+
+    // state: contained, welded or towed actors ride something else
+    if (actor.parentId !== undefined || actor.weldParentId !== undefined || actor.towParentId !== undefined) {
+        return false;
+    }
+
+    for (const target of targets) {
+        // cannot tow self
+        if (target.id === actor.id) return false;
+
+        // cannot tow celestial-bound wells
+        if (target.type === 'RESOURCE_WELL' || target.linkedCelestialId !== undefined) return false;
+
+        // target must be a free root entity
+        if (target.parentId !== undefined || target.weldParentId !== undefined || target.towParentId !== undefined) {
+            return false;
+        }
+
+        // target must be free to be moved
+        if (!hasCapability(target, 'canTranslate', entities)) return false;
+
+        // target must be within reach (same coordinate space)
+        if (!isTowZoom(target) || !canReach(actor, target)) return false;
+    }
+
+    // limits: the targets alone must fit
+    return isWithinLimits(actor, targets, entities);
 };
 
+// -----------------------------------------------
+// Handler
+// -----------------------------------------------
+
 /**
- * Executes the transport action.
- * Rule: handler must call validate first to prevent illegal action desync.
+ * executes the TRANSPORT action:
+ * - links each target to the actor (towParentId)
+ * - fixes each target's offset from the actor (towOffset)
+ * binding then keeps the targets at that offset for the rest of the tick.
  */
 export const transportHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!transportValidate(actor, targets, inputs)) {
+    if (!transportValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
-    // implementation goes here
-    return [];
+    // limits: loads already in tow this tick count toward the haul
+    const inTow = context.entities.filter(e => e.towParentId === actor.id);
+    if (!isWithinLimits(actor, [...inTow, ...targets], context.entities)) {
+        return [];
+    }
+
+    const actorPosition = getLocalPosition(actor);
+
+    return targets.map(target => ({
+        kind: 'update',
+        id: target.id,
+        changes: {
+            towParentId: actor.id,
+            towOffset: fpSubVector(getLocalPosition(target), actorPosition),
+        },
+    }));
 };
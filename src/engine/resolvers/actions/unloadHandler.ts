@@ -9,10 +9,12 @@
 // - content must exist and be contained
 // - new position must be provided
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
-import type { FP, Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
-import { fpDistanceSquared, fpMul, fpSub } from '../../primitive-types/euclidean/euclidean-types.js';
+import type { Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import { canReach } from '../../state-handlers/state-systems/spatialIndex.js';
+import { withTotalMass } from '../../state-handlers/state-systems/massSystem.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
 
 // -----------------------------------------------
 // Input Extraction
@@ -51,18 +53,6 @@ function getUnloadInputs(inputs: Record<string, unknown>): UnloadInputs | null {
 // Helper Functions
 // -----------------------------------------------
 
-/**
- * checks if entity A can reach entity B (distance <= A.reach)
- */
-function canReach(actor: Entity, target: Entity): boolean {
-    if (actor.reach <= 0) return false;
-    
-    const distSquared = fpDistanceSquared(actor.position, target.position);
-    const reachSquared = fpMul(actor.reach, actor.reach);
-    
-    return distSquared <= reachSquared;
-}
-
 /**
  * finds the container entity for a given content.
  */
@@ -84,8 +74,13 @@ function findContainer(content: Entity, entities: readonly Entity[]): Entity | u
 export const unloadValidate: ActionValidator = (
     actor: Entity,
     targets: Entity[],
-    inputs: Record<string, unknown>
+    inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    if (!canPerform(actor, 'UNLOAD', entities)) {
+        return false;
+    }
+
     const unloadInputs = getUnloadInputs(inputs);
     if (!unloadInputs) return false;
 
@@ -134,6 +129,8 @@ function validateWithContext(
 ): { valid: boolean; containers: Map<string, Entity> } {
     const result = { valid: false, containers: new Map<string, Entity>() };
 
+    if (!canPerform(actor, 'UNLOAD', context.entities)) return result;
+
     const unloadInputs = getUnloadInputs(inputs);
     if (!unloadInputs) return result;
 
@@ -183,14 +180,15 @@ function validateWithContext(
  * executes the UNLOAD action:
  * - sets content.parentId = undefined
  * - sets content.position = newPosition
- * - updates original container's mass by subtracting content mass
+ * - refreshes the original container's mass (and any structure above it)
+ *   without the content's total mass
  */
 export const unloadHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
     context: TickContext
-): EntityUpdate[] => {
+): EntityEffect[] => {
     // validate with context
     const validation = validateWithContext(actor, targets, inputs, context);
     if (!validation.valid) {
@@ -200,10 +198,7 @@ export const unloadHandler: ActionHandler = (
     const unloadInputs = getUnloadInputs(inputs);
     if (!unloadInputs) return [];
 
-    const updates: EntityUpdate[] = [];
-    
-    // track mass to remove from each container
-    const containerMassReduction = new Map<string, FP>();
+    const updates: EntityEffect[] = [];
 
     // process each content entity
     for (let i = 0; i < unloadInputs.contentIds.length; i++) {
@@ -221,12 +216,9 @@ export const unloadHandler: ActionHandler = (
 
         const containerId = content.parentId;
 
-        // accumulate mass to remove from this container
-        const currentReduction = containerMassReduction.get(containerId) ?? 0;
-        containerMassReduction.set(containerId, currentReduction + content.mass);
-
         // create update for content entity
         updates.push({
+            kind: 'update',
             id: content.id,
             changes: {
                 parentId: undefined,
@@ -238,18 +230,6 @@ export const unloadHandler: ActionHandler = (
         });
     }
 
-    // update each container's mass
-    for (const [containerId, massReduction] of containerMassReduction) {
-        const container = validation.containers.get(containerId);
-        if (!container) continue;
-
-        updates.push({
-            id: containerId,
-            changes: {
-                mass: fpSub(container.mass, massReduction),
-            },
-        });
-    }
-
-    return updates;
+    // each former container sheds the content's mass
+    return withTotalMass(updates, [...context.entities, actor, ...targets]);
 };
@@ -3,8 +3,9 @@
 // ===============================================
 // handles unsealing an entity's airlock.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
 
 /**
  * validates whether the unseal airlock action can be performed.
@@ -13,8 +14,13 @@ import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.
 export const unsealAirlockValidate: ActionValidator = (
     actor: Entity,
     _targets: Entity[],
-    _inputs: Record<string, unknown>
+    _inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    if (!canPerform(actor, 'UNSEAL_AIRLOCK', entities)) {
+        return false;
+    }
+
     // state check: airlock must currently be sealed
     if (!actor.airlockSealed) {
         return false;
@@ -31,14 +37,15 @@ export const unsealAirlockHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!unsealAirlockValidate(actor, targets, inputs)) {
+    if (!unsealAirlockValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
     return [{
+        kind: 'update',
         id: actor.id,
         changes: {
             airlockSealed: false,
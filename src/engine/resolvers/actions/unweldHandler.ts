@@ -2,29 +2,30 @@
 // UNWELD ACTION HANDLER
 // ===============================================
 // handles structural separation of welded entities.
-// the separated entity inherits the structure's velocity at separation.
+// components are rebuilt from the weld parent's weldHistory:
+// - only the latest weld comes off (A+B+C -> A+B), one record per action
+// - each component regains the velocity it had relative to the structure
+//   when it was welded: v = v_structure + (v_before - v_weld)
+// - the structure root keeps the rest of the momentum
+// - once the parent's history is empty the combined structure is gone
+// parts welded before weld history existed separate at the structure's velocity.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect, EntityUpdate, WeldRecord } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
-import type { FP } from '../../primitive-types/euclidean/euclidean-types.js';
-import { fpSub, fpDistanceSquared, fpMul } from '../../primitive-types/euclidean/euclidean-types.js';
+import type { FP, Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import {
+    fpAddVector,
+    fpSubVector,
+    fpCombinedVelocity,
+} from '../../primitive-types/euclidean/euclidean-types.js';
+import { canReach } from '../../state-handlers/state-systems/spatialIndex.js';
+import { withTotalMass } from '../../state-handlers/state-systems/massSystem.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
 
 // -----------------------------------------------
 // Helper Functions
 // -----------------------------------------------
 
-/**
- * checks if entity A can reach entity B (distance <= A.reach)
- */
-function canReach(actor: Entity, target: Entity): boolean {
-    if (actor.reach <= 0) return false;
-    
-    const distSquared = fpDistanceSquared(actor.position, target.position);
-    const reachSquared = fpMul(actor.reach, actor.reach);
-    
-    return distSquared <= reachSquared;
-}
-
 /**
  * finds the weld parent entity.
  */
@@ -36,6 +37,83 @@ function findWeldParent(
     return entities.find(e => e.id === entity.weldParentId);
 }
 
+/**
+ * the weld record a component came from, if it is the parent's latest weld.
+ */
+function findLatestWeld(target: Entity, parent: Entity): WeldRecord | undefined {
+    const latest = parent.weldHistory?.at(-1);
+    return latest?.components.some(c => c.id === target.id) ? latest : undefined;
+}
+
+/**
+ * checks the target can come off now: it belongs to the parent's latest
+ * weld, or the parent predates weld history.
+ */
+function isLatestWeld(target: Entity, parent: Entity): boolean {
+    return !parent.weldHistory?.length || findLatestWeld(target, parent) !== undefined;
+}
+
+/**
+ * checks if an entity rides (directly or not) on another welded entity.
+ */
+function isWeldedBelow(entity: Entity, ancestorId: string, entities: readonly Entity[]): boolean {
+    const visited = new Set<string>();
+    let current: Entity | undefined = entity;
+
+    while (current?.weldParentId && !visited.has(current.id)) {
+        if (current.weldParentId === ancestorId) return true;
+        visited.add(current.id);
+        current = findWeldParent(current, entities);
+    }
+    return false;
+}
+
+/**
+ * walks up the weld chain to the entity that carries the structure's velocity.
+ */
+function findStructureRoot(entity: Entity, entities: readonly Entity[]): Entity {
+    const visited = new Set<string>([entity.id]);
+    let root = entity;
+
+    let parent = findWeldParent(root, entities);
+    while (parent && !visited.has(parent.id)) {
+        visited.add(parent.id);
+        root = parent;
+        parent = findWeldParent(root, entities);
+    }
+    return root;
+}
+
+/**
+ * velocity a component leaves with: the structure's velocity plus the
+ * drift it had relative to the structure when it was welded.
+ */
+function getSeparationVelocity(target: Entity, parent: Entity, structureVelocity: Vector2FP): Vector2FP {
+    const record = findLatestWeld(target, parent);
+    const snapshot = record?.components.find(c => c.id === target.id);
+    if (!record || !snapshot) {
+        return { ...structureVelocity };
+    }
+    return fpAddVector(structureVelocity, fpSubVector(snapshot.velocity, record.velocity));
+}
+
+/**
+ * the parent's history once the unwelded components are gone:
+ * the latest record shrinks, and is popped once empty.
+ */
+function popWeldHistory(parent: Entity, unweldedIds: ReadonlySet<string>): WeldRecord[] | undefined {
+    const history = parent.weldHistory ?? [];
+    const latest = history.at(-1);
+    if (!latest) return undefined;
+
+    const remaining = latest.components.filter(c => !unweldedIds.has(c.id));
+    const next = remaining.length > 0
+        ? [...history.slice(0, -1), { ...latest, components: remaining }]
+        : history.slice(0, -1);
+
+    return next.length > 0 ? next : undefined;
+}
+
 // -----------------------------------------------
 // Validation
 // -----------------------------------------------
@@ -44,12 +122,19 @@ function findWeldParent(
  * validates the UNWELD action:
  * - target must have a weldParentId
  * - actor must be the weld parent OR have reach to the target
+ * - target must belong to its parent's latest weld
+ * - targets cannot ride on one another
  */
 export const unweldValidate: ActionValidator = (
     actor: Entity,
     targets: Entity[],
-    _inputs: Record<string, unknown>
+    _inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    if (!canPerform(actor, 'UNWELD', entities)) {
+        return false;
+    }
+
     // must have at least one target
     if (targets.length === 0) return false;
 
@@ -63,6 +148,15 @@ export const unweldValidate: ActionValidator = (
         const hasReach = canReach(actor, target);
 
         if (!isParent && !hasReach) return false;
+
+        // welds come off in reverse order
+        const parent = findWeldParent(target, entities);
+        if (parent && !isLatestWeld(target, parent)) return false;
+
+        // a sub-assembly leaves whole: its parts cannot separate at the same time
+        if (targets.some(other => other.id !== target.id && isWeldedBelow(target, other.id, entities))) {
+            return false;
+        }
     }
 
     return true;
@@ -79,7 +173,7 @@ function validateWithContext(
 ): { valid: boolean; parents: Map<string, Entity> } {
     const result = { valid: false, parents: new Map<string, Entity>() };
 
-    if (!unweldValidate(actor, targets, inputs)) {
+    if (!unweldValidate(actor, targets, inputs, context.entities)) {
         return result;
     }
 
@@ -104,59 +198,75 @@ function validateWithContext(
 /**
  * executes the UNWELD action:
  * - clears target's weldParentId and relativeOffset
- * - target inherits the structure's velocity
- * - reduces parent's structural mass by target's mass
+ * - target regains its velocity relative to the structure
+ * - the structure root keeps the remaining momentum
+ * - pops the target from the parent's weldHistory
+ * - refreshes parent's structural mass without the target's mass
  */
 export const unweldHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
     context: TickContext
-): EntityUpdate[] => {
+): EntityEffect[] => {
     // validate with context
     const validation = validateWithContext(actor, targets, inputs, context);
     if (!validation.valid) {
         return [];
     }
 
-    const updates: EntityUpdate[] = [];
-    
-    // track mass to remove from each parent
-    const parentMassReduction = new Map<string, FP>();
+    const updates: EntityEffect[] = [];
+    const structureChanges = new Map<string, EntityUpdate['changes']>();
+    const separatedByRoot = new Map<string, { root: Entity; separated: { mass: FP; velocity: Vector2FP }[] }>();
+    const unweldedByParent = new Map<string, { parent: Entity; ids: Set<string> }>();
 
     // process each target
     for (const target of targets) {
         const parent = validation.parents.get(target.id);
         if (!parent) continue;
 
-        // accumulate mass to remove from parent
-        const currentReduction = parentMassReduction.get(parent.id) ?? 0;
-        parentMassReduction.set(parent.id, currentReduction + target.mass);
+        const root = findStructureRoot(parent, context.entities);
+        const velocity = getSeparationVelocity(target, parent, root.velocity);
 
-        // update target: clear weld, inherit velocity
+        // update target: clear weld, restore its own velocity
         updates.push({
+            kind: 'update',
             id: target.id,
             changes: {
                 weldParentId: undefined,
                 relativeOffset: undefined,
-                // inherit parent's velocity at separation
-                velocity: { ...parent.velocity },
+                velocity,
             },
         });
+
+        const group = separatedByRoot.get(root.id) ?? { root, separated: [] };
+        group.separated.push({ mass: target.mass, velocity });
+        separatedByRoot.set(root.id, group);
+
+        const unwelded = unweldedByParent.get(parent.id) ?? { parent, ids: new Set<string>() };
+        unwelded.ids.add(target.id);
+        unweldedByParent.set(parent.id, unwelded);
+    }
+
+    // each parent's latest weld loses the separated components
+    for (const { parent, ids } of unweldedByParent.values()) {
+        structureChanges.set(parent.id, { weldHistory: popWeldHistory(parent, ids) });
     }
 
-    // update each parent's mass
-    for (const [parentId, massReduction] of parentMassReduction) {
-        const parentEntity = context.entities.find(e => e.id === parentId);
-        if (!parentEntity) continue;
+    // the root keeps what is left of the structure's momentum:
+    // (M × V - Σ m × v) / (M - Σ m), i.e. the separated parts at negative mass
+    for (const { root, separated } of separatedByRoot.values()) {
+        const velocity = fpCombinedVelocity([
+            { mass: root.mass, velocity: root.velocity },
+            ...separated.map(part => ({ mass: -part.mass, velocity: part.velocity })),
+        ]);
+        structureChanges.set(root.id, { ...structureChanges.get(root.id), velocity });
+    }
 
-        updates.push({
-            id: parentId,
-            changes: {
-                mass: fpSub(parentEntity.mass, massReduction),
-            },
-        });
+    for (const [id, changes] of structureChanges) {
+        updates.push({ kind: 'update', id, changes });
     }
 
-    return updates;
+    // each former parent sheds the target's mass
+    return withTotalMass(updates, [...context.entities, actor, ...targets]);
 };
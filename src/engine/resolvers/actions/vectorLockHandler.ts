@@ -1,24 +1,80 @@
 // ===============================================
 // VECTOR LOCK ACTION HANDLER
 // ===============================================
-// Handles locking navigation onto a target entity.
+// Handles locking navigation onto a target entity (autopilot).
+// SPACE only: rails and surfaces have their own movement rules.
+//
+// Modes:
+//   TAIL:    match the target's vector exactly when fuel permits
+//   PURSUIT: close the distance while converging on the target's vector
+//   RELEASE: cancel the current lock
+//
+// The action only engages (or releases) the lock. The burns themselves run
+// once per tick at settlement (see vectorLockSystem), capped by
+// MAX_THRUST_PER_TICK and fuel, until the lock is released or the target
+// leaves sight and reach.
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
+import { MINIMUM_FUEL_THRESHOLD } from '../../config/engineConfig.js';
+import { canHoldLock } from '../../state-handlers/state-systems/vectorLockSystem.js';
+import { canPerform } from '../../state-handlers/state-systems/propertySystem.js';
+
+type LockMode = 'PURSUIT' | 'TAIL' | 'RELEASE';
+
+/**
+ * Extract lock mode from inputs, with type safety.
+ * Returns null if missing or malformed.
+ */
+function getLockMode(inputs: Record<string, unknown>): LockMode | null {
+    const mode = inputs['lockMode'];
+    if (mode === 'PURSUIT' || mode === 'TAIL' || mode === 'RELEASE') {
+        return mode;
+    }
+    return null;
+}
 
 /**
  * Validates whether the vector lock action can be performed.
  * Checks both Capability (has required systems) and State (resources available).
  */
 export const vectorLockValidate: ActionValidator = (
-    _actor: Entity,
-    _targets: Entity[],
-    _inputs: Record<string, unknown>
+    actor: Entity,
+    targets: Entity[],
+    inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
-    // capability: does the entity have navigation computer?
-    // state: is the target visible and within sensor range?
-    // stub: always returns false until implemented
-    return false;
+    if (!canPerform(actor, 'VECTOR_LOCK', entities)) {
+        return false;
+    }
+
+    const mode = getLockMode(inputs);
+    if (mode === null) {
+        return false;
+    }
+
+    // release: only an engaged lock can be released
+    if (mode === 'RELEASE') {
+        return actor.vectorLockTargetId !== undefined;
+    }
+
+    // state check 1: exactly one target to lock onto
+    if (targets.length !== 1) {
+        return false;
+    }
+
+    // state check 2: contained, welded or towed entities ride their parent
+    if (actor.parentId !== undefined || actor.weldParentId !== undefined || actor.towParentId !== undefined) {
+        return false;
+    }
+
+    // state check 3: must have fuel above minimum threshold
+    if (actor.fuelMass <= MINIMUM_FUEL_THRESHOLD) {
+        return false;
+    }
+
+    // state check 4: target in open space, within sight or reach
+    return canHoldLock(actor, targets[0]!);
 };
 
 /**
@@ -29,13 +85,32 @@ export const vectorLockHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass before any state mutation
-    if (!vectorLockValidate(actor, targets, inputs)) {
+    if (!vectorLockValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
-    // implementation goes here
-    return [];
+    const mode = getLockMode(inputs)!;
+
+    if (mode === 'RELEASE') {
+        return [{
+            kind: 'update',
+            id: actor.id,
+            changes: {
+                vectorLockTargetId: undefined,
+                vectorLockMode: undefined,
+            },
+        }];
+    }
+
+    return [{
+        kind: 'update',
+        id: actor.id,
+        changes: {
+            vectorLockTargetId: targets[0]!.id,
+            vectorLockMode: mode,
+        },
+    }];
 };
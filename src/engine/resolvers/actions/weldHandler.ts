@@ -7,37 +7,29 @@
 //
 // PHYSICS:
 // - momentum is conserved: p_total = m1*v1 + m2*v2
-// - combined velocity = p_total / (m1 + m2)
+// - combined velocity = p_total / (m1 + m2), summed without overflow
 // - primary entity holds the structural mass for thrust calculations
+//
+// HISTORY:
+// - each WELD pushes a record on the primary's weldHistory: every
+//   component as it was, and the structure's new velocity
+// - UNWELD pops it to rebuild the components (see unweldHandler)
 
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect, WeldRecord, WeldSnapshot } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { ActionHandler, ActionValidator, TickContext } from './actionTypes.js';
-import type { FP, Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import type { Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
 import { 
-    fpDistanceSquared, 
-    fpMul, 
-    fpAdd, 
     fpSub,
-    fpDiv,
-    toFP,
+    fpCombinedVelocity,
 } from '../../primitive-types/euclidean/euclidean-types.js';
+import { canReach } from '../../state-handlers/state-systems/spatialIndex.js';
+import { withTotalMass } from '../../state-handlers/state-systems/massSystem.js';
+import { canPerform, hasCapability } from '../../state-handlers/state-systems/propertySystem.js';
 
 // -----------------------------------------------
 // Helper Functions
 // -----------------------------------------------
 
-/**
- * checks if entity A can reach entity B (distance <= A.reach)
- */
-function canReach(actor: Entity, target: Entity): boolean {
-    if (actor.reach <= 0) return false;
-    
-    const distSquared = fpDistanceSquared(actor.position, target.position);
-    const reachSquared = fpMul(actor.reach, actor.reach);
-    
-    return distSquared <= reachSquared;
-}
-
 /**
  * checks if an entity is a celestial (cannot be welded)
  */
@@ -45,41 +37,6 @@ function isCelestial(entity: Entity): boolean {
     return entity.type === 'RESOURCE_WELL';
 }
 
-/**
- * calculates conserved momentum velocity for combined structure.
- * v_combined = (m1*v1 + m2*v2) / (m1 + m2)
- */
-function calculateMomentumVelocity(
-    mass1: FP,
-    velocity1: Vector2FP,
-    mass2: FP,
-    velocity2: Vector2FP
-): Vector2FP {
-    const totalMass = fpAdd(mass1, mass2);
-    
-    if (totalMass <= 0) {
-        return { x: toFP(0), y: toFP(0) };
-    }
-
-    // momentum_x = m1*v1.x + m2*v2.x
-    const momentumX = fpAdd(
-        fpMul(mass1, velocity1.x),
-        fpMul(mass2, velocity2.x)
-    );
-    
-    // momentum_y = m1*v1.y + m2*v2.y
-    const momentumY = fpAdd(
-        fpMul(mass1, velocity1.y),
-        fpMul(mass2, velocity2.y)
-    );
-
-    // v_combined = momentum / totalMass
-    return {
-        x: fpDiv(momentumX, totalMass),
-        y: fpDiv(momentumY, totalMass),
-    };
-}
-
 /**
  * calculates the relative offset of secondary from primary.
  */
@@ -93,6 +50,16 @@ function calculateRelativeOffset(
     };
 }
 
+/**
+ * captures what a weld is about to overwrite on an entity.
+ */
+function takeWeldSnapshot(entity: Entity): WeldSnapshot {
+    return {
+        id: entity.id,
+        velocity: { ...entity.velocity },
+    };
+}
+
 // -----------------------------------------------
 // Validation
 // -----------------------------------------------
@@ -109,8 +76,13 @@ function calculateRelativeOffset(
 export const weldValidate: ActionValidator = (
     actor: Entity,
     targets: Entity[],
-    _inputs: Record<string, unknown>
+    _inputs: Record<string, unknown>,
+    entities: readonly Entity[] = []
 ): boolean => {
+    if (!canPerform(actor, 'WELD', entities)) {
+        return false;
+    }
+
     // must have at least one target
     if (targets.length === 0) return false;
 
@@ -128,6 +100,9 @@ export const weldValidate: ActionValidator = (
         // cannot weld celestials
         if (isCelestial(target)) return false;
 
+        // target must accept being welded
+        if (!hasCapability(target, 'canBeWelded', entities)) return false;
+
         // target must be within reach
         if (!canReach(actor, target)) return false;
 
@@ -150,54 +125,39 @@ export const weldValidate: ActionValidator = (
  * - designates actor as primary, targets as secondary
  * - calculates combined momentum velocity
  * - records relative offsets
- * - updates primary's mass to include secondary masses
+ * - pushes a weld record on the primary's weldHistory
+ * - refreshes primary's mass to include secondary masses
  */
 export const weldHandler: ActionHandler = (
     actor: Entity,
     targets: Entity[],
     inputs: Record<string, unknown>,
-    _context: TickContext
-): EntityUpdate[] => {
+    context: TickContext
+): EntityEffect[] => {
     // gate: validation must pass
-    if (!weldValidate(actor, targets, inputs)) {
+    if (!weldValidate(actor, targets, inputs, context.entities)) {
         return [];
     }
 
-    const updates: EntityUpdate[] = [];
+    const updates: EntityEffect[] = [];
 
-    // calculate combined velocity using momentum conservation
-    // start with actor's momentum
-    let totalMass = actor.mass;
-    let totalMomentumX = fpMul(actor.mass, actor.velocity.x);
-    let totalMomentumY = fpMul(actor.mass, actor.velocity.y);
+    // calculate combined velocity using momentum conservation:
+    // v = Σ(m × v) / Σm over the actor and every target (exact sums)
+    const combinedVelocity = fpCombinedVelocity([actor, ...targets]);
 
-    // add each target's momentum
-    for (const target of targets) {
-        totalMass = fpAdd(totalMass, target.mass);
-        totalMomentumX = fpAdd(totalMomentumX, fpMul(target.mass, target.velocity.x));
-        totalMomentumY = fpAdd(totalMomentumY, fpMul(target.mass, target.velocity.y));
-    }
-
-    // combined velocity = total momentum / total mass
-    const combinedVelocity: Vector2FP = totalMass > 0 
-        ? {
-            x: fpDiv(totalMomentumX, totalMass),
-            y: fpDiv(totalMomentumY, totalMass),
-        }
-        : { x: toFP(0), y: toFP(0) };
-
-    // calculate mass to add to primary
-    let addedMass: FP = 0;
-    for (const target of targets) {
-        addedMass = fpAdd(addedMass, target.mass);
-    }
+    const record: WeldRecord = {
+        tick: context.tick,
+        velocity: combinedVelocity,
+        components: targets.map(takeWeldSnapshot),
+    };
 
-    // update primary (actor): new mass and velocity
+    // update primary (actor): new velocity, one more weld on the stack
     updates.push({
+        kind: 'update',
         id: actor.id,
         changes: {
-            mass: fpAdd(actor.mass, addedMass),
             velocity: combinedVelocity,
+            weldHistory: [...(actor.weldHistory ?? []), record],
         },
     });
 
@@ -206,6 +166,7 @@ export const weldHandler: ActionHandler = (
         const relativeOffset = calculateRelativeOffset(actor.position, target.position);
 
         updates.push({
+            kind: 'update',
             id: target.id,
             changes: {
                 weldParentId: actor.id,
@@ -215,5 +176,6 @@ export const weldHandler: ActionHandler = (
         });
     }
 
-    return updates;
+    // the primary now carries every secondary's mass
+    return withTotalMass(updates, [...context.entities, actor, ...targets]);
 };
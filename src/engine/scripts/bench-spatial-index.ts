@@ -0,0 +1,166 @@
+// ===============================================
+// SPATIAL INDEX BENCHMARK
+// ===============================================
+// Compares spatial index queries against the linear scans they replace:
+// - reach: every entity looks for every other entity within its reach
+// - capture: random points look for the celestials capturing them
+// Both sides must return identical results in identical order.
+// Run with: npx tsx src/engine/scripts/bench-spatial-index.ts [--sizes 500,1000,2000,4000]
+
+import type { Entity } from '../primitive-types/semantic/entity/entity-types.js';
+import type { CelestialBody } from '../primitive-types/semantic/celestial/celestial-types.js';
+import { getCelestialPositions } from '../primitive-types/semantic/celestial/celestial-types.js';
+import { generateUniverse, SeededRNG } from '../genesis/genesisService.js';
+import { fpIsWithinDistance, toFP, type Vector2FP } from '../primitive-types/euclidean/euclidean-types.js';
+import {
+    buildSpatialIndex,
+    queryEntitiesInReach,
+    queryCapturingCelestials,
+    canReach,
+} from '../state-handlers/state-systems/spatialIndex.js';
+
+// -----------------------------------------------
+// Fixtures
+// -----------------------------------------------
+
+// entities spread over a square this wide, centered on the origin
+const FIELD_SIZE = toFP(200000);
+const CAPTURE_QUERIES = 20000;
+
+function createField(count: number, rng: SeededRNG): Entity[] {
+    const entities: Entity[] = [];
+    for (let i = 0; i < count; i++) {
+        entities.push({
+            id: `bench-${i}`,
+            type: 'ENTITY',
+            position: {
+                x: rng.nextFP(-FIELD_SIZE / 2, FIELD_SIZE / 2),
+                y: rng.nextFP(-FIELD_SIZE / 2, FIELD_SIZE / 2),
+            },
+            velocity: { x: 0, y: 0 },
+            zoomState: 'SPACE',
+            dryMass: toFP(100),
+            mass: toFP(100),
+            volume: toFP(10),
+            fuelMass: toFP(0),
+            volatilesMass: toFP(0),
+            reach: rng.nextFP(toFP(100), toFP(1000)),
+            airlockSealed: true,
+            opticLevel: 1,
+            heading: 0,
+            thrust: 0,
+        });
+    }
+    return entities;
+}
+
+// -----------------------------------------------
+// Linear Scans (previous behavior)
+// -----------------------------------------------
+
+function scanEntitiesInReach(entities: readonly Entity[], actor: Entity): Entity[] {
+    return entities.filter(other => other.id !== actor.id && canReach(actor, other));
+}
+
+function scanCapturingCelestials(celestials: readonly CelestialBody[], point: Vector2FP): CelestialBody[] {
+    return celestials.filter(celestial =>
+        getCelestialPositions(celestial).some(center => fpIsWithinDistance(point, center, celestial.captureRadius))
+    );
+}
+
+// -----------------------------------------------
+// Measurement
+// -----------------------------------------------
+
+function time<T>(run: () => T): { result: T; ms: number } {
+    const start = performance.now();
+    const result = run();
+    return { result, ms: performance.now() - start };
+}
+
+function sameIds(a: readonly { id: string }[][], b: readonly { id: string }[][]): boolean {
+    return a.length === b.length &&
+        a.every((list, i) => list.map(e => e.id).join('|') === b[i]!.map(e => e.id).join('|'));
+}
+
+function formatRow(label: string, scanMs: number, indexMs: number): string {
+    const speedup = indexMs > 0 ? (scanMs / indexMs).toFixed(1) : 'inf';
+    return `  ${label.padEnd(24)} scan ${scanMs.toFixed(1).padStart(9)} ms   index ${indexMs.toFixed(1).padStart(8)} ms   ${speedup}x`;
+}
+
+function benchReach(count: number): boolean {
+    const entities = createField(count, new SeededRNG(`bench-reach-${count}`));
+
+    const scan = time(() => entities.map(actor => scanEntitiesInReach(entities, actor)));
+    const indexed = time(() => {
+        const spatial = buildSpatialIndex(entities, []);
+        return entities.map(actor => queryEntitiesInReach(spatial, actor));
+    });
+
+    console.log(formatRow(`reach, ${count} entities`, scan.ms, indexed.ms));
+    return sameIds(scan.result, indexed.result);
+}
+
+function benchCapture(systemCount: number): boolean {
+    const state = generateUniverse(`bench-capture-${systemCount}`, ['p1'], { systemCount });
+    const rng = new SeededRNG(`bench-capture-points-${systemCount}`);
+    const points: Vector2FP[] = [];
+    for (let i = 0; i < CAPTURE_QUERIES; i++) {
+        const origin = state.systems[rng.nextInt(0, state.systems.length - 1)]!.origin;
+        points.push({
+            x: origin.x + rng.nextFP(toFP(-1000000), toFP(1000000)),
+            y: origin.y + rng.nextFP(toFP(-1000000), toFP(1000000)),
+        });
+    }
+
+    const scan = time(() => points.map(point => scanCapturingCelestials(state.celestials, point)));
+    const indexed = time(() => {
+        const spatial = buildSpatialIndex([], state.celestials);
+        return points.map(point => queryCapturingCelestials(spatial, point));
+    });
+
+    console.log(formatRow(`capture, ${state.celestials.length} celestials`, scan.ms, indexed.ms));
+    return sameIds(scan.result, indexed.result);
+}
+
+// -----------------------------------------------
+// Main Execution
+// -----------------------------------------------
+
+function parseSizes(): number[] {
+    const args = process.argv.slice(2);
+    const flag = args.indexOf('--sizes');
+    const value = flag >= 0 ? args[flag + 1] : undefined;
+    if (!value) {
+        return [500, 1000, 2000, 4000];
+    }
+    return value.split(',').map(size => parseInt(size, 10)).filter(size => size > 0);
+}
+
+function main(): void {
+    console.log('='.repeat(60));
+    console.log('SPATIAL INDEX BENCHMARK');
+    console.log('='.repeat(60));
+
+    // warm up the JIT so the first row is not penalized
+    benchReach(200);
+    console.log('-'.repeat(60));
+
+    const results: boolean[] = [];
+    for (const size of parseSizes()) {
+        results.push(benchReach(size));
+    }
+    for (const systemCount of [2, 8]) {
+        results.push(benchCapture(systemCount));
+    }
+
+    console.log('='.repeat(60));
+    if (results.every(r => r)) {
+        console.log('[SUCCESS] Index results match the linear scans');
+    } else {
+        console.log('[FAILURE] Index results differ from the linear scans');
+        process.exit(1);
+    }
+}
+
+main();
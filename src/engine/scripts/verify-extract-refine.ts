@@ -5,19 +5,29 @@
 // Run with: npx tsx src/engine/scripts/verify-extract-refine.ts
 
 import type { Entity, VisibilityLevel } from '../primitive-types/semantic/entity/entity-types.js';
+import { isEntityUpdate, isEntitySpawn } from '../primitive-types/semantic/entity/entity-types.js';
 import type { TickContext } from '../resolvers/actions/actionTypes.js';
 import type { GameState } from '../state-types/state-types.js';
 import { VECTOR_ZERO, toFP, fromFP } from '../primitive-types/euclidean/euclidean-types.js';
 import { extractHandler, extractValidate } from '../resolvers/actions/extractHandler.js';
 import { refineHandler, refineValidate } from '../resolvers/actions/refineHandler.js';
 import { REFINE_EFFICIENCY, REFINE_MAX_BATCH } from '../config/engineConfig.js';
+import { buildSpatialIndex } from '../state-handlers/state-systems/spatialIndex.js';
 
 // -----------------------------------------------
 // Test Entity Factories
 // -----------------------------------------------
 
-function createShip(overrides: Partial<Entity> = {}): Entity {
+// fixtures give the total mass; dry mass is what remains without fuel and volatiles
+function withDryMass(entity: Omit<Entity, 'dryMass'>, overrides: Partial<Entity>): Entity {
     return {
+        ...entity,
+        dryMass: overrides.dryMass ?? (entity.mass - entity.fuelMass - entity.volatilesMass),
+    };
+}
+
+function createShip(overrides: Partial<Entity> = {}): Entity {
+    return withDryMass({
         id: 'ship-001',
         type: 'ENTITY',
         playerId: 'player-001',
@@ -34,12 +44,12 @@ function createShip(overrides: Partial<Entity> = {}): Entity {
         fuelMass: toFP(100),
         opticLevel: 0 as VisibilityLevel,
         ...overrides,
-    };
+    }, overrides);
 }
 
 // TODO: create a mineral store entity
 function createResourceWell(overrides: Partial<Entity> = {}): Entity {
-    return {
+    return withDryMass({
         id: 'well-001',
         type: 'RESOURCE_WELL',
         zoomState: 'SPACE',
@@ -49,7 +59,7 @@ function createResourceWell(overrides: Partial<Entity> = {}): Entity {
         thrust: toFP(0),
         reach: toFP(0),
 
-        // mass = mineral mass
+        // dry mass (mass - volatiles) = mineral mass
         mass: toFP(50000),
         volume: toFP(100000),
         airlockSealed: false,
@@ -57,7 +67,7 @@ function createResourceWell(overrides: Partial<Entity> = {}): Entity {
         fuelMass: toFP(0),
         opticLevel: 0 as VisibilityLevel,
         ...overrides,
-    };
+    }, overrides);
 }
 
 function createMockContext(tick: number, entities: Entity[]): TickContext {
@@ -70,7 +80,10 @@ function createMockContext(tick: number, entities: Entity[]): TickContext {
             systems: [],
             entities,
             celestials: [],
+            surfaces: [],
         },
+        spatial: buildSpatialIndex(entities, []),
+        wave: 0,
     };
 }
 
@@ -100,8 +113,9 @@ function testExtractVolatiles(): boolean {
     }
 
     // execute extraction
-    const updates = extractHandler(ship, [well], inputs, context);
-    console.log(`  Updates returned: ${updates.length}`);
+    const effects = extractHandler(ship, [well], inputs, context);
+    const updates = effects.filter(isEntityUpdate);
+    console.log(`  Effects returned: ${effects.length}`);
 
     // verify updates
     const wellUpdate = updates.find(u => u.id === well.id);
@@ -164,12 +178,13 @@ function testExtractMinerals(): boolean {
     }
 
     // execute extraction
-    const updates = extractHandler(ship, [well], inputs, context);
-    console.log(`  Updates returned: ${updates.length}`);
+    const effects = extractHandler(ship, [well], inputs, context);
+    const updates = effects.filter(isEntityUpdate);
+    console.log(`  Effects returned: ${effects.length}`);
 
     // verify updates
     const wellUpdate = updates.find(u => u.id === well.id);
-    const mineralStore = updates.find(u => u.id.startsWith('mineral-store-'));
+    const mineralStore = effects.find(isEntitySpawn)?.entity;
 
     if (!wellUpdate) {
         console.log('  [FAIL] Missing well update');
@@ -182,12 +197,12 @@ function testExtractMinerals(): boolean {
 
     console.log(`  Well mass: ${fromFP(well.mass)} -> ${fromFP(wellUpdate.changes.mass!)}`);
     console.log(`  Mineral store ID: ${mineralStore.id}`);
-    console.log(`  Mineral store mass: ${fromFP(mineralStore.changes.mass!)}`);
-    console.log(`  Mineral store position: (${fromFP(mineralStore.changes.position!.x)}, ${fromFP(mineralStore.changes.position!.y)})`);
+    console.log(`  Mineral store mass: ${fromFP(mineralStore.mass)}`);
+    console.log(`  Mineral store position: (${fromFP(mineralStore.position.x)}, ${fromFP(mineralStore.position.y)})`);
 
     // verify mineral store spawned at correct position
-    if (mineralStore.changes.position!.x !== targetPosition.x ||
-        mineralStore.changes.position!.y !== targetPosition.y) {
+    if (mineralStore.position.x !== targetPosition.x ||
+        mineralStore.position.y !== targetPosition.y) {
         console.log('  [FAIL] Mineral store at wrong position');
         return false;
     }
@@ -225,8 +240,9 @@ function testRefine(): boolean {
     }
 
     // execute refining
-    const updates = refineHandler(ship, [], inputs, context);
-    console.log(`  Updates returned: ${updates.length}`);
+    const effects = refineHandler(ship, [], inputs, context);
+    const updates = effects.filter(isEntityUpdate);
+    console.log(`  Effects returned: ${effects.length}`);
 
     const shipUpdate = updates.find(u => u.id === ship.id);
     if (!shipUpdate) {
@@ -294,10 +310,10 @@ function testFullScenario(): boolean {
     // step 1: extract volatiles
     console.log('\n  Step 1: Extract Volatiles');
     let context = createMockContext(1, [ship, well]);
-    let updates = extractHandler(ship, [well], { resourceType: 'VOLATILES', rate: toFP(1000) }, context);
+    let effects = extractHandler(ship, [well], { resourceType: 'VOLATILES', rate: toFP(1000) }, context);
 
     // apply updates to ship (simulated)
-    const volUpdate = updates.find(u => u.id === ship.id);
+    const volUpdate = effects.filter(isEntityUpdate).find(u => u.id === ship.id);
     if (volUpdate?.changes.volatilesMass !== undefined) {
         ship = { ...ship, volatilesMass: volUpdate.changes.volatilesMass };
     }
@@ -306,9 +322,9 @@ function testFullScenario(): boolean {
     // step 2: refine
     console.log('\n  Step 2: Refine Volatiles');
     context = createMockContext(2, [ship, well]);
-    updates = refineHandler(ship, [], { volatilesAmount: toFP(1000) }, context);
+    effects = refineHandler(ship, [], { volatilesAmount: toFP(1000) }, context);
 
-    const refineUpdate = updates.find(u => u.id === ship.id);
+    const refineUpdate = effects.filter(isEntityUpdate).find(u => u.id === ship.id);
     if (refineUpdate) {
         ship = {
             ...ship,
@@ -324,17 +340,17 @@ function testFullScenario(): boolean {
     console.log('\n  Step 3: Extract Minerals');
     const mineralPosition = { x: toFP(200), y: toFP(100) };
     context = createMockContext(3, [ship, well]);
-    updates = extractHandler(ship, [well], {
+    effects = extractHandler(ship, [well], {
         resourceType: 'MINERALS',
         rate: toFP(500),
         mineralTargetPosition: [mineralPosition],
     }, context);
 
-    const mineralStore = updates.find(u => u.id.startsWith('mineral-store-'));
+    const mineralStore = effects.find(isEntitySpawn)?.entity;
     if (mineralStore) {
         console.log(`    Mineral store created: ${mineralStore.id}`);
-        console.log(`    Position: (${fromFP(mineralStore.changes.position!.x)}, ${fromFP(mineralStore.changes.position!.y)})`);
-        console.log(`    Mass: ${fromFP(mineralStore.changes.mass!)}`);
+        console.log(`    Position: (${fromFP(mineralStore.position.x)}, ${fromFP(mineralStore.position.y)})`);
+        console.log(`    Mass: ${fromFP(mineralStore.mass)}`);
     }
 
     // assertions
@@ -6,7 +6,8 @@
 
 import { generateUniverse, isPositionSafe } from '../genesis/genesisService.js';
 import { isWormhole, isSol, isPlanet, isMoon, isAsteroid } from '../primitive-types/semantic/celestial/celestial-types.js';
-import { fromFP } from '../primitive-types/euclidean/euclidean-types.js';
+import { fromFP, fpDistance } from '../primitive-types/euclidean/euclidean-types.js';
+import { buildSpatialIndex } from '../state-handlers/state-systems/spatialIndex.js';
 import type { GameState } from '../state-types/state-types.js';
 
 // -----------------------------------------------
@@ -123,9 +124,7 @@ function testWormholeEndpoints(): boolean {
         }
 
         // verify endpoint distance is significant (should be in different systems)
-        const dx = fromFP(endpointA.x) - fromFP(endpointB.x);
-        const dy = fromFP(endpointA.y) - fromFP(endpointB.y);
-        const distance = Math.sqrt(dx * dx + dy * dy);
+        const distance = fromFP(fpDistance(endpointA, endpointB));
 
         console.log(`    Distance: ${distance.toFixed(0)} units`);
 
@@ -152,9 +151,10 @@ function testPlayerSafeSpawn(): boolean {
 
     console.log(`  Player ships: ${playerShips.length}`);
 
+    const spatial = buildSpatialIndex([], state.celestials);
     let allSafe = true;
     for (const ship of playerShips) {
-        const isSafe = isPositionSafe(ship.position, state.celestials);
+        const isSafe = isPositionSafe(ship.position, spatial);
 
         console.log(`  ${ship.playerId}:`);
         console.log(`    Position: (${fromFP(ship.position.x).toFixed(0)}, ${fromFP(ship.position.y).toFixed(0)})`);
@@ -5,14 +5,15 @@
 // Run with: npx ts-node src/engine/scripts/verify-library.ts
 
 import type { Entity, EntityUpdate, VisibilityLevel } from '../primitive-types/semantic/entity/entity-types.js';
+import { isEntityUpdate } from '../primitive-types/semantic/entity/entity-types.js';
 import type { ActionType } from '../primitive-types/semantic/action/action-types.js';
 import type { TickContext } from '../resolvers/actions/actionTypes.js';
 import { VECTOR_ZERO, toFP, fromFP } from '../primitive-types/euclidean/euclidean-types.js';
+import { buildSpatialIndex } from '../state-handlers/state-systems/spatialIndex.js';
 import { actionRegistry, isRegistered } from '../resolvers/actions/actionRegistry.js';
 import { thrustHandler, thrustValidate } from '../resolvers/actions/thrustHandler.js';
+import { FUEL_EFFICIENCY_CONSTANT } from '../primitive-types/constant/constants.js';
 import {
-    FUEL_BURN_RATE,
-    MASS_PROPULSION_LOSS,
     MINIMUM_FUEL_THRESHOLD,
     MAX_THRUST_PER_TICK,
 } from '../config/engineConfig.js';
@@ -37,6 +38,7 @@ function createTestEntity(): Entity {
         reach: toFP(1000),
 
         // physical properties
+        dryMass: toFP(650),
         mass: toFP(1000),
         volume: toFP(500),
 
@@ -64,6 +66,7 @@ function verifyActionRegistry(): void {
         'MANEUVER',
         'THRUST',
         'LAUNCH',
+        'LAND',
         'EXTRACT',
         'REFINE',
         'MANUFACTURE',
@@ -79,6 +82,7 @@ function verifyActionRegistry(): void {
         'MOVE_SCANNER',
         'SCAN',
         'ENCOUNTER',
+        'POSTURE',
     ];
 
     console.log('='.repeat(50));
@@ -109,6 +113,7 @@ function verifyActionRegistry(): void {
 
 function verifyEntityUpdate(): void {
     const update: EntityUpdate = {
+        kind: 'update',
         id: 'test-entity-001',
         changes: {
             velocity: { x: toFP(10), y: toFP(5) },
@@ -133,8 +138,7 @@ function verifyThrustHandler(): void {
 
     // display engine config
     console.log('\nEngine Configuration:');
-    console.log(`  FUEL_BURN_RATE: ${fromFP(FUEL_BURN_RATE)}`);
-    console.log(`  MASS_PROPULSION_LOSS: ${fromFP(MASS_PROPULSION_LOSS)}`);
+    console.log(`  FUEL_EFFICIENCY_CONSTANT: ${FUEL_EFFICIENCY_CONSTANT}`);
     console.log(`  MINIMUM_FUEL_THRESHOLD: ${fromFP(MINIMUM_FUEL_THRESHOLD)}`);
     console.log(`  MAX_THRUST_PER_TICK: ${fromFP(MAX_THRUST_PER_TICK)}`);
 
@@ -148,13 +152,15 @@ function verifyThrustHandler(): void {
         velocity: { x: toFP(0), y: toFP(0) },
         heading: toFP(0),
         thrust: toFP(0),
+        dryMass: toFP(800),
         mass: toFP(1000),
         volume: toFP(500),
         airlockSealed: true,
         volatilesMass: toFP(0),
-        fuelMass: toFP(100),
+        fuelMass: toFP(200),
         opticLevel: 0 as VisibilityLevel,
         reach: toFP(1000),
+        spaceForce: toFP(100000),
     };
 
     console.log('\nInitial Ship State:');
@@ -173,7 +179,10 @@ function verifyThrustHandler(): void {
             systems: [],
             entities: [ship],
             celestials: [],
+            surfaces: [],
         },
+        spatial: buildSpatialIndex([ship], []),
+        wave: 0,
     };
 
     // test 1: validation with zero fuel
@@ -192,13 +201,13 @@ function verifyThrustHandler(): void {
     // test 3: validation with valid inputs
     console.log('\n--- Test 3: Validation with valid inputs ---');
     const validGood = thrustValidate(ship, [], { magnitude: toFP(10) });
-    console.log(`  Ship with fuel=100, magnitude=10: validate=${validGood}`);
+    console.log(`  Ship with fuel=200, magnitude=10: validate=${validGood}`);
     console.log(`  Expected: true | Result: ${validGood === true ? 'PASS' : 'FAIL'}`);
 
     // test 4: execute thrust (heading=0, magnitude=10)
     console.log('\n--- Test 4: Execute THRUST (heading=0°, magnitude=10) ---');
     const thrustMagnitude = toFP(10);
-    const updates = thrustHandler(ship, [], { magnitude: thrustMagnitude }, mockContext);
+    const updates = thrustHandler(ship, [], { magnitude: thrustMagnitude }, mockContext).filter(isEntityUpdate);
 
     if (updates.length === 0) {
         console.log('  ERROR: No updates returned!');
@@ -212,10 +221,11 @@ function verifyThrustHandler(): void {
     // verify calculations
     // heading=0 means thrust in +X direction
     // deltaV.x = cos(0) * 10 = 10, deltaV.y = sin(0) * 10 = 0
+    // fuel burned = 10 * 1000 * 0.01 = 100, and the mass drops by the same
     const expectedVelX = toFP(10);
     const expectedVelY = toFP(0);
-    const expectedFuel = toFP(90);
-    const expectedMass = toFP(990);
+    const expectedFuel = toFP(100);
+    const expectedMass = toFP(900);
 
     console.log('\nAssertion Results:');
     
@@ -242,7 +252,7 @@ function verifyThrustHandler(): void {
     // test 5: thrust at 90 degrees
     console.log('\n--- Test 5: Execute THRUST (heading=90°, magnitude=5) ---');
     const ship90 = { ...ship, heading: toFP(90) };
-    const updates90 = thrustHandler(ship90, [], { magnitude: toFP(5) }, mockContext);
+    const updates90 = thrustHandler(ship90, [], { magnitude: toFP(5) }, mockContext).filter(isEntityUpdate);
 
     if (updates90.length > 0) {
         const update90 = updates90[0];
@@ -260,13 +270,13 @@ function verifyThrustHandler(): void {
     // test 6: thrust exceeds fuel
     console.log('\n--- Test 6: Thrust exceeds available fuel ---');
     const lowFuelShip = { ...ship, fuelMass: toFP(5) };
-    const updatesLowFuel = thrustHandler(lowFuelShip, [], { magnitude: toFP(100) }, mockContext);
+    const updatesLowFuel = thrustHandler(lowFuelShip, [], { magnitude: toFP(100) }, mockContext).filter(isEntityUpdate);
 
     if (updatesLowFuel.length > 0) {
         const updateLF = updatesLowFuel[0];
         const fuelLF = updateLF?.changes.fuelMass;
         if (fuelLF !== undefined) {
-            // should only burn available 5, not requested 100
+            // should only burn the 5 on board, not the 1000 that 100 Δv would cost
             const fuelDepleted = fuelLF <= toFP(0.1);
             console.log(`  fuelMass after thrust: ${fromFP(fuelLF)} | ${fuelDepleted ? 'PASS (depleted as expected)' : 'FAIL'}`);
         }
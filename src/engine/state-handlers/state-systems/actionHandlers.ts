@@ -8,21 +8,31 @@
 
 import type { Entity } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { Action, ThrustAction } from '../../primitive-types/semantic/action/action-types.js';
-import { fpAddVector, fpScaleVector } from '../../primitive-types/euclidean/euclidean-types.js';
+import { fpAddVector, fpScaleVector, fpMin } from '../../primitive-types/euclidean/euclidean-types.js';
+import { getMaxThrustDeltaV, getPropellantBurn } from './propulsionSystem.js';
 
 /**
  * Handler signature: takes entity and action, returns transformed entity
+ * (entities: the surrounding state, for engines on welded parts)
  */
-type ActionHandler<T extends Action> = (entity: Entity, action: T) => Entity;
+type ActionHandler<T extends Action> = (entity: Entity, action: T, entities: readonly Entity[]) => Entity;
 
 /**
  * THRUST handler - applies thrust vector to entity velocity
+ * Capped and fueled exactly like the THRUST action handler
  */
-const handleThrust: ActionHandler<ThrustAction> = (entity, action) => {
-    const thrustVector = fpScaleVector(action.direction, action.magnitude);
+const handleThrust: ActionHandler<ThrustAction> = (entity, action, entities) => {
+    const maxDeltaV = getMaxThrustDeltaV(entity, entities);
+    if (action.magnitude <= 0 || maxDeltaV <= 0) {
+        return entity;
+    }
+
+    const magnitude = fpMin(action.magnitude, maxDeltaV);
+    const thrustVector = fpScaleVector(action.direction, magnitude);
     return {
         ...entity,
         velocity: fpAddVector(entity.velocity, thrustVector),
+        ...getPropellantBurn(entity, magnitude),
     };
 };
 
@@ -40,23 +50,23 @@ const ACTION_HANDLERS: Record<string, ActionHandler<any>> = {
  * Apply a single action to an entity
  * Returns unchanged entity if no handler exists
  */
-export function applyAction(entity: Entity, action: Action): Entity {
+export function applyAction(entity: Entity, action: Action, entities: readonly Entity[] = []): Entity {
     if (!action) return entity;
     
     const handler = ACTION_HANDLERS[action.type];
     if (!handler) return entity;
     
-    return handler(entity, action);
+    return handler(entity, action, entities);
 }
 
 /**
  * Apply all actions for a specific entity
  */
-export function applyActionsToEntity(entity: Entity, actions: Action[]): Entity {
+export function applyActionsToEntity(entity: Entity, actions: Action[], entities: readonly Entity[] = []): Entity {
     const entityActions = actions.filter(a => a?.entityId === entity.id);
     
     return entityActions.reduce(
-        (e, action) => applyAction(e, action),
+        (e, action) => applyAction(e, action, entities),
         entity
     );
 }
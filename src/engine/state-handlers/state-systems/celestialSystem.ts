@@ -0,0 +1,223 @@
+// ===============================================
+// CELESTIAL SYSTEM
+// ===============================================
+// Handles: Celestial motion (once per tick)
+// - Planets: orbit their parent sol along orbitAngle/orbitSpeed
+// - Moons: orbit their (moving) parent planet along a fixed rail
+// - Asteroids: drift linearly (position += velocity)
+// - Celestial-bound entities (linkedCelestialId, or on a body's SURFACE): ride their celestial
+// Pure system: (GameState) -> GameState
+//
+// SHARED BY SERVER AND GHOSTS:
+// the tick resolver and the projection system both call advanceCelestials,
+// so ghost celestials are always exactly where the server will put them.
+
+import type { GameState } from '../../state-types/state-types.js';
+import type { Entity } from '../../primitive-types/semantic/entity/entity-types.js';
+import type {
+    CelestialBody,
+    Planet,
+    Moon,
+    Asteroid,
+} from '../../primitive-types/semantic/celestial/celestial-types.js';
+import {
+    fpAdd,
+    fpAddVector,
+    fpSubVector,
+    fpPolarToVector,
+    type FP,
+    type Vector2FP,
+} from '../../primitive-types/euclidean/euclidean-types.js';
+import { FP_DEGREES_FULL } from '../../config/engineConfig.js';
+
+// -----------------------------------------------
+// Orbital Geometry
+// -----------------------------------------------
+
+/**
+ * wraps an FP angle into the range [0, 360000).
+ */
+export function normalizeAngle(angle: FP): FP {
+    const wrapped = angle % FP_DEGREES_FULL;
+    return wrapped < 0 ? fpAdd(wrapped, FP_DEGREES_FULL) : wrapped;
+}
+
+/**
+ * computes a point on a circular rail.
+ * position = center + (cos(angle), sin(angle)) * radius
+ */
+export function getOrbitPosition(center: Vector2FP, angle: FP, radius: FP): Vector2FP {
+    return fpAddVector(center, fpPolarToVector(angle, radius));
+}
+
+// -----------------------------------------------
+// Per-Body Motion
+// -----------------------------------------------
+
+/**
+ * advances a planet one step along its orbit around its parent sol.
+ */
+function advancePlanet(planet: Planet, solPosition: Vector2FP): Planet {
+    const orbitAngle = normalizeAngle(fpAdd(planet.orbitAngle, planet.orbitSpeed));
+
+    return {
+        ...planet,
+        orbitAngle,
+        position: getOrbitPosition(solPosition, orbitAngle, planet.orbitRadius),
+    };
+}
+
+/**
+ * advances a moon one step along its rail around its parent planet.
+ * the parent position must already be the planet's T+1 position.
+ */
+function advanceMoon(moon: Moon, parentPosition: Vector2FP): Moon {
+    const orbitAngle = normalizeAngle(fpAdd(moon.orbitAngle, moon.orbitSpeed));
+
+    return {
+        ...moon,
+        orbitAngle,
+        position: getOrbitPosition(parentPosition, orbitAngle, moon.orbitRadius),
+    };
+}
+
+/**
+ * advances an asteroid by its velocity (vacuum table).
+ */
+function advanceAsteroid(asteroid: Asteroid): Asteroid {
+    return {
+        ...asteroid,
+        position: fpAddVector(asteroid.position, asteroid.velocity),
+    };
+}
+
+// -----------------------------------------------
+// Celestial Motion
+// -----------------------------------------------
+
+/**
+ * advances all celestials to T+1.
+ *
+ * order matters: sols are static, planets are advanced first,
+ * then moons are placed relative to their parent's NEW position.
+ *
+ * - Sols, Wormholes: static
+ * - Planets: orbit parent sol
+ * - Moons: orbit parent planet
+ * - Asteroids: linear velocity
+ */
+export function advanceCelestials(celestials: readonly CelestialBody[]): CelestialBody[] {
+    // sols anchor planets and never move
+    const solPositions = new Map<string, Vector2FP>();
+    for (const body of celestials) {
+        if (body.type === 'SOL') {
+            solPositions.set(body.id, body.position);
+        }
+    }
+
+    // first pass: planets (and everything that does not depend on a planet)
+    const planetPositions = new Map<string, Vector2FP>();
+    const firstPass = celestials.map((body): CelestialBody => {
+        switch (body.type) {
+            case 'PLANET': {
+                const solPosition = solPositions.get(body.parentSolId);
+                const next = solPosition ? advancePlanet(body, solPosition) : body;
+                planetPositions.set(next.id, next.position);
+                return next;
+            }
+            case 'ASTEROID':
+                return advanceAsteroid(body);
+            default:
+                return body;
+        }
+    });
+
+    // second pass: moons follow their parent's T+1 position
+    return firstPass.map((body): CelestialBody => {
+        if (body.type !== 'MOON') {
+            return body;
+        }
+        const parentPosition = planetPositions.get(body.parentPlanetId);
+        return parentPosition ? advanceMoon(body, parentPosition) : body;
+    });
+}
+
+/**
+ * returns the celestial an entity is bound to (if any): a linked celestial
+ * (e.g., an asteroid resource well) or the body whose surface it is on.
+ */
+function getAnchorCelestialId(entity: Entity): string | undefined {
+    if (entity.linkedCelestialId !== undefined) {
+        return entity.linkedCelestialId;
+    }
+    if (entity.zoomState === 'SURFACE') {
+        return entity.surfaceBodyId;
+    }
+    return undefined;
+}
+
+/**
+ * moves celestial-bound entities (e.g., asteroid resource wells, surface
+ * entities) by their celestial's displacement this tick. the bound entity's
+ * velocity is set to that displacement so observers (and vector matching)
+ * see its true vector.
+ *
+ * translation skips these entities; this system owns their motion.
+ */
+function bindLinkedEntities(
+    entities: Entity[],
+    before: readonly CelestialBody[],
+    after: readonly CelestialBody[]
+): Entity[] {
+    // displacement per celestial (wormholes have no single position)
+    const displacements = new Map<string, Vector2FP>();
+    for (let i = 0; i < after.length; i++) {
+        const prev = before[i];
+        const next = after[i];
+        if (!prev || !next || prev.type === 'WORMHOLE' || next.type === 'WORMHOLE') continue;
+        displacements.set(next.id, fpSubVector(next.position, prev.position));
+    }
+
+    return entities.map(entity => {
+        const anchorId = getAnchorCelestialId(entity);
+        if (anchorId === undefined) {
+            return entity;
+        }
+
+        const displacement = displacements.get(anchorId);
+        if (!displacement) {
+            return entity;
+        }
+
+        if (displacement.x === 0 && displacement.y === 0 &&
+            entity.velocity.x === 0 && entity.velocity.y === 0) {
+            return entity;
+        }
+
+        return {
+            ...entity,
+            position: {
+                x: fpAdd(entity.position.x, displacement.x),
+                y: fpAdd(entity.position.y, displacement.y),
+            },
+            velocity: { ...displacement },
+        };
+    });
+}
+
+/**
+ * Apply celestial motion to the game state (once per tick).
+ * Advances celestials, then carries celestial-bound entities along.
+ */
+export function applyCelestialMotion(state: GameState): GameState {
+    const nextCelestials = advanceCelestials(state.celestials);
+    const nextEntities = bindLinkedEntities(state.entities, state.celestials, nextCelestials);
+
+    const changed = nextEntities.some((e, i) => e !== state.entities[i]);
+
+    return {
+        ...state,
+        celestials: nextCelestials,
+        entities: changed ? nextEntities : state.entities,
+    };
+}
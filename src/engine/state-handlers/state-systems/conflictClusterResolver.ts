@@ -20,6 +20,7 @@
 // - Shared Targets: Multiple actions target the same entity
 // - Actor-Target Duality: An entity acts while being targeted
 // - Containment/Weld Chains: Action targets child while another targets parent
+// - Tow Links: A towed entity is entangled with its tow actor (TRANSPORT)
 // - Resource Contention: Multiple actions target same resource store
 //
 // STALEMATE EXAMPLES:
@@ -29,9 +30,12 @@
 
 import type { GameState } from '../../state-types/state-types.js';
 import type { Action, ActionType } from '../../primitive-types/semantic/action/action-types.js';
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { TickContext, ActionValidator, ActionHandler } from '../../resolvers/actions/actionTypes.js';
 import { actionRegistry } from '../../resolvers/actions/actionRegistry.js';
+import { buildSpatialIndex, type SpatialIndex } from './spatialIndex.js';
+import { applySpawn, applyDestroy, canApplySpawns } from './effectSystem.js';
+import { getDestroyedIds } from './destructionSystem.js';
 
 // -----------------------------------------------
 // Types
@@ -54,7 +58,7 @@ export interface ClusterResolutionResult {
 export interface ActionResolutionResult {
     action: Action;
     valid: boolean;
-    voidReason?: 'STALEMATE' | 'INVALID' | 'DEPENDENCY_FAILED';
+    voidReason?: 'STALEMATE' | 'INVALID' | 'DEPENDENCY_FAILED' | 'TARGET_DESTROYED' | 'SPAWN_CONFLICT';
 }
 
 export interface WaveResolutionMetrics {
@@ -137,6 +141,17 @@ function getActionEntityIds(action: Action): Set<string> {
     return ids;
 }
 
+/**
+ * checks if an action names any of the given entities (actor included).
+ */
+function referencesAny(action: Action, entityIds: ReadonlySet<string>): boolean {
+    if (entityIds.size === 0) return false;
+    for (const id of getActionEntityIds(action)) {
+        if (entityIds.has(id)) return true;
+    }
+    return false;
+}
+
 /**
  * gets target entity IDs specifically (not actor).
  * used for actor-target duality detection.
@@ -152,7 +167,8 @@ function getActionTargetIds(action: Action): Set<string> {
 // -----------------------------------------------
 
 /**
- * builds a map of entity -> parent chain (both containment and weld).
+ * builds a map of entity -> parent chain (containment, weld and tow).
+ * a towed entity moves with its tow actor, so the actor counts as its ancestor.
  */
 function buildParentChainMap(entities: readonly Entity[]): Map<string, Set<string>> {
     const chainMap = new Map<string, Set<string>>();
@@ -175,6 +191,13 @@ function buildParentChainMap(entities: readonly Entity[]): Map<string, Set<strin
             current = entityMap.get(current.weldParentId);
         }
         
+        // traverse tow chain from original entity
+        current = entity;
+        while (current?.towParentId && !ancestors.has(current.towParentId)) {
+            ancestors.add(current.towParentId);
+            current = entityMap.get(current.towParentId);
+        }
+        
         chainMap.set(entity.id, ancestors);
     }
     
@@ -218,7 +241,7 @@ function sharesAncestry(
  * actions are clustered if they:
  * 1. Share any target entity ID
  * 2. An actor is also a target of another action (actor-target duality)
- * 3. Target entities in the same containment/weld chain
+ * 3. Target entities in the same containment/weld/tow chain
  * 4. Target the same resource well or mineral store
  * 
  * uses union-find for efficient cluster merging.
@@ -289,7 +312,7 @@ export function getConflictClusters(
                 continue;
             }
             
-            // rule 3: containment/weld chains
+            // rule 3: containment/weld/tow chains
             // check if any target in action i shares ancestry with any target in action j
             let sharesChain = false;
             for (const idI of idsI) {
@@ -337,6 +360,9 @@ function deepCloneEntity(entity: Entity): Entity {
         relativeOffset: entity.relativeOffset 
             ? { ...entity.relativeOffset } 
             : undefined,
+        towOffset: entity.towOffset
+            ? { ...entity.towOffset }
+            : undefined,
     };
 }
 
@@ -359,51 +385,55 @@ function deepCloneState(state: GameState): GameState {
 // -----------------------------------------------
 
 /**
- * applies entity updates to create a virtual state.
+ * applies entity effects to create a virtual state.
  * uses deep cloning to ensure immutability for permutation testing.
+ * spawns and destroys go through the effect system, so the virtual
+ * state sees exactly what the final one will.
  * 
  * CRITICAL: When a WELD increases mass in Step 1, the virtual THRUST in
  * Step 2 must use that updated mass for its Newtonian calculation (F/m).
  */
 function applyVirtualUpdates(
     state: GameState,
-    updates: EntityUpdate[]
+    effects: EntityEffect[]
 ): GameState {
-    if (updates.length === 0) return state;
+    if (effects.length === 0) return state;
     
     // deep clone all entities to prevent mutation
     const entityMap = new Map(state.entities.map(e => [e.id, deepCloneEntity(e)]));
     
-    for (const update of updates) {
-        const existing = entityMap.get(update.id);
-        if (existing) {
-            // merge updates with deep cloning for nested objects
-            const merged = { ...existing };
-            
-            for (const [key, value] of Object.entries(update.changes)) {
-                // IMPORTANT: use hasOwnProperty to check if key exists, not value !== undefined
-                // this allows setting properties to undefined (e.g., weldParentId: undefined for UNWELD)
-                if (Object.prototype.hasOwnProperty.call(update.changes, key)) {
-                    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-                        // deep clone nested objects (position, velocity, etc.)
-                        (merged as Record<string, unknown>)[key] = { ...value };
-                    } else {
-                        // for primitives and undefined, assign directly
-                        (merged as Record<string, unknown>)[key] = value;
-                    }
+    for (const effect of effects) {
+        if (effect.kind === 'spawn') {
+            applySpawn(entityMap, { ...effect, entity: deepCloneEntity(effect.entity) });
+            continue;
+        }
+        if (effect.kind === 'destroy') {
+            applyDestroy(entityMap, effect);
+            continue;
+        }
+
+        // an update to an entity that no longer exists has nothing to change
+        const existing = entityMap.get(effect.id);
+        if (!existing) continue;
+
+        // merge updates with deep cloning for nested objects
+        const merged = { ...existing };
+        
+        for (const [key, value] of Object.entries(effect.changes)) {
+            // IMPORTANT: use hasOwnProperty to check if key exists, not value !== undefined
+            // this allows setting properties to undefined (e.g., weldParentId: undefined for UNWELD)
+            if (Object.prototype.hasOwnProperty.call(effect.changes, key)) {
+                if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+                    // deep clone nested objects (position, velocity, etc.)
+                    (merged as Record<string, unknown>)[key] = { ...value };
+                } else {
+                    // for primitives and undefined, assign directly
+                    (merged as Record<string, unknown>)[key] = value;
                 }
             }
-            
-            entityMap.set(update.id, merged as Entity);
-        } else {
-            // new entity spawned - create with deep cloned position/velocity
-            const newEntity = update.changes as Partial<Entity>;
-            entityMap.set(update.id, {
-                ...newEntity,
-                position: newEntity.position ? { ...newEntity.position } : { x: 0, y: 0 },
-                velocity: newEntity.velocity ? { ...newEntity.velocity } : { x: 0, y: 0 },
-            } as Entity);
         }
+        
+        entityMap.set(effect.id, merged as Entity);
     }
     
     return {
@@ -414,12 +444,15 @@ function applyVirtualUpdates(
 
 /**
  * creates a tick context from a game state.
+ * the spatial index is shared across the wave, not rebuilt per action.
  */
-function createContext(state: GameState): TickContext {
+function createContext(state: GameState, spatial: SpatialIndex, wave: number): TickContext {
     return {
         tick: state.tick,
+        wave,
         entities: state.entities,
         state,
+        spatial,
     };
 }
 
@@ -483,16 +516,17 @@ function validateAction(
     const targets = getTargetEntities(action, state.entities);
     const inputs = getActionInputs(action);
     
-    return registration.validate(actor, targets, inputs);
+    return registration.validate(actor, targets, inputs, state.entities, state);
 }
 
 /**
- * executes an action and returns the updates.
+ * executes an action and returns its effects.
  */
 function executeAction(
     action: Action,
-    state: GameState
-): EntityUpdate[] {
+    state: GameState,
+    spatial: SpatialIndex
+): EntityEffect[] {
     const registration = actionRegistry[action.type as ActionType];
     if (!registration) return [];
     
@@ -501,11 +535,27 @@ function executeAction(
     
     const targets = getTargetEntities(action, state.entities);
     const inputs = getActionInputs(action);
-    const context = createContext(state);
+    const context = createContext(state, spatial, action.orderIndex ?? 0);
     
     return registration.handler(actor, targets, inputs, context);
 }
 
+/**
+ * validates and executes an action, or returns null if it cannot run.
+ * an action whose spawns cannot be applied (e.g. an actor spawning under
+ * an ID it already spawned this wave) is voided whole.
+ */
+function resolveAction(
+    action: Action,
+    state: GameState,
+    spatial: SpatialIndex
+): EntityEffect[] | null {
+    if (!validateAction(action, state)) return null;
+
+    const effects = executeAction(action, state, spatial);
+    return canApplySpawns(state.entities, effects) ? effects : null;
+}
+
 // -----------------------------------------------
 // Permutation Generation
 // -----------------------------------------------
@@ -552,7 +602,7 @@ interface PermutationResult {
     order: Action[];
     validCount: number;
     allValid: boolean;
-    updates: EntityUpdate[];
+    updates: EntityEffect[];
     // tracks which specific actions were valid
     validActions: Set<number>;
 }
@@ -563,26 +613,26 @@ interface PermutationResult {
  */
 function testPermutation(
     actions: Action[],
-    initialState: GameState
+    initialState: GameState,
+    spatial: SpatialIndex
 ): PermutationResult {
     // deep clone state to ensure isolation between permutation tests
     let currentState = deepCloneState(initialState);
     let validCount = 0;
-    const allUpdates: EntityUpdate[] = [];
+    const allUpdates: EntityEffect[] = [];
     const validActions = new Set<number>();
     
     for (let i = 0; i < actions.length; i++) {
         const action = actions[i]!;
         
-        // validate against current (possibly modified) state
-        const isValid = validateAction(action, currentState);
+        // validate and execute against current (possibly modified) state
+        const updates = resolveAction(action, currentState, spatial);
         
-        if (isValid) {
+        if (updates) {
             validCount++;
             validActions.add(i);
             
-            // execute and apply virtual updates
-            const updates = executeAction(action, currentState);
+            // apply virtual updates
             allUpdates.push(...updates);
             currentState = applyVirtualUpdates(currentState, updates);
         }
@@ -654,14 +704,22 @@ function targetsSameUniqueResource(
  * 1. Both are individually valid in the initial state
  * 2. Neither order (A->B or B->A) allows BOTH to succeed
  * 3. They target the same unique resource (contested)
+ * 4. They come from different actors
  * 
  * this is the core "no arbitrary winners" rule.
  */
 function areMutuallyExclusive(
     actionA: Action,
     actionB: Action,
-    state: GameState
+    state: GameState,
+    spatial: SpatialIndex = buildSpatialIndex(state.entities, state.celestials)
 ): boolean {
+    // an actor cannot stalemate itself: its own actions keep queue order,
+    // and whichever cannot follow the other is voided alone
+    if (actionA.entityId === actionB.entityId) {
+        return false;
+    }
+
     // quick check: do they target the same unique resource?
     // if not, they might still be order-dependent but not a stalemate
     const contestsSameResource = targetsSameUniqueResource(actionA, actionB);
@@ -676,11 +734,11 @@ function areMutuallyExclusive(
     }
     
     // test A -> B (does A completing invalidate B?)
-    const resultAFirst = testPermutation([actionA, actionB], state);
+    const resultAFirst = testPermutation([actionA, actionB], state, spatial);
     const bothValidAFirst = resultAFirst.validCount === 2;
     
     // test B -> A (does B completing invalidate A?)
-    const resultBFirst = testPermutation([actionB, actionA], state);
+    const resultBFirst = testPermutation([actionB, actionA], state, spatial);
     const bothValidBFirst = resultBFirst.validCount === 2;
     
     // mutual exclusion: neither order allows both to succeed
@@ -714,13 +772,14 @@ function areMutuallyExclusive(
  */
 function findMutualExclusionPairs(
     actions: Action[],
-    state: GameState
+    state: GameState,
+    spatial: SpatialIndex
 ): [Action, Action][] {
     const pairs: [Action, Action][] = [];
     
     for (let i = 0; i < actions.length; i++) {
         for (let j = i + 1; j < actions.length; j++) {
-            if (areMutuallyExclusive(actions[i]!, actions[j]!, state)) {
+            if (areMutuallyExclusive(actions[i]!, actions[j]!, state, spatial)) {
                 pairs.push([actions[i]!, actions[j]!]);
             }
         }
@@ -744,24 +803,30 @@ function findMutualExclusionPairs(
  * 
  * PHILOSOPHY: In a 24-hour tick game, contested unique targets
  * must result in zero successes, not arbitrary winners.
+ *
+ * the spatial index defaults to one built from state; resolveClusterWave
+ * passes the index it built for the whole wave.
  */
 export function resolveCluster(
     cluster: Action[],
-    state: GameState
+    state: GameState,
+    spatial: SpatialIndex = buildSpatialIndex(state.entities, state.celestials)
 ): ClusterResolutionResult {
     // single action cluster - just validate and execute
     if (cluster.length === 1) {
         const action = cluster[0]!;
         const isValid = validateAction(action, state);
+        const isApplicable = isValid
+            && canApplySpawns(state.entities, executeAction(action, state, spatial));
         
         return {
-            executionOrder: isValid ? [action] : [],
-            voidedActions: isValid ? [] : [action],
+            executionOrder: isApplicable ? [action] : [],
+            voidedActions: isApplicable ? [] : [action],
             isStalemate: false,
             actionResults: [{
                 action,
-                valid: isValid,
-                voidReason: isValid ? undefined : 'INVALID',
+                valid: isApplicable,
+                voidReason: isApplicable ? undefined : isValid ? 'SPAWN_CONFLICT' : 'INVALID',
             }],
         };
     }
@@ -773,7 +838,7 @@ export function resolveCluster(
     // if ANY pair of actions in the cluster are mutually exclusive,
     // the ENTIRE cluster is voided. no arbitrary winners.
     
-    const mutuallyExclusivePairs = findMutualExclusionPairs(cluster, state);
+    const mutuallyExclusivePairs = findMutualExclusionPairs(cluster, state, spatial);
     
     if (mutuallyExclusivePairs.length > 0) {
         // STALEMATE: void the ENTIRE cluster
@@ -809,7 +874,7 @@ export function resolveCluster(
     let testedCount = 0;
     
     for (const permutation of generatePermutations(cluster)) {
-        const result = testPermutation(permutation, state);
+        const result = testPermutation(permutation, state, spatial);
         testedCount++;
         
         // perfect order found - all actions valid
@@ -859,14 +924,23 @@ export function resolveCluster(
     
     // some actions fail due to state (not stalemate, just dependency)
     // re-execute with deep clone to get final valid set
-    const validSet = new Set<string>();
+    // keyed by the action itself: one actor may queue the same type twice
+    const validSet = new Set<Action>();
+    const destroyedSet = new Set<Action>();
+    const spawnConflictSet = new Set<Action>();
     let testState = deepCloneState(state);
     
     for (const action of bestResult.order) {
-        if (validateAction(action, testState)) {
-            validSet.add(action.entityId + ':' + action.type);
-            const updates = executeAction(action, testState);
+        const updates = resolveAction(action, testState, spatial);
+        if (updates) {
+            validSet.add(action);
             testState = applyVirtualUpdates(testState, updates);
+        } else if (referencesAny(action, getDestroyedIds(state.entities, testState.entities))) {
+            // an earlier action in the cluster destroyed what it names
+            destroyedSet.add(action);
+        } else if (validateAction(action, testState)) {
+            // valid, but it would spawn under an ID already taken
+            spawnConflictSet.add(action);
         }
     }
     
@@ -875,8 +949,7 @@ export function resolveCluster(
     const actionResults: ActionResolutionResult[] = [];
     
     for (const action of bestResult.order) {
-        const key = action.entityId + ':' + action.type;
-        const isValid = validSet.has(key);
+        const isValid = validSet.has(action);
         
         if (isValid) {
             executionOrder.push(action);
@@ -887,7 +960,11 @@ export function resolveCluster(
         actionResults.push({
             action,
             valid: isValid,
-            voidReason: isValid ? undefined : 'DEPENDENCY_FAILED',
+            voidReason: isValid
+                ? undefined
+                : destroyedSet.has(action) ? 'TARGET_DESTROYED'
+                : spawnConflictSet.has(action) ? 'SPAWN_CONFLICT'
+                : 'DEPENDENCY_FAILED',
         });
     }
     
@@ -920,14 +997,16 @@ export interface ClusterWaveResult {
 /**
  * resolves a wave of actions using the conflict cluster system.
  * 
- * 1. identifies conflict clusters
- * 2. resolves each cluster independently
- * 3. merges results into optimal execution order
- * 4. applies all valid actions to produce final state
+ * 1. voids actions naming an entity destroyed earlier in the tick
+ * 2. identifies conflict clusters and builds the wave's spatial index
+ * 3. resolves each cluster independently
+ * 4. merges results into optimal execution order
+ * 5. applies all valid actions to produce final state
  */
 export function resolveClusterWave(
     actions: Action[],
-    state: GameState
+    state: GameState,
+    destroyedIds: ReadonlySet<string> = new Set()
 ): ClusterWaveResult {
     if (actions.length === 0) {
         return {
@@ -943,17 +1022,35 @@ export function resolveClusterWave(
         };
     }
     
+    // in-flight actions on destroyed entities have nothing left to act on
+    const clusterResults: ClusterResolutionResult[] = [];
+    const liveActions: Action[] = [];
+    for (const action of actions) {
+        if (!referencesAny(action, destroyedIds)) {
+            liveActions.push(action);
+            continue;
+        }
+        clusterResults.push({
+            executionOrder: [],
+            voidedActions: [action],
+            isStalemate: false,
+            actionResults: [{ action, valid: false, voidReason: 'TARGET_DESTROYED' }],
+        });
+    }
+
     // identify conflict clusters
-    const clusters = getConflictClusters(actions, state.entities);
+    const clusters = getConflictClusters(liveActions, state.entities);
+
+    // one spatial index for the whole wave, built from its starting state
+    const spatial = buildSpatialIndex(state.entities, state.celestials);
     
     // resolve each cluster
-    const clusterResults: ClusterResolutionResult[] = [];
     let totalPermutations = 0;
     let stalemateCount = 0;
     let successCount = 0;
     
     for (const cluster of clusters) {
-        const result = resolveCluster(cluster, state);
+        const result = resolveCluster(cluster, state, spatial);
         clusterResults.push(result);
         
         // count permutations (approximate)
@@ -977,7 +1074,8 @@ export function resolveClusterWave(
     // apply all valid actions to get final state
     let finalState = state;
     for (const action of executionOrder) {
-        const updates = executeAction(action, finalState);
+        const updates = executeAction(action, finalState, spatial);
+        if (!canApplySpawns(finalState.entities, updates)) continue;
         finalState = applyVirtualUpdates(finalState, updates);
     }
     
@@ -0,0 +1,182 @@
+// ===============================================
+// DESTRUCTION SYSTEM
+// ===============================================
+// Handles: Destroying entities (PRESS, DOUBLE DOWN, vacuum death, deadbug scouts)
+// - contents are ejected at the destroyed entity's position, moving at
+//   its velocity (into whatever held it, if it was itself contained)
+// - parts welded to it detach where they are, keeping the velocity they
+//   shared with it: momentum is inherited, not lost
+// - tows on it are released (the RELEASE cascade)
+// - its own structure, fuel and volatiles stay behind as DEBRIS, so the
+//   total mass of the universe does not change
+//
+// Actions that still name a destroyed entity later in the tick are
+// voided with TARGET_DESTROYED by the conflict resolver.
+
+import type {
+    Entity,
+    EntityEffect,
+    WeldRecord,
+} from '../../primitive-types/semantic/entity/entity-types.js';
+import type { TickContext } from '../../resolvers/actions/actionTypes.js';
+import type { GameState } from '../../state-types/state-types.js';
+import { fpAdd, type Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import { getLocalPosition, getPlacementInSpaceOf } from './surfaceSystem.js';
+import { withTotalMass } from './massSystem.js';
+import { getSpawnedId, applyEffects } from './effectSystem.js';
+
+// -----------------------------------------------
+// Placement
+// -----------------------------------------------
+
+/**
+ * where something released by a destroyed entity ends up: at a local
+ * position in its space, on its rail if it was orbiting, and inside
+ * whatever contained it.
+ */
+type ReleasePlacement = Pick<
+    Entity,
+    | 'zoomState' | 'position' | 'velocity' | 'parentId' | 'surfaceBodyId' | 'surfacePosition'
+    | 'orbitTargetId' | 'orbitAngle' | 'orbitSpeed' | 'orbitRadius'
+>;
+
+function getReleasePlacement(destroyed: Entity, localPosition: Vector2FP): ReleasePlacement {
+    return {
+        ...getPlacementInSpaceOf(destroyed, localPosition),
+        orbitTargetId: destroyed.orbitTargetId,
+        orbitAngle: destroyed.orbitAngle,
+        orbitSpeed: destroyed.orbitSpeed,
+        orbitRadius: destroyed.orbitRadius,
+        parentId: destroyed.parentId,
+        velocity: { ...destroyed.velocity },
+    };
+}
+
+/**
+ * the weld history of a structure once a destroyed component is gone;
+ * records left without components no longer describe a weld.
+ */
+function removeFromWeldHistory(history: readonly WeldRecord[], destroyedId: string): WeldRecord[] {
+    return history
+        .map(record => ({
+            ...record,
+            components: record.components.filter(component => component.id !== destroyedId),
+        }))
+        .filter(record => record.components.length > 0);
+}
+
+// -----------------------------------------------
+// Debris
+// -----------------------------------------------
+
+/**
+ * what is left of a destroyed entity: its own mass and volume, inert.
+ * contents and welded parts are not debris; they survive on their own.
+ */
+export function getDebris(
+    destroyed: Entity,
+    context: Pick<TickContext, 'tick' | 'wave'>
+): Entity {
+    return {
+        id: getSpawnedId('debris', context, destroyed.id, 0),
+        type: 'DEBRIS',
+        ...getReleasePlacement(destroyed, getLocalPosition(destroyed)),
+        heading: destroyed.heading,
+        thrust: 0,
+        dryMass: destroyed.dryMass,
+        fuelMass: destroyed.fuelMass,
+        volatilesMass: destroyed.volatilesMass,
+        mass: fpAdd(fpAdd(destroyed.dryMass, destroyed.fuelMass), destroyed.volatilesMass),
+        volume: destroyed.volume,
+        reach: 0,
+        airlockSealed: false,
+        opticLevel: 0,
+        creationTick: context.tick,
+    };
+}
+
+// -----------------------------------------------
+// Destruction
+// -----------------------------------------------
+
+/**
+ * the effects of destroying an entity:
+ * - ejects its contents and detaches its welded parts
+ * - removes it from its weld parent's history
+ * - spawns its debris and destroys it (releasing anything still attached)
+ */
+export function getDestructionEffects(
+    destroyed: Entity,
+    entities: readonly Entity[],
+    context: Pick<TickContext, 'tick' | 'wave'>
+): EntityEffect[] {
+    const effects: EntityEffect[] = [];
+
+    for (const entity of entities) {
+        if (entity.id === destroyed.id) continue;
+
+        // contents: ejected where the entity was, at its velocity
+        if (entity.parentId === destroyed.id) {
+            effects.push({
+                kind: 'update',
+                id: entity.id,
+                changes: getReleasePlacement(destroyed, getLocalPosition(destroyed)),
+            });
+        }
+
+        // welded parts: detached where they are, with the structure's momentum
+        if (entity.weldParentId === destroyed.id) {
+            effects.push({
+                kind: 'update',
+                id: entity.id,
+                changes: {
+                    ...getReleasePlacement(destroyed, getLocalPosition(entity)),
+                    weldParentId: undefined,
+                    relativeOffset: undefined,
+                },
+            });
+        }
+    }
+
+    // the structure it was welded into no longer holds it
+    const weldParent = entities.find(e => e.id === destroyed.weldParentId);
+    if (weldParent?.weldHistory) {
+        effects.push({
+            kind: 'update',
+            id: weldParent.id,
+            changes: { weldHistory: removeFromWeldHistory(weldParent.weldHistory, destroyed.id) },
+        });
+    }
+
+    effects.push({ kind: 'spawn', entity: getDebris(destroyed, context) });
+    effects.push({ kind: 'destroy', id: destroyed.id, cascade: 'RELEASE' });
+
+    return withTotalMass(effects, entities);
+}
+
+/**
+ * destroys entities outside of any action (tick systems such as vacuum
+ * death). entities already gone, e.g. destroyed along with an earlier
+ * one, are skipped.
+ */
+export function destroyEntities(state: GameState, entityIds: readonly string[], wave: number = 0): GameState {
+    const entityMap = new Map(state.entities.map(e => [e.id, e]));
+    const context = { tick: state.tick, wave };
+
+    for (const entityId of entityIds) {
+        const destroyed = entityMap.get(entityId);
+        if (!destroyed) continue;
+
+        applyEffects(entityMap, getDestructionEffects(destroyed, [...entityMap.values()], context));
+    }
+
+    return { ...state, entities: [...entityMap.values()] };
+}
+
+/**
+ * IDs present before that are gone after: the entities destroyed in between.
+ */
+export function getDestroyedIds(before: readonly Entity[], after: readonly Entity[]): Set<string> {
+    const remaining = new Set(after.map(e => e.id));
+    return new Set(before.map(e => e.id).filter(id => !remaining.has(id)));
+}
@@ -0,0 +1,189 @@
+// ===============================================
+// EFFECT SYSTEM
+// ===============================================
+// Handles: Spawning and destroying entities (the non-update effects)
+// - spawned IDs derive from (tick, wave, actor, index): two actors
+//   spawning in the same tick, or one actor in two waves, never collide
+// - a spawn carries a complete entity; an incomplete one, or one whose
+//   id is already taken (an actor spawning twice under the same ID in a
+//   wave), is refused: the resolver voids the action that produced it
+//   rather than apply half of its effects
+// - a destroy removes the entity and applies its cascade policy to
+//   everything that points at it (contents, welded parts, tows)
+//
+// Shared by every place that applies effects to an entity map: the
+// conflict resolver's virtual state, the maneuver pass and the tests.
+
+import type {
+    Entity,
+    EntityType,
+    EntityEffect,
+    EntitySpawn,
+    EntityDestroy,
+} from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import type { TickContext } from '../../resolvers/actions/actionTypes.js';
+
+// -----------------------------------------------
+// Spawned IDs
+// -----------------------------------------------
+
+/**
+ * the deterministic ID of the `index`-th entity an actor spawns in a wave.
+ */
+export function getSpawnedId(
+    prefix: string,
+    context: Pick<TickContext, 'tick' | 'wave'>,
+    actorId: string,
+    index: number
+): string {
+    return `${prefix}-${context.tick}-${context.wave}-${actorId}-${index}`;
+}
+
+// -----------------------------------------------
+// Spawn Validation
+// -----------------------------------------------
+
+const ENTITY_TYPES: Record<EntityType, true> = {
+    ENTITY: true,
+    CORPORATE: true,
+    PLATFORM: true,
+    RESOURCE_WELL: true,
+    MINERAL_STORE: true,
+    DEBRIS: true,
+    BODY: true,
+};
+
+function isFPAmount(value: unknown): boolean {
+    return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+}
+
+function isFPVector(value: unknown): boolean {
+    if (typeof value !== 'object' || value === null) return false;
+    const { x, y } = value as Vector2FP;
+    return Number.isSafeInteger(x) && Number.isSafeInteger(y);
+}
+
+/**
+ * checks that a spawned entity is complete: identity, placement, mass
+ * parts and the fields every entity carries. a new entity has nothing
+ * loaded or welded to it, so its total mass is exactly its parts.
+ */
+export function isValidSpawn(entity: Entity): boolean {
+    if (typeof entity.id !== 'string' || entity.id.length === 0) return false;
+    if (!Object.prototype.hasOwnProperty.call(ENTITY_TYPES, entity.type)) return false;
+    if (typeof entity.zoomState !== 'string') return false;
+    if (!isFPVector(entity.position) || !isFPVector(entity.velocity)) return false;
+
+    if (!isFPAmount(entity.dryMass) || !isFPAmount(entity.fuelMass) || !isFPAmount(entity.volatilesMass)) {
+        return false;
+    }
+    if (!isFPAmount(entity.volume) || !isFPAmount(entity.reach)) return false;
+    if (entity.mass !== entity.dryMass + entity.fuelMass + entity.volatilesMass) return false;
+
+    return typeof entity.heading === 'number'
+        && typeof entity.thrust === 'number'
+        && typeof entity.opticLevel === 'number'
+        && typeof entity.airlockSealed === 'boolean';
+}
+
+// -----------------------------------------------
+// Application
+// -----------------------------------------------
+
+/**
+ * whether every spawn among the effects can be applied to the entities:
+ * complete, under an ID neither the entities nor an earlier spawn hold.
+ */
+export function canApplySpawns(entities: readonly Entity[], effects: readonly EntityEffect[]): boolean {
+    const taken = new Set(entities.map(e => e.id));
+    for (const effect of effects) {
+        if (effect.kind !== 'spawn') continue;
+        if (!isValidSpawn(effect.entity) || taken.has(effect.entity.id)) return false;
+        taken.add(effect.entity.id);
+    }
+    return true;
+}
+
+/**
+ * adds a spawned entity to an entity map (in place). an incomplete entity,
+ * or one whose ID is taken, is dropped; returns whether it was added.
+ */
+export function applySpawn(entityMap: Map<string, Entity>, spawn: EntitySpawn): boolean {
+    const { entity } = spawn;
+    if (!isValidSpawn(entity) || entityMap.has(entity.id)) {
+        return false;
+    }
+    entityMap.set(entity.id, entity);
+    return true;
+}
+
+/**
+ * the entity with every link to `parentId` cut.
+ */
+function releaseFrom(entity: Entity, parentId: string): Entity {
+    const released: Entity = { ...entity };
+    if (released.parentId === parentId) {
+        released.parentId = undefined;
+    }
+    if (released.weldParentId === parentId) {
+        released.weldParentId = undefined;
+        released.relativeOffset = undefined;
+    }
+    if (released.towParentId === parentId) {
+        released.towParentId = undefined;
+        released.towOffset = undefined;
+    }
+    return released;
+}
+
+function isAttachedTo(entity: Entity, parentId: string): boolean {
+    return entity.parentId === parentId
+        || entity.weldParentId === parentId
+        || entity.towParentId === parentId;
+}
+
+/**
+ * removes a destroyed entity from an entity map (in place):
+ * - DESTROY: everything attached to it goes too, recursively
+ * - RELEASE: everything attached to it stays, detached where it is
+ * destroying an unknown (already destroyed) entity does nothing.
+ */
+export function applyDestroy(entityMap: Map<string, Entity>, destroy: EntityDestroy): void {
+    if (!entityMap.has(destroy.id)) return;
+
+    const pending = [destroy.id];
+    while (pending.length > 0) {
+        const id = pending.pop()!;
+        entityMap.delete(id);
+
+        for (const entity of [...entityMap.values()]) {
+            if (!isAttachedTo(entity, id)) continue;
+
+            if (destroy.cascade === 'DESTROY') {
+                pending.push(entity.id);
+            } else {
+                entityMap.set(entity.id, releaseFrom(entity, id));
+            }
+        }
+    }
+}
+
+/**
+ * applies effects to an entity map (in place), in order. an update to an
+ * entity that no longer exists has nothing to change and is dropped.
+ */
+export function applyEffects(entityMap: Map<string, Entity>, effects: readonly EntityEffect[]): void {
+    for (const effect of effects) {
+        if (effect.kind === 'spawn') {
+            applySpawn(entityMap, effect);
+        } else if (effect.kind === 'destroy') {
+            applyDestroy(entityMap, effect);
+        } else {
+            const existing = entityMap.get(effect.id);
+            if (existing) {
+                entityMap.set(effect.id, { ...existing, ...effect.changes });
+            }
+        }
+    }
+}
@@ -0,0 +1,95 @@
+// ===============================================
+// ENVIRONMENT SYSTEM
+// ===============================================
+// Handles: Vacuum death of crew bodies, checked once per tick
+// - a BODY that requires atmosphere survives only where there is air:
+//   on the surface of a planet or moon with atmosphere > 0, or behind
+//   a sealed airlock somewhere up its container chain
+// - SPACE and ORBIT are vacuum, as is an airless surface
+// - a body left in vacuum is destroyed (see destructionSystem)
+// Pure system: (GameState) -> GameState
+
+import type { Entity } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { CelestialBody } from '../../primitive-types/semantic/celestial/celestial-types.js';
+import type { GameState } from '../../state-types/state-types.js';
+import { isBody } from '../../primitive-types/semantic/entity/entity-types.js';
+import { findSurfaceBody } from './surfaceSystem.js';
+import { destroyEntities } from './destructionSystem.js';
+
+// -----------------------------------------------
+// Container Chain
+// -----------------------------------------------
+
+/**
+ * the containers holding an entity, innermost first.
+ */
+function getContainerChain(entity: Entity, entityMap: ReadonlyMap<string, Entity>): Entity[] {
+    const chain: Entity[] = [];
+    const seen = new Set([entity.id]);
+
+    let parent = entity.parentId !== undefined ? entityMap.get(entity.parentId) : undefined;
+    while (parent && !seen.has(parent.id)) {
+        chain.push(parent);
+        seen.add(parent.id);
+        parent = parent.parentId !== undefined ? entityMap.get(parent.parentId) : undefined;
+    }
+
+    return chain;
+}
+
+/**
+ * whether a sealed airlock stands between the entity and the outside:
+ * any container up its chain with airlockSealed.
+ */
+export function isAirlocked(entity: Entity, entities: readonly Entity[]): boolean {
+    const entityMap = new Map(entities.map(e => [e.id, e]));
+    return getContainerChain(entity, entityMap).some(container => container.airlockSealed);
+}
+
+// -----------------------------------------------
+// Atmosphere
+// -----------------------------------------------
+
+/**
+ * whether the entity is out in vacuum. the outermost container decides
+ * where it is: anywhere but the surface of a body with atmosphere.
+ */
+export function isInVacuum(
+    entity: Entity,
+    entities: readonly Entity[],
+    celestials: readonly CelestialBody[]
+): boolean {
+    const entityMap = new Map(entities.map(e => [e.id, e]));
+    const outermost = getContainerChain(entity, entityMap).at(-1) ?? entity;
+
+    if (outermost.zoomState !== 'SURFACE' || outermost.surfaceBodyId === undefined) {
+        return true;
+    }
+
+    const body = findSurfaceBody(celestials, outermost.surfaceBodyId);
+    return !body || body.atmosphere <= 0;
+}
+
+// -----------------------------------------------
+// Vacuum Death
+// -----------------------------------------------
+
+/**
+ * IDs of the bodies that die this tick: atmosphere-bound, exposed and in
+ * vacuum. listed in entity order so destruction is deterministic.
+ */
+export function getVacuumDeaths(state: GameState): string[] {
+    return state.entities
+        .filter(e => isBody(e) && e.requiresAtmosphere === true)
+        .filter(e => !isAirlocked(e, state.entities))
+        .filter(e => isInVacuum(e, state.entities, state.celestials))
+        .map(e => e.id);
+}
+
+/**
+ * destroys every body left in vacuum.
+ */
+export function applyVacuumDeath(state: GameState): GameState {
+    const deaths = getVacuumDeaths(state);
+    return deaths.length > 0 ? destroyEntities(state, deaths) : state;
+}
@@ -0,0 +1,101 @@
+// ===============================================
+// EXTRACTION SYSTEM
+// ===============================================
+// Handles: Mineral yield (EXTRACT) and mineral grade
+// - volume_extracted = rate (the skill-scaled extraction rate)
+// - mass_extracted = volume_extracted × well_density
+// - purity of the resulting store = mass / volume, so a store
+//   inherits its well's density
+// - MOON wells are mixed: their ore carries trace volatiles
+// - ore has purity at or above ORE_PURITY_THRESHOLD, the rest is slag
+//
+// Shared by genesis (deposit volume), the EXTRACT handler and anything
+// that cares about ore vs slag (MOD, platforms, transport).
+
+import type { Entity } from '../../primitive-types/semantic/entity/entity-types.js';
+import {
+    fpMin,
+    fpMulWide,
+    fpDivWide,
+    type FP,
+} from '../../primitive-types/euclidean/euclidean-types.js';
+import {
+    DEFAULT_WELL_DENSITY,
+    ORE_PURITY_THRESHOLD,
+    MOON_TRACE_VOLATILES,
+} from '../../config/engineConfig.js';
+import { getMineralPurity } from './modSystem.js';
+
+// -----------------------------------------------
+// Types
+// -----------------------------------------------
+
+export type MineralGrade = 'ORE' | 'SLAG';
+
+export interface MineralYield {
+    // volume taken out of the deposit (FP)
+    volume: FP;
+
+    // mineral (dry) mass taken out of the deposit (FP)
+    mass: FP;
+
+    // volatiles drawn along with the minerals (FP)
+    volatilesMass: FP;
+}
+
+// -----------------------------------------------
+// Wells
+// -----------------------------------------------
+
+/**
+ * mineral mass per unit of deposit volume.
+ */
+export function getWellDensity(well: Entity): FP {
+    const density = well.wellDensity;
+    return density !== undefined && density > 0 ? density : DEFAULT_WELL_DENSITY;
+}
+
+/**
+ * volume a deposit of the given mineral mass occupies at a density.
+ */
+export function getDepositVolume(mineralMass: FP, density: FP): FP {
+    return density > 0 ? fpDivWide(mineralMass, density) : 0;
+}
+
+/**
+ * what extracting `volume` from a well yields. the mass is capped by the
+ * well's mineral content; a capped yield takes only the volume that
+ * mass occupies.
+ */
+export function getMineralYield(well: Entity, volume: FP): MineralYield {
+    const density = getWellDensity(well);
+
+    let mass = fpMulWide(volume, density);
+    if (mass > well.dryMass) {
+        mass = well.dryMass;
+        volume = getDepositVolume(mass, density);
+    }
+
+    // moons are mixed bodies: a trace of volatiles comes up with the ore
+    const volatilesMass = well.wellOriginType === 'MOON'
+        ? fpMin(fpMulWide(mass, MOON_TRACE_VOLATILES), well.volatilesMass)
+        : 0;
+
+    return { volume, mass, volatilesMass };
+}
+
+// -----------------------------------------------
+// Grade
+// -----------------------------------------------
+
+/**
+ * ore is dense (cheap to haul and launch, strong in a MOD);
+ * slag is bulky (fills containers and platforms).
+ */
+export function getMineralGrade(mineral: Entity): MineralGrade {
+    return getMineralPurity(mineral) >= ORE_PURITY_THRESHOLD ? 'ORE' : 'SLAG';
+}
+
+export function isOre(mineral: Entity): boolean {
+    return getMineralGrade(mineral) === 'ORE';
+}
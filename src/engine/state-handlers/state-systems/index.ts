@@ -3,8 +3,166 @@
 // ===============================================
 
 export { applyAction, applyActionsToEntity } from './actionHandlers.js';
-export { applyActions, applyManeuver, applyBinding, applyTranslation } from './maneuverSystem.js';
+export { applyActions, applyManeuver, applyBinding, applyTranslation, releaseTows } from './maneuverSystem.js';
 export { applyZoomStateTransition } from './zoomStateSystem.js';
+export {
+    applyCelestialMotion,
+    advanceCelestials,
+    getOrbitPosition,
+    normalizeAngle,
+} from './celestialSystem.js';
+export {
+    advanceOrbitalRails,
+    captureOntoRail,
+    resolveRailThrust,
+    getRailTransition,
+    getRailTangent,
+    getFallVelocity,
+    getEscapeVelocity,
+    getOrbitalVelocity,
+    getRailSpeed,
+    getRailOrbitSpeed,
+    isLandable,
+    getDockingDeltaV,
+    getDockingFuelCost,
+    canDock,
+    getLaunchFuelRequired,
+    getLaunchOrbitSpeed,
+    getRailLaunch,
+    type RailTransition,
+} from './orbitSystem.js';
+export {
+    getCoordinateSpace,
+    sharesCoordinateSpace,
+    getLocalPosition,
+    getPlacementInSpaceOf,
+    getSeparationSquared,
+    getSeparation,
+    isWithinSeparation,
+    findSurfaceBody,
+    getSurfaceSpaceOrigin,
+    isWithinSurface,
+    findSurfaceMap,
+    getZoneCount,
+    getSurfaceZ,
+    getBodySurfaceZ,
+    getZoneAtPoint,
+    getZoneFromAngle,
+    getAngleFromZone,
+    getZoneFromSurfacePosition,
+    getRailAngleFromSurfacePosition,
+    getSurfacePointForZone,
+    findNearestPlatformInZone,
+    getSurfaceRange,
+    getSurfacePathCost,
+    getReachablePointOnPath,
+    getSurfaceLanding,
+    SPACE_COORDINATE_SPACE,
+} from './surfaceSystem.js';
+export {
+    buildSpatialIndex,
+    queryEntitiesWithin,
+    queryEntitiesInReach,
+    queryCapturingCelestials,
+    canReach,
+    type SpatialIndex,
+} from './spatialIndex.js';
+export {
+    getSpaceForce,
+    getThrustFuelCost,
+    getMaxThrustDeltaV,
+    getPropellantBurn,
+} from './propulsionSystem.js';
+export {
+    getTotalMass,
+    refreshTotalMass,
+    withTotalMass,
+} from './massSystem.js';
+export {
+    getSpawnedId,
+    isValidSpawn,
+    canApplySpawns,
+    applySpawn,
+    applyDestroy,
+    applyEffects,
+} from './effectSystem.js';
+export {
+    getDebris,
+    getDestructionEffects,
+    destroyEntities,
+    getDestroyedIds,
+} from './destructionSystem.js';
+export {
+    isAirlocked,
+    isInVacuum,
+    getVacuumDeaths,
+    applyVacuumDeath,
+} from './environmentSystem.js';
+export {
+    isPosture,
+    getRealPosture,
+    isPostureStep,
+    canHoldPosture,
+    getObservedPosture,
+    redactPostures,
+    canTakePostures,
+    isPostureCommitment,
+    getPostureCommitments,
+    getPostureLockedActions,
+    getDriftedPosture,
+    applyPostureDrift,
+} from './postureSystem.js';
+export {
+    getWeldStructure,
+    getEffectivePhysics,
+    hasCapability,
+    canPerform,
+    getEffectiveProperties,
+} from './propertySystem.js';
+export {
+    RESONANT_PROPERTIES,
+    isResonantProperty,
+    getDominantProperty,
+    getMineralPurity,
+    getModResonance,
+    applyModResonance,
+} from './modSystem.js';
+export {
+    getManufactureInputs,
+    evaluateFormula,
+    getBlueprintProperties,
+    getManufacturedBody,
+} from './manufactureSystem.js';
+export {
+    getWellDensity,
+    getDepositVolume,
+    getMineralYield,
+    getMineralGrade,
+    isOre,
+    type MineralGrade,
+    type MineralYield,
+} from './extractionSystem.js';
+export {
+    isSkilledAction,
+    getSkillTargetId,
+    getStreakCount,
+    getNextSkillStreak,
+    getSkillMultiplier,
+    projectSkill,
+    type SkillProjection,
+} from './streakSystem.js';
+export {
+    getLockRange,
+    canHoldLock,
+    getLockDeltaV,
+    getLockBurn,
+    applyVectorLocks,
+} from './vectorLockSystem.js';
+export {
+    getWormholeTransit,
+    traverseWormhole,
+    applyWormholeTraversal,
+} from './wormholeSystem.js';
 export {
     projectEntity,
     projectCelestials,
@@ -13,21 +13,34 @@
 // - Root entities translate normally
 // - Welded entities (have weldParentId) are positioned at parent.position + relativeOffset
 // - Unlike containment, welded entities maintain a structural offset
+//
+// TOW MODEL (towParentId):
+// - TRANSPORT links a towed entity to its tow actor for the rest of the tick
+// - Towed entities are positioned at parent.position + towOffset, so they
+//   follow every displacement of the actor (maneuvers, translation)
+// - Tows are released once the tick settles (releaseTows)
+//
+// COORDINATE SPACES:
+// - SURFACE entities do not drift; they live on their body's local plane
+// - Children always take their parent's coordinate space (zoomState, surfaceBodyId)
+// - On the SURFACE, weld offsets apply to surfacePosition, not the space origin
 
 // TODO: Decouple maneuvers (SURFACE) from thrust (ORBIT and SPACE)
 
 import type { GameState } from '../../state-types/state-types.js';
-import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { Action, ActionType } from '../../primitive-types/semantic/action/action-types.js';
 import type { TickContext } from '../../resolvers/actions/actionTypes.js';
-import { fpAddVector, fpAdd, type Vector2FP, type FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import { fpAddVector, VECTOR_ZERO, type Vector2FP, type FP } from '../../primitive-types/euclidean/euclidean-types.js';
 import { actionRegistry } from '../../resolvers/actions/actionRegistry.js';
+import { buildSpatialIndex } from './spatialIndex.js';
+import { applyEffects } from './effectSystem.js';
 
 /**
  * Apply Newtonian motion to a single ROOT entity.
- * Contained and welded entities are handled separately.
+ * Contained, welded, celestial-bound and surface entities are handled separately.
  */
-function translateEntity(entity: Entity): Entity {
+export function translateEntity(entity: Entity): Entity {
     // skip contained entities - they will be snapped to parent
     if (entity.parentId !== undefined) {
         return entity;
@@ -38,6 +51,21 @@ function translateEntity(entity: Entity): Entity {
         return entity;
     }
 
+    // skip towed entities - they will be positioned relative to the tow actor
+    if (entity.towParentId !== undefined) {
+        return entity;
+    }
+
+    // skip celestial-bound entities - the celestial system carries them
+    if (entity.linkedCelestialId !== undefined) {
+        return entity;
+    }
+
+    // skip surface entities - the vacuum table does not apply in a pocket universe
+    if (entity.zoomState === 'SURFACE') {
+        return entity;
+    }
+
     return {
         ...entity,
         position: fpAddVector(entity.position, entity.velocity),
@@ -102,24 +130,6 @@ function getActionInputs(action: Action): Record<string, unknown> {
     return inputs;
 }
 
-/**
- * applies entity updates to an entity map.
- */
-function applyUpdates(
-    entityMap: Map<string, Entity>,
-    updates: EntityUpdate[]
-): void {
-    for (const update of updates) {
-        const existing = entityMap.get(update.id);
-        if (existing) {
-            entityMap.set(update.id, { ...existing, ...update.changes } as Entity);
-        } else {
-            // new entity spawned by action (e.g., mineral store from EXTRACT)
-            entityMap.set(update.id, update.changes as Entity);
-        }
-    }
-}
-
 /**
  * Process actions using the action registry.
  * Each action is resolved through its registered handler.
@@ -135,8 +145,10 @@ export function applyActions(state: GameState, actions: Action[]): GameState {
     // create tick context
     const context: TickContext = {
         tick: state.tick,
+        wave: 0,
         entities: state.entities,
         state,
+        spatial: buildSpatialIndex(state.entities, state.celestials),
     };
 
     // process each action
@@ -163,15 +175,17 @@ export function applyActions(state: GameState, actions: Action[]): GameState {
         // create updated context with current entity states
         const currentContext: TickContext = {
             tick: state.tick,
+            wave: action.orderIndex ?? 0,
             entities: Array.from(entityMap.values()),
             state: { ...state, entities: Array.from(entityMap.values()) },
+            spatial: context.spatial,
         };
 
         // execute handler
         const updates = registration.handler(actor, targets, inputs, currentContext);
 
         // apply updates to entity map
-        applyUpdates(entityMap, updates);
+        applyEffects(entityMap, updates);
     }
 
     // check if anything changed
@@ -185,6 +199,49 @@ export function applyActions(state: GameState, actions: Action[]): GameState {
     };
 }
 
+function vectorsEqual(a: Vector2FP | undefined, b: Vector2FP | undefined): boolean {
+    if (a === undefined || b === undefined) {
+        return a === b;
+    }
+    return a.x === b.x && a.y === b.y;
+}
+
+/**
+ * Place a child entity relative to its parent, in the parent's coordinate space.
+ * - SPACE/ORBIT parent: position = parent.position + offset
+ * - SURFACE parent: position = parent.position (the body's space origin),
+ *   surfacePosition = parent.surfacePosition + offset
+ * Returns the child unchanged if it is already in place.
+ */
+function placeChild(child: Entity, parent: Entity, offset: Vector2FP): Entity {
+    const onSurface = parent.zoomState === 'SURFACE' && parent.surfacePosition !== undefined;
+
+    const zoomState = onSurface
+        ? 'SURFACE'
+        : (child.zoomState === 'SURFACE' ? parent.zoomState : child.zoomState);
+    const surfaceBodyId = onSurface ? parent.surfaceBodyId : undefined;
+    const position = onSurface ? parent.position : fpAddVector(parent.position, offset);
+    const surfacePosition = onSurface && parent.surfacePosition
+        ? fpAddVector(parent.surfacePosition, offset)
+        : undefined;
+
+    // check if placement needs updating
+    if (child.zoomState === zoomState &&
+        child.surfaceBodyId === surfaceBodyId &&
+        vectorsEqual(child.position, position) &&
+        vectorsEqual(child.surfacePosition, surfacePosition)) {
+        return child;
+    }
+
+    return {
+        ...child,
+        zoomState,
+        surfaceBodyId,
+        position: { ...position },
+        surfacePosition: surfacePosition ? { ...surfacePosition } : undefined,
+    };
+}
+
 /**
  * Post-translation pass: snap all contained entities to their parent's position.
  * Prevents "Ghost Trailing" where container moves but content stays behind.
@@ -192,10 +249,10 @@ export function applyActions(state: GameState, actions: Action[]): GameState {
  * This runs AFTER root entity translation, so parents have their new positions.
  */
 function bindContainedPositions(entities: Entity[]): Entity[] {
-    // build a map of entity positions for quick lookup
-    const positionMap = new Map<string, Vector2FP>();
+    // build a map of entities for quick lookup
+    const entityMap = new Map<string, Entity>();
     for (const entity of entities) {
-        positionMap.set(entity.id, entity.position);
+        entityMap.set(entity.id, entity);
     }
 
     // snap contained entities to their parent's position
@@ -204,23 +261,14 @@ function bindContainedPositions(entities: Entity[]): Entity[] {
             return entity;
         }
 
-        const parentPosition = positionMap.get(entity.parentId);
-        if (!parentPosition) {
+        const parent = entityMap.get(entity.parentId);
+        if (!parent) {
             // orphaned content - parent not found, leave position unchanged
             return entity;
         }
 
-        // check if position needs updating
-        if (entity.position.x === parentPosition.x && 
-            entity.position.y === parentPosition.y) {
-            return entity;
-        }
-
-        // snap to parent position
-        return {
-            ...entity,
-            position: { ...parentPosition },
-        };
+        // snap to parent position (and coordinate space)
+        return placeChild(entity, parent, VECTOR_ZERO);
     });
 }
 
@@ -229,10 +277,10 @@ function bindContainedPositions(entities: Entity[]): Entity[] {
  * Unlike containment, welded entities maintain a structural offset.
  */
 function bindWeldedPositions(entities: Entity[]): Entity[] {
-    // build a map of entity positions for quick lookup
-    const positionMap = new Map<string, Vector2FP>();
+    // build a map of entities for quick lookup
+    const entityMap = new Map<string, Entity>();
     for (const entity of entities) {
-        positionMap.set(entity.id, entity.position);
+        entityMap.set(entity.id, entity);
     }
 
     // position welded entities relative to their parent
@@ -241,49 +289,66 @@ function bindWeldedPositions(entities: Entity[]): Entity[] {
             return entity;
         }
 
-        const parentPosition = positionMap.get(entity.weldParentId);
-        if (!parentPosition) {
+        const parent = entityMap.get(entity.weldParentId);
+        if (!parent) {
             // orphaned weld - parent not found, leave position unchanged
             return entity;
         }
 
-        // calculate expected position: parent.position + relativeOffset
+        // move to parent.position + relativeOffset (in the parent's coordinate space)
         const offset = entity.relativeOffset ?? { x: 0 as FP, y: 0 as FP };
-        const expectedPosition: Vector2FP = {
-            x: fpAdd(parentPosition.x, offset.x),
-            y: fpAdd(parentPosition.y, offset.y),
-        };
+        return placeChild(entity, parent, offset);
+    });
+}
+
+/**
+ * Post-translation pass: position towed entities at towParent.position + towOffset.
+ * Tow actors and towed entities are both roots, so this runs BEFORE the
+ * contained/welded passes: the towed entity's own contents and welded parts
+ * then snap to its new position.
+ * A tow parent that has left SURFACE/SPACE (or vanished) drops the tow in place.
+ */
+function bindTowedPositions(entities: Entity[]): Entity[] {
+    // build a map of entities for quick lookup
+    const entityMap = new Map<string, Entity>();
+    for (const entity of entities) {
+        entityMap.set(entity.id, entity);
+    }
 
-        // check if position needs updating
-        if (entity.position.x === expectedPosition.x && 
-            entity.position.y === expectedPosition.y) {
+    return entities.map(entity => {
+        if (entity.towParentId === undefined) {
             return entity;
         }
 
-        // move to offset position
-        return {
-            ...entity,
-            position: expectedPosition,
-        };
+        const parent = entityMap.get(entity.towParentId);
+        if (!parent || (parent.zoomState !== 'SURFACE' && parent.zoomState !== 'SPACE')) {
+            return { ...entity, towParentId: undefined, towOffset: undefined };
+        }
+
+        return placeChild(entity, parent, entity.towOffset ?? VECTOR_ZERO);
     });
 }
 
 /**
  * Apply physics translation to all entities.
  * 
- * Three-phase process:
+ * Four-phase process:
  * 1. Translate root entities (position += velocity)
- * 2. Bind contained entities to parent positions
- * 3. Bind welded entities to parent positions + offset
+ * 2. Bind towed entities to tow parent positions + offset
+ * 3. Bind contained entities to parent positions
+ * 4. Bind welded entities to parent positions + offset
  */
 export function applyManeuver(state: GameState): GameState {
     // phase 1: translate root entities
     const translatedEntities = state.entities.map(translateEntity);
     
-    // phase 2: bind contained entities to parents
-    const boundEntities = bindContainedPositions(translatedEntities);
+    // phase 2: bind towed entities to their tow actors
+    const towedEntities = bindTowedPositions(translatedEntities);
     
-    // phase 3: bind welded entities to parents with offset
+    // phase 3: bind contained entities to parents
+    const boundEntities = bindContainedPositions(towedEntities);
+    
+    // phase 4: bind welded entities to parents with offset
     const weldedEntities = bindWeldedPositions(boundEntities);
     
     const changed = weldedEntities.some((e, i) => e !== state.entities[i]);
@@ -302,14 +367,18 @@ export function applyManeuver(state: GameState): GameState {
  * - Translation runs ONCE per tick (at the end)
  * 
  * this function handles just the binding phases:
- * 1. Bind contained entities to parent positions
- * 2. Bind welded entities to parent positions + offset
+ * 1. Bind towed entities to tow parent positions + offset
+ * 2. Bind contained entities to parent positions
+ * 3. Bind welded entities to parent positions + offset
  */
 export function applyBinding(state: GameState): GameState {
-    // phase 1: bind contained entities to parents
-    const boundEntities = bindContainedPositions(state.entities);
+    // phase 1: bind towed entities to their tow actors
+    const towedEntities = bindTowedPositions(state.entities);
+    
+    // phase 2: bind contained entities to parents
+    const boundEntities = bindContainedPositions(towedEntities);
     
-    // phase 2: bind welded entities to parents with offset
+    // phase 3: bind welded entities to parents with offset
     const weldedEntities = bindWeldedPositions(boundEntities);
     
     const changed = weldedEntities.some((e, i) => e !== state.entities[i]);
@@ -341,3 +410,25 @@ export function applyTranslation(state: GameState): GameState {
         entities: changed ? translatedEntities : state.entities,
     };
 }
+
+/**
+ * Release every tow link once the tick has settled.
+ * 
+ * WAVE/SETTLEMENT BOUNDARY:
+ * - Tows persist across waves so later maneuvers drag the load
+ * - Tows end with the tick (after the final binding pass)
+ */
+export function releaseTows(state: GameState): GameState {
+    const releasedEntities = state.entities.map(entity =>
+        entity.towParentId === undefined
+            ? entity
+            : { ...entity, towParentId: undefined, towOffset: undefined }
+    );
+    
+    const changed = releasedEntities.some((e, i) => e !== state.entities[i]);
+    
+    return {
+        ...state,
+        entities: changed ? releasedEntities : state.entities,
+    };
+}
@@ -0,0 +1,96 @@
+// ===============================================
+// MANUFACTURE SYSTEM
+// ===============================================
+// Handles: Blueprint evaluation (MANUFACTURE)
+// - output mass = Σ mineral mass, output volume = Σ mineral volume
+// - output properties = f(input mass, template), see blueprint-types
+// - minerals move as one: the output takes their combined momentum
+//
+// Shared by the MANUFACTURE handler and the UI preview.
+
+import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type {
+    Blueprint,
+    BlueprintPhysicsProperty,
+    PropertyFormula,
+} from '../../primitive-types/semantic/blueprint/blueprint-types.js';
+import {
+    fpAdd,
+    fpMulWide,
+    fpCombinedVelocity,
+    type FP,
+} from '../../primitive-types/euclidean/euclidean-types.js';
+
+// -----------------------------------------------
+// Inputs
+// -----------------------------------------------
+
+/**
+ * total mass and volume of the minerals fed to a blueprint.
+ */
+export function getManufactureInputs(minerals: readonly Entity[]): { mass: FP; volume: FP } {
+    let mass = 0 as FP;
+    let volume = 0 as FP;
+    for (const mineral of minerals) {
+        mass = fpAdd(mass, mineral.mass);
+        volume = fpAdd(volume, mineral.volume);
+    }
+    return { mass, volume };
+}
+
+// -----------------------------------------------
+// Formulas
+// -----------------------------------------------
+
+/**
+ * value of one property formula for an input mass (undefined below its threshold).
+ */
+export function evaluateFormula(formula: PropertyFormula, inputMass: FP): FP | undefined {
+    if (formula.minMass !== undefined && inputMass < formula.minMass) {
+        return undefined;
+    }
+    return fpAdd(formula.base ?? 0, fpMulWide(formula.perMass, inputMass));
+}
+
+/**
+ * the physics and permission properties a blueprint instantiates for an input mass.
+ */
+export function getBlueprintProperties(blueprint: Blueprint, inputMass: FP): EntityUpdate['changes'] {
+    const properties: EntityUpdate['changes'] = { ...blueprint.permissions };
+
+    for (const [name, formula] of Object.entries(blueprint.physics) as [BlueprintPhysicsProperty, PropertyFormula][]) {
+        const value = evaluateFormula(formula, inputMass);
+        if (value !== undefined) {
+            properties[name] = value;
+        }
+    }
+    return properties;
+}
+
+/**
+ * the manufactured entity (everything but its identity, placement, owner and tick).
+ * nothing is added or lost: mass and volume are exactly the inputs'.
+ */
+export function getManufacturedBody(
+    blueprint: Blueprint,
+    minerals: readonly Entity[]
+): Omit<Entity, 'id' | 'type' | 'zoomState' | 'position'> {
+    const inputs = getManufactureInputs(minerals);
+    const properties = getBlueprintProperties(blueprint, inputs.mass);
+
+    return {
+        velocity: fpCombinedVelocity(minerals),
+        dryMass: inputs.mass,
+        mass: inputs.mass,
+        volume: inputs.volume,
+        fuelMass: 0,
+        volatilesMass: 0,
+        reach: 0,
+        airlockSealed: true,
+        opticLevel: 0,
+        heading: 0,
+        thrust: 0,
+        ...properties,
+        blueprintId: blueprint.id,
+    };
+}
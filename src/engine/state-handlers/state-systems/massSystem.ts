@@ -0,0 +1,158 @@
+// ===============================================
+// MASS SYSTEM
+// ===============================================
+// Handles: The one mass model every handler and invariant agrees on
+// - dryMass: the entity's own structure (hull, ore, stored minerals)
+// - total mass = dryMass + fuelMass + volatilesMass
+//   + total mass of every loaded content (recursive)
+//   + total mass of every welded child (recursive)
+// - Entity.mass caches the total, so physics (thrust, maneuver range,
+//   weld momentum) reads it directly
+// - Handlers change the parts (dryMass, fuel, volatiles, parentId,
+//   weldParentId) and refresh the cached totals through withTotalMass,
+//   which also refreshes every container or weld parent above them
+// Pure module: (entities, effects) -> effects
+//
+// Towed entities are not part of the tower's mass: they stay independent
+// and only ride along.
+
+import type { Entity, EntityEffect } from '../../primitive-types/semantic/entity/entity-types.js';
+import { getEffectId } from '../../primitive-types/semantic/entity/entity-types.js';
+import { fpAdd, type FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import { applyDestroy } from './effectSystem.js';
+
+// -----------------------------------------------
+// Structure
+// -----------------------------------------------
+
+/**
+ * the entity whose mass carries this one: its container, else its weld parent.
+ */
+function getMassParentId(entity: Entity): string | undefined {
+    return entity.parentId ?? entity.weldParentId;
+}
+
+/**
+ * parent id -> entities carried in its mass (contents and welded parts), state order
+ */
+function getMassChildren(entities: readonly Entity[]): Map<string, Entity[]> {
+    const children = new Map<string, Entity[]>();
+    for (const entity of entities) {
+        const parentId = getMassParentId(entity);
+        if (parentId === undefined) continue;
+
+        const bucket = children.get(parentId);
+        if (bucket) {
+            bucket.push(entity);
+        } else {
+            children.set(parentId, [entity]);
+        }
+    }
+    return children;
+}
+
+function sumTotalMass(entity: Entity, children: ReadonlyMap<string, readonly Entity[]>, visited: Set<string>): FP {
+    visited.add(entity.id);
+
+    let total = fpAdd(fpAdd(entity.dryMass, entity.fuelMass), entity.volatilesMass);
+    for (const child of children.get(entity.id) ?? []) {
+        // a malformed cycle must not recurse forever
+        if (visited.has(child.id)) continue;
+        total = fpAdd(total, sumTotalMass(child, children, visited));
+    }
+    return total;
+}
+
+// -----------------------------------------------
+// Total Mass
+// -----------------------------------------------
+
+/**
+ * Total mass of an entity: its dry mass, fuel and volatiles, plus the
+ * total mass of everything loaded into it or welded to it
+ */
+export function getTotalMass(entity: Entity, entities: readonly Entity[]): FP {
+    return sumTotalMass(entity, getMassChildren(entities), new Set());
+}
+
+/**
+ * Refresh the cached total mass of every entity in a state
+ * Used to build consistent states (genesis, fixtures); returns the same
+ * array when nothing changed
+ */
+export function refreshTotalMass(entities: readonly Entity[]): readonly Entity[] {
+    const children = getMassChildren(entities);
+    const refreshed = entities.map(entity => {
+        const mass = sumTotalMass(entity, children, new Set());
+        return mass === entity.mass ? entity : { ...entity, mass };
+    });
+    return refreshed.some((e, i) => e !== entities[i]) ? refreshed : entities;
+}
+
+/**
+ * collects an entity and every container / weld parent above it
+ */
+function collectMassAncestors(id: string, entityMap: ReadonlyMap<string, Entity>, into: Set<string>): void {
+    let current = entityMap.get(id);
+    const seen = new Set<string>();
+    while (current && !seen.has(current.id)) {
+        seen.add(current.id);
+        into.add(current.id);
+
+        const parentId = getMassParentId(current);
+        current = parentId === undefined ? undefined : entityMap.get(parentId);
+    }
+}
+
+/**
+ * Attach refreshed total masses to a handler's effects
+ * Every updated or spawned entity, and every container or weld parent
+ * above it (or above a destroyed entity) before or after the effects,
+ * gets its cached mass recomputed from the updated parts. Entities whose
+ * mass is unchanged get no new update.
+ *
+ * @param entities - state the effects apply to (later entries win on
+ *   duplicate ids, so handlers can append their fresher actor / targets)
+ */
+export function withTotalMass(effects: readonly EntityEffect[], entities: readonly Entity[]): EntityEffect[] {
+    const before = new Map(entities.map(e => [e.id, e]));
+    const after = new Map(before);
+    for (const effect of effects) {
+        if (effect.kind === 'update') {
+            after.set(effect.id, { ...after.get(effect.id), ...effect.changes, id: effect.id } as Entity);
+        } else if (effect.kind === 'spawn') {
+            after.set(effect.entity.id, effect.entity);
+        } else {
+            applyDestroy(after, effect);
+        }
+    }
+
+    const affected = new Set<string>();
+    for (const effect of effects) {
+        collectMassAncestors(getEffectId(effect), before, affected);
+        collectMassAncestors(getEffectId(effect), after, affected);
+    }
+
+    const afterEntities = [...after.values()];
+    const children = getMassChildren(afterEntities);
+    const result: EntityEffect[] = effects.map(effect => {
+        if (effect.kind === 'update') return { ...effect, changes: { ...effect.changes } };
+        if (effect.kind === 'spawn') return { ...effect, entity: { ...effect.entity } };
+        return { ...effect };
+    });
+
+    for (const entity of afterEntities) {
+        if (!affected.has(entity.id)) continue;
+
+        const mass = sumTotalMass(entity, children, new Set());
+        const existing = result.find(effect => effect.kind !== 'destroy' && getEffectId(effect) === entity.id);
+        if (existing?.kind === 'update') {
+            existing.changes.mass = mass;
+        } else if (existing?.kind === 'spawn') {
+            existing.entity.mass = mass;
+        } else if (mass !== before.get(entity.id)?.mass) {
+            result.push({ kind: 'update', id: entity.id, changes: { mass } });
+        }
+    }
+    return result;
+}
@@ -0,0 +1,134 @@
+// ===============================================
+// MOD SYSTEM
+// ===============================================
+// Handles: Resonance (MOD)
+// - dominant property = physics property with max(value / baseline)
+//   over the target's welded structure (welding shapes what a mod boosts)
+// - purity = mineral mass / mineral volume
+// - boost = value × purity × MOD_RESONANCE_CONSTANT
+// - the mineral's mass and volume join the target
+// Mass and volume only grow by the mineral itself, so they never resonate;
+// permissions are booleans and cannot be boosted at all.
+//
+// Shared by the MOD handler and the UI preview, so both name the same
+// property before the mineral is spent.
+
+import type { Entity, ModResonance } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { ScalarPhysicsProperty } from '../../primitive-types/semantic/property/property-types.js';
+import { PHYSICS_PROPERTIES, PHYSICS_PROPERTY_NAMES } from '../../primitive-types/semantic/property/property-types.js';
+import {
+    fpAdd,
+    fpMax,
+    fpMulWide,
+    fpDivWide,
+    toFP,
+    type FP,
+} from '../../primitive-types/euclidean/euclidean-types.js';
+import { MOD_RESONANCE_CONSTANT } from '../../primitive-types/constant/constants.js';
+import { getEffectivePhysics } from './propertySystem.js';
+
+// -----------------------------------------------
+// Resonance
+// -----------------------------------------------
+
+// physics properties a mineral can resonate with
+export const RESONANT_PROPERTIES = PHYSICS_PROPERTY_NAMES.filter(
+    (name): name is ScalarPhysicsProperty => name !== 'commitTargets' && name !== 'mass' && name !== 'volume'
+);
+
+/**
+ * checks if a property name is one a MOD can boost.
+ */
+export function isResonantProperty(name: unknown): name is ScalarPhysicsProperty {
+    return typeof name === 'string' && (RESONANT_PROPERTIES as readonly string[]).includes(name);
+}
+
+/**
+ * the target's dominant property: highest value relative to its baseline.
+ * ties go to the earlier property in the registry; a target without any
+ * resonant property has nothing to boost.
+ */
+export function getDominantProperty(
+    target: Entity,
+    entities: readonly Entity[] = []
+): { property: ScalarPhysicsProperty; ratio: FP; value: FP } | null {
+    let dominant: { property: ScalarPhysicsProperty; ratio: FP; value: FP } | null = null;
+
+    for (const property of RESONANT_PROPERTIES) {
+        const value = getEffectivePhysics(target, property, entities);
+        if (value <= 0) continue;
+
+        const ratio = fpDivWide(value, PHYSICS_PROPERTIES[property].baseline);
+        if (!dominant || ratio > dominant.ratio) {
+            dominant = { property, ratio, value };
+        }
+    }
+    return dominant;
+}
+
+/**
+ * mineral purity: mass / volume. slag (no mass) and volumeless stores are 0.
+ */
+export function getMineralPurity(mineral: Entity): FP {
+    if (mineral.mass <= 0 || mineral.volume <= 0) {
+        return 0;
+    }
+    return fpDivWide(mineral.mass, mineral.volume);
+}
+
+/**
+ * what fusing a mineral into the target would do, or null if it cannot
+ * (zero purity, or nothing to resonate with).
+ */
+export function getModResonance(
+    target: Entity,
+    mineral: Entity,
+    entities: readonly Entity[] = []
+): ModResonance | null {
+    const purity = getMineralPurity(mineral);
+    if (purity <= 0) {
+        return null;
+    }
+
+    const dominant = getDominantProperty(target, entities);
+    if (!dominant) {
+        return null;
+    }
+
+    const boost = fpMulWide(dominant.value, fpMulWide(purity, toFP(MOD_RESONANCE_CONSTANT)));
+
+    return {
+        mineralId: mineral.id,
+        property: dominant.property,
+        ratio: dominant.ratio,
+        purity,
+        before: dominant.value,
+        after: fpAdd(dominant.value, boost),
+    };
+}
+
+// -----------------------------------------------
+// Fusion
+// -----------------------------------------------
+
+/**
+ * the target after a resonance: the boosted property (on the target's own
+ * value, so the structure's effective value rises by exactly the boost),
+ * plus the mineral's mass and volume.
+ */
+export function applyModResonance(target: Entity, mineral: Entity, resonance: ModResonance): Entity {
+    const boost = resonance.after - resonance.before;
+    const own = target[resonance.property] ?? 0;
+
+    // a MAX property only rises if the target holds the structure's best
+    const boosted = PHYSICS_PROPERTIES[resonance.property].rule === 'MAX'
+        ? fpAdd(fpMax(own, resonance.before), boost)
+        : fpAdd(own, boost);
+
+    return {
+        ...target,
+        [resonance.property]: boosted,
+        dryMass: fpAdd(target.dryMass, mineral.mass),
+        volume: fpAdd(target.volume, mineral.volume),
+    };
+}
@@ -0,0 +1,327 @@
+// ===============================================
+// ORBIT SYSTEM
+// ===============================================
+// Handles: Orbital rail state (θ, ω, rail radius)
+// - Rail advance: θnew = θold + ω (mod 360°), once per tick
+// - Capture: SPACE velocity -> rail state (θentry, ωentry)
+// - Threshold gates: thrust on the rail lands, stays, or escapes
+// - Docking: rail -> moon surface by burning off the rail speed gap to the moon
+// - Launch: SURFACE -> rail state (θ from launch zone, ω from launch ratio)
+// Pure system: (GameState) -> GameState
+//
+// Orbits are fixed circular rails at the planet's capture radius.
+// ω is angular (FP degrees per tick); the gates and thrust are linear,
+// so ω converts through the rail speed v = ω × Rorbit (in radians).
+// Thrust on the rail is not simulated; it is a key to one of three doors:
+//   E = v(ωold) + Δvapplied
+//   E <= Vfall   -> LAND   (fall into the gravity well)
+//   E >= Vescape -> ESCAPE (exit to SPACE tangent to the rail)
+//   otherwise    -> STAY   (ωnew = E / Rorbit)
+// Gas giants have no surface: a LAND gate on a gas giant stays on the rail.
+
+import type { GameState, SurfaceMap } from '../../state-types/state-types.js';
+import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Moon, Planet } from '../../primitive-types/semantic/celestial/celestial-types.js';
+import {
+    fpAdd,
+    fpSub,
+    fpMul,
+    fpDiv,
+    fpMax,
+    fpSqrt,
+    fpDot,
+    fpSin,
+    fpCos,
+    fpAtan2,
+    fpArcAngle,
+    fpArcLength,
+    fpSubVector,
+    fpScaleVector,
+    toFP,
+    SPEED_FROM_VECTOR,
+    VECTOR_ZERO,
+    type FP,
+    type Vector2FP,
+} from '../../primitive-types/euclidean/euclidean-types.js';
+import {
+    BASE_ORBITAL_VELOCITY,
+    FALL_CONSTANT,
+    LAUNCH_EFFICIENCY_CONSTANT,
+    ORBITAL_CONVERSION_CONSTANT,
+} from '../../primitive-types/constant/constants.js';
+import { DOCKING_MARGIN_OF_ERROR, MAX_THRUST_PER_TICK, ORBIT_Z } from '../../config/engineConfig.js';
+import { getOrbitPosition, normalizeAngle } from './celestialSystem.js';
+import { getSurfaceLanding } from './surfaceSystem.js';
+import { getThrustFuelCost } from './propulsionSystem.js';
+
+export type RailTransition = 'LAND' | 'STAY' | 'ESCAPE';
+
+// -----------------------------------------------
+// Rail Geometry
+// -----------------------------------------------
+
+/**
+ * unit vector tangent to the rail at angle θ (direction of positive ω).
+ * tangent(θ) = (-sin θ, cos θ)
+ */
+export function getRailTangent(angle: FP): Vector2FP {
+    return {
+        x: fpSub(0, fpSin(angle)),
+        y: fpCos(angle),
+    };
+}
+
+/**
+ * linear speed along the rail of an entity turning ω degrees per tick.
+ * v = ω × Rorbit (ω in radians)
+ */
+export function getRailSpeed(orbitSpeed: FP, orbitRadius: FP): FP {
+    return fpArcLength(orbitSpeed, orbitRadius);
+}
+
+/**
+ * angular speed (FP degrees per tick) of a linear speed along the rail.
+ * ω = v / Rorbit (in degrees)
+ */
+export function getRailOrbitSpeed(speed: FP, orbitRadius: FP): FP {
+    return fpArcAngle(speed, orbitRadius);
+}
+
+/**
+ * speed of a circular orbit on the planet's rail, between the gates.
+ * Vorbit = sqrt(g × Rorbit)
+ */
+export function getOrbitalVelocity(planet: Planet): FP {
+    return fpSqrt(fpMul(planet.gravity, planet.captureRadius));
+}
+
+/**
+ * velocity below which a rail entity falls into the gravity well.
+ * Vfall = sqrt(g × Rorbit) × fall_constant
+ */
+export function getFallVelocity(planet: Planet): FP {
+    return fpMul(getOrbitalVelocity(planet), toFP(FALL_CONSTANT));
+}
+
+/**
+ * velocity above which a rail entity escapes the gravity well.
+ * Vescape = sqrt(2 × g × Rorbit)
+ */
+export function getEscapeVelocity(planet: Planet): FP {
+    return fpSqrt(fpMul(toFP(2), fpMul(planet.gravity, planet.captureRadius)));
+}
+
+/**
+ * checks whether a planet has a surface to land on.
+ */
+export function isLandable(planet: Planet): boolean {
+    return planet.planetType !== 'GAS_GIANT';
+}
+
+/**
+ * classifies a rail energy (linear speed along the rail) against the
+ * planet's threshold gates.
+ */
+export function getRailTransition(energy: FP, planet: Planet): RailTransition {
+    if (energy <= getFallVelocity(planet)) {
+        return isLandable(planet) ? 'LAND' : 'STAY';
+    }
+    if (energy >= getEscapeVelocity(planet)) {
+        return 'ESCAPE';
+    }
+    return 'STAY';
+}
+
+// -----------------------------------------------
+// Transitions
+// -----------------------------------------------
+
+/**
+ * snaps an entity onto a planet's rail (SPACE -> ORBIT).
+ * θentry = atan2(Pentity - planet_center)
+ * ωentry = |Ventity| × orbital_conversion_constant / Rorbit
+ */
+export function captureOntoRail(entity: Entity, planet: Planet): Entity {
+    const offset = fpSubVector(entity.position, planet.position);
+    const orbitAngle = fpAtan2(offset.y, offset.x);
+    const railSpeed = fpMul(SPEED_FROM_VECTOR(entity.velocity), toFP(ORBITAL_CONVERSION_CONSTANT));
+    const orbitSpeed = getRailOrbitSpeed(railSpeed, planet.captureRadius);
+
+    return {
+        ...entity,
+        zoomState: 'ORBIT',
+        orbitTargetId: planet.id,
+        orbitAngle,
+        orbitSpeed,
+        orbitRadius: planet.captureRadius,
+        position: getOrbitPosition(planet.position, orbitAngle, planet.captureRadius),
+        velocity: VECTOR_ZERO,
+    };
+}
+
+/**
+ * resolves a thrust applied on the rail through the threshold gates.
+ * only the component of delta-V along the rail tangent counts:
+ * prograde raises ω, retrograde lowers it.
+ *
+ * - LAND: enters SURFACE in the zone under θ (see surfaceSystem)
+ * - ESCAPE: Pspace = center + Rorbit × dir(θ), Vspace = tangent(θ) × E
+ * - STAY: ωnew = E / Rorbit
+ */
+export function resolveRailThrust(
+    entity: Entity,
+    planet: Planet,
+    deltaV: Vector2FP,
+    surfaceMap: SurfaceMap | null,
+    entities: readonly Entity[] = []
+): EntityUpdate['changes'] {
+    const orbitAngle = entity.orbitAngle ?? 0;
+    const orbitRadius = entity.orbitRadius ?? planet.captureRadius;
+    const tangent = getRailTangent(orbitAngle);
+    const energy = fpAdd(getRailSpeed(entity.orbitSpeed ?? 0, orbitRadius), fpDot(deltaV, tangent));
+
+    switch (getRailTransition(energy, planet)) {
+        case 'LAND':
+            return getSurfaceLanding(planet, orbitAngle, surfaceMap, entities);
+        case 'ESCAPE':
+            return {
+                zoomState: 'SPACE',
+                orbitTargetId: undefined,
+                orbitAngle: undefined,
+                orbitSpeed: undefined,
+                orbitRadius: undefined,
+                position: getOrbitPosition(planet.position, orbitAngle, orbitRadius),
+                velocity: fpScaleVector(tangent, energy),
+            };
+        case 'STAY':
+            return {
+                orbitSpeed: getRailOrbitSpeed(energy, orbitRadius),
+            };
+    }
+}
+
+// -----------------------------------------------
+// Moon Docking
+// -----------------------------------------------
+
+/**
+ * linear speed difference an entity must cancel to dock with a moon:
+ * the rail speed of the ω gap on the entity's rail.
+ * Δv_required = v(|ω_entity - ω_moon|)
+ */
+export function getDockingDeltaV(entity: Entity, moon: Moon): FP {
+    const gap = Math.abs(fpSub(entity.orbitSpeed ?? 0, moon.orbitSpeed));
+    return getRailSpeed(gap, entity.orbitRadius ?? 0);
+}
+
+/**
+ * fuel needed to dock with a moon: the docking Δv is burned like any
+ * thrust, fuel_cost = Δv_required × m × fuel_efficiency_constant.
+ */
+export function getDockingFuelCost(entity: Entity, moon: Moon): FP {
+    return getThrustFuelCost(getDockingDeltaV(entity, moon), entity.mass);
+}
+
+/**
+ * can_land = Δv_required <= available thrust this tick, within the
+ * configured margin of error. the margin bends the thrust cap only: the
+ * full burn is charged, so the fuel must cover all of it.
+ */
+export function canDock(entity: Entity, moon: Moon): boolean {
+    const tolerance = fpMul(MAX_THRUST_PER_TICK, fpAdd(toFP(1), DOCKING_MARGIN_OF_ERROR));
+    return getDockingDeltaV(entity, moon) <= tolerance && getDockingFuelCost(entity, moon) <= entity.fuelMass;
+}
+
+// -----------------------------------------------
+// Launch
+// -----------------------------------------------
+
+/**
+ * fuel needed to lift an entity from a surface point onto the rail.
+ * fuel_required = m × (Zsurface - Zorbit) × launch_efficiency_constant
+ * ground at or below the orbit Z costs nothing.
+ */
+export function getLaunchFuelRequired(mass: FP, surfaceZ: FP): FP {
+    const liftZ = fpMax(fpSub(surfaceZ, ORBIT_Z), 0);
+    return fpMul(fpMul(mass, liftZ), toFP(LAUNCH_EFFICIENCY_CONSTANT));
+}
+
+/**
+ * initial rail speed after a launch.
+ * ωinitial = launch_ratio × base_orbital_velocity
+ * launch_ratio = fuel_burned / fuel_required
+ * a free launch enters the rail at base orbital velocity.
+ */
+export function getLaunchOrbitSpeed(fuelBurned: FP, fuelRequired: FP): FP {
+    if (fuelRequired <= 0) {
+        return toFP(BASE_ORBITAL_VELOCITY);
+    }
+    return fpMul(fpDiv(fuelBurned, fuelRequired), toFP(BASE_ORBITAL_VELOCITY));
+}
+
+/**
+ * changes that lift a SURFACE entity onto a planet's rail (SURFACE -> ORBIT).
+ * surface state is cleared.
+ */
+export function getRailLaunch(planet: Planet, orbitAngle: FP, orbitSpeed: FP): EntityUpdate['changes'] {
+    return {
+        zoomState: 'ORBIT',
+        orbitTargetId: planet.id,
+        orbitAngle,
+        orbitSpeed,
+        orbitRadius: planet.captureRadius,
+        position: getOrbitPosition(planet.position, orbitAngle, planet.captureRadius),
+        velocity: VECTOR_ZERO,
+        surfaceBodyId: undefined,
+        surfacePosition: undefined,
+    };
+}
+
+// -----------------------------------------------
+// Rail Advance
+// -----------------------------------------------
+
+/**
+ * moves a single rail entity one step: θnew = θold + ω (mod 360°).
+ * the rail is centered on the planet's T+1 position.
+ */
+function advanceRailEntity(entity: Entity, planets: ReadonlyMap<string, Planet>): Entity {
+    if (entity.zoomState !== 'ORBIT' || entity.orbitTargetId === undefined) {
+        return entity;
+    }
+
+    const planet = planets.get(entity.orbitTargetId);
+    if (!planet) {
+        return entity;
+    }
+
+    const orbitAngle = normalizeAngle(fpAdd(entity.orbitAngle ?? 0, entity.orbitSpeed ?? 0));
+    const orbitRadius = entity.orbitRadius ?? planet.captureRadius;
+
+    return {
+        ...entity,
+        orbitAngle,
+        position: getOrbitPosition(planet.position, orbitAngle, orbitRadius),
+    };
+}
+
+/**
+ * Advance every rail entity along its orbit (once per tick).
+ * Must run after celestial motion so rails follow their planet.
+ */
+export function advanceOrbitalRails(state: GameState): GameState {
+    const planets = new Map<string, Planet>();
+    for (const celestial of state.celestials) {
+        if (celestial.type === 'PLANET') {
+            planets.set(celestial.id, celestial);
+        }
+    }
+
+    const nextEntities = state.entities.map(entity => advanceRailEntity(entity, planets));
+    const changed = nextEntities.some((e, i) => e !== state.entities[i]);
+
+    return {
+        ...state,
+        entities: changed ? nextEntities : state.entities,
+    };
+}
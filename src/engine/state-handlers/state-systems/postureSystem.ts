@@ -0,0 +1,232 @@
+// ===============================================
+// POSTURE SYSTEM
+// ===============================================
+// Handles: Broadcast and real posture
+// - real posture moves one step per change along
+//   DORMANT ↔ IDLE ↔ ACTIVE ↔ ALERT ↔ HIDDEN | HOSTILE,
+//   and only into postures the entity's postureCapability allows
+// - changing or holding real posture (a valid POSTURE with a realPosture)
+//   takes the entity's whole tick: its other actions that tick are voided.
+//   an invalid one commits to nothing and locks nothing
+// - broadcast posture is free and unconstrained: it can bluff
+//   and it is all other players see: the real posture is redacted from
+//   the state sent to them
+// - an entity that acts rises one step, but no higher than ACTIVE
+// - an entity that does nothing decays one step toward DORMANT
+//
+// Only entities that carry a real posture drift; the rest have none to
+// change until they first take one up.
+
+import type { Entity, Posture } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { Action, PostureAction } from '../../primitive-types/semantic/action/action-types.js';
+import type { GameState } from '../../state-types/state-types.js';
+import { canPerform } from './propertySystem.js';
+
+// -----------------------------------------------
+// Posture Ladder
+// -----------------------------------------------
+
+// the postures one step away from each posture
+const POSTURE_STEPS: Record<Posture, readonly Posture[]> = {
+    DORMANT: ['IDLE'],
+    IDLE: ['DORMANT', 'ACTIVE'],
+    ACTIVE: ['IDLE', 'ALERT'],
+    ALERT: ['ACTIVE', 'HIDDEN', 'HOSTILE'],
+    HIDDEN: ['ALERT'],
+    HOSTILE: ['ALERT'],
+};
+
+// one step up, as far as acting carries an entity
+const RAISED_POSTURE: Record<Posture, Posture> = {
+    DORMANT: 'IDLE',
+    IDLE: 'ACTIVE',
+    ACTIVE: 'ACTIVE',
+    ALERT: 'ALERT',
+    HIDDEN: 'HIDDEN',
+    HOSTILE: 'HOSTILE',
+};
+
+// one step down, toward DORMANT
+const DECAYED_POSTURE: Record<Posture, Posture> = {
+    DORMANT: 'DORMANT',
+    IDLE: 'DORMANT',
+    ACTIVE: 'IDLE',
+    ALERT: 'ACTIVE',
+    HIDDEN: 'ALERT',
+    HOSTILE: 'ALERT',
+};
+
+// an entity that never took up a posture counts as idle
+const DEFAULT_POSTURE: Posture = 'IDLE';
+
+export function isPosture(value: unknown): value is Posture {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(POSTURE_STEPS, value);
+}
+
+export function getRealPosture(entity: Entity): Posture {
+    return entity.realPosture ?? DEFAULT_POSTURE;
+}
+
+/**
+ * whether real posture may go from `from` to `to` in one tick:
+ * holding, or a single step along the ladder.
+ */
+export function isPostureStep(from: Posture, to: Posture): boolean {
+    return from === to || POSTURE_STEPS[from].includes(to);
+}
+
+/**
+ * whether the entity can really hold a posture (its postureCapability
+ * subset; every posture when it declares none).
+ */
+export function canHoldPosture(entity: Entity, posture: Posture): boolean {
+    return entity.postureCapability?.includes(posture) ?? true;
+}
+
+/**
+ * whether the actor can take the postures a POSTURE names: it needs
+ * canPosture and at least one posture; a real posture must be one it can
+ * hold, at most one step away; a broadcast can be any posture.
+ */
+export function canTakePostures(
+    actor: Entity,
+    realPosture: unknown,
+    broadcastPosture: unknown,
+    entities: readonly Entity[] = []
+): boolean {
+    if (!canPerform(actor, 'POSTURE', entities)) return false;
+    if (realPosture === undefined && broadcastPosture === undefined) return false;
+
+    if (broadcastPosture !== undefined && !isPosture(broadcastPosture)) return false;
+
+    if (realPosture !== undefined) {
+        if (!isPosture(realPosture)) return false;
+        if (!canHoldPosture(actor, realPosture)) return false;
+        if (!isPostureStep(getRealPosture(actor), realPosture)) return false;
+    }
+
+    return true;
+}
+
+/**
+ * what an observer sees: the real posture for the entity's own player,
+ * the broadcast one for everyone else.
+ */
+export function getObservedPosture(entity: Entity, viewerPlayerId?: string): Posture {
+    if (viewerPlayerId !== undefined && viewerPlayerId === entity.playerId) {
+        return getRealPosture(entity);
+    }
+    return entity.broadcastPosture ?? getRealPosture(entity);
+}
+
+/**
+ * the state as a viewer may see it: entities of other players keep only
+ * the posture they broadcast, with their real posture stripped. without a
+ * viewer, every entity is redacted.
+ */
+export function redactPostures(state: GameState, viewerPlayerId?: string): GameState {
+    let changed = false;
+    const entities = state.entities.map(entity => {
+        if (entity.realPosture === undefined) return entity;
+        if (viewerPlayerId !== undefined && viewerPlayerId === entity.playerId) return entity;
+
+        changed = true;
+        const { realPosture: _realPosture, ...observed } = entity;
+        return { ...observed, broadcastPosture: getObservedPosture(entity, viewerPlayerId) };
+    });
+
+    return changed ? { ...state, entities } : state;
+}
+
+// -----------------------------------------------
+// Whole-Tick Commitment
+// -----------------------------------------------
+
+/**
+ * whether an action changes or holds real posture (and so takes the tick).
+ * a broadcast-only POSTURE is free.
+ */
+export function isPostureCommitment(action: Action): action is PostureAction {
+    return action.type === 'POSTURE' && action.realPosture !== undefined;
+}
+
+/**
+ * each entity's posture commitment this tick, judged against the entities
+ * at the start of the tick. only a valid commitment counts; an entity
+ * committing twice keeps its first valid one.
+ */
+export function getPostureCommitments(
+    actions: readonly Action[],
+    entities: readonly Entity[]
+): Map<string, PostureAction> {
+    const entityMap = new Map(entities.map(e => [e.id, e]));
+    const commitments = new Map<string, PostureAction>();
+
+    for (const action of actions) {
+        if (!isPostureCommitment(action) || commitments.has(action.entityId)) continue;
+
+        const actor = entityMap.get(action.entityId);
+        if (actor && canTakePostures(actor, action.realPosture, action.broadcastPosture, entities)) {
+            commitments.set(action.entityId, action);
+        }
+    }
+
+    return commitments;
+}
+
+/**
+ * the actions voided because their entity spends the tick on its posture:
+ * everything else it queued.
+ */
+export function getPostureLockedActions(actions: readonly Action[], entities: readonly Entity[]): Action[] {
+    const commitments = getPostureCommitments(actions, entities);
+
+    return actions.filter(action => {
+        const commitment = commitments.get(action.entityId);
+        return commitment !== undefined && commitment !== action;
+    });
+}
+
+// -----------------------------------------------
+// Drift
+// -----------------------------------------------
+
+/**
+ * where an entity's real posture drifts at the end of a tick in which it
+ * did (`acted`) or did not act, within what it can hold.
+ */
+export function getDriftedPosture(entity: Entity, acted: boolean): Posture {
+    const current = getRealPosture(entity);
+    const next = acted ? RAISED_POSTURE[current] : DECAYED_POSTURE[current];
+    return canHoldPosture(entity, next) ? next : current;
+}
+
+/**
+ * drifts every postured entity that did not validly commit to a posture
+ * this tick: acting raises it, doing nothing decays it. free broadcasts
+ * (and refused postures) are not acting.
+ *
+ * @param startEntities - the entities at the start of the tick, which the
+ *   commitments are judged against
+ */
+export function applyPostureDrift(
+    state: GameState,
+    actions: readonly Action[],
+    startEntities: readonly Entity[]
+): GameState {
+    const committed = getPostureCommitments(actions, startEntities);
+    const acted = new Set(actions.filter(a => a.type !== 'POSTURE').map(a => a.entityId));
+
+    let changed = false;
+    const entities = state.entities.map(entity => {
+        if (entity.realPosture === undefined || committed.has(entity.id)) return entity;
+
+        const realPosture = getDriftedPosture(entity, acted.has(entity.id));
+        if (realPosture === entity.realPosture) return entity;
+
+        changed = true;
+        return { ...entity, realPosture };
+    });
+
+    return changed ? { ...state, entities } : state;
+}
@@ -14,94 +14,27 @@ import type { Entity } from '../../primitive-types/semantic/entity/entity-types.
 import type { Action } from '../../primitive-types/semantic/action/action-types.js';
 import type { Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
 import type { GameState } from '../../state-types/state-types.js';
-import type { CelestialBody, Moon, Asteroid } from '../../primitive-types/semantic/celestial/celestial-types.js';
-import { fpAddVector, fpAdd, fpMul, toFP } from '../../primitive-types/euclidean/euclidean-types.js';
+import type { CelestialBody } from '../../primitive-types/semantic/celestial/celestial-types.js';
 import { applyActionsToEntity } from './actionHandlers.js';
+import { advanceCelestials, applyCelestialMotion } from './celestialSystem.js';
+import { advanceOrbitalRails } from './orbitSystem.js';
+import { translateEntity } from './maneuverSystem.js';
+import { traverseWormhole } from './wormholeSystem.js';
 
 // -----------------------------------------------
-// Internal: Celestial projection (mirrors future celestial systems)
-// TODO: Fully implement celestial behavior in celestial system
+// Celestial projection (delegates to celestialSystem)
 // -----------------------------------------------
 
-/**
- * Project a moon's orbital position to T+1
- * Advances orbitAngle by orbitSpeed
- */
-function projectMoon(moon: Moon, parentPosition: Vector2FP): Moon {
-    // Advance orbit angle by orbit speed
-    const newOrbitAngle = fpAdd(moon.orbitAngle, moon.orbitSpeed);
-    
-    // Calculate new position based on orbit
-    // position = parentPosition + (cos(angle), sin(angle)) * orbitRadius
-    const angleRad = (newOrbitAngle / 1000) * (Math.PI / 180);
-    const newX = fpAdd(parentPosition.x, toFP(Math.cos(angleRad) * (moon.orbitRadius / 1000)));
-    const newY = fpAdd(parentPosition.y, toFP(Math.sin(angleRad) * (moon.orbitRadius / 1000)));
-    
-    return {
-        ...moon,
-        orbitAngle: newOrbitAngle,
-        position: { x: newX, y: newY },
-    };
-}
-
-/**
- * Project an asteroid's position to T+1
- * Applies linear velocity (position += velocity)
- */
-function projectAsteroid(asteroid: Asteroid): Asteroid {
-    return {
-        ...asteroid,
-        position: fpAddVector(asteroid.position, asteroid.velocity),
-    };
-}
-
 /**
  * Project all celestials to T+1
- * - Planets: static (no change)
- * - Moons: orbital motion around parent
+ * Uses the same advanceCelestials as the tick resolver, so ghost
+ * celestials always agree with server resolution:
+ * - Planets: orbit parent sol
+ * - Moons: orbital motion around (moving) parent planet
  * - Asteroids: linear velocity
  */
 export function projectCelestials(celestials: CelestialBody[]): CelestialBody[] {
-    // First pass: find planet positions (they don't move)
-    const planetPositions = new Map<string, Vector2FP>();
-    for (const body of celestials) {
-        if (body.type === 'PLANET') {
-            planetPositions.set(body.id, body.position);
-        }
-    }
-    
-    // Second pass: project each celestial
-    return celestials.map(body => {
-        switch (body.type) {
-            case 'PLANET':
-                // Planets are static
-                return body;
-            case 'MOON':
-                // Moons orbit their parent planet
-                const parentPos = planetPositions.get(body.parentPlanetId);
-                return parentPos ? projectMoon(body, parentPos) : body;
-            case 'ASTEROID':
-                // Asteroids have linear velocity
-                return projectAsteroid(body);
-            default:
-                return body;
-        }
-    });
-}
-
-// -----------------------------------------------
-// Internal: Single-entity physics (mirrors maneuverSystem)
-// -----------------------------------------------
-
-/**
- * Apply Newtonian motion to an entity (position += velocity)
- * Mirrors the translateEntity in maneuverSystem.ts
- */
-function translateEntity(entity: Entity): Entity {
-    return {
-        ...entity,
-        position: fpAddVector(entity.position, entity.velocity),
-    };
+    return advanceCelestials(celestials);
 }
 
 // -----------------------------------------------
@@ -117,25 +50,36 @@ function translateEntity(entity: Entity): Entity {
  * Pipeline (mirrors tickResolver):
  * 1. Process Input (actions -> velocity changes)
  * 2. Physics (position += velocity)
- * 3. Environment checks (using T+1 celestials)
+ * 3. Wormhole traversal (using T+1 celestials)
+ * 4. Environment checks (using T+1 celestials)
  * 
  * @param entity - the entity to project
  * @param actions - actions to apply (will filter to this entity)
  * @param celestialsT1 - celestials projected to T+1 (for environment checks)
+ * @param entities - surrounding entities (engines on welded parts)
  * @returns the projected entity state after one tick
  */
 export function projectEntity(
     entity: Entity,
     actions: Action[] = [],
-    celestialsT1?: CelestialBody[]
+    celestialsT1?: CelestialBody[],
+    entities: readonly Entity[] = []
 ): Entity {
     // Step 1: apply actions (e.g. THRUST modifies velocity)
-    let projected = applyActionsToEntity(entity, actions);
+    let projected = applyActionsToEntity(entity, actions, entities);
     
-    // Step 2: apply physics (position += velocity)
+    // Step 2: apply physics (position += velocity), with the same skips as
+    // the resolver: surface, celestial-bound, contained, welded and towed
+    // entities are moved by their own systems
     projected = translateEntity(projected);
     
-    // Step 3: environment checks would go here (zoomState transitions)
+    // Step 3: a path across a wormhole endpoint emerges at the paired endpoint,
+    // so the ghost (and the line drawn to it) lands where the server will put it
+    if (celestialsT1) {
+        projected = traverseWormhole(projected, celestialsT1);
+    }
+    
+    // Step 4: environment checks would go here (zoomState transitions)
     // Uses celestialsT1 (T+1 positions) for deterministic capture checks
     // Currently omitted for ghost rendering - we show destination, not state changes
     
@@ -180,8 +124,10 @@ export function getProjectedEntity(
  * Dry-run simulation - does NOT mutate the input state
  * 
  * Uses the same pipeline as tickResolver:
- * 1. Process all actions
- * 2. Apply physics to all entities
+ * 1. Advance celestials (and celestial-bound entities) to T+1
+ * 2. Process all actions
+ * 3. Apply physics (and wormhole traversal) to all entities
+ * 4. Advance orbital rails
  * 
  * @param state - current game state
  * @param actions - actions to apply
@@ -191,16 +137,20 @@ export function projectGameState(
     state: GameState,
     actions: Action[] = []
 ): GameState {
+    // Celestial synchronization: same system the tick resolver runs
+    const celestialState = applyCelestialMotion(state);
+
     // Project each entity individually
-    const projectedEntities = state.entities.map(entity =>
-        projectEntity(entity, actions, state.celestials)
+    const projectedEntities = celestialState.entities.map(entity =>
+        projectEntity(entity, actions, celestialState.celestials, celestialState.entities)
     );
     
-    return {
-        ...state,
+    // Rail entities ride their planet's T+1 position
+    return advanceOrbitalRails({
+        ...celestialState,
         entities: projectedEntities,
         // Note: tick is NOT incremented - this is a preview, not a commit
-    };
+    });
 }
 
 // -----------------------------------------------
@@ -0,0 +1,158 @@
+// ===============================================
+// PROPERTY SYSTEM
+// ===============================================
+// Handles: Effective properties of entities and welded structures
+// - A structure is an entity plus every part welded to it (directly or
+//   through other welded parts)
+// - Physics properties compose by their registry rule (Sum / Max);
+//   mass is already the structure's total (mass system)
+// - Permissions compose by OR over each part's declared value, falling
+//   back to the registry baseline
+// - hasCapability / canPerform are the capability checks every
+//   ActionValidator runs before its state checks
+// Pure module: (entity, entities) -> properties
+
+import type { Entity } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { ActionType } from '../../primitive-types/semantic/action/action-types.js';
+import type {
+    EffectiveProperties,
+    PermissionProperty,
+    PermissionPropertyValues,
+    PhysicsPropertyValues,
+    ScalarPhysicsProperty,
+} from '../../primitive-types/semantic/property/property-types.js';
+import {
+    ACTION_CAPABILITIES,
+    PERMISSION_PROPERTIES,
+    PERMISSION_PROPERTY_NAMES,
+    PHYSICS_PROPERTIES,
+    PHYSICS_PROPERTY_NAMES,
+} from '../../primitive-types/semantic/property/property-types.js';
+import { fpAdd, fpMax, type FP } from '../../primitive-types/euclidean/euclidean-types.js';
+
+// -----------------------------------------------
+// Structure
+// -----------------------------------------------
+
+/**
+ * an entity followed by every part welded below it, in discovery order.
+ * the entity itself is taken as given (it may be fresher than the state).
+ */
+export function getWeldStructure(entity: Entity, entities: readonly Entity[]): Entity[] {
+    const structure = [entity];
+    const visited = new Set<string>([entity.id]);
+
+    for (let i = 0; i < structure.length; i++) {
+        const parentId = structure[i]!.id;
+        for (const part of entities) {
+            if (part.weldParentId !== parentId || visited.has(part.id)) continue;
+
+            visited.add(part.id);
+            structure.push(part);
+        }
+    }
+    return structure;
+}
+
+// -----------------------------------------------
+// Physics
+// -----------------------------------------------
+
+function readScalar(entity: Entity, name: ScalarPhysicsProperty): FP {
+    return entity[name] ?? 0;
+}
+
+function composeScalar(structure: readonly Entity[], name: ScalarPhysicsProperty): FP {
+    // the root's total already carries its welded parts
+    if (name === 'mass') {
+        return structure[0]!.mass;
+    }
+
+    const compose = PHYSICS_PROPERTIES[name].rule === 'MAX' ? fpMax : fpAdd;
+    return structure.reduce((value, part) => compose(value, readScalar(part, name)), 0 as FP);
+}
+
+/**
+ * Effective value of a scalar physics property over a welded structure
+ * Sum or Max of every part (undeclared reads as 0)
+ */
+export function getEffectivePhysics(
+    entity: Entity,
+    name: ScalarPhysicsProperty,
+    entities: readonly Entity[] = []
+): FP {
+    return composeScalar(getWeldStructure(entity, entities), name);
+}
+
+function getEffectiveCommitTargets(structure: readonly Entity[]): PhysicsPropertyValues['commitTargets'] {
+    const total = { body: 0, entity: 0, zone: 0, max: 0 };
+    for (const part of structure) {
+        const targets = part.commitTargets;
+        if (!targets) continue;
+
+        total.body += targets.body;
+        total.entity += targets.entity;
+        total.zone += targets.zone;
+        total.max += targets.max;
+    }
+    return total;
+}
+
+// -----------------------------------------------
+// Permissions
+// -----------------------------------------------
+
+function readPermission(entity: Entity, name: PermissionProperty): boolean {
+    return entity[name] ?? PERMISSION_PROPERTIES[name].baseline;
+}
+
+/**
+ * checks if an entity, or any part welded to it, affords a permission.
+ */
+export function hasCapability(
+    entity: Entity,
+    name: PermissionProperty,
+    entities: readonly Entity[] = []
+): boolean {
+    return getWeldStructure(entity, entities).some(part => readPermission(part, name));
+}
+
+/**
+ * Capability check shared by every ActionValidator
+ * Does the actor's structure hold the permission the action needs?
+ */
+export function canPerform(
+    actor: Entity,
+    actionType: ActionType,
+    entities: readonly Entity[] = []
+): boolean {
+    return hasCapability(actor, ACTION_CAPABILITIES[actionType], entities);
+}
+
+// -----------------------------------------------
+// Effective Properties
+// -----------------------------------------------
+
+/**
+ * Every registry property of an entity composed over its welded structure
+ */
+export function getEffectiveProperties(entity: Entity, entities: readonly Entity[] = []): EffectiveProperties {
+    const structure = getWeldStructure(entity, entities);
+
+    const physics = {} as Record<ScalarPhysicsProperty, FP>;
+    for (const name of PHYSICS_PROPERTY_NAMES) {
+        if (name === 'commitTargets') continue;
+        physics[name] = composeScalar(structure, name);
+    }
+
+    const permissions = {} as PermissionPropertyValues;
+    for (const name of PERMISSION_PROPERTY_NAMES) {
+        permissions[name] = structure.some(part => readPermission(part, name));
+    }
+
+    return {
+        ...physics,
+        commitTargets: getEffectiveCommitTargets(structure),
+        ...permissions,
+    };
+}
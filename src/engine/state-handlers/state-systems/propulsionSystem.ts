@@ -0,0 +1,89 @@
+// ===============================================
+// PROPULSION SYSTEM
+// ===============================================
+// Handles: Space thrust limits and propellant cost (THRUST, VECTOR_LOCK)
+// - Δv_max = Fs / m
+//   Fs = spaceForce (summed over a welded structure)
+//   m = total mass: hull, fuel, volatiles, loaded contents and welded
+//   parts are all carried in the entity's mass
+// - fuel_cost = Δv × m × fuel_efficiency_constant
+// - Mass lost = fuel burned (the propellant leaves the ship once)
+// - Every burn is also capped by MAX_THRUST_PER_TICK and the fuel on board
+//
+// Shared by the THRUST handler, the vector lock autopilot and the
+// thrust controls in the UI, so all three agree on the limits.
+
+import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import {
+    fpSub,
+    fpMin,
+    fpMulWide,
+    fpDivWide,
+    toFP,
+    type FP,
+} from '../../primitive-types/euclidean/euclidean-types.js';
+import { FUEL_EFFICIENCY_CONSTANT } from '../../primitive-types/constant/constants.js';
+import { MAX_THRUST_PER_TICK, MINIMUM_FUEL_THRESHOLD } from '../../config/engineConfig.js';
+import { getEffectivePhysics } from './propertySystem.js';
+
+// -----------------------------------------------
+// Force
+// -----------------------------------------------
+
+/**
+ * space force available to an entity: its own engine plus the engines
+ * of every part welded to it (directly or through other welded parts).
+ */
+export function getSpaceForce(entity: Entity, entities: readonly Entity[]): FP {
+    return getEffectivePhysics(entity, 'spaceForce', entities);
+}
+
+// -----------------------------------------------
+// Limits
+// -----------------------------------------------
+
+/**
+ * fuel burned for a Δv: fuel_cost = Δv × m × fuel_efficiency_constant.
+ */
+export function getThrustFuelCost(deltaV: FP, mass: FP): FP {
+    return fpMulWide(fpMulWide(deltaV, mass), toFP(FUEL_EFFICIENCY_CONSTANT));
+}
+
+/**
+ * the largest Δv an entity can burn this tick:
+ * min(MAX_THRUST_PER_TICK, Fs / m, fuel / (m × fuel_efficiency_constant)).
+ */
+export function getMaxThrustDeltaV(entity: Entity, entities: readonly Entity[]): FP {
+    if (entity.fuelMass <= MINIMUM_FUEL_THRESHOLD || entity.mass <= 0) {
+        return 0;
+    }
+
+    const force = getSpaceForce(entity, entities);
+    if (force <= 0) {
+        return 0;
+    }
+
+    const fromForce = fpDivWide(force, entity.mass);
+    const fromFuel = fpDivWide(entity.fuelMass, fpMulWide(entity.mass, toFP(FUEL_EFFICIENCY_CONSTANT)));
+
+    return fpMin(MAX_THRUST_PER_TICK, fpMin(fromForce, fromFuel));
+}
+
+// -----------------------------------------------
+// Burn
+// -----------------------------------------------
+
+/**
+ * fuel and total mass after burning a Δv (already within the limits).
+ * the propellant is charged once: fuel is part of the total mass, so the
+ * total drops by exactly the fuel burned.
+ */
+export function getPropellantBurn(entity: Entity, deltaV: FP): Pick<EntityUpdate['changes'], 'fuelMass' | 'mass'> {
+    // rounding on the fuel cap can ask for one unit more than is on board
+    const burned = fpMin(getThrustFuelCost(deltaV, entity.mass), entity.fuelMass);
+
+    return {
+        fuelMass: fpSub(entity.fuelMass, burned),
+        mass: fpSub(entity.mass, burned),
+    };
+}
@@ -0,0 +1,280 @@
+// ===============================================
+// SPATIAL INDEX
+// ===============================================
+// Handles: Radius and capture queries without scanning every entity
+// - Entities are bucketed into a uniform grid per coordinate space,
+//   keyed on their local FP position (SPACE/ORBIT share one plane,
+//   each surface body has its own)
+// - Celestial capture disks (both endpoints for wormholes) are bucketed
+//   into a coarser grid covering every cell the disk overlaps
+// - "Entities within R of P": visit the cells the query box overlaps,
+//   then confirm each candidate with the exact wide distance check
+// - "Celestials capturing P": visit the single cell containing P
+// - Results always come back in state order (entity / celestial index),
+//   never in grid or hash order, so queries are deterministic
+// Pure module: built from a snapshot, never mutated
+//
+// Built once per wave from the wave's starting state and exposed on
+// TickContext. Actions later in the wave can spawn, destroy or move
+// entities, so it answers area queries over the wave's starting state;
+// reach between two given entities is always checked pairwise (canReach).
+
+import type { Entity } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { CelestialBody } from '../../primitive-types/semantic/celestial/celestial-types.js';
+import { getCelestialPositions } from '../../primitive-types/semantic/celestial/celestial-types.js';
+import { fpIsWithinDistance, type FP, type Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import {
+    SPATIAL_ENTITY_CELL_SIZE,
+    SPATIAL_CELESTIAL_CELL_SIZE,
+    SPATIAL_MAX_CELLS_PER_DISK,
+} from '../../config/engineConfig.js';
+import {
+    getCoordinateSpace,
+    getLocalPosition,
+    isWithinSeparation,
+    SPACE_COORDINATE_SPACE,
+} from './surfaceSystem.js';
+
+// -----------------------------------------------
+// Types
+// -----------------------------------------------
+
+/**
+ * one capture disk of a celestial (wormholes contribute two)
+ */
+interface CaptureDisk {
+    readonly celestialIndex: number;
+    readonly center: Vector2FP;
+    readonly radius: FP;
+}
+
+export interface SpatialIndex {
+    // snapshot the index was built from
+    readonly entities: readonly Entity[];
+    readonly celestials: readonly CelestialBody[];
+
+    // grid cell edge lengths
+    readonly entityCellSize: FP;
+    readonly celestialCellSize: FP;
+
+    // cell key -> entity indices, ascending
+    readonly entityCells: ReadonlyMap<string, readonly number[]>;
+
+    // coordinate space -> entity indices, ascending
+    readonly entitiesBySpace: ReadonlyMap<string, readonly number[]>;
+
+    // cell key -> capture disks overlapping the cell, ascending by celestial
+    readonly celestialCells: ReadonlyMap<string, readonly CaptureDisk[]>;
+
+    // disks too large to bucket, checked on every capture query
+    readonly oversizedDisks: readonly CaptureDisk[];
+}
+
+// -----------------------------------------------
+// Grid Keys
+// -----------------------------------------------
+
+/**
+ * grid coordinate of an FP value along one axis
+ */
+function toCell(value: FP, cellSize: FP): number {
+    return Math.floor(value / cellSize);
+}
+
+function toCellKey(space: string, cellX: number, cellY: number): string {
+    return `${space}:${cellX},${cellY}`;
+}
+
+/**
+ * inclusive cell range covered by the box around a disk
+ */
+function getCellRange(center: Vector2FP, radius: FP, cellSize: FP) {
+    return {
+        minX: toCell(center.x - radius, cellSize),
+        maxX: toCell(center.x + radius, cellSize),
+        minY: toCell(center.y - radius, cellSize),
+        maxY: toCell(center.y + radius, cellSize),
+    };
+}
+
+function pushToCell<T>(cells: Map<string, T[]>, key: string, value: T): void {
+    const bucket = cells.get(key);
+    if (bucket) {
+        bucket.push(value);
+    } else {
+        cells.set(key, [value]);
+    }
+}
+
+// -----------------------------------------------
+// Build
+// -----------------------------------------------
+
+/**
+ * Build a spatial index over a snapshot of entities and celestials
+ * Entities and disks are inserted in state order, so every bucket is
+ * already sorted by index
+ */
+export function buildSpatialIndex(
+    entities: readonly Entity[],
+    celestials: readonly CelestialBody[],
+    entityCellSize: FP = SPATIAL_ENTITY_CELL_SIZE,
+    celestialCellSize: FP = SPATIAL_CELESTIAL_CELL_SIZE
+): SpatialIndex {
+    const entityCells = new Map<string, number[]>();
+    const entitiesBySpace = new Map<string, number[]>();
+
+    entities.forEach((entity, index) => {
+        const space = getCoordinateSpace(entity);
+        const position = getLocalPosition(entity);
+
+        pushToCell(entityCells, toCellKey(space, toCell(position.x, entityCellSize), toCell(position.y, entityCellSize)), index);
+        pushToCell(entitiesBySpace, space, index);
+    });
+
+    const celestialCells = new Map<string, CaptureDisk[]>();
+    const oversizedDisks: CaptureDisk[] = [];
+
+    celestials.forEach((celestial, celestialIndex) => {
+        for (const center of getCelestialPositions(celestial)) {
+            const disk: CaptureDisk = { celestialIndex, center, radius: celestial.captureRadius };
+            const range = getCellRange(center, disk.radius, celestialCellSize);
+            const cellCount = (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+
+            if (cellCount > SPATIAL_MAX_CELLS_PER_DISK) {
+                oversizedDisks.push(disk);
+                continue;
+            }
+            for (let cellX = range.minX; cellX <= range.maxX; cellX++) {
+                for (let cellY = range.minY; cellY <= range.maxY; cellY++) {
+                    pushToCell(celestialCells, toCellKey(SPACE_COORDINATE_SPACE, cellX, cellY), disk);
+                }
+            }
+        }
+    });
+
+    return {
+        entities,
+        celestials,
+        entityCellSize,
+        celestialCellSize,
+        entityCells,
+        entitiesBySpace,
+        celestialCells,
+        oversizedDisks,
+    };
+}
+
+// -----------------------------------------------
+// Entity Queries
+// -----------------------------------------------
+
+/**
+ * indices of every entity that could lie within the radius, ascending.
+ * falls back to the whole coordinate space when the query box covers
+ * more cells than the space holds entities.
+ */
+function getEntityCandidates(index: SpatialIndex, space: string, center: Vector2FP, radius: FP): readonly number[] {
+    const inSpace = index.entitiesBySpace.get(space) ?? [];
+    const range = getCellRange(center, radius, index.entityCellSize);
+    const cellCount = (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+
+    if (cellCount >= inSpace.length) {
+        return inSpace;
+    }
+
+    const candidates: number[] = [];
+    for (let cellX = range.minX; cellX <= range.maxX; cellX++) {
+        for (let cellY = range.minY; cellY <= range.maxY; cellY++) {
+            const bucket = index.entityCells.get(toCellKey(space, cellX, cellY));
+            if (bucket) {
+                candidates.push(...bucket);
+            }
+        }
+    }
+
+    // buckets are visited in grid order: restore state order
+    return candidates.sort((a, b) => a - b);
+}
+
+/**
+ * Find every entity within a radius of a point, in state order
+ * Exact at galaxy scale (same check as isWithinSeparation)
+ *
+ * @param space - coordinate space of the point (defaults to the shared SPACE plane)
+ */
+export function queryEntitiesWithin(
+    index: SpatialIndex,
+    center: Vector2FP,
+    radius: FP,
+    space: string = SPACE_COORDINATE_SPACE
+): Entity[] {
+    if (radius < 0) {
+        return [];
+    }
+
+    const found: Entity[] = [];
+    for (const candidate of getEntityCandidates(index, space, center, radius)) {
+        const entity = index.entities[candidate]!;
+        if (fpIsWithinDistance(getLocalPosition(entity), center, radius)) {
+            found.push(entity);
+        }
+    }
+    return found;
+}
+
+/**
+ * Find every other entity within an actor's reach, in state order
+ * Uses the actor's own coordinate space; the actor is never included
+ */
+export function queryEntitiesInReach(index: SpatialIndex, actor: Entity): Entity[] {
+    if (actor.reach <= 0) {
+        return [];
+    }
+
+    return queryEntitiesWithin(index, getLocalPosition(actor), actor.reach, getCoordinateSpace(actor))
+        .filter(entity => entity.id !== actor.id);
+}
+
+// -----------------------------------------------
+// Capture Queries
+// -----------------------------------------------
+
+/**
+ * Find every celestial whose capture radius contains a point on the
+ * shared SPACE plane, in state order (each celestial at most once)
+ */
+export function queryCapturingCelestials(index: SpatialIndex, point: Vector2FP): CelestialBody[] {
+    const cellKey = toCellKey(
+        SPACE_COORDINATE_SPACE,
+        toCell(point.x, index.celestialCellSize),
+        toCell(point.y, index.celestialCellSize)
+    );
+    const disks = [...(index.celestialCells.get(cellKey) ?? []), ...index.oversizedDisks];
+
+    const capturing = new Set<number>();
+    for (const disk of disks) {
+        if (!capturing.has(disk.celestialIndex) && fpIsWithinDistance(point, disk.center, disk.radius)) {
+            capturing.add(disk.celestialIndex);
+        }
+    }
+
+    return [...capturing]
+        .sort((a, b) => a - b)
+        .map(celestialIndex => index.celestials[celestialIndex]!);
+}
+
+// -----------------------------------------------
+// Reach
+// -----------------------------------------------
+
+/**
+ * checks if entity A can reach entity B (distance <= A.reach).
+ * the pairwise form of queryEntitiesInReach, shared by every handler.
+ */
+export function canReach(actor: Entity, target: Entity): boolean {
+    if (actor.reach <= 0) return false;
+
+    // entities in different coordinate spaces are never in reach
+    return isWithinSeparation(actor, target, actor.reach);
+}
@@ -0,0 +1,172 @@
+// ===============================================
+// STREAK SYSTEM
+// ===============================================
+// Handles: Skill streaks (EXTRACT, REFINE, MANUFACTURE)
+// - output = base × growth^consecutive_ticks
+//   (EXTRACT grows 1.1 per tick, REFINE and MANUFACTURE 1.05)
+// - a streak is keyed on the action type and what it is locked onto
+// - skipping a tick, or changing the action or target, starts over
+//
+// The multiplier is an integer power computed by repeated fixed-point
+// multiplication, so every client derives the same value bit for bit.
+// Shared by the skilled handlers and the draft preview.
+
+import type {
+    Entity,
+    SkilledActionType,
+    SkillStreak,
+} from '../../primitive-types/semantic/entity/entity-types.js';
+import { fpMulWide, toFP, type FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import {
+    EXTRACT_STREAK_GROWTH,
+    REFINE_STREAK_GROWTH,
+    MANUFACTURE_STREAK_GROWTH,
+    SKILL_STREAK_MAX_TICKS,
+} from '../../config/engineConfig.js';
+
+// -----------------------------------------------
+// Types
+// -----------------------------------------------
+
+export interface SkillProjection {
+    actionType: SkilledActionType;
+    targetId: string;
+
+    // consecutive ticks already behind this one
+    count: number;
+
+    // multiplier and scaled output this tick (FP)
+    multiplier: FP;
+    output: FP;
+
+    // the same, if the action is repeated next tick (FP)
+    nextMultiplier: FP;
+    nextOutput: FP;
+}
+
+const STREAK_GROWTH: Record<SkilledActionType, FP> = {
+    EXTRACT: EXTRACT_STREAK_GROWTH,
+    REFINE: REFINE_STREAK_GROWTH,
+    MANUFACTURE: MANUFACTURE_STREAK_GROWTH,
+};
+
+// -----------------------------------------------
+// Streak Keys
+// -----------------------------------------------
+
+export function isSkilledAction(actionType: string): actionType is SkilledActionType {
+    return Object.prototype.hasOwnProperty.call(STREAK_GROWTH, actionType);
+}
+
+/**
+ * what a skilled action is locked onto:
+ * - EXTRACT: its wells (the origins, in any order)
+ * - REFINE: the refining entity itself
+ * - MANUFACTURE: the blueprint (its minerals are consumed every tick)
+ */
+export function getSkillTargetId(
+    actionType: SkilledActionType,
+    actorId: string,
+    inputs: Record<string, unknown>,
+    targets: readonly Entity[] = []
+): string {
+    switch (actionType) {
+        case 'EXTRACT': {
+            const originIds = inputs['originIds'];
+            const ids = Array.isArray(originIds)
+                ? originIds.filter((id): id is string => typeof id === 'string')
+                : targets.map(t => t.id);
+            return [...ids].sort().join(',');
+        }
+        case 'REFINE':
+            return actorId;
+        case 'MANUFACTURE': {
+            const blueprintId = inputs['blueprintId'];
+            return typeof blueprintId === 'string' ? blueprintId : '';
+        }
+    }
+}
+
+// -----------------------------------------------
+// Streak Progression
+// -----------------------------------------------
+
+function isSameSkill(streak: SkillStreak, actionType: SkilledActionType, targetId: string): boolean {
+    return streak.actionType === actionType && streak.targetId === targetId;
+}
+
+/**
+ * consecutive ticks of this action on this target behind the given tick.
+ * 0 when there is no streak, it was broken by a skipped tick, or the
+ * action or target changed.
+ */
+export function getStreakCount(
+    entity: Entity,
+    actionType: SkilledActionType,
+    targetId: string,
+    tick: number
+): number {
+    const streak = entity.skillStreak;
+    if (!streak || !isSameSkill(streak, actionType, targetId)) return 0;
+
+    // already performed this tick: the streak behind it still stands
+    if (streak.lastTick === tick) return streak.count - 1;
+
+    return streak.lastTick === tick - 1 ? streak.count : 0;
+}
+
+/**
+ * the streak an entity holds after performing the action on the given tick.
+ */
+export function getNextSkillStreak(
+    entity: Entity,
+    actionType: SkilledActionType,
+    targetId: string,
+    tick: number
+): SkillStreak {
+    return {
+        actionType,
+        targetId,
+        count: getStreakCount(entity, actionType, targetId, tick) + 1,
+        lastTick: tick,
+    };
+}
+
+/**
+ * growth^count in fixed point, the exponent capped at SKILL_STREAK_MAX_TICKS.
+ */
+export function getSkillMultiplier(actionType: SkilledActionType, count: number): FP {
+    const growth = STREAK_GROWTH[actionType];
+    const exponent = Math.min(Math.max(0, Math.floor(count)), SKILL_STREAK_MAX_TICKS);
+
+    let multiplier = toFP(1);
+    for (let i = 0; i < exponent; i++) {
+        multiplier = fpMulWide(multiplier, growth);
+    }
+    return multiplier;
+}
+
+/**
+ * the current and next-tick multiplier and output for a base rate.
+ */
+export function projectSkill(
+    entity: Entity,
+    actionType: SkilledActionType,
+    targetId: string,
+    base: FP,
+    tick: number
+): SkillProjection {
+    const count = getStreakCount(entity, actionType, targetId, tick);
+    const multiplier = getSkillMultiplier(actionType, count);
+    const nextMultiplier = getSkillMultiplier(actionType, count + 1);
+
+    return {
+        actionType,
+        targetId,
+        count,
+        multiplier,
+        output: fpMulWide(base, multiplier),
+        nextMultiplier,
+        nextOutput: fpMulWide(base, nextMultiplier),
+    };
+}
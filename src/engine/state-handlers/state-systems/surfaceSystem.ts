@@ -0,0 +1,463 @@
+// ===============================================
+// SURFACE SYSTEM
+// ===============================================
+// Handles: Pocket-universe coordinates for planets and moons
+// - Each planet and moon owns a local plane centered on its core
+// - SURFACE entities carry surfaceBodyId + surfacePosition (body-local)
+// - A SURFACE entity's shared-plane position is its body's space origin
+// - Z at any surface point comes from the body's gravity map
+// - Zones are the Voronoi cells of the gravity map's POIs
+// - Zones slice the orbital rail into equal segments
+//   (GetZoneFromAngle / GetAngleFromZone)
+// - Surface range = (Fp / (m × g)) × A, spent faster climbing toward high ground
+//
+// COORDINATE SPACES:
+// SPACE and ORBIT share one plane. Every surface body is its own plane.
+// Distances (reach, sight) only exist between entities in the same plane.
+
+import type { SurfaceMap } from '../../state-types/state-types.js';
+import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { CelestialBody, SurfaceBody } from '../../primitive-types/semantic/celestial/celestial-types.js';
+import { isSurfaceBody } from '../../primitive-types/semantic/celestial/celestial-types.js';
+import {
+    fpAdd,
+    fpSub,
+    fpMul,
+    fpMax,
+    fpSqrt,
+    fpAddVector,
+    fpSubVector,
+    fpScaleVector,
+    fpDot,
+    fpSin,
+    fpAtan2,
+    fpDistanceSquared,
+    fpDistanceSquaredWide,
+    fpDistance,
+    fpIsWithinDistance,
+    fpDiv,
+    toFP,
+    VECTOR_ZERO,
+    type FP,
+    type Vector2FP,
+} from '../../primitive-types/euclidean/euclidean-types.js';
+import {
+    DEFAULT_SURFACE_ZONE_COUNT,
+    FP_DEGREES_FULL,
+    SURFACE_CLIMB_COST,
+    SURFACE_PATH_SAMPLES,
+} from '../../config/engineConfig.js';
+import { getOrbitPosition, normalizeAngle } from './celestialSystem.js';
+
+/**
+ * identifier of the shared space-orbit plane
+ */
+export const SPACE_COORDINATE_SPACE = 'SPACE';
+
+// -----------------------------------------------
+// Coordinate Spaces
+// -----------------------------------------------
+
+/**
+ * returns the coordinate space an entity lives in.
+ * SPACE and ORBIT share a plane; each surface body has its own.
+ */
+export function getCoordinateSpace(entity: Entity): string {
+    if (entity.zoomState === 'SURFACE' && entity.surfaceBodyId !== undefined) {
+        return `SURFACE:${entity.surfaceBodyId}`;
+    }
+    return SPACE_COORDINATE_SPACE;
+}
+
+/**
+ * checks whether two entities live in the same coordinate space.
+ */
+export function sharesCoordinateSpace(a: Entity, b: Entity): boolean {
+    return getCoordinateSpace(a) === getCoordinateSpace(b);
+}
+
+/**
+ * returns an entity's position in its own coordinate space.
+ */
+export function getLocalPosition(entity: Entity): Vector2FP {
+    if (entity.zoomState === 'SURFACE' && entity.surfacePosition !== undefined) {
+        return entity.surfacePosition;
+    }
+    return entity.position;
+}
+
+/**
+ * placement changes that put an entity at a local position in the
+ * same coordinate space as a reference entity.
+ */
+export function getPlacementInSpaceOf(
+    reference: Entity,
+    localPosition: Vector2FP
+): Pick<Entity, 'zoomState' | 'position' | 'surfaceBodyId' | 'surfacePosition'> {
+    if (reference.zoomState === 'SURFACE' && reference.surfaceBodyId !== undefined) {
+        return {
+            zoomState: 'SURFACE',
+            surfaceBodyId: reference.surfaceBodyId,
+            surfacePosition: { ...localPosition },
+            position: { ...reference.position },
+        };
+    }
+    return {
+        zoomState: reference.zoomState,
+        position: { ...localPosition },
+    };
+}
+
+/**
+ * squared distance between two entities, or null if they live in
+ * different coordinate spaces (no distance exists between them).
+ */
+export function getSeparationSquared(a: Entity, b: Entity): FP | null {
+    if (!sharesCoordinateSpace(a, b)) {
+        return null;
+    }
+    return fpDistanceSquaredWide(getLocalPosition(a), getLocalPosition(b));
+}
+
+/**
+ * distance between two entities, or null if they live in
+ * different coordinate spaces. exact at galaxy scale.
+ */
+export function getSeparation(a: Entity, b: Entity): FP | null {
+    if (!sharesCoordinateSpace(a, b)) {
+        return null;
+    }
+    return fpDistance(getLocalPosition(a), getLocalPosition(b));
+}
+
+/**
+ * checks whether two entities lie within a range of each other.
+ * entities in different coordinate spaces are never within range.
+ * exact at galaxy scale (reach, sight and capture checks).
+ */
+export function isWithinSeparation(a: Entity, b: Entity, range: FP): boolean {
+    if (!sharesCoordinateSpace(a, b)) {
+        return false;
+    }
+    return fpIsWithinDistance(getLocalPosition(a), getLocalPosition(b), range);
+}
+
+// -----------------------------------------------
+// Surface Bodies
+// -----------------------------------------------
+
+/**
+ * finds a planet or moon by id.
+ */
+export function findSurfaceBody(celestials: readonly CelestialBody[], bodyId: string): SurfaceBody | null {
+    const body = celestials.find(c => c.id === bodyId);
+    return body && isSurfaceBody(body) ? body : null;
+}
+
+/**
+ * maps any point on a body's surface to the body's origin in space.
+ * the whole pocket universe collapses to this single point on the shared plane.
+ */
+export function getSurfaceSpaceOrigin(body: SurfaceBody): Vector2FP {
+    return body.position;
+}
+
+/**
+ * checks whether a body-local point lies inside the pocket universe.
+ * the pocket universe is a square of side 2 × radius centered on the core.
+ */
+export function isWithinSurface(point: Vector2FP, body: SurfaceBody): boolean {
+    return Math.abs(point.x) <= body.radius && Math.abs(point.y) <= body.radius;
+}
+
+/**
+ * finds the gravity map of a planet or moon.
+ */
+export function findSurfaceMap(surfaces: readonly SurfaceMap[], bodyId: string): SurfaceMap | null {
+    return surfaces.find(map => map.bodyId === bodyId) ?? null;
+}
+
+/**
+ * number of zones on a body's surface.
+ * bodies without a gravity map fall back to equal angular sectors.
+ */
+export function getZoneCount(map: SurfaceMap | null): number {
+    return map ? map.zones.length : DEFAULT_SURFACE_ZONE_COUNT;
+}
+
+// -----------------------------------------------
+// Gravity Map
+// -----------------------------------------------
+
+/**
+ * Z of the gravity map at a body-local point (depth in the gravity well).
+ * Z = baseZ + Σ amplitude × sin(phase + 360° × along / wavelength)
+ *           + Σ depth × (1 - d² / r²)   (inside each crater)
+ */
+export function getSurfaceZ(map: SurfaceMap, point: Vector2FP): FP {
+    let z = map.baseZ;
+
+    for (const wave of map.waves) {
+        const along = fpDot(point, wave.direction);
+        const angle = fpAdd(wave.phase, fpMul(fpDiv(along, wave.wavelength), FP_DEGREES_FULL));
+        z = fpAdd(z, fpMul(wave.amplitude, fpSin(normalizeAngle(angle))));
+    }
+
+    for (const crater of map.craters) {
+        const distSq = fpDistanceSquared(point, crater.center);
+        const radiusSq = fpMul(crater.radius, crater.radius);
+        if (distSq < radiusSq) {
+            z = fpAdd(z, fpMul(crater.depth, fpSub(toFP(1), fpDiv(distSq, radiusSq))));
+        }
+    }
+
+    return z;
+}
+
+/**
+ * Z at a body-local point of a planet or moon.
+ * bodies without a gravity map are flat at 1000 × gravity.
+ */
+export function getBodySurfaceZ(body: SurfaceBody, map: SurfaceMap | null, point: Vector2FP): FP {
+    if (map) {
+        return getSurfaceZ(map, point);
+    }
+    return fpMul(body.gravity, toFP(1000));
+}
+
+/**
+ * Voronoi zone containing a body-local point: the zone whose POI is closest.
+ * ties go to the lower zone index.
+ */
+export function getZoneAtPoint(map: SurfaceMap, point: Vector2FP): number {
+    let nearest = 0;
+    let nearestDistSq: FP | null = null;
+
+    for (const zone of map.zones) {
+        const distSq = fpDistanceSquared(point, zone.site);
+        if (nearestDistSq === null || distSq < nearestDistSq) {
+            nearest = zone.index;
+            nearestDistSq = distSq;
+        }
+    }
+
+    return nearest;
+}
+
+// -----------------------------------------------
+// Zones <-> Rail Angles
+// -----------------------------------------------
+
+/**
+ * GetZoneFromAngle: which zone's rail segment contains this angle.
+ */
+export function getZoneFromAngle(angle: FP, zoneCount: number): number {
+    return Math.floor((normalizeAngle(angle) * zoneCount) / FP_DEGREES_FULL);
+}
+
+/**
+ * GetAngleFromZone: the first point of the zone's rail segment.
+ * every point in a zone maps to this single angle.
+ * rounds up so the angle always falls inside the zone's own segment.
+ */
+export function getAngleFromZone(zone: number, zoneCount: number): FP {
+    return Math.ceil((zone * FP_DEGREES_FULL) / zoneCount);
+}
+
+/**
+ * zone under a body-local surface point.
+ * without a gravity map, zones are equal angular sectors around the core.
+ */
+export function getZoneFromSurfacePosition(point: Vector2FP, map: SurfaceMap | null): number {
+    if (map) {
+        return getZoneAtPoint(map, point);
+    }
+    return getZoneFromAngle(fpAtan2(point.y, point.x), DEFAULT_SURFACE_ZONE_COUNT);
+}
+
+/**
+ * rail angle that a body-local surface point maps to (via its zone).
+ */
+export function getRailAngleFromSurfacePosition(point: Vector2FP, map: SurfaceMap | null): FP {
+    return getAngleFromZone(getZoneFromSurfacePosition(point, map), getZoneCount(map));
+}
+
+/**
+ * deterministic body-local point inside a zone.
+ * with a gravity map this is the zone's POI; otherwise the middle of
+ * the zone's sector, halfway between the core and the surface edge.
+ */
+export function getSurfacePointForZone(body: SurfaceBody, zone: number, map: SurfaceMap | null): Vector2FP {
+    const site = map?.zones[zone]?.site;
+    if (site) {
+        return { ...site };
+    }
+
+    const zoneCount = DEFAULT_SURFACE_ZONE_COUNT;
+    const segment = Math.floor(FP_DEGREES_FULL / zoneCount);
+    const midAngle = getAngleFromZone(zone, zoneCount) + Math.floor(segment / 2);
+    return getOrbitPosition(VECTOR_ZERO, midAngle, fpDiv(body.radius, toFP(2)));
+}
+
+/**
+ * nearest platform on a body's surface inside a zone, measured from a
+ * body-local point. ties go to the lower entity id.
+ */
+export function findNearestPlatformInZone(
+    entities: readonly Entity[],
+    body: SurfaceBody,
+    map: SurfaceMap | null,
+    zone: number,
+    point: Vector2FP
+): Entity | null {
+    let nearest: Entity | null = null;
+    let nearestDistSq: FP | null = null;
+
+    for (const entity of entities) {
+        if (entity.type !== 'PLATFORM' ||
+            entity.zoomState !== 'SURFACE' ||
+            entity.surfaceBodyId !== body.id ||
+            entity.surfacePosition === undefined) {
+            continue;
+        }
+        if (getZoneFromSurfacePosition(entity.surfacePosition, map) !== zone) {
+            continue;
+        }
+
+        const distSq = fpDistanceSquared(point, entity.surfacePosition);
+        if (nearestDistSq === null ||
+            distSq < nearestDistSq ||
+            (distSq === nearestDistSq && nearest !== null && entity.id < nearest.id)) {
+            nearest = entity;
+            nearestDistSq = distSq;
+        }
+    }
+
+    return nearest;
+}
+
+// -----------------------------------------------
+// Surface Movement
+// -----------------------------------------------
+
+/**
+ * distance an entity can travel on a body's surface in one tick.
+ * range = (Fp / (m × g)) × A, with A the atmosphere on a 0-1 scale.
+ * vacuum or weightless bodies give no range.
+ */
+export function getSurfaceRange(planetForce: FP, mass: FP, body: SurfaceBody): FP {
+    const weight = fpMul(mass, body.gravity);
+    if (weight <= 0) {
+        return 0;
+    }
+    const atmosphere = fpDiv(body.atmosphere, toFP(1000));
+    return fpMul(fpDiv(planetForce, weight), atmosphere);
+}
+
+/**
+ * k-th of SURFACE_PATH_SAMPLES evenly spaced points on a straight path.
+ */
+function getPathSample(from: Vector2FP, to: Vector2FP, k: number): Vector2FP {
+    if (k >= SURFACE_PATH_SAMPLES) {
+        return to;
+    }
+    const t = fpDiv(toFP(k), toFP(SURFACE_PATH_SAMPLES));
+    return fpAddVector(from, fpScaleVector(fpSubVector(to, from), t));
+}
+
+/**
+ * range spent on one straight step: distance plus the Z climbed
+ * (Z decreasing = toward high ground) × SURFACE_CLIMB_COST.
+ * going downhill costs distance only.
+ */
+function getStepCost(body: SurfaceBody, map: SurfaceMap | null, from: Vector2FP, to: Vector2FP): FP {
+    const distance = fpDistance(from, to);
+    const climb = fpMax(fpSub(getBodySurfaceZ(body, map, from), getBodySurfaceZ(body, map, to)), 0);
+    return fpAdd(distance, fpMul(climb, SURFACE_CLIMB_COST));
+}
+
+/**
+ * range spent walking a straight path across the gravity map.
+ */
+export function getSurfacePathCost(
+    body: SurfaceBody,
+    map: SurfaceMap | null,
+    from: Vector2FP,
+    to: Vector2FP
+): FP {
+    let cost: FP = 0;
+    let previous = from;
+
+    for (let k = 1; k <= SURFACE_PATH_SAMPLES; k++) {
+        const next = getPathSample(from, to, k);
+        cost = fpAdd(cost, getStepCost(body, map, previous, next));
+        previous = next;
+    }
+
+    return cost;
+}
+
+/**
+ * furthest point along the straight path from -> to that the range pays for.
+ * returns `to` when the whole path is affordable; otherwise stops inside
+ * the step where the range runs out.
+ */
+export function getReachablePointOnPath(
+    body: SurfaceBody,
+    map: SurfaceMap | null,
+    from: Vector2FP,
+    to: Vector2FP,
+    range: FP
+): Vector2FP {
+    let budget = range;
+    let previous = from;
+
+    for (let k = 1; k <= SURFACE_PATH_SAMPLES; k++) {
+        const next = getPathSample(from, to, k);
+        const cost = getStepCost(body, map, previous, next);
+
+        if (cost > budget) {
+            // partial step: cover the fraction of it the budget pays for
+            const fraction = fpDiv(budget, cost);
+            return fpAddVector(previous, fpScaleVector(fpSubVector(next, previous), fraction));
+        }
+
+        budget = fpSub(budget, cost);
+        previous = next;
+    }
+
+    return to;
+}
+
+// -----------------------------------------------
+// Transitions
+// -----------------------------------------------
+
+/**
+ * changes that place an entity on a body's surface in the zone
+ * under the given rail angle. rail state is cleared.
+ * lands on the nearest platform in the zone if there is one,
+ * otherwise on the zone's deterministic point.
+ */
+export function getSurfaceLanding(
+    body: SurfaceBody,
+    railAngle: FP,
+    map: SurfaceMap | null,
+    entities: readonly Entity[] = []
+): EntityUpdate['changes'] {
+    const zone = getZoneFromAngle(railAngle, getZoneCount(map));
+    const zonePoint = getSurfacePointForZone(body, zone, map);
+    const platform = findNearestPlatformInZone(entities, body, map, zone, zonePoint);
+
+    return {
+        zoomState: 'SURFACE',
+        surfaceBodyId: body.id,
+        surfacePosition: platform?.surfacePosition ? { ...platform.surfacePosition } : zonePoint,
+        position: { ...getSurfaceSpaceOrigin(body) },
+        velocity: VECTOR_ZERO,
+        orbitTargetId: undefined,
+        orbitAngle: undefined,
+        orbitSpeed: undefined,
+        orbitRadius: undefined,
+    };
+}
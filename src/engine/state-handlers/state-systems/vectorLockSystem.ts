@@ -0,0 +1,170 @@
+// ===============================================
+// VECTOR LOCK SYSTEM
+// ===============================================
+// Handles: Autopilot burns for entities locked onto a target (VECTOR_LOCK)
+// - TAIL: Δv = v_target - v_actor (match the target's vector exactly)
+// - PURSUIT: Δv = v_target + closing - v_actor
+//   closing = toward the target at distance × PURSUIT_CLOSING_RATE,
+//   so the pursuer closes the gap while converging on the target's vector
+// - Every burn is capped like THRUST (spaceForce / m, MAX_THRUST_PER_TICK,
+//   fuel on board) and burns fuel/mass exactly like THRUST
+// - Locks persist across ticks; a lock is released when the target is gone,
+//   leaves sight and reach, either side leaves open SPACE, or the actor
+//   stops flying free (loaded, welded, towed)
+// Pure system: (GameState) -> GameState
+//
+// Burns run once per tick at settlement, before translation, against the
+// velocities every entity had after the action waves.
+
+import type { GameState } from '../../state-types/state-types.js';
+import type { Entity, EntityUpdate } from '../../primitive-types/semantic/entity/entity-types.js';
+import {
+    fpMul,
+    fpDiv,
+    fpMax,
+    fpAddVector,
+    fpSubVector,
+    fpScaleVector,
+    SPEED_FROM_VECTOR,
+    VECTOR_ZERO,
+    type FP,
+    type Vector2FP,
+} from '../../primitive-types/euclidean/euclidean-types.js';
+import { PURSUIT_CLOSING_RATE } from '../../config/engineConfig.js';
+import { getSeparation, isWithinSeparation } from './surfaceSystem.js';
+import { getMaxThrustDeltaV, getPropellantBurn } from './propulsionSystem.js';
+
+// -----------------------------------------------
+// Lock Range
+// -----------------------------------------------
+
+/**
+ * distance at which an entity can hold a lock: the further of its
+ * sight and its reach.
+ */
+export function getLockRange(actor: Entity): FP {
+    return fpMax(actor.sightRange ?? 0, actor.reach);
+}
+
+/**
+ * checks whether an actor can hold a lock on a target right now:
+ * both in open SPACE, distinct, and the target within sight or reach.
+ */
+export function canHoldLock(actor: Entity, target: Entity): boolean {
+    if (actor.id === target.id) {
+        return false;
+    }
+    if (actor.zoomState !== 'SPACE' || target.zoomState !== 'SPACE') {
+        return false;
+    }
+
+    return isWithinSeparation(actor, target, getLockRange(actor));
+}
+
+// -----------------------------------------------
+// Lock Burns
+// -----------------------------------------------
+
+/**
+ * velocity the autopilot steers toward this tick.
+ */
+function getDesiredVelocity(actor: Entity, target: Entity, mode: 'PURSUIT' | 'TAIL'): Vector2FP {
+    if (mode === 'TAIL') {
+        return target.velocity;
+    }
+
+    // pursuit: add a closing velocity proportional to the gap
+    const gap = fpSubVector(target.position, actor.position);
+    const distance = getSeparation(actor, target) ?? 0;
+    if (distance <= 0) {
+        return target.velocity;
+    }
+
+    const closing = fpMul(distance, PURSUIT_CLOSING_RATE);
+    return fpAddVector(target.velocity, fpScaleVector(gap, fpDiv(closing, distance)));
+}
+
+/**
+ * delta-V a lock calls for this tick, capped by thrust and fuel.
+ * a capped burn keeps its direction and falls short.
+ *
+ * @param entities - state entities, for engines on welded parts
+ */
+export function getLockDeltaV(
+    actor: Entity,
+    target: Entity,
+    mode: 'PURSUIT' | 'TAIL',
+    entities: readonly Entity[] = []
+): Vector2FP {
+    const wanted = fpSubVector(getDesiredVelocity(actor, target, mode), actor.velocity);
+    const magnitude = SPEED_FROM_VECTOR(wanted);
+    const available = getMaxThrustDeltaV(actor, entities);
+
+    if (magnitude <= available) {
+        return wanted;
+    }
+    if (available <= 0) {
+        return VECTOR_ZERO;
+    }
+    // scale before dividing so the capped burn keeps full FP precision
+    return {
+        x: fpDiv(fpMul(wanted.x, available), magnitude),
+        y: fpDiv(fpMul(wanted.y, available), magnitude),
+    };
+}
+
+/**
+ * the autopilot burn for one locked actor: velocity, fuel and mass changes.
+ * fuel and mass drop exactly as they would for an equal THRUST.
+ */
+export function getLockBurn(
+    actor: Entity,
+    target: Entity,
+    mode: 'PURSUIT' | 'TAIL',
+    entities: readonly Entity[] = []
+): EntityUpdate['changes'] {
+    const deltaV = getLockDeltaV(actor, target, mode, entities);
+    const magnitude = SPEED_FROM_VECTOR(deltaV);
+
+    return {
+        velocity: fpAddVector(actor.velocity, deltaV),
+        ...getPropellantBurn(actor, magnitude),
+        thrust: magnitude,
+    };
+}
+
+/**
+ * advances one entity's lock: burn toward the target, or release the lock.
+ */
+function advanceLock(entity: Entity, entityMap: Map<string, Entity>, entities: readonly Entity[]): Entity {
+    if (entity.vectorLockTargetId === undefined || entity.vectorLockMode === undefined) {
+        return entity;
+    }
+
+    // contained, welded or towed entities ride their parent: the autopilot disengages
+    const ridesParent = entity.parentId !== undefined || entity.weldParentId !== undefined || entity.towParentId !== undefined;
+
+    const target = entityMap.get(entity.vectorLockTargetId);
+    if (ridesParent || !target || !canHoldLock(entity, target)) {
+        return { ...entity, vectorLockTargetId: undefined, vectorLockMode: undefined };
+    }
+
+    return { ...entity, ...getLockBurn(entity, target, entity.vectorLockMode, entities) };
+}
+
+/**
+ * Apply autopilot burns for every entity holding a vector lock.
+ * Targets are read as they were before any lock burned this tick,
+ * so chains of locks resolve independently of entity order.
+ */
+export function applyVectorLocks(state: GameState): GameState {
+    const entityMap = new Map(state.entities.map(e => [e.id, e]));
+
+    const nextEntities = state.entities.map(entity => advanceLock(entity, entityMap, state.entities));
+    const changed = nextEntities.some((e, i) => e !== state.entities[i]);
+
+    return {
+        ...state,
+        entities: changed ? nextEntities : state.entities,
+    };
+}
@@ -0,0 +1,183 @@
+// ===============================================
+// WORMHOLE SYSTEM
+// ===============================================
+// Handles: Traversal between the paired endpoints of a wormhole
+// - An entity whose path this tick (previous position -> position)
+//   crosses an endpoint's capture radius emerges at the paired endpoint
+// - The entity keeps its offset from the entry endpoint, so a fast
+//   pass-through comes out the far side of the exit still moving away
+// - Velocity is preserved; the entity enters the endpoint's star system
+// - Each traversal is recorded on the entity (wormholeTransit) for one
+//   tick, so observers at both ends can see it
+// Pure system: (GameState) -> GameState
+//
+// Runs once per tick right after translation. Contained, welded and
+// towed entities are carried through by the final binding pass.
+
+import type { GameState } from '../../state-types/state-types.js';
+import type { Entity, WormholeTransit } from '../../primitive-types/semantic/entity/entity-types.js';
+import type { CelestialBody, Wormhole } from '../../primitive-types/semantic/celestial/celestial-types.js';
+import { isWormhole } from '../../primitive-types/semantic/celestial/celestial-types.js';
+import {
+    fpMulWide,
+    fpDivWide,
+    fpDotWide,
+    fpAddVector,
+    fpSubVector,
+    fpIsWithinDistance,
+    type FP,
+    type Vector2FP,
+} from '../../primitive-types/euclidean/euclidean-types.js';
+
+// -----------------------------------------------
+// Crossing Detection
+// -----------------------------------------------
+
+/**
+ * Check whether a point lies within a capture radius
+ * Exact at galaxy scale (squared distance in wide arithmetic, no sqrt)
+ */
+function isWithinRadius(point: Vector2FP, center: Vector2FP, radius: FP): boolean {
+    return fpIsWithinDistance(point, center, radius);
+}
+
+/**
+ * Closest point to the center along the segment from -> to
+ */
+function getClosestPointOnPath(from: Vector2FP, to: Vector2FP, center: Vector2FP): Vector2FP {
+    const path = fpSubVector(to, from);
+    const lengthSquared = fpDotWide(path, path);
+    const along = fpDotWide(fpSubVector(center, from), path);
+
+    if (lengthSquared <= 0 || along <= 0) {
+        return from;
+    }
+    if (along >= lengthSquared) {
+        return to;
+    }
+
+    // scale before dividing so the closest point keeps full FP precision
+    return fpAddVector(from, {
+        x: fpDivWide(fpMulWide(path.x, along), lengthSquared),
+        y: fpDivWide(fpMulWide(path.y, along), lengthSquared),
+    });
+}
+
+/**
+ * Check whether a path enters a capture radius: it started outside
+ * and passes within the radius at some point along the way
+ */
+function pathCrossesRadius(from: Vector2FP, to: Vector2FP, center: Vector2FP, radius: FP): boolean {
+    if (isWithinRadius(from, center, radius)) {
+        return false;
+    }
+    return isWithinRadius(getClosestPointOnPath(from, to, center), center, radius);
+}
+
+/**
+ * Check whether an entity can fly through a wormhole on its own
+ */
+function isFreeInSpace(entity: Entity): boolean {
+    if (entity.zoomState !== 'SPACE') {
+        return false;
+    }
+
+    // contained, welded, towed and celestial-bound entities follow their anchor
+    return entity.parentId === undefined &&
+        entity.weldParentId === undefined &&
+        entity.towParentId === undefined &&
+        entity.linkedCelestialId === undefined;
+}
+
+/**
+ * Find the first wormhole endpoint the entity's path crossed this tick
+ * Translation is position += velocity, so the path starts at position - velocity
+ */
+function findWormholeCrossing(
+    entity: Entity,
+    celestials: CelestialBody[]
+): { wormhole: Wormhole; entryIndex: 0 | 1 } | null {
+    const previousPosition = fpSubVector(entity.position, entity.velocity);
+
+    for (const celestial of celestials) {
+        if (!isWormhole(celestial)) continue;
+
+        for (const entryIndex of [0, 1] as const) {
+            const endpoint = celestial.endpoints[entryIndex];
+            if (pathCrossesRadius(previousPosition, entity.position, endpoint, celestial.captureRadius)) {
+                return { wormhole: celestial, entryIndex };
+            }
+        }
+    }
+    return null;
+}
+
+// -----------------------------------------------
+// Traversal
+// -----------------------------------------------
+
+/**
+ * Get the traversal an entity's path this tick triggers, if any
+ * Expects the entity after translation
+ *
+ * @returns the transit record, or null if no endpoint was crossed
+ */
+export function getWormholeTransit(entity: Entity, celestials: CelestialBody[]): WormholeTransit | null {
+    if (!isFreeInSpace(entity)) {
+        return null;
+    }
+
+    const crossing = findWormholeCrossing(entity, celestials);
+    if (!crossing) {
+        return null;
+    }
+
+    const { wormhole, entryIndex } = crossing;
+    const exitIndex = entryIndex === 0 ? 1 : 0;
+    const entry = wormhole.endpoints[entryIndex];
+    const exit = wormhole.endpoints[exitIndex];
+
+    return {
+        wormholeId: wormhole.id,
+        fromSystemId: wormhole.systemIds[entryIndex],
+        toSystemId: wormhole.systemIds[exitIndex],
+        entryPosition: entity.position,
+        exitPosition: fpAddVector(exit, fpSubVector(entity.position, entry)),
+    };
+}
+
+/**
+ * Carry a single entity through a wormhole if its path crossed an endpoint
+ * Clears last tick's transit record otherwise
+ */
+export function traverseWormhole(entity: Entity, celestials: CelestialBody[]): Entity {
+    const transit = getWormholeTransit(entity, celestials);
+
+    if (!transit) {
+        return entity.wormholeTransit === undefined
+            ? entity
+            : { ...entity, wormholeTransit: undefined };
+    }
+
+    // velocity is preserved through the wormhole
+    return {
+        ...entity,
+        position: transit.exitPosition,
+        wormholeTransit: transit,
+    };
+}
+
+/**
+ * Apply wormhole traversal to all entities
+ *
+ * @param state - state after translation
+ */
+export function applyWormholeTraversal(state: GameState): GameState {
+    const nextEntities = state.entities.map(entity => traverseWormhole(entity, state.celestials));
+    const changed = nextEntities.some((e, i) => e !== state.entities[i]);
+
+    return {
+        ...state,
+        entities: changed ? nextEntities : state.entities,
+    };
+}
@@ -2,32 +2,51 @@
 // ZOOM STATE SYSTEM
 // ===============================================
 // Handles: Zoom level state transitions
-// - SPACE -> ORBIT (when within planet capture radius)
-// - TODO: Future: ORBIT -> SURFACE, etc.
+// - SPACE -> ORBIT (when crossing a planet's capture radius)
+// - ORBIT -> SURFACE / SPACE are thrust gates (see orbitSystem)
 // Pure system: (GameState) -> GameState
 
 import type { GameState } from '../../state-types/state-types.js';
 import type { Entity } from '../../primitive-types/semantic/entity/entity-types.js';
 import type { Planet, CelestialBody } from '../../primitive-types/semantic/celestial/celestial-types.js';
-import { fpDistanceSquared, fpMul, SPEED_FROM_VECTOR, VECTOR_ZERO } from '../../primitive-types/euclidean/euclidean-types.js';
-import { ORBITAL_CONVERSION_CONSTANT } from '../../primitive-types/constant/constants.js';
+import { fpIsWithinDistance, fpSubVector, type Vector2FP } from '../../primitive-types/euclidean/euclidean-types.js';
+import { captureOntoRail } from './orbitSystem.js';
+import { buildSpatialIndex, queryCapturingCelestials, type SpatialIndex } from './spatialIndex.js';
+
+/**
+ * Check whether a point lies within a planet's capture radius
+ * Exact at galaxy scale (squared distance in wide arithmetic, no sqrt)
+ */
+function isWithinCaptureRadius(point: Vector2FP, center: Vector2FP, planet: Planet): boolean {
+    return fpIsWithinDistance(point, center, planet.captureRadius);
+}
 
 /**
  * Find a planet that captures this entity (if any)
- * Uses squared distance to avoid sqrt
+ *
+ * Capture happens on CROSSING the capture radius: the entity is inside
+ * the radius now, but was outside it (relative to the planet) at the
+ * start of the tick. This keeps an entity that just left the rail
+ * tangentially from being snapped straight back onto it.
+ *
+ * Candidates come from the spatial index in celestial order, so the
+ * first crossing planet wins exactly as in a full scan.
  */
+function findCapturingPlanet(
+    entity: Entity,
+    spatial: SpatialIndex,
+    previousPositions: ReadonlyMap<string, Vector2FP>
+): Planet | null {
+    // translation is position += velocity, so this is where the entity started the tick
+    const previousPosition = fpSubVector(entity.position, entity.velocity);
 
-// TODO: Check for capturing planet in a more efficient way (planets are static).
-function findCapturingPlanet(entity: Entity, celestials: CelestialBody[]): Planet | null {
-    for (const celestial of celestials) {
+    for (const celestial of queryCapturingCelestials(spatial, entity.position)) {
         if (celestial.type !== 'PLANET') continue;
-        
-        const distSq = fpDistanceSquared(entity.position, celestial.position);
-        const captureRadiusSq = fpMul(celestial.orbitRadius, celestial.orbitRadius);
-        
-        if (distSq <= captureRadiusSq) {
-            return celestial;
-        }
+
+        const previousCenter = previousPositions.get(celestial.id) ?? celestial.position;
+        if (isWithinCaptureRadius(previousPosition, previousCenter, celestial)) continue;
+
+        return celestial;
     }
     return null;
 }
@@ -35,45 +54,56 @@ function findCapturingPlanet(entity: Entity, celestials: CelestialBody[]): Plane
 /**
  * Check and apply SPACE -> ORBIT transition for a single entity
  */
-function checkOrbitalCapture(entity: Entity, celestials: CelestialBody[]): Entity {
+function checkOrbitalCapture(
+    entity: Entity,
+    spatial: SpatialIndex,
+    previousPositions: ReadonlyMap<string, Vector2FP>
+): Entity {
     // Only check entities in SPACE state
     if (entity.zoomState !== 'SPACE') {
         return entity;
     }
+
+    // contained, welded and celestial-bound entities follow their anchor
+    if (entity.parentId !== undefined ||
+        entity.weldParentId !== undefined ||
+        entity.linkedCelestialId !== undefined) {
+        return entity;
+    }
     
-    const capturedBy = findCapturingPlanet(entity, celestials);
+    const capturedBy = findCapturingPlanet(entity, spatial, previousPositions);
     if (!capturedBy) {
         return entity;
     }
     
-    // Transition to ORBIT - snap to rail
-
-    // if distance(entity, planet_center) ≤ R_capture:
-// θentry = atan2(Pentity - planet_center)
-// ωentry = |Ventity| × orbital_conversion_constant
-// entity transitions to orbit state
-
-    const thetaEntry = Math.atan2(entity.position.x - capturedBy.position.x, entity.position.y - capturedBy.position.y);
-    const omegaEntry = fpMul(SPEED_FROM_VECTOR(entity.velocity), ORBITAL_CONVERSION_CONSTANT);
-
-    return {
-        ...entity,
-        zoomState: 'ORBIT',
-        orbitTargetId: capturedBy.id,
-
-        // 
-        velocity: VECTOR_ZERO,
-    };
+    // Transition to ORBIT - snap to rail with θentry / ωentry
+    return captureOntoRail(entity, capturedBy);
 }
 
 /**
  * Apply zoom level state transitions to all entities
  * Currently: SPACE -> ORBIT capture check
- * TODO: Implement ORBIT -> MOON; ORBIT -> PLANET; PLANET -> ORBIT; ORBIT -> SPACE
+ * (ORBIT -> SURFACE and ORBIT -> SPACE are thrust gates, see orbitSystem)
+ *
+ * @param state - state after translation (celestials at T+1)
+ * @param previousCelestials - celestials at the start of the tick (for crossing checks)
  */
-export function applyZoomStateTransition(state: GameState): GameState {
+export function applyZoomStateTransition(
+    state: GameState,
+    previousCelestials: CelestialBody[] = state.celestials
+): GameState {
+    const previousPositions = new Map<string, Vector2FP>();
+    for (const celestial of previousCelestials) {
+        if (celestial.type === 'PLANET') {
+            previousPositions.set(celestial.id, celestial.position);
+        }
+    }
+
+    // capture radii at T+1; only celestials are queried here
+    const spatial = buildSpatialIndex([], state.celestials);
+
     const nextEntities = state.entities.map(entity =>
-        checkOrbitalCapture(entity, state.celestials)
+        checkOrbitalCapture(entity, spatial, previousPositions)
     );
     
     const changed = nextEntities.some((e, i) => e !== state.entities[i]);
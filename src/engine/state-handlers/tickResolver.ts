@@ -25,15 +25,31 @@
 //    b. Solve each cluster via permutation search
 //    c. Execute actions in optimal order
 //    d. Run physics settlement (maneuver, binding)
-// 3. Run environmental transitions
-// 4. Advance tick counter
+// 3. Apply vector lock (autopilot) burns once per tick
+// 4. Advance celestials (planets, moons, asteroids) once per tick
+// 5. Translate, then carry entities through wormholes once per tick
+// 6. Advance orbital rails (θ += ω) once per tick
+// 7. Run environmental transitions
+// 8. Drift real postures (acting raises, idling decays)
+// 9. Destroy crew bodies left in vacuum
+// 10. Advance tick counter
+//
+// An entity changing or holding its real posture spends the whole tick
+// on it: its other actions are voided before the waves run.
 
 import type { GameState } from '../state-types/state-types.js';
 import type { Action } from '../primitive-types/semantic/action/action-types.js';
 
 // systems
-import { applyManeuver, applyBinding, applyTranslation } from './state-systems/maneuverSystem.js';
+import { applyManeuver, applyBinding, applyTranslation, releaseTows } from './state-systems/maneuverSystem.js';
+import { applyCelestialMotion } from './state-systems/celestialSystem.js';
+import { advanceOrbitalRails } from './state-systems/orbitSystem.js';
+import { applyVectorLocks } from './state-systems/vectorLockSystem.js';
+import { applyWormholeTraversal } from './state-systems/wormholeSystem.js';
 import { applyZoomStateTransition } from './state-systems/zoomStateSystem.js';
+import { getDestroyedIds } from './state-systems/destructionSystem.js';
+import { applyVacuumDeath } from './state-systems/environmentSystem.js';
+import { applyPostureDrift, getPostureLockedActions } from './state-systems/postureSystem.js';
 import { 
     resolveClusterWave, 
     type ClusterResolutionResult,
@@ -56,6 +72,10 @@ export interface WaveResolutionResult {
     clusterMetrics?: WaveResolutionMetrics[];
     // actions voided due to stalemates
     stalemateActions?: Action[];
+    // actions voided because an entity they name was destroyed
+    destroyedTargetActions?: Action[];
+    // actions voided because their entity spent the tick on its posture
+    postureLockedActions?: Action[];
     // detailed results per cluster per wave (for debugging)
     clusterResults?: ClusterResolutionResult[][];
 }
@@ -107,7 +127,12 @@ function getMaxWaveIndex(waves: Map<number, Action[]>): number {
  * 
  * WAVE/SETTLEMENT BOUNDARY:
  * - Binding (snap children to parents) runs AFTER EVERY WAVE
+ * - Vector lock burns run ONCE PER TICK (at the end, before celestial motion)
+ * - Celestial motion runs ONCE PER TICK (at the end, before translation)
  * - Translation (position += velocity) runs ONCE PER TICK (at the end)
+ * - Wormhole traversal runs ONCE PER TICK (right after translation)
+ * - Rail advance (θ += ω) runs ONCE PER TICK (after celestial motion)
+ * - Tow links (TRANSPORT) are released ONCE PER TICK (after the final binding)
  * 
  * this prevents the "5x velocity teleportation" bug where entities
  * move too far because translation ran after each wave.
@@ -116,7 +141,7 @@ function getMaxWaveIndex(waves: Map<number, Action[]>): number {
  * 
  * @param state - current game state
  * @param actions - all actions for this tick (with orderIndex)
- * @param skipFinalManeuver - if true, skips the final maneuver pass (for draft projection)
+ * @param skipFinalManeuver - if true, skips vector lock burns, celestial motion, wormhole traversal, rail advance and the final maneuver pass (for draft projection)
  * @returns resolution result with final state and wave metrics
  */
 export function resolveWaves(
@@ -124,13 +149,17 @@ export function resolveWaves(
     actions: Action[],
     skipFinalManeuver: boolean = false
 ): WaveResolutionResult {
+    // an entity committing to a posture does nothing else this tick
+    const postureLockedActions = getPostureLockedActions(actions, state.entities);
+
     // group actions by wave
-    const waves = groupActionsByWave(actions);
+    const waves = groupActionsByWave(actions.filter(a => !postureLockedActions.includes(a)));
     const maxWave = getMaxWaveIndex(waves);
     const actionsPerWave: number[] = [];
     const clusterMetrics: WaveResolutionMetrics[] = [];
     const clusterResults: ClusterResolutionResult[][] = [];
     const stalemateActions: Action[] = [];
+    const destroyedTargetActions: Action[] = [];
     
     let currentState = state;
     
@@ -143,8 +172,10 @@ export function resolveWaves(
             continue;
         }
         
-        // resolve this wave using the conflict cluster system
-        const waveResult = resolveClusterWave(waveActions, currentState);
+        // resolve this wave using the conflict cluster system;
+        // entities destroyed by earlier waves void the actions naming them
+        const destroyedIds = getDestroyedIds(state.entities, currentState.entities);
+        const waveResult = resolveClusterWave(waveActions, currentState, destroyedIds);
         
         // track metrics
         actionsPerWave.push(waveResult.executionOrder.length);
@@ -156,6 +187,11 @@ export function resolveWaves(
             if (clusterResult.isStalemate) {
                 stalemateActions.push(...clusterResult.voidedActions);
             }
+            for (const actionResult of clusterResult.actionResults) {
+                if (actionResult.voidReason === 'TARGET_DESTROYED') {
+                    destroyedTargetActions.push(actionResult.action);
+                }
+            }
         }
         
         // apply the resolved state
@@ -170,11 +206,26 @@ export function resolveWaves(
     // TICK SETTLEMENT: translation (position += velocity) happens ONCE per tick
     // this ensures entities move at their velocity, not N * velocity
     if (!skipFinalManeuver) {
+        // autopilot burns for vector locks (once per tick, before translation)
+        currentState = applyVectorLocks(currentState);
+        
+        // advance celestials (and the entities bound to them) to T+1
+        currentState = applyCelestialMotion(currentState);
+        
         // apply translation (position += velocity for root entities)
         currentState = applyTranslation(currentState);
         
+        // paths that crossed a wormhole endpoint emerge at the paired endpoint
+        currentState = applyWormholeTraversal(currentState);
+        
+        // advance rail entities around their planet's T+1 position
+        currentState = advanceOrbitalRails(currentState);
+        
         // final binding pass to snap children after translation
         currentState = applyBinding(currentState);
+        
+        // tows last one tick: drop the loads where they now stand
+        currentState = releaseTows(currentState);
     }
     
     return {
@@ -183,6 +234,8 @@ export function resolveWaves(
         actionsPerWave,
         clusterMetrics,
         stalemateActions: stalemateActions.length > 0 ? stalemateActions : undefined,
+        destroyedTargetActions: destroyedTargetActions.length > 0 ? destroyedTargetActions : undefined,
+        postureLockedActions: postureLockedActions.length > 0 ? postureLockedActions : undefined,
         clusterResults: clusterResults.length > 0 ? clusterResults : undefined,
     };
 }
@@ -196,9 +249,11 @@ export function resolveWaves(
  * pure function - does not mutate input state.
  * 
  * order of operations:
- * 1. wave resolution (actions + settlement per wave)
+ * 1. wave resolution (actions + settlement per wave, celestial motion, translation, rails)
  * 2. environmental transitions (SPACE -> ORBIT, etc.)
- * 3. advance tick counter
+ * 3. posture drift (acting raises real posture, idling decays it)
+ * 4. vacuum death (bodies exposed outside any atmosphere)
+ * 5. advance tick counter
  * 
  * @param state - current game state
  * @param actions - player actions for this tick
@@ -209,9 +264,16 @@ export function resolveTick(state: GameState, actions: Action[] = []): GameState
     const { finalState } = resolveWaves(state, actions);
     
     // 2. environmental transitions (SPACE -> ORBIT, etc.)
-    let nextState = applyZoomStateTransition(finalState);
+    // capture is judged against the celestials at the start of the tick
+    let nextState = applyZoomStateTransition(finalState, state.celestials);
+
+    // 3. posture drift for everything that did not commit to a posture
+    nextState = applyPostureDrift(nextState, actions, state.entities);
+
+    // 4. vacuum death: judged where everything ended up this tick
+    nextState = applyVacuumDeath(nextState);
     
-    // 3. advance tick counter
+    // 5. advance tick counter
     return {
         ...nextState,
         tick: state.tick + 1,
@@ -53,6 +53,84 @@ export interface GameState {
 
     // all entities (ships, platforms, resource wells, mineral stores)
     entities: Entity[];
+
+    // gravity maps of every planet and moon pocket universe
+    surfaces: SurfaceMap[];
+}
+
+// -----------------------------------------------
+// Surface Map
+// -----------------------------------------------
+// A planet's or moon's pocket-universe gravity map.
+// Z is depth in the gravity well: high ground (peaks) sits at low Z and is
+// cheap to launch from; low ground (valleys, craters) sits at high Z.
+// Z at any body-local point is baseZ plus the sum of its sine waves,
+// plus the bowl of every crater the point falls inside.
+
+export type SurfaceTopography = 'HILLS' | 'CRATERS';
+
+export type PointOfInterestKind = 'PEAK' | 'VALLEY' | 'INFLECTION' | 'CRATER';
+
+// one sine component of the Z gravity map
+export interface GravityWave {
+    // unit vector the wave travels along
+    direction: Vector2FP;
+
+    // surface distance covered by one full cycle
+    wavelength: FP;
+
+    // largest Z offset from baseZ, either way
+    amplitude: FP;
+
+    // phase offset in FP degrees
+    phase: FP;
+}
+
+// a bowl-shaped depression (moon topography)
+export interface Crater {
+    center: Vector2FP;
+    radius: FP;
+
+    // Z rise at the crater center
+    depth: FP;
+}
+
+export interface PointOfInterest {
+    id: string;
+    kind: PointOfInterestKind;
+
+    // body-local position
+    position: Vector2FP;
+
+    // Z of the gravity map at the POI
+    z: FP;
+}
+
+// a Voronoi zone: every surface point closest to the zone's POI
+export interface SurfaceZone {
+    // zone index (maps to a segment of the orbital rail)
+    index: number;
+    poiId: string;
+
+    // Voronoi site (the POI position)
+    site: Vector2FP;
+}
+
+export interface SurfaceMap {
+    // planet or moon this map belongs to
+    bodyId: string;
+
+    topography: SurfaceTopography;
+
+    // averaged Z of the surface (1000 × gravity)
+    baseZ: FP;
+
+    waves: GravityWave[];
+    craters: Crater[];
+    pointsOfInterest: PointOfInterest[];
+
+    // ordered by POI angle around the core, so zone i sits under rail segment i
+    zones: SurfaceZone[];
 }
 
 // -----------------------------------------------
@@ -87,4 +165,7 @@ export interface GenesisConfig {
 
     // starting mass for player ships
     playerStartingMass: FP;
+
+    // space thrust power for player ships (Δv_max = force / mass)
+    playerStartingSpaceForce: FP;
 }
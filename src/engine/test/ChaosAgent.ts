@@ -13,7 +13,32 @@ import type { GameState } from '../state-types/state-types.js';
 import type { Action, ActionType } from '../primitive-types/semantic/action/action-types.js';
 import type { FP, Vector2FP } from '../primitive-types/euclidean/euclidean-types.js';
 import { SeededRNG } from '../genesis/genesisService.js';
-import { toFP, fpDistanceSquared, fpMul } from '../primitive-types/euclidean/euclidean-types.js';
+import { toFP, fpHeadingToVector } from '../primitive-types/euclidean/euclidean-types.js';
+import {
+    buildSpatialIndex,
+    queryEntitiesInReach,
+    type SpatialIndex,
+} from '../state-handlers/state-systems/spatialIndex.js';
+import { getMaxThrustDeltaV } from '../state-handlers/state-systems/propulsionSystem.js';
+
+// -----------------------------------------------
+// Spatial Lookups
+// -----------------------------------------------
+// every entity's capability checks against one state share one index.
+
+const spatialIndexCache = new WeakMap<GameState, SpatialIndex>();
+
+/**
+ * returns the spatial index for a state snapshot, building it on first use.
+ */
+function getSpatialIndex(state: GameState): SpatialIndex {
+    let index = spatialIndexCache.get(state);
+    if (!index) {
+        index = buildSpatialIndex(state.entities, state.celestials);
+        spatialIndexCache.set(state, index);
+    }
+    return index;
+}
 
 // -----------------------------------------------
 // Action Capability Checks
@@ -52,8 +77,8 @@ export function getCapabilities(entity: Entity, state: GameState): ActionCapabil
     const weldedChildren = findWeldedChildren(entity, state);
 
     return {
-        // thrust requires fuel
-        canThrust: entity.fuelMass > 0,
+        // thrust requires fuel and an engine (its own or a welded part's)
+        canThrust: getMaxThrustDeltaV(entity, state.entities) > 0,
 
         // extract requires reach and nearby wells with resources
         canExtractVolatiles: entity.reach > 0 && hasVolatilesInReach,
@@ -89,37 +114,19 @@ export function getCapabilities(entity: Entity, state: GameState): ActionCapabil
  * finds resource wells within an entity's reach.
  */
 export function findNearbyResourceWells(entity: Entity, state: GameState): Entity[] {
-    if (entity.reach <= 0) return [];
-
-    const reachSquared = fpMul(entity.reach, entity.reach);
-
-    return state.entities.filter(other => {
-        if (other.type !== 'RESOURCE_WELL') return false;
-        if (other.id === entity.id) return false;
-
-        const distSquared = fpDistanceSquared(entity.position, other.position);
-        return distSquared <= reachSquared;
-    });
+    return queryEntitiesInReach(getSpatialIndex(state), entity)
+        .filter(other => other.type === 'RESOURCE_WELL');
 }
 
 /**
  * finds loadable content (mineral stores, not already contained) within reach.
  */
 export function findLoadableContent(entity: Entity, state: GameState): Entity[] {
-    if (entity.reach <= 0) return [];
-
-    const reachSquared = fpMul(entity.reach, entity.reach);
-
-    return state.entities.filter(other => {
+    return queryEntitiesInReach(getSpatialIndex(state), entity).filter(other => {
         // only mineral stores are loadable cargo
         if (other.type !== 'MINERAL_STORE') return false;
-        // cannot load self
-        if (other.id === entity.id) return false;
         // cannot load already-contained entities
-        if (other.parentId !== undefined) return false;
-
-        const distSquared = fpDistanceSquared(entity.position, other.position);
-        return distSquared <= reachSquared;
+        return other.parentId === undefined;
     });
 }
 
@@ -127,17 +134,8 @@ export function findLoadableContent(entity: Entity, state: GameState): Entity[]
  * finds containers within an entity's reach.
  */
 export function findNearbyContainers(entity: Entity, state: GameState): Entity[] {
-    if (entity.reach <= 0) return [];
-
-    const reachSquared = fpMul(entity.reach, entity.reach);
-
-    return state.entities.filter(other => {
-        if (!other.isContainer) return false;
-        if (other.id === entity.id) return false;
-
-        const distSquared = fpDistanceSquared(entity.position, other.position);
-        return distSquared <= reachSquared;
-    });
+    return queryEntitiesInReach(getSpatialIndex(state), entity)
+        .filter(other => other.isContainer === true);
 }
 
 /**
@@ -156,21 +154,11 @@ export function findContainedItems(entity: Entity, state: GameState): Entity[] {
     }
 
     // items in nearby containers
-    if (entity.reach > 0) {
-        const reachSquared = fpMul(entity.reach, entity.reach);
-        
-        for (const container of state.entities) {
-            if (!container.isContainer) continue;
-            if (container.id === entity.id) continue;
-
-            const distSquared = fpDistanceSquared(entity.position, container.position);
-            if (distSquared > reachSquared) continue;
-
-            // find items in this container
-            for (const other of state.entities) {
-                if (other.parentId === container.id) {
-                    items.push(other);
-                }
+    for (const container of findNearbyContainers(entity, state)) {
+        // find items in this container
+        for (const other of state.entities) {
+            if (other.parentId === container.id) {
+                items.push(other);
             }
         }
     }
@@ -183,22 +171,13 @@ export function findContainedItems(entity: Entity, state: GameState): Entity[] {
  * excludes: self, celestials (RESOURCE_WELL), already welded entities, contained entities.
  */
 export function findWeldableEntities(entity: Entity, state: GameState): Entity[] {
-    if (entity.reach <= 0) return [];
-
-    const reachSquared = fpMul(entity.reach, entity.reach);
-
-    return state.entities.filter(other => {
-        // cannot weld to self
-        if (other.id === entity.id) return false;
+    return queryEntitiesInReach(getSpatialIndex(state), entity).filter(other => {
         // cannot weld celestials
         if (other.type === 'RESOURCE_WELL') return false;
         // cannot weld already-welded entities
         if (other.weldParentId !== undefined) return false;
         // cannot weld contained entities
-        if (other.parentId !== undefined) return false;
-
-        const distSquared = fpDistanceSquared(entity.position, other.position);
-        return distSquared <= reachSquared;
+        return other.parentId === undefined;
     });
 }
 
@@ -258,11 +237,7 @@ function generateThrustAction(
         ? entity.heading 
         : rng.nextAngle();
 
-    const radians = (heading / 1000) * (Math.PI / 180);
-    const direction: Vector2FP = {
-        x: toFP(Math.cos(radians)),
-        y: toFP(Math.sin(radians)),
-    };
+    const direction = fpHeadingToVector(heading, toFP(1));
 
     return {
         type: 'THRUST',
@@ -1062,6 +1037,7 @@ function findEntitiesThatCanReach(
 ): Entity[] {
     const target = state.entities.find(e => e.id === targetId);
     if (!target) return [];
+    const spatial = getSpatialIndex(state);
     
     return state.entities.filter(entity => {
         // skip non-player entities
@@ -1076,9 +1052,7 @@ function findEntitiesThatCanReach(
         if (!entity.isContainer) return false;
         
         // check if in reach
-        const distSquared = fpDistanceSquared(entity.position, target.position);
-        const reachSquared = fpMul(entity.reach, entity.reach);
-        return distSquared <= reachSquared;
+        return queryEntitiesInReach(spatial, entity).includes(target);
     });
 }
 
@@ -1250,6 +1224,7 @@ export function generateWeldContention(
     
     // shuffle for variety
     const shuffledTargets = [...weldableTargets].sort(() => rng.next() - 0.5);
+    const spatial = getSpatialIndex(state);
     
     let processedTargets = 0;
     
@@ -1266,9 +1241,7 @@ export function generateWeldContention(
             if (!entity.airlockSealed) return false;
             if (entity.weldParentId !== undefined) return false;
             
-            const distSquared = fpDistanceSquared(entity.position, target.position);
-            const reachSquared = fpMul(entity.reach, entity.reach);
-            return distSquared <= reachSquared;
+            return queryEntitiesInReach(spatial, entity).includes(target);
         });
         
         if (welders.length < minContestants) continue;
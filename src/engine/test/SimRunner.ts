@@ -12,8 +12,9 @@
 
 import type { GameState } from '../state-types/state-types.js';
 import type { Action } from '../primitive-types/semantic/action/action-types.js';
-import type { Entity, EntityUpdate } from '../primitive-types/semantic/entity/entity-types.js';
-import type { TickContext } from '../resolvers/actions/actionTypes.js';
+import type { Entity, EntityEffect, EntityUpdate } from '../primitive-types/semantic/entity/entity-types.js';
+import { isEntityUpdate } from '../primitive-types/semantic/entity/entity-types.js';
+import { applySpawn, applyDestroy } from '../state-handlers/state-systems/effectSystem.js';
 import { resolveTick, resolveWaves, type WaveResolutionResult } from '../state-handlers/tickResolver.js';
 import { actionRegistry } from '../resolvers/actions/actionRegistry.js';
 import { createGameState, createContextFromState } from './factories.js';
@@ -50,7 +51,10 @@ export interface SimulationResult {
 }
 
 export interface ActionResult {
-    // updates returned by the action handler
+    // effects returned by the action handler
+    effects: EntityEffect[];
+
+    // the update effects among them
     updates: EntityUpdate[];
 
     // whether the action passed validation
@@ -281,14 +285,11 @@ export function testAction(
     const registration = actionRegistry[actionType];
     const allEntities = [actor, ...targets, ...additionalEntities];
 
-    const context: TickContext = {
-        tick: 1,
-        entities: allEntities,
-        state: createGameState({ entities: allEntities }),
-    };
+    const context = createContextFromState(createGameState({ tick: 1, entities: allEntities }));
 
-    const valid = registration.validate(actor, targets, inputs);
-    const updates = registration.handler(actor, targets, inputs, context);
+    const valid = registration.validate(actor, targets, inputs, allEntities);
+    const effects = registration.handler(actor, targets, inputs, context);
+    const updates = getUpdates(effects);
 
     // apply updates to get post-action state
     let actorAfter: Entity | undefined;
@@ -307,6 +308,7 @@ export function testAction(
     }
 
     return {
+        effects,
         updates,
         valid,
         actorAfter,
@@ -342,21 +344,24 @@ export function applyEntityUpdate(entity: Entity, update: EntityUpdate): Entity
 }
 
 /**
- * applies multiple entity updates to a game state.
+ * applies handler effects (updates, spawns, destroys) to a game state.
  */
 export function applyUpdatesToState(
     state: GameState,
-    updates: EntityUpdate[]
+    effects: EntityEffect[]
 ): GameState {
     const entityMap = new Map(state.entities.map(e => [e.id, e]));
 
-    for (const update of updates) {
-        const existing = entityMap.get(update.id);
-        if (existing) {
-            entityMap.set(update.id, applyEntityUpdate(existing, update));
+    for (const effect of effects) {
+        if (effect.kind === 'spawn') {
+            applySpawn(entityMap, effect);
+        } else if (effect.kind === 'destroy') {
+            applyDestroy(entityMap, effect);
         } else {
-            // new entity spawned by action (e.g., mineral store)
-            entityMap.set(update.id, update.changes as Entity);
+            const existing = entityMap.get(effect.id);
+            if (existing) {
+                entityMap.set(effect.id, applyEntityUpdate(existing, effect));
+            }
         }
     }
 
@@ -366,6 +371,27 @@ export function applyUpdatesToState(
     };
 }
 
+/**
+ * the update effects among a handler's effects.
+ */
+export function getUpdates(effects: readonly EntityEffect[]): EntityUpdate[] {
+    return effects.filter(isEntityUpdate);
+}
+
+/**
+ * the update a handler made to one entity, if any.
+ */
+export function findUpdate(effects: readonly EntityEffect[], entityId: string): EntityUpdate | undefined {
+    return getUpdates(effects).find(update => update.id === entityId);
+}
+
+/**
+ * the entities a handler spawned.
+ */
+export function getSpawned(effects: readonly EntityEffect[]): Entity[] {
+    return effects.flatMap(effect => effect.kind === 'spawn' ? [effect.entity] : []);
+}
+
 /**
  * finds an entity by ID in a game state.
  */
@@ -5,15 +5,23 @@
 // all test files must use these factories to ensure consistency
 // with the latest Entity and Celestial schemas.
 
-import type { Entity, VisibilityLevel, EntityType } from '../primitive-types/semantic/entity/entity-types.js';
-import type { CelestialBody, Sol, Planet, Moon, Asteroid } from '../primitive-types/semantic/celestial/celestial-types.js';
-import type { GameState, StarSystem } from '../state-types/state-types.js';
+import type { Entity, VisibilityLevel, EntityType, WellOriginType } from '../primitive-types/semantic/entity/entity-types.js';
+import type { CelestialBody, Sol, Planet, Moon, Asteroid, Wormhole } from '../primitive-types/semantic/celestial/celestial-types.js';
+import type { GameState, StarSystem, SurfaceMap } from '../state-types/state-types.js';
 import type { TickContext } from '../resolvers/actions/actionTypes.js';
 import { VECTOR_ZERO, toFP, type FP, type Vector2FP } from '../primitive-types/euclidean/euclidean-types.js';
+import { buildSpatialIndex } from '../state-handlers/state-systems/spatialIndex.js';
 
 // -----------------------------------------------
 // Entity Factories
 // -----------------------------------------------
+// fixtures give an entity's total mass; the dry mass is whatever is left
+// once fuel, volatiles and anything already carried (contents, welded
+// parts) are taken out. LOAD / WELD add carried mass on top.
+
+function getFixtureDryMass(mass: FP, fuelMass: FP, volatilesMass: FP, carriedMass: FP = 0): FP {
+    return mass - fuelMass - volatilesMass - carriedMass;
+}
 
 export interface ShipOverrides {
     id?: string;
@@ -29,6 +37,9 @@ export interface ShipOverrides {
     volatilesMass?: FP;
     fuelMass?: FP;
     opticLevel?: VisibilityLevel;
+    spaceForce?: FP;
+    // mass of pre-loaded contents / pre-welded parts included in `mass`
+    carriedMass?: FP;
     // container properties
     parentId?: string;
     isContainer?: boolean;
@@ -53,12 +64,19 @@ export function createShip(overrides: ShipOverrides = {}): Entity {
         heading: overrides.heading ?? toFP(0),
         thrust: overrides.thrust ?? toFP(0),
         reach: overrides.reach ?? toFP(500),
+        dryMass: getFixtureDryMass(
+            overrides.mass ?? toFP(1000),
+            overrides.fuelMass ?? toFP(100),
+            overrides.volatilesMass ?? toFP(0),
+            overrides.carriedMass
+        ),
         mass: overrides.mass ?? toFP(1000),
         volume: overrides.volume ?? toFP(500),
         airlockSealed: overrides.airlockSealed ?? true,
         volatilesMass: overrides.volatilesMass ?? toFP(0),
         fuelMass: overrides.fuelMass ?? toFP(100),
         opticLevel: overrides.opticLevel ?? (0 as VisibilityLevel),
+        spaceForce: overrides.spaceForce ?? toFP(100000),
         // container properties - ships are containers by default
         parentId: overrides.parentId,
         isContainer: overrides.isContainer ?? true,
@@ -74,6 +92,8 @@ export interface ResourceWellOverrides {
     volume?: FP;
     volatilesMass?: FP;
     linkedCelestialId?: string;
+    wellOriginType?: WellOriginType;
+    wellDensity?: FP;
 }
 
 /**
@@ -90,6 +110,7 @@ export function createResourceWell(overrides: ResourceWellOverrides = {}): Entit
         heading: toFP(0),
         thrust: toFP(0),
         reach: toFP(0),
+        dryMass: getFixtureDryMass(overrides.mass ?? toFP(50000), toFP(0), overrides.volatilesMass ?? toFP(10000)),
         mass: overrides.mass ?? toFP(50000),
         volume: overrides.volume ?? toFP(100000),
         airlockSealed: false,
@@ -97,6 +118,8 @@ export function createResourceWell(overrides: ResourceWellOverrides = {}): Entit
         fuelMass: toFP(0),
         opticLevel: 0 as VisibilityLevel,
         linkedCelestialId: overrides.linkedCelestialId,
+        wellOriginType: overrides.wellOriginType,
+        wellDensity: overrides.wellDensity,
     };
 }
 
@@ -123,6 +146,7 @@ export function createMineralStore(overrides: MineralStoreOverrides = {}): Entit
         heading: toFP(0),
         thrust: toFP(0),
         reach: toFP(0),
+        dryMass: overrides.mass ?? toFP(1000),
         mass: overrides.mass ?? toFP(1000),
         volume: overrides.volume ?? toFP(100),
         airlockSealed: false,
@@ -150,6 +174,8 @@ export interface ContainerOverrides {
     containerVolume?: FP;
     inOpacity?: FP;
     fuelMass?: FP;
+    // mass of pre-loaded contents included in `mass`
+    carriedMass?: FP;
 }
 
 /**
@@ -167,6 +193,12 @@ export function createContainer(overrides: ContainerOverrides = {}): Entity {
         heading: toFP(0),
         thrust: toFP(0),
         reach: overrides.reach ?? toFP(500),
+        dryMass: getFixtureDryMass(
+            overrides.mass ?? toFP(2000),
+            overrides.fuelMass ?? toFP(50),
+            toFP(0),
+            overrides.carriedMass
+        ),
         mass: overrides.mass ?? toFP(2000),
         volume: overrides.volume ?? toFP(1000),
         airlockSealed: true,
@@ -195,6 +227,49 @@ export function createHauler(overrides: ContainerOverrides = {}): Entity {
     });
 }
 
+// -----------------------------------------------
+// Body Factory
+// -----------------------------------------------
+
+export interface BodyOverrides {
+    id?: string;
+    playerId?: string;
+    name?: string;
+    position?: Vector2FP;
+    velocity?: Vector2FP;
+    mass?: FP;
+    parentId?: string;
+    requiresAtmosphere?: boolean;
+}
+
+/**
+ * creates a crew body (a person). needs atmosphere unless told otherwise.
+ */
+export function createBody(overrides: BodyOverrides = {}): Entity {
+    return {
+        id: overrides.id ?? 'body-001',
+        type: 'BODY',
+        playerId: overrides.playerId ?? 'player-001',
+        name: overrides.name ?? 'Test Pilot',
+        zoomState: 'SPACE',
+        position: overrides.position ?? { x: toFP(0), y: toFP(0) },
+        velocity: overrides.velocity ?? VECTOR_ZERO,
+        heading: toFP(0),
+        thrust: toFP(0),
+        reach: toFP(0),
+        dryMass: overrides.mass ?? toFP(80),
+        mass: overrides.mass ?? toFP(80),
+        volume: toFP(2),
+        airlockSealed: false,
+        requiresAtmosphere: overrides.requiresAtmosphere ?? true,
+        canEncounter: true,
+        volatilesMass: toFP(0),
+        fuelMass: toFP(0),
+        opticLevel: 0 as VisibilityLevel,
+        parentId: overrides.parentId,
+    };
+}
+
 // -----------------------------------------------
 // Celestial Factories
 // -----------------------------------------------
@@ -237,6 +312,7 @@ export interface PlanetOverrides {
     captureRadius?: FP;
     parentSolId?: string;
     atmosphere?: FP;
+    gravity?: FP;
     orbitRadius?: FP;
     orbitAngle?: FP;
     orbitSpeed?: FP;
@@ -258,6 +334,7 @@ export function createPlanet(overrides: PlanetOverrides = {}): Planet {
         z: toFP(0),
         parentSolId: overrides.parentSolId ?? 'sol-001',
         atmosphere: overrides.atmosphere ?? toFP(500),
+        gravity: overrides.gravity ?? toFP(0.2),
         orbitRadius: overrides.orbitRadius ?? toFP(500000),
         orbitAngle: overrides.orbitAngle ?? toFP(0),
         orbitSpeed: overrides.orbitSpeed ?? toFP(1),
@@ -291,6 +368,34 @@ export function createAsteroid(overrides: AsteroidOverrides = {}): Asteroid {
     };
 }
 
+export interface WormholeOverrides {
+    id?: string;
+    name?: string;
+    endpoints?: [Vector2FP, Vector2FP];
+    radius?: FP;
+    captureRadius?: FP;
+    systemIds?: [string, string];
+}
+
+/**
+ * creates a wormhole celestial body.
+ */
+export function createWormhole(overrides: WormholeOverrides = {}): Wormhole {
+    return {
+        id: overrides.id ?? 'wormhole-001',
+        name: overrides.name ?? 'Test Wormhole',
+        type: 'WORMHOLE',
+        endpoints: overrides.endpoints ?? [
+            { x: toFP(100000), y: toFP(0) },
+            { x: toFP(2000000), y: toFP(0) },
+        ],
+        radius: overrides.radius ?? toFP(1000),
+        captureRadius: overrides.captureRadius ?? toFP(1000),
+        systemIds: overrides.systemIds ?? ['system-001', 'system-002'],
+        z: toFP(0),
+    };
+}
+
 // -----------------------------------------------
 // Game State Factory
 // -----------------------------------------------
@@ -301,6 +406,7 @@ export interface GameStateOverrides {
     systems?: StarSystem[];
     celestials?: CelestialBody[];
     entities?: Entity[];
+    surfaces?: SurfaceMap[];
 }
 
 /**
@@ -321,6 +427,7 @@ export function createGameState(overrides: GameStateOverrides = {}): GameState {
         systems: overrides.systems ?? [defaultSystem],
         celestials: overrides.celestials ?? [createSol()],
         entities: overrides.entities ?? [],
+        surfaces: overrides.surfaces ?? [],
     };
 }
 
@@ -348,12 +455,15 @@ export function createTickContext(
         }],
         entities,
         celestials,
+        surfaces: [],
     };
 
     return {
         tick,
+        wave: 0,
         entities,
         state,
+        spatial: buildSpatialIndex(entities, celestials),
     };
 }
 
@@ -363,7 +473,9 @@ export function createTickContext(
 export function createContextFromState(state: GameState): TickContext {
     return {
         tick: state.tick,
+        wave: 0,
         entities: state.entities,
         state,
+        spatial: buildSpatialIndex(state.entities, state.celestials),
     };
 }
@@ -4,15 +4,19 @@
 // hard invariant checkers for mass conservation, reach validation,
 // and other deterministic rules that must hold across all actions.
 
-import type { Entity, EntityUpdate } from '../primitive-types/semantic/entity/entity-types.js';
+import type { Entity, EntityEffect } from '../primitive-types/semantic/entity/entity-types.js';
 import type { GameState } from '../state-types/state-types.js';
 import { 
-    fpDistanceSquared, 
     fpAdd, 
     fpMul,
+    fpSqrt,
+    fpDistance,
     fromFP,
     type FP 
 } from '../primitive-types/euclidean/euclidean-types.js';
+import { getSeparationSquared } from '../state-handlers/state-systems/surfaceSystem.js';
+import { getTotalMass } from '../state-handlers/state-systems/massSystem.js';
+import { applySpawn, applyDestroy } from '../state-handlers/state-systems/effectSystem.js';
 
 // -----------------------------------------------
 // Mass Conservation
@@ -29,16 +33,14 @@ export interface MassConservationResult {
 /**
  * calculates total mass of an entity.
  * 
- * NOTE: in the MESH 95 engine model, `mass` represents the total entity mass.
- * the `fuelMass` and `volatilesMass` fields are component trackers that 
- * represent portions of the total mass, not additive values.
+ * NOTE: `mass` caches the total from the mass system:
+ * dryMass + fuelMass + volatilesMass + everything loaded into or
+ * welded to the entity (recursively).
  * 
- * example: a ship with mass=1000, fuelMass=100, volatilesMass=50
- * has total mass of 1000, of which 100 is fuel and 50 is volatiles.
- * the remaining 850 is "dry" structural mass.
+ * example: a ship with dryMass=850, fuelMass=100, volatilesMass=50
+ * and nothing aboard has total mass of 1000.
  */
 export function getTotalEntityMass(entity: Entity): FP {
-    // mass is the total - fuelMass and volatilesMass are subsets
     return entity.mass;
 }
 
@@ -59,19 +61,16 @@ export function isIndependentEntity(entity: Entity): boolean {
 /**
  * calculates total mass across all INDEPENDENT entities in a state.
  * 
- * CONTAINMENT MODEL: when an entity is loaded into a container:
- * - container.mass is increased to include content.mass (for Newtonian physics)
- * - content entity still exists in state.entities with its own mass
- * 
- * WELD MODEL: when an entity is welded to another:
- * - parent.mass is increased to include child.mass (for thrust calculations)
- * - child entity still exists with its own mass property
- * 
- * to avoid double-counting, we only sum mass of independent entities
- * (entities that are neither contained nor welded to another).
+ * contents and welded parts are already carried in their container's
+ * or weld parent's total, so only independent entities are summed to
+ * avoid double-counting.
  */
 export function getTotalStateMass(state: GameState): FP {
-    return state.entities.reduce(
+    return getIndependentMass(state.entities);
+}
+
+function getIndependentMass(entities: readonly Entity[]): FP {
+    return entities.reduce(
         (total, entity) => {
             // only count independent entities to avoid double-counting
             if (isIndependentEntity(entity)) {
@@ -115,40 +114,30 @@ export function findContainedEntities(
 }
 
 /**
- * calculates the "true" mass of a container including all nested contents.
- * useful for verifying the container's mass property is correctly maintained.
+ * lists every entity whose cached mass disagrees with the mass system.
  */
-export function calculateExpectedContainerMass(
-    container: Entity,
-    entities: readonly Entity[],
-    baseMass: FP
-): FP {
-    const contained = findContainedEntities(container.id, entities);
-    let totalContainedMass = baseMass;
-    
-    for (const content of contained) {
-        totalContainedMass = fpAdd(totalContainedMass, content.mass);
+export function findMassInconsistencies(entities: readonly Entity[]): string[] {
+    const violations: string[] = [];
+
+    for (const entity of entities) {
+        const expected = getTotalMass(entity, entities);
+        if (entity.mass !== expected) {
+            violations.push(`${entity.id}: mass = ${fromFP(entity.mass)}, expected ${fromFP(expected)}`);
+        }
     }
-    
-    return totalContainedMass;
+
+    return violations;
 }
 
-/**
- * verifies mass conservation between two states.
- * allows for a configurable tolerance for refining waste, etc.
- */
-export function assertMassConservation(
-    before: GameState,
-    after: GameState,
-    allowedLoss: FP = 0
+function toMassConservationResult(
+    massBefore: FP,
+    massAfter: FP,
+    passed: boolean,
+    expectation: string,
+    inconsistencies: readonly string[]
 ): MassConservationResult {
-    const massBefore = getTotalStateMass(before);
-    const massAfter = getTotalStateMass(after);
     const delta = massBefore - massAfter;
 
-    // mass can only decrease (via waste), never increase out of nowhere
-    const passed = delta >= 0 && delta <= allowedLoss;
-
     return {
         passed,
         totalMassBefore: massBefore,
@@ -156,64 +145,84 @@ export function assertMassConservation(
         delta,
         message: passed
             ? `Mass conservation OK: ${fromFP(massBefore)} -> ${fromFP(massAfter)} (loss: ${fromFP(delta)})`
-            : `Mass conservation FAILED: ${fromFP(massBefore)} -> ${fromFP(massAfter)} (delta: ${fromFP(delta)}, allowed: ${fromFP(allowedLoss)})`,
+            : `Mass conservation FAILED: ${fromFP(massBefore)} -> ${fromFP(massAfter)} (delta: ${fromFP(delta)}, ${expectation})` +
+              (inconsistencies.length > 0 ? ` [${inconsistencies.join('; ')}]` : ''),
     };
 }
 
 /**
- * verifies mass conservation for a set of entity updates.
- * useful for testing isolated action handlers.
+ * verifies mass conservation between two states exactly.
+ * the total must drop by exactly the expected loss (fuel burned by
+ * thrust, refining waste), and every cached mass in the resulting
+ * state must match the mass system.
  */
-export function assertUpdateMassConservation(
-    originalEntities: Entity[],
-    updates: EntityUpdate[],
+export function assertMassConservation(
+    before: GameState,
+    after: GameState,
+    expectedLoss: FP = 0
+): MassConservationResult {
+    const massBefore = getTotalStateMass(before);
+    const massAfter = getTotalStateMass(after);
+    const inconsistencies = findMassInconsistencies(after.entities);
+
+    const passed = massBefore - massAfter === expectedLoss && inconsistencies.length === 0;
+
+    return toMassConservationResult(massBefore, massAfter, passed, `expected: ${fromFP(expectedLoss)}`, inconsistencies);
+}
+
+/**
+ * verifies mass never grows between two states and loses at most a bound.
+ * for mixed ticks (random actions) where the exact loss is unknown;
+ * cached masses must still match the mass system exactly.
+ */
+export function assertBoundedMassConservation(
+    before: GameState,
+    after: GameState,
     allowedLoss: FP = 0
 ): MassConservationResult {
-    // calculate original mass
-    const massBefore = originalEntities.reduce(
-        (total, e) => fpAdd(total, getTotalEntityMass(e)),
-        0 as FP
-    );
+    const massBefore = getTotalStateMass(before);
+    const massAfter = getTotalStateMass(after);
+    const delta = massBefore - massAfter;
+    const inconsistencies = findMassInconsistencies(after.entities);
 
-    // apply updates to calculate new mass
-    let massAfter = massBefore;
+    // mass can only decrease (via propellant and waste), never increase out of nowhere
+    const passed = delta >= 0 && delta <= allowedLoss && inconsistencies.length === 0;
 
-    for (const update of updates) {
-        const original = originalEntities.find(e => e.id === update.id);
-        
-        if (original) {
-            // subtract original contribution
-            massAfter -= getTotalEntityMass(original);
+    return toMassConservationResult(massBefore, massAfter, passed, `allowed: ${fromFP(allowedLoss)}`, inconsistencies);
+}
 
-            // add updated contribution
-            const updated: Entity = { ...original, ...update.changes } as Entity;
-            massAfter += getTotalEntityMass(updated);
+/**
+ * verifies mass conservation for a set of entity updates exactly.
+ * useful for testing isolated action handlers.
+ */
+export function assertUpdateMassConservation(
+    originalEntities: Entity[],
+    effects: EntityEffect[],
+    expectedLoss: FP = 0
+): MassConservationResult {
+    const updatedMap = new Map(originalEntities.map(e => [e.id, e]));
+    for (const effect of effects) {
+        if (effect.kind === 'spawn') {
+            applySpawn(updatedMap, effect);
+        } else if (effect.kind === 'destroy') {
+            applyDestroy(updatedMap, effect);
         } else {
-            // new entity spawned - adds mass
-            const newEntity = update.changes as Partial<Entity>;
-            const newMass = fpAdd(
-                fpAdd(
-                    (newEntity.mass ?? 0) as FP,
-                    (newEntity.fuelMass ?? 0) as FP
-                ),
-                (newEntity.volatilesMass ?? 0) as FP
-            );
-            massAfter += newMass;
+            // updates to entities outside the checked set are ignored
+            const original = updatedMap.get(effect.id);
+            if (original) {
+                updatedMap.set(effect.id, { ...original, ...effect.changes });
+            }
         }
     }
+    const updatedEntities = [...updatedMap.values()];
 
-    const delta = massBefore - massAfter;
-    const passed = delta >= 0 && delta <= allowedLoss;
+    const massBefore = getIndependentMass(originalEntities);
+    const massAfter = getIndependentMass(updatedEntities);
+    const inconsistencies = findMassInconsistencies(updatedEntities);
 
-    return {
-        passed,
-        totalMassBefore: massBefore,
-        totalMassAfter: massAfter,
-        delta,
-        message: passed
-            ? `Mass conservation OK: ${fromFP(massBefore)} -> ${fromFP(massAfter)} (loss: ${fromFP(delta)})`
-            : `Mass conservation FAILED: ${fromFP(massBefore)} -> ${fromFP(massAfter)} (delta: ${fromFP(delta)}, allowed: ${fromFP(allowedLoss)})`,
-    };
+    const passed = massBefore - massAfter === expectedLoss && inconsistencies.length === 0;
+
+    return toMassConservationResult(massBefore, massAfter, passed, `expected: ${fromFP(expectedLoss)}`, inconsistencies);
 }
 
 // -----------------------------------------------
@@ -235,12 +244,22 @@ export function assertInReach(
     actor: Entity,
     target: Entity
 ): ReachValidationResult {
-    const distanceSquared = fpDistanceSquared(actor.position, target.position);
+    const separationSquared = getSeparationSquared(actor, target);
+    if (separationSquared === null) {
+        return {
+            passed: false,
+            distance: Infinity as FP,
+            actorReach: actor.reach,
+            message: `Reach FAILED: ${actor.id} and ${target.id} are in different coordinate spaces`,
+        };
+    }
+
+    const distanceSquared = separationSquared;
     const reachSquared = fpMul(actor.reach, actor.reach);
     const passed = distanceSquared <= reachSquared;
 
-    // approximate actual distance for reporting
-    const distance = Math.round(Math.sqrt(distanceSquared)) as FP;
+    // actual distance for reporting
+    const distance = fpSqrt(distanceSquared);
 
     return {
         passed,
@@ -334,6 +353,9 @@ export function assertNoNegativeMass(state: GameState): {
         if (entity.mass < 0) {
             violations.push(`${entity.id}: mass = ${fromFP(entity.mass)}`);
         }
+        if (entity.dryMass < 0) {
+            violations.push(`${entity.id}: dryMass = ${fromFP(entity.dryMass)}`);
+        }
         if (entity.fuelMass < 0) {
             violations.push(`${entity.id}: fuelMass = ${fromFP(entity.fuelMass)}`);
         }
@@ -539,6 +561,32 @@ export function assertNoCircularWeld(state: GameState): {
     };
 }
 
+/**
+ * verifies no orphaned references: every parentId and weldParentId names
+ * an entity that still exists (destruction must eject or detach).
+ */
+export function assertNoOrphanedReferences(state: GameState): {
+    passed: boolean;
+    violations: string[];
+} {
+    const violations: string[] = [];
+    const entityIds = new Set(state.entities.map(e => e.id));
+
+    for (const entity of state.entities) {
+        if (entity.parentId !== undefined && !entityIds.has(entity.parentId)) {
+            violations.push(`${entity.id} has orphaned parentId ${entity.parentId}`);
+        }
+        if (entity.weldParentId !== undefined && !entityIds.has(entity.weldParentId)) {
+            violations.push(`${entity.id} has orphaned weldParentId ${entity.weldParentId}`);
+        }
+    }
+
+    return {
+        passed: violations.length === 0,
+        violations,
+    };
+}
+
 /**
  * verifies that tick number advanced correctly.
  */
@@ -587,15 +635,10 @@ export function assertNonTeleportation(
         if (afterEntity.parentId || afterEntity.weldParentId) continue;
         
         // calculate distance moved
-        const dx = afterEntity.position.x - beforeEntity.position.x;
-        const dy = afterEntity.position.y - beforeEntity.position.y;
-        const distanceMoved = Math.sqrt(dx * dx + dy * dy) as FP;
+        const distanceMoved = fpDistance(beforeEntity.position, afterEntity.position);
         
         // calculate max allowed (velocity magnitude * multiplier)
-        const velocityMagnitude = Math.sqrt(
-            beforeEntity.velocity.x * beforeEntity.velocity.x +
-            beforeEntity.velocity.y * beforeEntity.velocity.y
-        ) as FP;
+        const velocityMagnitude = fpDistance(beforeEntity.velocity, { x: 0, y: 0 });
         const maxAllowed = (velocityMagnitude * velocityMultiplier) as FP;
         
         // allow for minimum movement (very slow entities)
@@ -637,7 +680,7 @@ export function assertWaveMassConservation(
     let allPassed = true;
     
     for (let i = 1; i < waveStates.length; i++) {
-        const result = assertMassConservation(
+        const result = assertBoundedMassConservation(
             waveStates[i - 1]!,
             waveStates[i]!,
             allowedLoss
@@ -673,9 +716,7 @@ export function assertVelocityContinuity(
         const beforeEntity = beforeMap.get(afterEntity.id);
         if (!beforeEntity) continue;
         
-        const dvx = Math.abs(afterEntity.velocity.x - beforeEntity.velocity.x);
-        const dvy = Math.abs(afterEntity.velocity.y - beforeEntity.velocity.y);
-        const dv = Math.sqrt(dvx * dvx + dvy * dvy) as FP;
+        const dv = fpDistance(beforeEntity.velocity, afterEntity.velocity);
         
         if (dv > maxVelocityChange) {
             violations.push(
@@ -703,6 +744,7 @@ export interface InvariantCheckResult {
     volumeConstraints: { passed: boolean; violations: string[] };
     noCircularContainment: { passed: boolean; violations: string[] };
     noCircularWeld: { passed: boolean; violations: string[] };
+    noOrphanedReferences: { passed: boolean; violations: string[] };
     tickAdvanced: boolean;
     summary: string;
 }
@@ -715,13 +757,14 @@ export function checkAllInvariants(
     after: GameState,
     allowedMassLoss: FP = 0
 ): InvariantCheckResult {
-    const massConservation = assertMassConservation(before, after, allowedMassLoss);
+    const massConservation = assertBoundedMassConservation(before, after, allowedMassLoss);
     const noNegativeMass = assertNoNegativeMass(after);
     const positionBinding = assertPositionBinding(after);
     const weldBinding = assertWeldBinding(after);
     const volumeConstraints = assertVolumeConstraints(after);
     const noCircularContainment = assertNoCircularContainment(after);
     const noCircularWeld = assertNoCircularWeld(after);
+    const noOrphanedReferences = assertNoOrphanedReferences(after);
     const tickAdvanced = assertTickAdvanced(before, after);
 
     const passed = 
@@ -732,6 +775,7 @@ export function checkAllInvariants(
         volumeConstraints.passed &&
         noCircularContainment.passed &&
         noCircularWeld.passed &&
+        noOrphanedReferences.passed &&
         tickAdvanced;
 
     const issues: string[] = [];
@@ -742,6 +786,7 @@ export function checkAllInvariants(
     if (!volumeConstraints.passed) issues.push('Volume constraints violated');
     if (!noCircularContainment.passed) issues.push('Circular containment detected');
     if (!noCircularWeld.passed) issues.push('Circular weld detected');
+    if (!noOrphanedReferences.passed) issues.push('Orphaned references detected');
     if (!tickAdvanced) issues.push('Tick did not advance');
 
     return {
@@ -753,6 +798,7 @@ export function checkAllInvariants(
         volumeConstraints,
         noCircularContainment,
         noCircularWeld,
+        noOrphanedReferences,
         tickAdvanced,
         summary: passed ? 'All invariants passed' : `Failures: ${issues.join(', ')}`,
     };
@@ -12,6 +12,7 @@ import type { DraftResult } from '../../engine/draft/draftService.js';
 import type { ActionQueue } from '../hooks/useGodState.js';
 import { fpToDisplay, FP_SCALE } from '../utils/fpConvert.js';
 import { getCelestialPosition } from '../../engine/primitive-types/semantic/celestial/celestial-types.js';
+import { getMaxThrustDeltaV, getThrustFuelCost } from '../../engine/state-handlers/state-systems/propulsionSystem.js';
 
 // -----------------------------------------------
 // Props
@@ -314,6 +315,17 @@ export function GodConsole({
         return gameState.entities.find(e => e.playerId === activePlayerId);
     }, [gameState.entities, activePlayerId]);
 
+    // thrust limits for the active ship: same formula the THRUST handler applies
+    const thrustLimits = useMemo(() => {
+        if (!activePlayerEntity) return null;
+        const maxDeltaV = getMaxThrustDeltaV(activePlayerEntity, gameState.entities);
+        const requested = Math.min(parseInt(thrustMagnitude, 10) || 0, maxDeltaV);
+        return {
+            maxDeltaV,
+            fuelCost: getThrustFuelCost(Math.max(requested, 0), activePlayerEntity.mass),
+        };
+    }, [activePlayerEntity, gameState.entities, thrustMagnitude]);
+
     // get current player's action queue
     const currentActions = actionQueue[activePlayerId] ?? [];
 
@@ -389,6 +401,9 @@ export function GodConsole({
     const updatePlayerMass = (value: number) => onUpdateGenesisConfig({ 
         playerStartingMass: value * FP_SCALE 
     });
+    const updatePlayerSpaceForce = (value: number) => onUpdateGenesisConfig({ 
+        playerStartingSpaceForce: value * FP_SCALE 
+    });
     const updatePlayerIds = (value: string) => onUpdateGenesisConfig({ 
         playerIds: value.split(',').map(s => s.trim()).filter(s => s.length > 0)
     });
@@ -550,6 +565,18 @@ export function GodConsole({
                                 min={1}
                             />
                         </div>
+
+                        {/* Player Starting Space Force */}
+                        <div style={STYLES.row}>
+                            <span style={STYLES.label}>Start Force:</span>
+                            <input
+                                type="number"
+                                value={Math.round(genesisConfig.playerStartingSpaceForce / FP_SCALE)}
+                                onChange={(e) => updatePlayerSpaceForce(parseInt(e.target.value) || 0)}
+                                style={STYLES.smallInput}
+                                min={0}
+                            />
+                        </div>
                     </>
                 )}
 
@@ -657,11 +684,18 @@ export function GodConsole({
                                 value={thrustMagnitude}
                                 onChange={(e) => setThrustMagnitude(e.target.value)}
                                 style={STYLES.smallInput}
+                                min={0}
+                                max={thrustLimits?.maxDeltaV}
                             />
                             <button style={STYLES.button} onClick={handleAddThrust}>
                                 +THRUST
                             </button>
                         </div>
+                        {thrustLimits && (
+                            <div style={STYLES.info}>
+                                Max Δv: {thrustLimits.maxDeltaV} | Fuel: {fpToDisplay(thrustLimits.fuelCost)}
+                            </div>
+                        )}
                     </div>
                 )}
 
@@ -687,6 +721,12 @@ export function GodConsole({
                             Conflicts: {draftResult.conflicts.length}
                         </div>
                     )}
+                    {draftResult.skills.map(({ actionIndex, entityId, projection }) => (
+                        <div key={actionIndex} style={STYLES.info}>
+                            {projection.actionType} {entityId}: x{fpToDisplay(projection.multiplier, 2)} → {fpToDisplay(projection.output)}
+                            {' '}| next x{fpToDisplay(projection.nextMultiplier, 2)} → {fpToDisplay(projection.nextOutput)}
+                        </div>
+                    ))}
                 </div>
             )}
 
@@ -345,7 +345,13 @@ function render(
         for (const ghostEntity of ghostState.entities) {
             // find matching current entity
             const currentEntity = gameState.entities.find(e => e.id === ghostEntity.id);
-            if (currentEntity) {
+            const predicted = draftResult.transits.find(t => t.entityId === ghostEntity.id);
+            if (currentEntity && predicted) {
+                // wormhole: line to the entry endpoint, ghost at the paired endpoint
+                const { entryPosition, exitPosition } = predicted.transit;
+                drawGhostLine(ctx, currentEntity.position, entryPosition, camera, width, height);
+                drawEntity(ctx, { ...ghostEntity, position: exitPosition }, camera, width, height, true);
+            } else if (currentEntity) {
                 // check if position changed
                 if (currentEntity.position.x !== ghostEntity.position.x ||
                     currentEntity.position.y !== ghostEntity.position.y) {
@@ -12,6 +12,7 @@ import { Server } from 'socket.io';
 import { resolveTick } from '../engine/state-handlers/tickResolver.js';
 import { GameStateRepository, type PlayerAction } from '../engine/data/gameStateRepository.js';
 import { generateUniverse } from '../engine/genesis/genesisService.js';
+import { redactPostures } from '../engine/state-handlers/state-systems/postureSystem.js';
 import type { GameState } from '../engine/state-types/state-types.js';
 import type { Action } from '../engine/primitive-types/semantic/action/action-types.js';
 import { toFP } from '../engine/primitive-types/euclidean/euclidean-types.js';
@@ -43,6 +44,7 @@ function createInitialState(): GameState {
         systemSpacing: toFP(10000000),
         playerStartingFuel: toFP(500),
         playerStartingMass: toFP(1000),
+        playerStartingSpaceForce: toFP(100000),
     });
 
     console.log(`[Genesis] Created ${state.systems.length} systems, ${state.celestials.length} celestials, ${state.entities.length} entities`);
@@ -156,31 +158,45 @@ currentState = initializeState();
 // Helper: build world state payload
 // -----------------------------------------------
 
-function buildWorldStatePayload(): WorldStatePayload {
+/**
+ * Build the payload for one viewer: other players' real postures are
+ * redacted, leaving only what they broadcast.
+ */
+function buildWorldStatePayload(viewerPlayerId?: string): WorldStatePayload {
     const nextTick = currentState.tick + 1;
     const pendingActions = repo.loadPendingActions(nextTick);
     
     return {
-        state: currentState,
+        state: redactPostures(currentState, viewerPlayerId),
         pendingActions,
     };
 }
 
+/**
+ * The player a socket views the world as, from its handshake query
+ * (`?playerId=...`). Sockets without one see every entity redacted.
+ */
+function getViewerPlayerId(socket: { handshake: { query: Record<string, unknown> } }): string | undefined {
+    const playerId = socket.handshake.query['playerId'];
+    return typeof playerId === 'string' ? playerId : undefined;
+}
+
 // -----------------------------------------------
 // Socket connection handling
 // -----------------------------------------------
 
 io.on('connection', (socket) => {
     console.log(`[MESH] Client connected: ${socket.id}`);
+    const viewerPlayerId = getViewerPlayerId(socket);
     
     // Send current state AND pending actions to newly connected client
     // This ensures ghosts appear immediately after browser refresh
-    socket.emit('STATE_UPDATE', buildWorldStatePayload());
+    socket.emit('STATE_UPDATE', buildWorldStatePayload(viewerPlayerId));
     
     // Handle explicit state request (for when client missed initial broadcast)
     socket.on('CMD_REQUEST_STATE', () => {
         console.log(`[MESH] State requested by: ${socket.id}`);
-        socket.emit('STATE_UPDATE', buildWorldStatePayload());
+        socket.emit('STATE_UPDATE', buildWorldStatePayload(viewerPlayerId));
     });
     
     // Handle action queueing - persist immediately, then broadcast
@@ -233,8 +249,11 @@ io.on('connection', (socket) => {
             
             console.log(`[MESH] Tick ${nextState.tick} resolved. ${pendingActions.length} actions processed.`);
             
-            // Broadcast new state with fresh pending actions (for next tick)
-            io.emit('TICK_EXECUTED', buildWorldStatePayload());
+            // Broadcast new state with fresh pending actions (for next tick),
+            // redacted for each client's own viewer
+            for (const client of io.sockets.sockets.values()) {
+                client.emit('TICK_EXECUTED', buildWorldStatePayload(getViewerPlayerId(client)));
+            }
             
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Unknown error';